@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native database drivers are loaded from node_modules instead of bundled
+  serverExternalPackages: ["@duckdb/node-api", "@duckdb/node-bindings"],
 };
 
 export default nextConfig;
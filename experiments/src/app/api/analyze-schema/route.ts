@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { complete, completeStructured, GLOSSARY_DESCRIPTIONS_OUTPUT, llmConfigError, StructuredOutputError } from "@/lib/llm";
+import { loadGlossary, saveGlossarySuggestions, type GlossaryLookup, type GlossarySuggestion } from "@/lib/glossary";
+import { DIALECT_LABELS } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { GLOSSARY_SUGGESTION, SCHEMA_ANALYSIS } from "@/lib/prompts";
 
 interface Column {
   name: string;
@@ -21,7 +21,7 @@ interface TableWithColumns {
 
 export async function POST(request: NextRequest) {
   try {
-    const { env, schema, tablesWithColumns } = await request.json();
+    const { env, schema, tablesWithColumns, suggestDescriptions } = await request.json();
     
     if (!env || !schema || !tablesWithColumns) {
       return NextResponse.json(
@@ -30,50 +30,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const llmError = llmConfigError("interpretation");
+    if (llmError) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: llmError },
         { status: 500 }
       );
     }
 
     // Build a comprehensive context of the schema
-    const schemaContext = buildSchemaContext(schema, tablesWithColumns);
-
-    // Create the prompt for schema analysis
-    const systemPrompt = `You are a database schema analyst expert. Your task is to analyze database schemas and provide insightful, comprehensive summaries.
-
-Your analysis should include:
-1. **Overview**: A brief summary of what this schema represents based on table names and structure
-2. **Key Tables**: Identify and describe the most important tables
-3. **Relationships**: Infer likely relationships between tables based on column names and foreign key patterns
-4. **Data Model Insights**: Describe the data model and its purpose
-5. **Notable Patterns**: Point out any interesting patterns, naming conventions, or design decisions
-6. **Potential Use Cases**: Suggest what kind of application or system this schema might support
-
-Be thorough but concise. Write in a clear, professional manner.`;
-
-    const userPrompt = `Analyze this PostgreSQL schema and provide a comprehensive summary:
-
-${schemaContext}
+    const glossary = await loadGlossary(env, schema);
+    const schemaContext = buildSchemaContext(schema, tablesWithColumns, glossary);
+
+    // Glossary mode: describe what isn't described yet instead of analyzing
+    if (suggestDescriptions) {
+      const { suggestions, promptVersion } = await suggestGlossary(schemaContext, tablesWithColumns, glossary);
+      const saved = await saveGlossarySuggestions(env, schema, suggestions);
+      return NextResponse.json({ suggestions: saved, promptVersion });
+    }
 
-Please provide a detailed analysis of this schema, including its structure, relationships, and potential purpose.`;
+    const prompt = SCHEMA_ANALYSIS.render({
+      dialect: DIALECT_LABELS[await getDialect(env)],
+      schemaContext,
+    });
 
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
+    // Call the configured model
+    const completion = await complete("interpretation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
       temperature: 0.7,
-      max_tokens: 2000,
+      maxTokens: 2000,
     });
 
-    const analysis = completion.choices[0]?.message?.content?.trim() || "";
+    const analysis = completion.content;
 
-    return NextResponse.json({ analysis });
+    return NextResponse.json({ analysis, promptVersion: prompt.promptVersion });
   } catch (error) {
+    // The model's reply never matched the response schema
+    if (error instanceof StructuredOutputError) {
+      console.error("Invalid glossary suggestion response:", error.errors, error.content);
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: error.status }
+      );
+    }
+
     console.error("Error analyzing schema:", error);
     return NextResponse.json(
       { error: "Failed to analyze schema" },
@@ -82,7 +83,45 @@ Please provide a detailed analysis of this schema, including its structure, rela
   }
 }
 
-function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[]): string {
+// Asks for one-line descriptions of the tables and columns the glossary
+// doesn't cover, keeping only names that exist in the schema
+async function suggestGlossary(
+  schemaContext: string,
+  tablesWithColumns: TableWithColumns[],
+  glossary: GlossaryLookup
+): Promise<{ suggestions: GlossarySuggestion[]; promptVersion?: string }> {
+  const undescribed = tablesWithColumns.flatMap((tableWithCols) => [
+    ...(glossary(tableWithCols.table) ? [] : [tableWithCols.table]),
+    ...tableWithCols.columns
+      .filter((col) => !glossary(tableWithCols.table, col.name))
+      .map((col) => `${tableWithCols.table}.${col.name}`),
+  ]);
+  if (undescribed.length === 0) return { suggestions: [] };
+
+  const prompt = GLOSSARY_SUGGESTION.render({
+    schemaContext,
+    undescribed: undescribed.join('\n'),
+  });
+
+  const { value } = await completeStructured("interpretation", {
+    messages: prompt.messages,
+    promptVersion: prompt.promptVersion,
+    temperature: 0.2,
+  }, GLOSSARY_DESCRIPTIONS_OUTPUT);
+
+  const requested = new Set(undescribed);
+  const suggestions: GlossarySuggestion[] = value.descriptions
+    .filter((item) => requested.has(item.column ? `${item.table}.${item.column}` : item.table))
+    .map((item) => ({
+      table: item.table,
+      ...(item.column ? { column: item.column } : {}),
+      description: item.description,
+    }));
+
+  return { suggestions, promptVersion: prompt.promptVersion };
+}
+
+function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[], glossary: GlossaryLookup): string {
   let context = `Schema: ${schema}\n\n`;
   context += `Total Tables: ${tablesWithColumns.length}\n`;
   context += `Total Columns: ${tablesWithColumns.reduce((sum, t) => sum + t.columns.length, 0)}\n\n`;
@@ -91,6 +130,10 @@ function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[
 
   tablesWithColumns.forEach((tableWithCols, idx) => {
     context += `${idx + 1}. Table: ${schema}.${tableWithCols.table} (${tableWithCols.type})\n`;
+    const tableDescription = glossary(tableWithCols.table);
+    if (tableDescription) {
+      context += `   Description: ${tableDescription}\n`;
+    }
     context += `   Columns (${tableWithCols.columns.length}):\n`;
     
     tableWithCols.columns.forEach((col) => {
@@ -100,7 +143,10 @@ function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[
       const nullable = col.nullable ? 'NULL' : 'NOT NULL';
       const defaultStr = col.default ? ` DEFAULT ${col.default}` : '';
       
-      context += `   - ${col.name}: ${typeStr} ${nullable}${defaultStr}\n`;
+      const description = glossary(tableWithCols.table, col.name);
+      const descriptionStr = description ? ` -- ${description}` : '';
+      
+      context += `   - ${col.name}: ${typeStr} ${nullable}${defaultStr}${descriptionStr}\n`;
     });
     
     context += '\n';
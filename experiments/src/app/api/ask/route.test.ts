@@ -0,0 +1,135 @@
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { closeDriver } from "@/lib/drivers";
+import { clearFakeResponses, registerFakeResponses } from "@/lib/llm";
+import type { AskEvent, AskStage, AskStageData } from "@/lib/ask-pipeline";
+import { POST } from "./route";
+
+const ENV = "ask-test";
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "ask-route-"));
+  const filePath = path.join(dir, "shop.db");
+
+  const db = new Database(filePath);
+  db.exec(`
+    CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT);
+    CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER REFERENCES customers(id), total INTEGER);
+    INSERT INTO customers VALUES (1, 'Ada'), (2, 'Grace');
+    INSERT INTO orders VALUES (1, 1, 10), (2, 1, 20), (3, 2, 5);
+  `);
+  db.close();
+
+  process.env.DATA_DIR = path.join(dir, "data");
+  process.env.CUSTOM_ENVIRONMENTS = JSON.stringify([{ name: ENV, url: `sqlite:${filePath}` }]);
+});
+
+afterAll(async () => {
+  await closeDriver(ENV);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  clearFakeResponses();
+});
+
+async function ask(body: Record<string, unknown>): Promise<AskEvent[]> {
+  const response = await POST(new NextRequest("http://localhost/api/ask", {
+    method: "POST",
+    body: JSON.stringify({ env: ENV, schema: "main", ...body }),
+  }));
+  expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => JSON.parse(chunk.split("\n").find((line) => line.startsWith("data: "))!.slice(6)) as AskEvent);
+}
+
+function stageData<S extends AskStage>(events: AskEvent[], stage: S): AskStageData[S] | undefined {
+  const event = events.find((entry) => entry.type === "stage_completed" && entry.stage === stage);
+  return event?.type === "stage_completed" ? (event.data as AskStageData[S]) : undefined;
+}
+
+describe("POST /api/ask", () => {
+  it("answers a question end to end with the fake provider", async () => {
+    registerFakeResponses([
+      { match: "candidate tables", response: '{"tables":["orders","customers"]}' },
+      {
+        task: "generation",
+        match: "/./",
+        response: "SELECT c.name, SUM(o.total) AS total FROM orders o JOIN customers c ON c.id = o.customer_id GROUP BY c.name ORDER BY c.name",
+      },
+    ]);
+
+    const events = await ask({ question: "Total spent per customer" });
+
+    const completed = events.flatMap((event) => (event.type === "stage_completed" ? [event.stage] : []));
+    expect(completed).toEqual(["tables", "columns", "sql", "execute", "evaluate", "interpret"]);
+
+    expect(stageData(events, "execute")?.result?.rows).toEqual([
+      { name: "Ada", total: 30 },
+      { name: "Grace", total: 5 },
+    ]);
+
+    expect(events[events.length - 1]).toEqual({ type: "done", status: "completed" });
+  });
+
+  it("fails a run whose query fails, after grading it", async () => {
+    const events = await ask({
+      question: "Total spent per customer",
+      sql: "SELECT missing_column FROM orders",
+      tablesWithColumns: [],
+      stages: ["execute", "evaluate", "interpret"],
+      repairAttempts: 0,
+    });
+
+    expect(stageData(events, "execute")?.error).toMatch(/missing_column/);
+    expect(stageData(events, "evaluate")).toBeDefined();
+    expect(events[events.length - 1]).toMatchObject({ type: "done", status: "failed", error: expect.stringMatching(/missing_column/) });
+  });
+
+  it("refines a query from its evaluation and runs the refined one", async () => {
+    registerFakeResponses([
+      { task: "generation", match: "Quality Evaluation", response: "```sql\nSELECT COUNT(*) AS orders FROM orders\n```" },
+    ]);
+
+    const events = await ask({
+      question: "How many orders are there?",
+      sql: "SELECT * FROM orders",
+      tablesWithColumns: [],
+      evaluation: { score: 0.3, summary: "Lists orders instead of counting them", strengths: [], issues: ["No count"], suggestions: "Use COUNT(*)" },
+      executionResult: { success: true, rowCount: 3, columns: ["id", "customer_id", "total"] },
+      stages: ["refine", "execute", "evaluate"],
+    });
+
+    expect(stageData(events, "refine")?.sql).toBe("SELECT COUNT(*) AS orders FROM orders");
+    expect(stageData(events, "execute")?.result?.rows).toEqual([{ orders: 3 }]);
+    expect(events[events.length - 1]).toEqual({ type: "done", status: "completed" });
+  });
+
+  it("rejects a refinement without an evaluation", async () => {
+    const response = await POST(new NextRequest("http://localhost/api/ask", {
+      method: "POST",
+      body: JSON.stringify({ env: ENV, schema: "main", question: "q", sql: "SELECT 1", stages: ["refine", "execute"] }),
+    }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects a request without a question", async () => {
+    const response = await POST(new NextRequest("http://localhost/api/ask", {
+      method: "POST",
+      body: JSON.stringify({ env: ENV, schema: "main" }),
+    }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Question, environment and schema are required" });
+  });
+});
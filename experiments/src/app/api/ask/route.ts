@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEnvironment } from "@/lib/environments";
+import { runAskPipeline, validateAskRequest, type AskEvent, type AskRequest } from "@/lib/ask-pipeline";
+
+// Runs the whole question-to-answer pipeline and streams its progress as
+// server-sent events, one per stage transition:
+//   event: stage_started    data: {"type":"stage_started","stage":"sql"}
+//   event: stage_completed  data: {"type":"stage_completed","stage":"sql","data":{...}}
+//   event: stage_skipped / stage_failed, then always a final
+//   event: done             data: {"type":"done","status":"completed"}
+// The body is an AskRequest; see src/lib/ask-pipeline.ts for the stages.
+// Closing the connection stops the pipeline and cancels a running query.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationError = validateAskRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const environment = await getEnvironment(body.env);
+
+    if (!environment) {
+      return NextResponse.json(
+        { error: `Environment "${body.env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    let closed = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: AskEvent) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        };
+
+        try {
+          await runAskPipeline(body as AskRequest, send, abort.signal);
+        } catch (error) {
+          console.error("Error running ask pipeline:", error);
+          send({ type: "done", status: "failed", error: "Failed to answer the question" });
+        } finally {
+          if (!closed) controller.close();
+        }
+      },
+      cancel() {
+        // The client went away
+        closed = true;
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error answering question:", error);
+    return NextResponse.json(
+      { error: "Failed to answer the question" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Client } from "pg";
+import { getDriver } from "@/lib/drivers";
+import { recordSchemaVersion } from "@/lib/snapshot-history";
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,44 +13,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const connectionString = process.env.DEMO_POSTGRES_DATABASE_URL;
-    
-    if (!connectionString) {
+    const driver = await getDriver(env);
+
+    if (!driver) {
       return NextResponse.json(
-        { error: "Database connection string not configured" },
-        { status: 500 }
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
       );
     }
 
-    const client = new Client({ 
-      connectionString,
-      ssl: {
-        rejectUnauthorized: false
-      }
-    });
-    await client.connect();
-
-    // Query to get column information for the table
-    const result = await client.query(`
-      SELECT 
-        column_name,
-        data_type,
-        is_nullable,
-        column_default,
-        character_maximum_length
-      FROM information_schema.columns
-      WHERE table_schema = $1 AND table_name = $2
-      ORDER BY ordinal_position;
-    `, [schema, table]);
+    // Keep the schema's version history current; listing never waits on it
+    recordSchemaVersion(env, driver, schema).catch((error) => console.error("Error recording schema version:", error));
 
-    await client.end();
+    // Column information for the table
+    const rows = await driver.listColumns(schema, table);
 
-    const columns = result.rows.map((row) => ({
-      name: row.column_name,
-      type: row.data_type,
-      nullable: row.is_nullable === 'YES',
-      default: row.column_default,
-      maxLength: row.character_maximum_length
+    const columns = rows.map((row) => ({
+      name: row.name,
+      type: row.type,
+      nullable: row.nullable,
+      default: row.default,
+      maxLength: row.maxLength
     }));
     
     return NextResponse.json({ columns });
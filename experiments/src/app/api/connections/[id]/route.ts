@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteConnection,
+  updateConnection,
+  validateConnectionInput,
+} from "@/lib/connections";
+import { closePool } from "@/lib/db";
+import { closeDriver } from "@/lib/drivers";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, url, sslMode, sslCa } = await request.json();
+
+    const validationError = validateConnectionInput({ name, url, sslMode, sslCa }, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const connection = await updateConnection(id, { name, url, sslMode, sslCa });
+    // Drop pooled sockets (or open files) that still use the old settings
+    await closePool(id);
+    await closeDriver(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Connection not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ connection });
+  } catch (error) {
+    console.error("Error updating connection:", error);
+    return NextResponse.json(
+      { error: "Failed to update connection" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteConnection(id);
+    await closePool(id);
+    await closeDriver(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Connection not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting connection:", error);
+    return NextResponse.json(
+      { error: "Failed to delete connection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createConnection,
+  listConnectionSummaries,
+  validateConnectionInput,
+} from "@/lib/connections";
+import { hasEncryptionKey } from "@/lib/secrets";
+
+export async function GET() {
+  try {
+    const connections = await listConnectionSummaries();
+
+    return NextResponse.json({ connections, encryptionConfigured: hasEncryptionKey() });
+  } catch (error) {
+    console.error("Error listing connections:", error);
+    return NextResponse.json(
+      { error: "Failed to list connections" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, url, sslMode, sslCa } = await request.json();
+
+    const validationError = validateConnectionInput({ name, url, sslMode, sslCa });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (!hasEncryptionKey()) {
+      return NextResponse.json(
+        { error: "CONNECTION_ENCRYPTION_KEY is not configured" },
+        { status: 500 }
+      );
+    }
+
+    const connection = await createConnection({ name, url, sslMode, sslCa });
+
+    return NextResponse.json({ connection }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating connection:", error);
+    return NextResponse.json(
+      { error: "Failed to create connection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSavedConnection,
+  testConnection,
+  validateConnectionInput,
+} from "@/lib/connections";
+import { detectDialect } from "@/lib/dialects";
+import { testDriverConnection } from "@/lib/drivers";
+import { toSslConfig } from "@/lib/environments";
+
+// Tests either a saved connection (by id) or unsaved form values.
+// When both are given, form values override the saved ones.
+export async function POST(request: NextRequest) {
+  try {
+    const { id, url, sslMode, sslCa } = await request.json();
+
+    const saved = id ? await getSavedConnection(id) : undefined;
+    if (id && !saved) {
+      return NextResponse.json(
+        { error: "Connection not found" },
+        { status: 404 }
+      );
+    }
+
+    const connectionString = url || saved?.connectionString;
+    const validationError = validateConnectionInput({ url: connectionString, sslMode }, true);
+    if (!connectionString || validationError) {
+      return NextResponse.json(
+        { error: validationError || "Connection URL or id is required" },
+        { status: 400 }
+      );
+    }
+
+    const dialect = detectDialect(connectionString);
+    const effectiveSslMode = sslMode || saved?.sslMode || "verify-full";
+    const effectiveSslCa = sslCa || saved?.sslCa;
+
+    const result = dialect === "postgres"
+      ? await testConnection({ connectionString, ssl: toSslConfig(effectiveSslMode, effectiveSslCa) })
+      : await testDriverConnection({ connectionString, sslMode: effectiveSslMode, sslCa: effectiveSslCa });
+
+    return NextResponse.json({ ...result, dialect });
+  } catch (error) {
+    console.error("Error testing connection:", error);
+    return NextResponse.json(
+      { error: "Failed to test connection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDriver } from "@/lib/drivers";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { env } = await request.json();
+
+    if (!env) {
+      return NextResponse.json(
+        { error: "Environment is required" },
+        { status: 400 }
+      );
+    }
+
+    const driver = await getDriver(env);
+
+    if (!driver) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const health = await driver.checkHealth();
+
+    return NextResponse.json({ health });
+  } catch (error) {
+    console.error("Error checking environment health:", error);
+    return NextResponse.json(
+      { error: "Failed to check environment health" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { listEnvironments, toEnvironmentSummary } from "@/lib/environments";
+
+export async function GET() {
+  try {
+    const environments = (await listEnvironments()).map(toEnvironmentSummary);
+
+    return NextResponse.json({ environments });
+  } catch (error) {
+    console.error("Error listing environments:", error);
+    return NextResponse.json(
+      { error: "Failed to list environments" },
+      { status: 500 }
+    );
+  }
+}
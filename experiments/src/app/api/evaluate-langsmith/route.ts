@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { Client } from "langsmith";
 import { createLLMAsJudge, CORRECTNESS_PROMPT } from "openevals";
-import { wrapOpenAI } from "langsmith/wrappers";
-import OpenAI from "openai";
 import { evaluate } from "langsmith/evaluation";
+import { complete, llmConfigError, resolveModel } from "@/lib/llm";
+import { QUESTION_ANSWERING } from "@/lib/prompts";
 
 // POST endpoint to run LangSmith evaluation
 export async function POST(request: Request) {
@@ -67,26 +67,21 @@ export async function POST(request: Request) {
       console.log(`Added ${examples.length} examples to dataset`);
     }
 
-    // Wrap the OpenAI client for LangSmith tracing
-    const openai = wrapOpenAI(new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    }));
-
     // Define the target function - the application logic to evaluate
     async function target(inputs: {
       question: string;
     }): Promise<{ answer: string }> {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: "Answer the following question accurately" },
-          { role: "user", content: inputs.question },
-        ],
+      const prompt = QUESTION_ANSWERING.render({ question: inputs.question });
+      const response = await complete("evaluation", {
+        messages: prompt.messages,
+        promptVersion: prompt.promptVersion,
       });
-      return { answer: response.choices[0].message.content?.trim() || "" };
+      return { answer: response.content };
     }
 
-    // Define the correctness evaluator using LLM as a judge
+    // Define the correctness evaluator using LLM as a judge. openevals
+    // calls OpenAI itself, so the judge needs OPENAI_API_KEY whatever the
+    // configured provider.
     const correctnessEvaluator = async (params: {
       inputs: Record<string, unknown>;
       outputs: Record<string, unknown>;
@@ -105,12 +100,16 @@ export async function POST(request: Request) {
       return evaluatorResult;
     };
 
+    // Recorded on the experiment so runs can be compared by prompt
+    const promptVersion = QUESTION_ANSWERING.promptVersion;
+
     // Run the evaluation
-    const results = await evaluate(target, {
+    await evaluate(target, {
       data: datasetName,
       evaluators: [correctnessEvaluator],
       experimentPrefix,
       maxConcurrency: 2,
+      metadata: { promptVersion },
     });
 
     return NextResponse.json({
@@ -118,6 +117,7 @@ export async function POST(request: Request) {
       message: "Evaluation completed successfully",
       datasetId: dataset.id,
       datasetName,
+      promptVersion,
       results: {
         experimentPrefix,
         // The evaluate function returns results that can be viewed in LangSmith UI
@@ -140,12 +140,15 @@ export async function POST(request: Request) {
 export async function GET() {
   const hasLangSmithKey = !!process.env.LANGSMITH_API_KEY;
   const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
+  const evaluation = resolveModel("evaluation");
   
   return NextResponse.json({
     status: "ready",
     configuration: {
       langsmithConfigured: hasLangSmithKey,
       openaiConfigured: hasOpenAIKey,
+      llmConfigured: !llmConfigError("evaluation"),
+      evaluationModel: `${evaluation.provider}:${evaluation.model}`,
       langsmithEndpoint: process.env.LANGSMITH_ENDPOINT || "https://api.smith.langchain.com",
       tracingEnabled: process.env.LANGSMITH_TRACING === "true",
     },
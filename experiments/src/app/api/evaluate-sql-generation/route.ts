@@ -1,16 +1,13 @@
 import { NextResponse } from "next/server";
 import { Client } from "langsmith";
 import { createLLMAsJudge } from "openevals";
-import { wrapOpenAI } from "langsmith/wrappers";
-import OpenAI from "openai";
 import { evaluate } from "langsmith/evaluation";
+import { complete, completeStructured, llmConfigError, REFERENCE_EVALUATION_OUTPUT, resolveModel } from "@/lib/llm";
+import { DIALECT_LABELS, dialectPromptRules } from "@/lib/dialects";
+import { SQL_GENERATION, SQL_REFERENCE_EVALUATION } from "@/lib/prompts";
 
 // Use a simpler custom evaluator that works with the actual data structure
 async function createSQLCorrectnessEvaluator() {
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-
   return async (params: {
     inputs: Record<string, unknown>;
     outputs: Record<string, unknown>;
@@ -21,50 +18,21 @@ async function createSQLCorrectnessEvaluator() {
     const expectedSQL = params.referenceOutputs?.sql || "";
     const explanation = params.referenceOutputs?.explanation || "";
 
-    const evaluationPrompt = `You are an expert SQL evaluator. Evaluate whether the generated SQL query correctly answers the user's natural language question.
-
-Consider the following criteria:
-1. **Syntax Correctness**: Is the SQL syntactically valid for PostgreSQL?
-2. **Semantic Accuracy**: Does the query semantically match what the user asked for?
-3. **Schema Usage**: Does it correctly use the provided schema (tables, columns, joins)?
-4. **Best Practices**: Does it follow SQL best practices (proper JOINs, qualified table names, etc.)?
-5. **Completeness**: Does it fully address the user's question?
-
-User's Question: "${question}"
-
-Expected Behavior: ${explanation}
-Reference SQL: ${expectedSQL}
-
-Generated SQL: ${actualSQL}
-
-Provide a score from 0.0 to 1.0 where:
-- 1.0 = Perfect, production-ready SQL
-- 0.7-0.9 = Good SQL with minor issues
-- 0.4-0.6 = Functional but has problems
-- 0.0-0.3 = Incorrect or broken SQL
-
-Respond with ONLY a JSON object in this exact format:
-{"score": 0.0, "reasoning": "your detailed reasoning here"}`;
+    const prompt = SQL_REFERENCE_EVALUATION.render({
+      dialect: DIALECT_LABELS.postgres,
+      question: String(question),
+      explanation: String(explanation),
+      referenceSql: String(expectedSQL),
+      sql: actualSQL,
+    });
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert SQL evaluator. Always respond with valid JSON only.",
-          },
-          {
-            role: "user",
-            content: evaluationPrompt,
-          },
-        ],
+      const { value: result } = await completeStructured("evaluation", {
+        messages: prompt.messages,
+        promptVersion: prompt.promptVersion,
         temperature: 0.2,
-        response_format: { type: "json_object" },
-      });
+      }, REFERENCE_EVALUATION_OUTPUT);
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      
       return {
         key: "sql_correctness",
         score: result.score,
@@ -250,11 +218,6 @@ export async function POST(request: Request) {
       console.log(`Added ${examples.length} SQL examples to dataset`);
     }
 
-    // Wrap the OpenAI client for LangSmith tracing
-    const openai = wrapOpenAI(new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    }));
-
     // Define the target function - SQL generation
     async function generateSQL(inputs: {
       question: string;
@@ -271,39 +234,30 @@ export async function POST(request: Request) {
         return `  ${inputs.schema}.${tableInfo.table}:\n${cols}`;
       }).join('\n\n');
 
-      const systemPrompt = `You are an expert PostgreSQL SQL query generator. Generate SQL queries based on natural language requests.
-
-Rules:
-1. Return ONLY the SQL query, no explanations or markdown formatting
-2. Use proper PostgreSQL syntax
-3. Always use schema-qualified table names (schema.table)
-4. Consider the column types when generating queries
-5. Use appropriate WHERE clauses, JOINs, and aggregations as needed
-6. For date/time queries, use PostgreSQL date functions
-7. Make queries efficient`;
-
-      const userPrompt = `Given the following PostgreSQL schema:
-
-Schema: ${inputs.schema}
-
-Available Tables and Columns:
-${schemaContext}
-
-Generate a SQL query for: "${inputs.question}"
-
-Return ONLY the SQL query.`;
+      // The dataset's examples are written for PostgreSQL
+      const prompt = SQL_GENERATION.render({
+        dialect: DIALECT_LABELS.postgres,
+        dialectRules: dialectPromptRules("postgres"),
+        schema: inputs.schema,
+        table: '',
+        columns: schemaContext,
+        sampleData: '',
+        profiles: '',
+        semantics: '',
+        conversation: '',
+        question: inputs.question,
+        hasConstraints: false,
+      });
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
+      // Evaluates the model configured for generation (traced by the provider)
+      const response = await complete("generation", {
+        messages: prompt.messages,
+        promptVersion: prompt.promptVersion,
         temperature: 0.3,
-        max_tokens: 500,
+        maxTokens: 500,
       });
 
-      const sql = response.choices[0].message.content?.trim() || "";
+      const sql = response.content;
       
       // Clean up the SQL
       const cleanedSQL = sql
@@ -314,6 +268,12 @@ Return ONLY the SQL query.`;
       return { sql: cleanedSQL };
     }
 
+    // Recorded on the experiment so runs can be compared by prompt
+    const promptVersions = {
+      generation: SQL_GENERATION.promptVersion,
+      evaluation: SQL_REFERENCE_EVALUATION.promptVersion,
+    };
+
     // Create the SQL correctness evaluator
     const sqlCorrectnessEvaluator = await createSQLCorrectnessEvaluator();
 
@@ -323,6 +283,7 @@ Return ONLY the SQL query.`;
       evaluators: [sqlCorrectnessEvaluator],
       experimentPrefix,
       maxConcurrency: 2,
+      metadata: { promptVersions },
     });
 
     return NextResponse.json({
@@ -330,6 +291,7 @@ Return ONLY the SQL query.`;
       message: "SQL evaluation completed successfully",
       datasetId: dataset.id,
       datasetName,
+      promptVersions,
       results: {
         experimentPrefix,
         message: "Check LangSmith UI for detailed SQL evaluation results including syntax, semantic accuracy, and best practices scores",
@@ -350,13 +312,16 @@ Return ONLY the SQL query.`;
 // GET endpoint to check API status
 export async function GET() {
   const hasLangSmithKey = !!process.env.LANGSMITH_API_KEY;
-  const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
+  const generation = resolveModel("generation");
+  const evaluation = resolveModel("evaluation");
   
   return NextResponse.json({
     status: "ready",
     configuration: {
       langsmithConfigured: hasLangSmithKey,
-      openaiConfigured: hasOpenAIKey,
+      llmConfigured: !llmConfigError("generation") && !llmConfigError("evaluation"),
+      generationModel: `${generation.provider}:${generation.model}`,
+      evaluationModel: `${evaluation.provider}:${evaluation.model}`,
     },
     description: "SQL generation evaluation endpoint - evaluates SQL query quality, syntax, and semantic correctness",
   });
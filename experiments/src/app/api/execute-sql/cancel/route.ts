@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPool } from "@/lib/db";
+import { getEnvironment } from "@/lib/environments";
+import { cancelQuery, isValidQueryId } from "@/lib/running-queries";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { env, queryId } = await request.json();
+
+    if (!env || !isValidQueryId(queryId)) {
+      return NextResponse.json(
+        { error: "Environment and a valid queryId are required" },
+        { status: 400 }
+      );
+    }
+
+    const environment = await getEnvironment(env);
+
+    if (!environment) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    // Only PostgreSQL queries are registered for cancellation
+    const pool = await getPool(env);
+    if (!pool) {
+      return NextResponse.json({ cancelled: false, queryId });
+    }
+
+    // The query may have finished between the click and this request, or
+    // not have started yet (pending: it is cancelled as soon as it starts)
+    const outcome = await cancelQuery(pool, { env, queryId });
+
+    return NextResponse.json({ cancelled: outcome === "cancelled", pending: outcome === "pending", queryId });
+  } catch (error) {
+    console.error("Error cancelling query:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel query" },
+      { status: 500 }
+    );
+  }
+}
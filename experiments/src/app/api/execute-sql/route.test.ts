@@ -0,0 +1,94 @@
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { closeDriver } from "@/lib/drivers";
+import { closeCursor, fetchNextPage, openCursor, type CursorPage } from "@/lib/query-cursors";
+import { POST } from "./route";
+
+// Streaming uses PostgreSQL cursors; these stand in for a cursor over
+// PAGES batches of one row each
+const PAGES = 5;
+
+vi.mock("@/lib/db", () => ({ getPool: vi.fn(async () => ({})) }));
+vi.mock("@/lib/running-queries", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/running-queries")>()),
+  cancelQuery: vi.fn(async () => true),
+}));
+vi.mock("@/lib/query-cursors", () => {
+  const page = (index: number): CursorPage => ({
+    columns: ["n"],
+    rows: [{ n: index }],
+    nextPageToken: index < PAGES ? `page-${index + 1}` : undefined,
+    truncated: false,
+  });
+  return {
+    openCursor: vi.fn(async () => page(1)),
+    fetchNextPage: vi.fn(async (token: string) => page(Number(token.slice(5)))),
+    closeCursor: vi.fn(async () => {}),
+  };
+});
+
+const ENV = "stream-test";
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "execute-sql-route-"));
+  const filePath = path.join(dir, "empty.db");
+  new Database(filePath).close();
+  process.env.CUSTOM_ENVIRONMENTS = JSON.stringify([{ name: ENV, url: `sqlite:${filePath}` }]);
+});
+
+afterAll(async () => {
+  await closeDriver(ENV);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+async function streamQuery(): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+  const response = await POST(new NextRequest("http://localhost/api/execute-sql", {
+    method: "POST",
+    body: JSON.stringify({ env: ENV, sql: "SELECT n FROM numbers", stream: true }),
+  }));
+  expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+  return response.body!.getReader();
+}
+
+describe("POST /api/execute-sql with stream: true", () => {
+  it("fetches each batch only when the client reads", async () => {
+    const reader = await streamQuery();
+
+    const decoder = new TextDecoder();
+    const first = await reader.read();
+    expect(decoder.decode(first.value)).toContain('"type":"columns"');
+    expect(openCursor).toHaveBeenCalledTimes(1);
+    // Nothing is read ahead beyond the stream's one-chunk buffer
+    expect(vi.mocked(fetchNextPage).mock.calls.length).toBeLessThanOrEqual(1);
+
+    let text = decoder.decode(first.value);
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      text += decoder.decode(chunk.value);
+    }
+
+    const events = text.trim().split("\n").map((line) => JSON.parse(line));
+    expect(events.filter((event) => event.type === "rows").flatMap((event) => event.rows)).toEqual(
+      Array.from({ length: PAGES }, (_, index) => ({ n: index + 1 }))
+    );
+    expect(events[events.length - 1]).toEqual({ type: "end", rowCount: PAGES, truncated: false });
+    expect(fetchNextPage).toHaveBeenCalledTimes(PAGES - 1);
+  });
+
+  it("closes the cursor when the client goes away", async () => {
+    const reader = await streamQuery();
+    await reader.read();
+    await reader.cancel();
+
+    expect(closeCursor).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fetchNextPage).mock.calls.length).toBeLessThan(PAGES - 1);
+  });
+});
@@ -1,61 +1,138 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Client } from "pg";
+import { randomUUID } from "crypto";
+import type { Pool } from "pg";
+import { getPool } from "@/lib/db";
+import { getDriver, type DatabaseDriver } from "@/lib/drivers";
+import { getEnvironment, type QueryGuardrails } from "@/lib/environments";
+import { closeCursor, fetchNextPage, openCursor, type CursorPage } from "@/lib/query-cursors";
+import { cancelQuery, isValidQueryId, type QueryHandle } from "@/lib/running-queries";
+import { checkQuery, clampPageSize, describeExecutionError, runQuery } from "@/lib/sql-execution";
+import { clampRepairAttempts, MAX_REPAIR_ATTEMPTS, runWithRepairs } from "@/lib/sql-repair";
 
+const STREAM_BATCH_SIZE = 500;
+
+// Modes:
+// - { env, sql }: run once and return every row (up to the row cap)
+// - { env, sql, pageSize }: return the first page plus a nextPageToken
+// - { env, pageToken, pageSize }: return the next page of an earlier query
+// - { env, sql, stream: true }: stream rows as NDJSON
+// - { env, sql, repairAttempts, question, schema, tablesWithColumns? }: like
+//   the first two, but queries the database rejects are repaired and re-run
+//   up to repairAttempts times; the response adds the sql that ran and
+//   every attempt
+// Every mode accepts an optional queryId (generated when missing) and echoes
+// it back; POST /api/execute-sql/cancel stops the query while it runs, or
+// as soon as it starts when the cancel gets there first.
+// Failures carry an errorType of "timeout", "cancelled" or "error".
+// When the environment has cost thresholds, queries above them are refused,
+// or need confirmCost: true (the response then has confirmationRequired).
+// Cursors, cost checks and cancellation are PostgreSQL features; other
+// dialects answer paged and streamed requests with the whole capped
+// result as a single page or batch.
 export async function POST(request: NextRequest) {
   try {
-    const { env, sql } = await request.json();
-    
-    if (!env || !sql) {
+    const {
+      env, sql, pageSize, pageToken, stream, confirmCost, queryId: requestedQueryId,
+      repairAttempts, question, schema, tablesWithColumns,
+    } = await request.json();
+
+    if (!env || (!sql && !pageToken)) {
       return NextResponse.json(
         { error: "Environment and SQL are required" },
         { status: 400 }
       );
     }
 
-    const connectionString = process.env.DEMO_POSTGRES_DATABASE_URL;
-    
-    if (!connectionString) {
+    if (repairAttempts !== undefined) {
+      if (clampRepairAttempts(repairAttempts, -1) !== repairAttempts) {
+        return NextResponse.json(
+          { error: `repairAttempts must be a whole number from 0 to ${MAX_REPAIR_ATTEMPTS}` },
+          { status: 400 }
+        );
+      }
+      if (stream || pageToken || typeof question !== "string" || typeof schema !== "string") {
+        return NextResponse.json(
+          { error: "Repairs need a question and schema, and don't apply to streamed requests or later pages" },
+          { status: 400 }
+        );
+      }
+      if (tablesWithColumns !== undefined && !Array.isArray(tablesWithColumns)) {
+        return NextResponse.json(
+          { error: "tablesWithColumns must be an array" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const environment = await getEnvironment(env);
+    const driver = environment ? await getDriver(env) : undefined;
+
+    if (!environment || !driver) {
       return NextResponse.json(
-        { error: "Database connection string not configured" },
-        { status: 500 }
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
       );
     }
 
-    const client = new Client({ 
-      connectionString,
-      ssl: {
-        rejectUnauthorized: false
+    const size = clampPageSize(pageSize);
+    const { guardrails } = environment;
+
+    if (pageToken) {
+      const queryId = isValidQueryId(requestedQueryId) ? requestedQueryId : randomUUID();
+      try {
+        const page = await fetchNextPage(String(pageToken), env, size, queryId);
+
+        if (!page) {
+          return NextResponse.json(
+            { error: "Page token is invalid or has expired; run the query again", queryId },
+            { status: 410 }
+          );
+        }
+
+        return NextResponse.json({
+          result: { ...page, rowCount: page.rows.length },
+          error: null,
+          queryId
+        });
+      } catch (execError) {
+        console.error("Error fetching next page:", execError);
+        return NextResponse.json({
+          result: undefined,
+          ...describeExecutionError(execError, guardrails, "Failed to fetch rows"),
+          queryId
+        });
       }
-    });
-    
-    await client.connect();
-
-    let executionResult;
-    let executionError = null;
-
-    try {
-      const result = await client.query(sql);
-      
-      // Get column names from the result
-      const columns = result.fields.map(field => field.name);
-      const rows = result.rows;
-      
-      executionResult = {
-        columns,
-        rows,
-        rowCount: result.rowCount || 0
-      };
-    } catch (execError: any) {
-      console.error("Error executing SQL:", execError);
-      executionError = execError.message || "Failed to execute SQL";
-    } finally {
-      await client.end();
     }
 
-    return NextResponse.json({ 
-      result: executionResult,
-      error: executionError
-    });
+    if (stream) {
+      const check = await checkQuery(environment, String(sql), { queryId: requestedQueryId, confirmCost });
+      if (!check.ok) {
+        return NextResponse.json(check.response);
+      }
+
+      const pool = await getPool(env);
+      return pool
+        ? streamRows(pool, { env, queryId: check.queryId }, check.statement, guardrails)
+        : streamResult(driver, check.statement, guardrails, check.queryId);
+    }
+
+    const options = { pageSize, queryId: requestedQueryId, confirmCost };
+
+    if (repairAttempts !== undefined) {
+      const run = await runWithRepairs({
+        environment,
+        driver,
+        sql: String(sql),
+        options,
+        question,
+        schema,
+        tablesWithColumns,
+        maxRepairs: repairAttempts,
+      });
+      return NextResponse.json({ ...run.execution, sql: run.sql, attempts: run.attempts });
+    }
+
+    return NextResponse.json(await runQuery(environment, driver, String(sql), options));
   } catch (error) {
     console.error("Error executing SQL:", error);
     return NextResponse.json(
@@ -65,3 +142,113 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// One JSON object per line:
+// {"type":"columns","columns":[...],"queryId":"..."}, {"type":"rows","rows":[...]} (repeated),
+// then {"type":"end","rowCount":n,"truncated":bool} or {"type":"error","error":"...","errorType":"..."}
+// Batches are fetched as the client reads them, so a slow client holds the
+// cursor open instead of the server buffering every row.
+function streamRows(pool: Pool, handle: QueryHandle, statement: string, guardrails: QueryGuardrails) {
+  const { env, queryId } = handle;
+  const encoder = new TextEncoder();
+  let pageToken: string | undefined;
+  let rowCount = 0;
+  let cancelled = false;
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: Record<string, unknown>) => {
+    controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+  };
+
+  // Sends the page's rows, and the end of the stream after the last page
+  const sendPage = (controller: ReadableStreamDefaultController<Uint8Array>, page: CursorPage) => {
+    pageToken = page.nextPageToken;
+    rowCount += page.rows.length;
+    if (page.rows.length > 0) send(controller, { type: "rows", rows: page.rows });
+    if (!pageToken) {
+      send(controller, { type: "end", rowCount, truncated: page.truncated });
+      controller.close();
+    }
+  };
+
+  const fail = (controller: ReadableStreamDefaultController<Uint8Array>, error: unknown) => {
+    console.error("Error streaming SQL results:", error);
+    pageToken = undefined;
+    send(controller, { type: "error", ...describeExecutionError(error, guardrails, "Failed to execute SQL") });
+    controller.close();
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const page = await openCursor(pool, env, statement, guardrails, STREAM_BATCH_SIZE, queryId);
+        if (cancelled) {
+          if (page.nextPageToken) await closeCursor(page.nextPageToken);
+          return;
+        }
+        send(controller, { type: "columns", columns: page.columns, queryId });
+        sendPage(controller, page);
+      } catch (error) {
+        if (!cancelled) fail(controller, error);
+      }
+    },
+    async pull(controller) {
+      if (!pageToken) return;
+      try {
+        const page = await fetchNextPage(pageToken, env, STREAM_BATCH_SIZE, queryId);
+        if (cancelled) return;
+        if (!page) {
+          throw new Error("The cursor was closed before every row was read; run the query again");
+        }
+        sendPage(controller, page);
+      } catch (error) {
+        if (!cancelled) fail(controller, error);
+      }
+    },
+    async cancel() {
+      // The client went away; stop the running FETCH and free the cursor's connection
+      const token = pageToken;
+      cancelled = true;
+      pageToken = undefined;
+      await cancelQuery(pool, handle).catch((error) => console.error("Error cancelling streamed query:", error));
+      if (token) await closeCursor(token);
+    },
+  });
+
+  return ndjsonResponse(body);
+}
+
+// Same events as streamRows, for drivers without cursors: the capped
+// result is sent as one batch of rows
+function streamResult(driver: DatabaseDriver, statement: string, guardrails: QueryGuardrails, queryId: string) {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const result = await driver.executeReadOnly(statement, guardrails);
+        send({ type: "columns", columns: result.columns, queryId });
+        if (result.rows.length > 0) send({ type: "rows", rows: result.rows });
+        send({ type: "end", rowCount: result.rowCount, truncated: result.truncated });
+      } catch (error) {
+        console.error("Error streaming SQL results:", error);
+        send({ type: "error", ...describeExecutionError(error, guardrails, "Failed to execute SQL") });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return ndjsonResponse(body);
+}
+
+function ndjsonResponse(body: ReadableStream) {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
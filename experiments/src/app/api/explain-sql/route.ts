@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEnvironment } from "@/lib/environments";
+import { explainSql } from "@/lib/sql-execution";
+
+// Plans a query without running it and applies the environment's cost
+// policy, so the UI can show the plan and ask before executing
+export async function POST(request: NextRequest) {
+  try {
+    const { env, sql } = await request.json();
+
+    if (!env || !sql) {
+      return NextResponse.json(
+        { error: "Environment and SQL are required" },
+        { status: 400 }
+      );
+    }
+
+    const environment = await getEnvironment(env);
+
+    if (!environment) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await explainSql(environment, String(sql)));
+  } catch (error) {
+    console.error("Error explaining SQL:", error);
+    return NextResponse.json(
+      { error: "Failed to explain SQL" },
+      { status: 500 }
+    );
+  }
+}
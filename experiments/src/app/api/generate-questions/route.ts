@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { completeStructured, llmConfigError, QUESTIONS_OUTPUT, StructuredOutputError } from "@/lib/llm";
+import { loadGlossary, type GlossaryLookup } from "@/lib/glossary";
+import { DIALECT_LABELS } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { QUESTION_GENERATION } from "@/lib/prompts";
 
 interface Column {
   name: string;
@@ -30,89 +30,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const llmError = llmConfigError("generation");
+    if (llmError) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: llmError },
         { status: 500 }
       );
     }
 
     // Build a comprehensive context of the schema
-    const schemaContext = buildSchemaContext(schema, tablesWithColumns);
-
-    // Create the prompt for question generation
-    const systemPrompt = `You are a data analyst who generates insightful questions about database schemas. Your task is to generate 5-10 interesting, diverse questions that could be answered by querying the database.
-
-Guidelines:
-1. Generate questions that vary in complexity (simple counts, aggregations, filtering, joins, trends)
-2. Make questions specific and realistic based on the actual schema
-3. Include questions that would be useful for business insights
-4. Make questions natural and conversational
-5. Return ONLY the questions as a JSON array of strings, no other text
-6. Each question should be actionable and answerable with SQL
-
-Example format:
-["Question 1 here?", "Question 2 here?", ...]`;
-
-    let contextWithAnalysis = schemaContext;
-    if (schemaAnalysis) {
-      contextWithAnalysis += `\n\nPrevious Schema Analysis:\n${schemaAnalysis}`;
-    }
-
-    const userPrompt = `Based on this PostgreSQL schema, generate 5-10 interesting questions that could be answered by querying this database:
-
-${contextWithAnalysis}
-
-Return ONLY a JSON array of question strings.`;
+    const schemaContext = buildSchemaContext(schema, tablesWithColumns, await loadGlossary(env, schema));
 
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: 0.8,
-      max_tokens: 1000,
-      response_format: { type: "json_object" },
+    const prompt = QUESTION_GENERATION.render({
+      dialect: DIALECT_LABELS[await getDialect(env)],
+      schemaContext,
+      schemaAnalysis: schemaAnalysis ?? '',
     });
 
-    const responseText = completion.choices[0]?.message?.content?.trim() || "{}";
-    
-    // Parse the JSON response
-    let questions: string[] = [];
-    try {
-      const parsed = JSON.parse(responseText);
-      // Handle various possible response formats
-      if (Array.isArray(parsed)) {
-        questions = parsed;
-      } else if (parsed.questions && Array.isArray(parsed.questions)) {
-        questions = parsed.questions;
-      } else if (typeof parsed === 'object') {
-        // Try to extract any array from the object
-        const values = Object.values(parsed);
-        const arrayValue = values.find(v => Array.isArray(v));
-        if (arrayValue) {
-          questions = arrayValue as string[];
-        }
-      }
-    } catch (err) {
-      console.error("Failed to parse questions JSON:", err);
-      console.error("Response text:", responseText);
-      throw new Error("Failed to parse questions response");
-    }
+    // Call the configured model
+    const { value } = await completeStructured("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.8,
+      maxTokens: 1000,
+    }, QUESTIONS_OUTPUT);
 
     // Validate and clean questions
-    questions = questions
-      .filter(q => typeof q === 'string' && q.trim().length > 0)
+    const questions = value.questions
+      .filter(q => q.trim().length > 0)
       .slice(0, 10); // Limit to 10 questions
 
     if (questions.length === 0) {
       throw new Error("No valid questions generated");
     }
 
-    return NextResponse.json({ questions });
+    return NextResponse.json({ questions, promptVersion: prompt.promptVersion });
   } catch (error) {
+    // The model's reply never matched the response schema
+    if (error instanceof StructuredOutputError) {
+      console.error("Invalid questions response:", error.errors, error.content);
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: error.status }
+      );
+    }
+
     console.error("Error generating questions:", error);
     return NextResponse.json(
       { error: "Failed to generate questions" },
@@ -121,20 +83,22 @@ Return ONLY a JSON array of question strings.`;
   }
 }
 
-function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[]): string {
+function buildSchemaContext(schema: string, tablesWithColumns: TableWithColumns[], glossary: GlossaryLookup): string {
   let context = `Schema: ${schema}\n\n`;
   context += `Tables Overview:\n`;
 
   tablesWithColumns.forEach((tableWithCols) => {
-    context += `\n${schema}.${tableWithCols.table}:\n`;
+    const tableDescription = glossary(tableWithCols.table);
+    context += `\n${schema}.${tableWithCols.table}:${tableDescription ? ` ${tableDescription}` : ''}\n`;
     
     tableWithCols.columns.forEach((col) => {
       const typeStr = col.maxLength 
         ? `${col.type}(${col.maxLength})`
         : col.type;
       const nullable = col.nullable ? 'NULL' : 'NOT NULL';
+      const description = glossary(tableWithCols.table, col.name);
       
-      context += `  - ${col.name}: ${typeStr} ${nullable}\n`;
+      context += `  - ${col.name}: ${typeStr} ${nullable}${description ? ` -- ${description}` : ''}\n`;
     });
   });
 
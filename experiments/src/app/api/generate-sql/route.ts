@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { Client } from "pg";
-import { wrapOpenAI } from "langsmith/wrappers";
+import { complete, llmConfigError } from "@/lib/llm";
 import { traceable } from "langsmith/traceable";
-
-const openai = wrapOpenAI(new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-}));
+import { formatTableForPrompt, loadIntrospection, type TableIntrospection } from "@/lib/introspection";
+import { DIALECT_LABELS, dialectPromptRules, type SqlDialect } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { maskRowsForPrompt } from "@/lib/masking";
+import { formatProfileForPrompt, loadProfiles, type TableProfile } from "@/lib/profiling";
+import { applyGlossary, describeForPrompt, loadGlossary, type GlossaryLookup } from "@/lib/glossary";
+import { SQL_GENERATION } from "@/lib/prompts";
+import { citeMetrics, formatSemanticsForPrompt, resolveSemantics, type ResolvedSemantics } from "@/lib/semantic-model";
 
 // Wrap the main SQL generation logic in traceable for full observability
 const generateSQLLogic = traceable(
@@ -19,22 +21,33 @@ const generateSQLLogic = traceable(
     sampleData?: any;
     conversationContext?: any[];
     schemaContext?: any[];
+    introspection?: TableIntrospection[];
+    profiles?: TableProfile[];
+    semantics?: ResolvedSemantics;
+    glossary?: GlossaryLookup;
+    dialect: SqlDialect;
   }) => {
-    const { env, schema, table, naturalLanguageQuery, columns, sampleData, conversationContext, schemaContext } = params;
+    const { env, schema, table, naturalLanguageQuery, columns, sampleData, conversationContext, schemaContext, introspection, profiles, semantics, dialect } = params;
+    const glossary = params.glossary ?? (() => undefined);
+    const hasConstraints = !!introspection && introspection.length > 0;
     
-    // Format column information for the prompt
+    // Format column information for the prompt, preferring the database's
+    // own keys, constraints and comments when they could be read; glossary
+    // descriptions replace the comments either way
     let columnInfo = '';
-    if (schemaContext && schemaContext.length > 0) {
+    if (hasConstraints) {
+      columnInfo = applyGlossary(introspection, glossary).map((tableInfo) => formatTableForPrompt(tableInfo, schema)).join('\n\n');
+    } else if (schemaContext && schemaContext.length > 0) {
       // Build comprehensive schema information
       columnInfo = schemaContext.map((tableInfo: any) => {
         const cols = tableInfo.columns.map((col: any) => 
-          `    - ${col.name}: ${col.type} ${col.nullable ? 'NULL' : 'NOT NULL'}`
+          `    - ${col.name}: ${col.type} ${col.nullable ? 'NULL' : 'NOT NULL'}${describeForPrompt(glossary, tableInfo.table, col.name)}`
         ).join('\n');
-        return `  ${schema}.${tableInfo.table}:\n${cols}`;
+        return `  ${schema}.${tableInfo.table}:${describeForPrompt(glossary, tableInfo.table)}\n${cols}`;
       }).join('\n\n');
     } else if (columns && columns.length > 0) {
       columnInfo = columns.map((col: any) => 
-        `  - ${col.name}: ${col.type}${col.maxLength ? `(${col.maxLength})` : ''} ${col.nullable ? 'NULL' : 'NOT NULL'}${col.default ? ` DEFAULT ${col.default}` : ''}`
+        `  - ${col.name}: ${col.type}${col.maxLength ? `(${col.maxLength})` : ''} ${col.nullable ? 'NULL' : 'NOT NULL'}${col.default ? ` DEFAULT ${col.default}` : ''}${table ? describeForPrompt(glossary, table, col.name) : ''}`
       ).join('\n');
     }
 
@@ -43,65 +56,47 @@ const generateSQLLogic = traceable(
       ? JSON.stringify(sampleData.rows.slice(0, 3), null, 2)
       : '';
 
-    // Create the prompt for SQL generation
-    const systemPrompt = `You are an expert PostgreSQL SQL query generator. Generate SQL queries based on natural language requests.
+    // Column profiles: real values and ranges to filter on
+    const profileInfo = profiles && profiles.length > 0
+      ? profiles.map(formatProfileForPrompt).join('\n\n')
+      : '';
 
-Rules:
-1. Return ONLY the SQL query, no explanations or markdown formatting
-2. Use proper PostgreSQL syntax
-3. Always use schema-qualified table names (schema.table)
-4. Consider the column types and constraints when generating queries
-5. Use appropriate WHERE clauses, JOINs, and aggregations as needed
-6. For date/time queries, use PostgreSQL date functions
-7. Make queries efficient and use indexes when possible`;
+    // Metric and dimension definitions the question mentions
+    const semanticInfo = semantics ? formatSemanticsForPrompt(semantics, schema) : '';
 
     // Build conversation history if provided
-    let conversationHistory = '';
-    if (conversationContext && conversationContext.length > 0) {
-      conversationHistory = '\n\nConversation History:\n' + conversationContext.map((msg: any, idx: number) => {
-        let text = `${idx + 1}. ${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
-        if (msg.sql) text += `\n   SQL: ${msg.sql}`;
-        if (msg.result) text += `\n   Result: ${msg.result.rowCount} rows`;
-        return text;
-      }).join('\n');
-    }
-
-    const tableInfo = table ? `Specific Table: ${table}` : 'Query across any tables in the schema as needed';
-    
-    const userPrompt = `Given the following PostgreSQL schema:
-
-Schema: ${schema}
-${tableInfo}
-
-${columnInfo ? `Available Tables and Columns:
-${columnInfo}` : ''}
-
-${sampleDataStr ? `Sample Data (first 3 rows):
-${sampleDataStr}` : ''}
-${conversationHistory}
-
-Generate a SQL query for: "${naturalLanguageQuery}"
-
-Important:
-- Always use fully qualified table names (schema.table)
-- Use appropriate JOINs if the query requires data from multiple tables
-- Make sure to infer relationships between tables based on column names
-${conversationHistory ? '- Consider the conversation history and build upon previous queries if relevant' : ''}
+    const conversationHistory = conversationContext && conversationContext.length > 0
+      ? conversationContext.map((msg: any, idx: number) => {
+          let text = `${idx + 1}. ${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+          if (msg.sql) text += `\n   SQL: ${msg.sql}`;
+          if (msg.result) text += `\n   Result: ${msg.result.rowCount} rows`;
+          return text;
+        }).join('\n')
+      : '';
 
-Return ONLY the SQL query.`;
+    const prompt = SQL_GENERATION.render({
+      dialect: DIALECT_LABELS[dialect],
+      dialectRules: dialectPromptRules(dialect),
+      schema,
+      table: table ?? '',
+      columns: columnInfo,
+      sampleData: sampleDataStr,
+      profiles: profileInfo,
+      semantics: semanticInfo,
+      conversation: conversationHistory,
+      question: naturalLanguageQuery,
+      hasConstraints,
+    });
 
-    // Call OpenAI API (automatically traced by wrapOpenAI)
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
+    // Call the configured model (traced by the provider)
+    const completion = await complete("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
       temperature: 0.3,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const sql = completion.choices[0]?.message?.content?.trim() || "";
+    const sql = completion.content;
 
     // Remove markdown code blocks if present
     const cleanedSQL = sql
@@ -109,7 +104,12 @@ Return ONLY the SQL query.`;
       .replace(/```\n?/g, '')
       .trim();
 
-    return { sql: cleanedSQL };
+    // Cite the metric definitions the query relies on
+    const { sql: citedSQL, metricsUsed } = semantics
+      ? citeMetrics(cleanedSQL, semantics, schema)
+      : { sql: cleanedSQL, metricsUsed: [] };
+
+    return { sql: citedSQL, metricsUsed, promptVersion: prompt.promptVersion };
   },
   { name: "generate_sql" } // Name the trace for better visibility in LangSmith
 );
@@ -126,13 +126,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const llmError = llmConfigError("generation");
+    if (llmError) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: llmError },
         { status: 500 }
       );
     }
 
+    // Real constraints for the tables in play; without any tables the prompt
+    // stays schema-level rather than dumping the whole catalog into it
+    const tableNames: string[] = schemaContext && schemaContext.length > 0
+      ? schemaContext.map((tableInfo: { table: string }) => tableInfo.table)
+      : table ? [table] : [];
+    const [introspection, profiles] = tableNames.length > 0
+      ? await Promise.all([loadIntrospection(env, schema, tableNames), loadProfiles(env, schema, tableNames)])
+      : [[], []];
+    const semantics = await resolveSemantics(env, schema, naturalLanguageQuery);
+    const glossary = tableNames.length > 0 ? await loadGlossary(env, schema, tableNames) : undefined;
+    const dialect = await getDialect(env);
+
+    // Sample rows are masked before the traced call, since LangSmith
+    // records its inputs as well as the prompt
+    const maskedSampleData = Array.isArray(sampleData?.rows)
+      ? {
+          ...sampleData,
+          rows: await maskRowsForPrompt(sampleData.rows.slice(0, 3), {
+            env,
+            schema,
+            table,
+            columnTypes: Object.fromEntries((columns ?? []).map((col: { name: string; type: string }) => [col.name, col.type])),
+          }),
+        }
+      : undefined;
+
     // Call the traced SQL generation logic
     const result = await generateSQLLogic({
       env,
@@ -140,9 +167,14 @@ export async function POST(request: NextRequest) {
       table,
       naturalLanguageQuery,
       columns,
-      sampleData,
+      sampleData: maskedSampleData,
       conversationContext,
       schemaContext,
+      introspection,
+      profiles,
+      semantics,
+      glossary,
+      dialect,
     });
 
     return NextResponse.json(result);
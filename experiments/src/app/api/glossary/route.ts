@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGlossary, saveGlossaryEntry, validateGlossaryInput } from "@/lib/glossary";
+
+export async function GET(request: NextRequest) {
+  try {
+    const env = request.nextUrl.searchParams.get("env");
+    const schema = request.nextUrl.searchParams.get("schema");
+    const table = request.nextUrl.searchParams.get("table");
+
+    if (!env || !schema) {
+      return NextResponse.json(
+        { error: "Environment and schema are required" },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getGlossary(env, schema, table ? [table] : undefined);
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Error loading glossary:", error);
+    return NextResponse.json(
+      { error: "Failed to load glossary" },
+      { status: 500 }
+    );
+  }
+}
+
+// Sets the description of a table, or of a column when one is given; an
+// empty description reverts to the database comment
+export async function PUT(request: NextRequest) {
+  try {
+    const { env, schema, table, column, description } = await request.json();
+
+    const validationError = validateGlossaryInput({ env, schema, table, column, description });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const entry = await saveGlossaryEntry({ env, schema, table, column, description });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Error saving glossary entry:", error);
+    return NextResponse.json(
+      { error: "Failed to save description" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { decideRelationship, validateRelationshipStatus } from "@/lib/relationship-inference";
+
+// Accepts or rejects a candidate; "proposed" undoes the decision
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { status } = await request.json();
+
+    const validationError = validateRelationshipStatus(status);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const relationship = await decideRelationship(id, status);
+
+    if (!relationship) {
+      return NextResponse.json(
+        { error: "Relationship not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ relationship });
+  } catch (error) {
+    console.error("Error updating inferred relationship:", error);
+    return NextResponse.json(
+      { error: "Failed to update relationship" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { discoverRelationships, listRelationships } from "@/lib/relationship-inference";
+
+export async function GET(request: NextRequest) {
+  try {
+    const env = request.nextUrl.searchParams.get("env");
+    const schema = request.nextUrl.searchParams.get("schema");
+
+    if (!env || !schema) {
+      return NextResponse.json(
+        { error: "Environment and schema are required" },
+        { status: 400 }
+      );
+    }
+
+    const relationships = await listRelationships(env, schema);
+
+    return NextResponse.json({ relationships });
+  } catch (error) {
+    console.error("Error loading inferred relationships:", error);
+    return NextResponse.json(
+      { error: "Failed to load inferred relationships" },
+      { status: 500 }
+    );
+  }
+}
+
+// Runs discovery over the schema: one short sampled value check per
+// candidate, within an overall time budget. truncated is set when the budget
+// ran out first; the response then covers the candidates checked so far.
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema } = await request.json();
+
+    if (!env || !schema) {
+      return NextResponse.json(
+        { error: "Environment and schema are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await discoverRelationships(env, schema);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error discovering relationships:", error);
+    return NextResponse.json(
+      { error: "Failed to discover relationships" },
+      { status: 500 }
+    );
+  }
+}
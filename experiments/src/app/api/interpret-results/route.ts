@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llmConfigError } from "@/lib/llm";
+import { interpretResults } from "@/lib/result-insights";
 
 export async function POST(request: NextRequest) {
   try {
-    const { naturalLanguageQuery, sql, result, conversationContext } = await request.json();
+    const { env, naturalLanguageQuery, sql, result, conversationContext } = await request.json();
     
     if (!naturalLanguageQuery || !sql || !result) {
       return NextResponse.json(
@@ -16,57 +13,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const llmError = llmConfigError("interpretation");
+    if (llmError) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: llmError },
         { status: 500 }
       );
     }
 
-    // Build conversation history if provided
-    let conversationHistory = '';
-    if (conversationContext && conversationContext.length > 0) {
-      conversationHistory = '\n\nPrevious Conversation:\n' + conversationContext.map((msg: any, idx: number) => {
-        let text = `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
-        if (msg.result) text += ` (${msg.result.rowCount} rows returned)`;
-        return text;
-      }).join('\n');
-    }
-
-    const interpretationPrompt = `You are a helpful data analyst assistant. Based on the following query and results, provide a clear, concise interpretation and summary.
-${conversationHistory}
-
-Current User's Question: "${naturalLanguageQuery}"
-
-SQL Query Executed:
-${sql}
-
-Results (${result.rowCount} rows):
-${JSON.stringify(result.rows.slice(0, 10), null, 2)}
-${result.rowCount > 10 ? `\n(Showing first 10 of ${result.rowCount} total rows)` : ''}
-
-Provide a natural language summary and interpretation of these results. Focus on:
-1. Directly answering the user's question
-2. Key insights from the data
-3. Any notable patterns or trends
-4. Keep it concise and conversational
-${conversationHistory ? '5. Reference previous context if relevant' : ''}
-
-Response:`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: "You are a helpful data analyst assistant that interprets query results in clear, natural language." },
-        { role: "user", content: interpretationPrompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
+    const { interpretation, promptVersion } = await interpretResults({
+      env,
+      question: naturalLanguageQuery,
+      sql,
+      result,
+      conversationContext,
     });
 
-    const interpretation = completion.choices[0]?.message?.content?.trim() || "";
-
-    return NextResponse.json({ interpretation });
+    return NextResponse.json({ interpretation, promptVersion });
   } catch (error) {
     console.error("Error generating interpretation:", error);
     return NextResponse.json(
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPool } from "@/lib/db";
+import { DIALECT_LABELS } from "@/lib/dialects";
+import { getDriver } from "@/lib/drivers";
+import { getEnvironment } from "@/lib/environments";
+import { introspectSchema } from "@/lib/introspection";
+import { recordSchemaVersion } from "@/lib/snapshot-history";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema, tables } = await request.json();
+
+    if (!env || !schema) {
+      return NextResponse.json(
+        { error: "Environment and schema are required" },
+        { status: 400 }
+      );
+    }
+
+    if (tables !== undefined && (!Array.isArray(tables) || tables.some((t) => typeof t !== "string"))) {
+      return NextResponse.json(
+        { error: "tables must be an array of table names" },
+        { status: 400 }
+      );
+    }
+
+    const environment = await getEnvironment(env);
+
+    if (!environment) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool(env);
+
+    if (!pool) {
+      return NextResponse.json(
+        { error: `Schema introspection is not available for ${DIALECT_LABELS[environment.dialect]} environments` },
+        { status: 400 }
+      );
+    }
+
+    // Versioned for /api/schema-diff like every other catalog read
+    const driver = await getDriver(env);
+    if (driver) {
+      recordSchemaVersion(env, driver, schema).catch((error) => console.error("Error recording schema version:", error));
+    }
+
+    // Keys, constraints, indexes, enum labels, comments and row estimates
+    // for every table in the schema (or just the requested ones)
+    const introspection = await introspectSchema(pool, schema, tables);
+
+    return NextResponse.json({ tables: introspection });
+  } catch (error) {
+    console.error("Error introspecting schema:", error);
+    return NextResponse.json(
+      { error: "Failed to introspect schema" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDriver } from "@/lib/drivers";
+import { buildJoinGraph, planJoins } from "@/lib/join-planner";
+import { withAcceptedSnapshot } from "@/lib/relationship-inference";
+import { buildSchemaSnapshot } from "@/lib/schema-snapshot";
+
+// Plans the joins between a set of tables from the schema's foreign keys
+// (and *_id naming where none are declared), with fan-out warnings
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema, tables } = await request.json();
+
+    if (!env || !schema || !Array.isArray(tables) || tables.length === 0) {
+      return NextResponse.json(
+        { error: "Environment, schema, and a tables array are required" },
+        { status: 400 }
+      );
+    }
+
+    const driver = await getDriver(env);
+
+    if (!driver) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await withAcceptedSnapshot(env, await buildSchemaSnapshot(driver, schema));
+    const plan = planJoins(buildJoinGraph(snapshot), tables.map(String));
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error("Error planning joins:", error);
+    return NextResponse.json(
+      { error: "Failed to plan joins" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteMaskingRule } from "@/lib/masking";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteMaskingRule(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Masking rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting masking rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete masking rule" },
+      { status: 500 }
+    );
+  }
+}
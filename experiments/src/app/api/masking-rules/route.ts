@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listMaskingRules, saveMaskingRule, validateMaskingRuleInput } from "@/lib/masking";
+
+export async function GET() {
+  try {
+    const rules = await listMaskingRules();
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error listing masking rules:", error);
+    return NextResponse.json(
+      { error: "Failed to list masking rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema, table, column, action, note } = await request.json();
+
+    const validationError = validateMaskingRuleInput({ env, schema, table, column, action, note });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rule = await saveMaskingRule({ env, schema, table, column, action, note });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving masking rule:", error);
+    return NextResponse.json(
+      { error: "Failed to save masking rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { completeStructured, ERD_LAYOUT_OUTPUT, StructuredOutputError } from "@/lib/llm";
+import { formatTableForPrompt, loadIntrospection } from "@/lib/introspection";
+import { ERD_LAYOUT } from "@/lib/prompts";
 
 interface Column {
   name: string;
@@ -29,7 +27,7 @@ interface ForeignKey {
 
 export async function POST(request: NextRequest) {
   try {
-    const { tablesWithColumns, foreignKeys } = await request.json();
+    const { env, schema, tablesWithColumns, foreignKeys } = await request.json();
 
     if (!tablesWithColumns || !Array.isArray(tablesWithColumns)) {
       return NextResponse.json(
@@ -43,75 +41,47 @@ export async function POST(request: NextRequest) {
       `${fk.fromTable}.${fk.fromColumn} -> ${fk.toTable}.${fk.toColumn}`
     ).join('\n');
 
-    // Build table summary
+    // Build table summary; row estimates, keys and indexes tell fact tables
+    // from dimensions far better than column names alone
+    const introspection = await loadIntrospection(env, schema, tablesWithColumns.map((t: TableWithColumns) => t.table));
     const tableSummary = tablesWithColumns.map((t: TableWithColumns) => {
+      const introspected = introspection.find(i => i.table === t.table);
+      if (introspected) {
+        return formatTableForPrompt(introspected);
+      }
+
       const columnList = t.columns.map(c => `  - ${c.name} (${c.type})`).join('\n');
       return `${t.table}:\n${columnList}`;
     }).join('\n\n');
 
-    const prompt = `You are a database schema expert. Analyze this database schema and create an optimized ERD layout.
-
-TABLES AND COLUMNS:
-${tableSummary}
-
-FOREIGN KEY RELATIONSHIPS:
-${relationshipSummary}
-
-Your task:
-1. Classify each table as either "fact", "dimension", or "bridge":
-   - Fact tables: Large transactional tables with many foreign keys, often contain metrics/measures
-   - Dimension tables: Descriptive reference tables that fact tables reference, usually smaller
-   - Bridge tables: Join tables that resolve many-to-many relationships
-
-2. Create a star/snowflake schema layout with:
-   - Fact tables in the center
-   - Dimension tables arranged in a circle around fact tables
-   - Bridge tables positioned between related tables
-   - Minimize edge crossings
-   - Use a canvas size of approximately 3000x3000 pixels
-   - Space tables at least 600 pixels apart horizontally and 500 pixels vertically
-   - Create generous spacing for a clean, readable layout
-
-Return your response as JSON with this exact structure:
-{
-  "classifications": [
-    {
-      "tableName": "table_name",
-      "type": "fact" | "dimension" | "bridge",
-      "reasoning": "Brief explanation"
-    }
-  ],
-  "positions": {
-    "table_name": { "x": number, "y": number }
-  }
-}`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a database schema expert. Always respond with valid JSON only, no additional text."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" }
+    const prompt = ERD_LAYOUT.render({
+      tables: tableSummary,
+      relationships: relationshipSummary,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
-    
-    if (!responseText) {
-      throw new Error("No response from AI");
-    }
+    const { value } = await completeStructured("layout", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.3,
+    }, ERD_LAYOUT_OUTPUT);
 
-    const layout = JSON.parse(responseText);
+    // The page looks positions up by table name
+    const layout = {
+      classifications: value.classifications,
+      positions: Object.fromEntries(value.positions.map(({ tableName, x, y }) => [tableName, { x, y }])),
+    };
 
-    return NextResponse.json({ layout });
+    return NextResponse.json({ layout, promptVersion: prompt.promptVersion });
   } catch (error) {
+    // The model's reply never matched the response schema
+    if (error instanceof StructuredOutputError) {
+      console.error("Invalid ERD layout response:", error.errors, error.content);
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: error.status }
+      );
+    }
+
     console.error("Error optimizing ERD layout:", error);
     return NextResponse.json(
       { error: "Failed to optimize layout" },
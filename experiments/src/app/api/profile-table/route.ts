@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTableProfile } from "@/lib/profiling";
+import { SampleDataError } from "@/lib/sample-data";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema, table, refresh } = await request.json();
+
+    if (!env || !schema || !table) {
+      return NextResponse.json(
+        { error: "Environment, schema, and table are required" },
+        { status: 400 }
+      );
+    }
+
+    // Cached per table until its columns, row count or masking rules change
+    const profile = await getTableProfile(env, schema, table, { refresh: !!refresh });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    // Unknown schema, table or column names
+    if (error instanceof SampleDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error profiling table:", error);
+    return NextResponse.json(
+      { error: "Failed to profile table" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { listPrompts, templateVariables } from "@/lib/prompts";
+
+// Every registered prompt with all of its versions, each also rendered with
+// the prompt's example variables for previewing
+export async function GET() {
+  try {
+    const prompts = listPrompts().map((prompt) => ({
+      id: prompt.id,
+      description: prompt.description,
+      current: prompt.current,
+      variables: Object.keys(prompt.example),
+      versions: prompt.versions.map((version) => ({
+        ...version,
+        variables: templateVariables(`${version.system ?? ""}\n${version.user}`),
+        preview: prompt.render(prompt.example, version.version).messages,
+      })),
+    }));
+
+    return NextResponse.json({ prompts });
+  } catch (error) {
+    console.error("Error listing prompts:", error);
+    return NextResponse.json(
+      { error: "Failed to list prompts" },
+      { status: 500 }
+    );
+  }
+}
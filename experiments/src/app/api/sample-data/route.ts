@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Client } from "pg";
+import { getDriver } from "@/lib/drivers";
+import { getEnvironment } from "@/lib/environments";
+import { maskRows } from "@/lib/masking";
+import { buildSampleQuery, SampleDataError } from "@/lib/sample-data";
 
 export async function POST(request: NextRequest) {
   try {
-    const { env, schema, table } = await request.json();
+    const { env, schema, table, mode, limit, percent, orderBy, columns: projection, filters } = await request.json();
     
     if (!env || !schema || !table) {
       return NextResponse.json(
@@ -12,37 +15,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const connectionString = process.env.DEMO_POSTGRES_DATABASE_URL;
-    
-    if (!connectionString) {
+    const environment = await getEnvironment(env);
+    const driver = environment ? await getDriver(env) : undefined;
+
+    if (!environment || !driver) {
       return NextResponse.json(
-        { error: "Database connection string not configured" },
-        { status: 500 }
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
       );
     }
 
-    const client = new Client({ 
-      connectionString,
-      ssl: {
-        rejectUnauthorized: false
-      }
-    });
-    await client.connect();
+    // Names are checked against the catalog and quoted; filter values are
+    // bind parameters
+    const query = await buildSampleQuery(driver, { schema, table, mode, limit, percent, orderBy, columns: projection, filters });
 
-    // Query to get sample data - using parameterized schema and table names safely
-    const result = await client.query(`
-      SELECT * FROM ${schema}.${table}
-      LIMIT 10;
-    `);
+    // Read-only, with the environment's statement timeout, in any dialect
+    const { columns, rows } = await driver.executeReadOnly(query.statement, {
+      ...environment.guardrails,
+      maxRows: Math.min(environment.guardrails.maxRows, query.limit),
+      params: query.params,
+    });
 
-    await client.end();
+    // Sample rows feed both the UI and LLM prompts, so they're masked here
+    const masked = await maskRows(rows, {
+      env,
+      schema: query.schema,
+      table: query.table,
+      columnTypes: Object.fromEntries(query.columns.map((column) => [column.name, column.type])),
+    });
 
-    // Get column names from the result
-    const columns = result.fields.map(field => field.name);
-    const rows = result.rows;
-    
-    return NextResponse.json({ columns, rows });
+    return NextResponse.json({
+      columns,
+      rows: masked.rows,
+      maskedColumns: masked.maskedColumns,
+      mode: query.mode,
+      ...(query.orderBy ? { orderBy: query.orderBy } : {}),
+    });
   } catch (error) {
+    if (error instanceof SampleDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error fetching sample data:", error);
     return NextResponse.json(
       { error: "Failed to fetch sample data" },
@@ -50,4 +66,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDriver } from "@/lib/drivers";
+import { diffSnapshots } from "@/lib/schema-diff";
+import { buildSchemaSnapshot, type SchemaSnapshot } from "@/lib/schema-snapshot";
+import { getSnapshotVersion, listSnapshotVersions, recordSnapshot } from "@/lib/snapshot-history";
+
+interface DiffSide {
+  env: string;
+  schema: string;
+  version: number;
+  fingerprint: string;
+  capturedAt: string;
+}
+
+class DiffInputError extends Error {}
+
+// Takes a fresh snapshot of an environment (and records it as a version)
+async function liveSnapshot(env: string, schema: string): Promise<{ snapshot: SchemaSnapshot; side: DiffSide }> {
+  const driver = await getDriver(env);
+  if (!driver) {
+    throw new DiffInputError(`Environment "${env}" is not configured`);
+  }
+
+  const snapshot = await buildSchemaSnapshot(driver, schema);
+  const stored = await recordSnapshot(env, snapshot);
+  return {
+    snapshot,
+    side: { env, schema, version: stored.version, fingerprint: snapshot.fingerprint, capturedAt: snapshot.generatedAt },
+  };
+}
+
+async function storedSnapshot(env: string, schema: string, version: number): Promise<{ snapshot: SchemaSnapshot; side: DiffSide }> {
+  const stored = await getSnapshotVersion(env, schema, version);
+  if (!stored) {
+    const available = (await listSnapshotVersions(env, schema)).map((v) => v.version);
+    throw new DiffInputError(
+      `Snapshot version ${version} of ${env}/${schema} not found` +
+      (available.length > 0 ? `; available versions: ${available.join(", ")}` : "")
+    );
+  }
+
+  return {
+    snapshot: stored.snapshot,
+    side: { env, schema, version: stored.version, fingerprint: stored.fingerprint, capturedAt: stored.capturedAt },
+  };
+}
+
+// Compares two snapshots of a schema. Request bodies:
+// - { env, schema, fromVersion, toVersion? }: two stored versions; without
+//   toVersion the live schema is compared against fromVersion
+// - { schema, fromEnv, toEnv, toSchema? }: the live schemas of two
+//   environments, e.g. staging vs prod
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema, fromVersion, toVersion, fromEnv, toEnv, toSchema } = await request.json();
+
+    if (!schema) {
+      return NextResponse.json(
+        { error: "Schema is required" },
+        { status: 400 }
+      );
+    }
+
+    let from;
+    let to;
+
+    if (fromEnv && toEnv) {
+      from = await liveSnapshot(fromEnv, schema);
+      to = await liveSnapshot(toEnv, toSchema || schema);
+    } else if (env && Number.isInteger(fromVersion)) {
+      from = await storedSnapshot(env, schema, fromVersion);
+      to = Number.isInteger(toVersion)
+        ? await storedSnapshot(env, schema, toVersion)
+        : await liveSnapshot(env, schema);
+    } else {
+      return NextResponse.json(
+        { error: "Provide either env and fromVersion, or fromEnv and toEnv" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      from: from.side,
+      to: to.side,
+      diff: diffSnapshots(from.snapshot, to.snapshot),
+    });
+  } catch (error) {
+    if (error instanceof DiffInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error diffing schemas:", error);
+    return NextResponse.json(
+      { error: "Failed to diff schemas" },
+      { status: 500 }
+    );
+  }
+}
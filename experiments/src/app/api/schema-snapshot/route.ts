@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDriver } from "@/lib/drivers";
+import { withAcceptedSnapshot } from "@/lib/relationship-inference";
+import { buildSchemaSnapshot } from "@/lib/schema-snapshot";
+import { recordSnapshot } from "@/lib/snapshot-history";
+
+// Returns every table, view, column and foreign key of a schema in one
+// round trip. The ETag is the schema fingerprint: clients that send it back
+// in If-None-Match get a 304 while the schema is unchanged. Every distinct
+// fingerprint is stored as a numbered version for /api/schema-diff.
+// Accepted inferred relationships are added to the foreign keys after the
+// version is recorded, so diffs only ever compare the databases.
+export async function POST(request: NextRequest) {
+  try {
+    const { env, schema } = await request.json();
+
+    if (!env || !schema) {
+      return NextResponse.json(
+        { error: "Environment and schema are required" },
+        { status: 400 }
+      );
+    }
+
+    const driver = await getDriver(env);
+
+    if (!driver) {
+      return NextResponse.json(
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const database = await buildSchemaSnapshot(driver, schema);
+    const { version } = await recordSnapshot(env, database);
+    const snapshot = await withAcceptedSnapshot(env, database);
+    const etag = `"${snapshot.fingerprint}"`;
+    const headers = { ETag: etag, "Cache-Control": "private, no-cache", "X-Schema-Version": String(version) };
+
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return NextResponse.json({ snapshot, version }, { headers });
+  } catch (error) {
+    console.error("Error building schema snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to load schema snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Client } from "pg";
+import { getDriver } from "@/lib/drivers";
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,37 +12,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // For now, we'll use a demo postgres URL
-    // In production, you'd map the env to actual connection strings
-    const connectionString = process.env.DEMO_POSTGRES_DATABASE_URL;
-    
-    if (!connectionString) {
+    const driver = await getDriver(env);
+
+    if (!driver) {
       return NextResponse.json(
-        { error: "Database connection string not configured" },
-        { status: 500 }
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
       );
     }
 
-    const client = new Client({ 
-      connectionString,
-      ssl: {
-        rejectUnauthorized: false
-      }
-    });
-    await client.connect();
-
-    // Query to get all schemas excluding system schemas
-    const result = await client.query(`
-      SELECT schema_name 
-      FROM information_schema.schemata 
-      WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
-      AND schema_name NOT LIKE 'pg_%'
-      ORDER BY schema_name;
-    `);
-
-    await client.end();
-
-    const schemas = result.rows.map((row) => row.schema_name);
+    // All schemas excluding system schemas
+    const schemas = await driver.listSchemas();
     
     return NextResponse.json({ schemas });
   } catch (error) {
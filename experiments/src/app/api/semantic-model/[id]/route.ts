@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteSemanticDefinition,
+  findSemanticDefinition,
+  updateSemanticDefinition,
+  validateSemanticDefinition,
+} from "@/lib/semantic-model";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = await request.json();
+
+    const existing = await findSemanticDefinition(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Definition not found" },
+        { status: 404 }
+      );
+    }
+
+    const validationError = await validateSemanticDefinition(existing.kind, input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const definition = await updateSemanticDefinition(id, input);
+
+    if (definition === undefined) {
+      return NextResponse.json(
+        { error: "Definition not found" },
+        { status: 404 }
+      );
+    }
+
+    if (definition === null) {
+      return NextResponse.json(
+        { error: `A ${existing.kind} named "${input.name}" already exists in this schema` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ kind: existing.kind, definition });
+  } catch (error) {
+    console.error("Error updating semantic definition:", error);
+    return NextResponse.json(
+      { error: "Failed to update definition" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteSemanticDefinition(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Definition not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting semantic definition:", error);
+    return NextResponse.json(
+      { error: "Failed to delete definition" },
+      { status: 500 }
+    );
+  }
+}
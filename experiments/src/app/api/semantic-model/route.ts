@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSemanticDefinition,
+  getSemanticModel,
+  validateSemanticDefinition,
+  type SemanticKind,
+} from "@/lib/semantic-model";
+
+const KINDS: SemanticKind[] = ["metric", "dimension"];
+
+export async function GET(request: NextRequest) {
+  try {
+    const env = request.nextUrl.searchParams.get("env");
+    const schema = request.nextUrl.searchParams.get("schema") ?? undefined;
+
+    if (!env) {
+      return NextResponse.json(
+        { error: "Environment is required" },
+        { status: 400 }
+      );
+    }
+
+    const model = await getSemanticModel(env, schema);
+
+    return NextResponse.json(model);
+  } catch (error) {
+    console.error("Error loading semantic model:", error);
+    return NextResponse.json(
+      { error: "Failed to load semantic model" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { kind, ...input } = await request.json();
+
+    if (!KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Kind must be one of: ${KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const validationError = await validateSemanticDefinition(kind, input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const definition = await createSemanticDefinition(kind, input);
+
+    if (!definition) {
+      return NextResponse.json(
+        { error: `A ${kind} named "${input.name}" already exists in this schema` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ kind, definition }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating semantic definition:", error);
+    return NextResponse.json(
+      { error: "Failed to create definition" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Client } from "pg";
+import { getDriver } from "@/lib/drivers";
+import { recordSchemaVersion } from "@/lib/snapshot-history";
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,38 +13,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const connectionString = process.env.DEMO_POSTGRES_DATABASE_URL;
-    
-    if (!connectionString) {
+    const driver = await getDriver(env);
+
+    if (!driver) {
       return NextResponse.json(
-        { error: "Database connection string not configured" },
-        { status: 500 }
+        { error: `Environment "${env}" is not configured` },
+        { status: 400 }
       );
     }
 
-    const client = new Client({ 
-      connectionString,
-      ssl: {
-        rejectUnauthorized: false
-      }
-    });
-    await client.connect();
-
-    // Query to get table information for the schema
-    const result = await client.query(`
-      SELECT 
-        table_name,
-        table_type
-      FROM information_schema.tables
-      WHERE table_schema = $1
-      ORDER BY table_name;
-    `, [schema]);
+    // Keep the schema's version history current; listing never waits on it
+    recordSchemaVersion(env, driver, schema).catch((error) => console.error("Error recording schema version:", error));
 
-    await client.end();
+    // Table information for the schema
+    const rows = await driver.listTables(schema);
 
-    const tables = result.rows.map((row) => ({
-      name: row.table_name,
-      type: row.table_type
+    const tables = rows.map((row) => ({
+      name: row.name,
+      type: row.type
     }));
     
     return NextResponse.json({ tables });
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteUploadedTable } from "@/lib/uploads";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await params;
+    const deleted = await deleteUploadedTable(table);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Uploaded table not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting uploaded table:", error);
+    return NextResponse.json(
+      { error: "Failed to delete uploaded table" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UPLOADS_ENVIRONMENT } from "@/lib/environments";
+import { importUpload, listUploadedTables, UploadError } from "@/lib/uploads";
+
+export async function GET() {
+  try {
+    const tables = await listUploadedTables();
+
+    return NextResponse.json({ environment: UPLOADS_ENVIRONMENT, tables });
+  } catch (error) {
+    console.error("Error listing uploaded files:", error);
+    return NextResponse.json(
+      { error: "Failed to list uploaded files" },
+      { status: 500 }
+    );
+  }
+}
+
+// multipart/form-data with a "file" (CSV, TSV, Parquet or JSON) and an
+// optional "tableName". The table is queryable in the uploaded-files
+// environment, schema "main".
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const tableName = formData.get("tableName");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const table = await importUpload(
+        file.name,
+        new Uint8Array(await file.arrayBuffer()),
+        typeof tableName === "string" ? tableName : undefined
+      );
+
+      return NextResponse.json({ environment: UPLOADS_ENVIRONMENT, table }, { status: 201 });
+    } catch (uploadError) {
+      if (uploadError instanceof UploadError) {
+        return NextResponse.json(
+          { error: uploadError.message },
+          { status: 400 }
+        );
+      }
+      throw uploadError;
+    }
+  } catch (error) {
+    console.error("Error uploading file:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 }
+    );
+  }
+}
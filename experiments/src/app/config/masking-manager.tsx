@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import EnvironmentOptions from "@/components/environment-options";
+
+type MaskingAction = "redact" | "hash" | "allow";
+
+interface MaskingRule {
+  id: string;
+  env: string;
+  schema: string;
+  table: string;
+  column: string;
+  action: MaskingAction;
+  note?: string;
+  createdAt: string;
+}
+
+interface RuleForm {
+  env: string;
+  schema: string;
+  table: string;
+  column: string;
+  action: MaskingAction;
+  note: string;
+}
+
+const EMPTY_FORM: RuleForm = { env: "", schema: "public", table: "", column: "", action: "redact", note: "" };
+
+const ACTION_LABELS: Record<MaskingAction, string> = {
+  redact: "Redact",
+  hash: "Hash (keeps values comparable)",
+  allow: "Allow (not sensitive)",
+};
+
+const inputClassName = "w-full p-3 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50";
+
+export default function MaskingManager() {
+  const [rules, setRules] = useState<MaskingRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState("");
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/masking-rules");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch masking rules");
+      }
+
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (err) {
+      setError("Failed to load masking rules");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRule = async () => {
+    setSaving(true);
+    setFormError("");
+
+    try {
+      const response = await fetch("/api/masking-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save masking rule");
+      }
+
+      // Keep the environment and table so several columns can be tagged in a row
+      setForm({ ...EMPTY_FORM, env: form.env, schema: form.schema, table: form.table });
+      await fetchRules();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save masking rule");
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const response = await fetch(`/api/masking-rules/${id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete masking rule");
+      }
+
+      await fetchRules();
+    } catch (err) {
+      setError("Failed to delete masking rule");
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+      <h2 className="text-2xl mb-4">Sensitive Columns</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Sample data and every row sent to the LLM are masked. Columns whose names, types or values look like emails, phone numbers, government IDs, card numbers, credentials, birth dates, names or addresses are redacted automatically, and those patterns are scrubbed from other text. Tag columns here to redact or hash them too, or to allow a column that was flagged by mistake.
+      </p>
+
+      {loading && (
+        <p className="text-gray-600 dark:text-gray-400">Loading masking rules...</p>
+      )}
+
+      {error && (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {!loading && rules.length > 0 && (
+        <div className="space-y-3 mb-6">
+          {rules.map((rule) => (
+            <div key={rule.id} className="border border-gray-300 dark:border-gray-700 rounded p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium font-mono break-all">
+                  {rule.env} · {rule.schema}.{rule.table}.{rule.column}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {ACTION_LABELS[rule.action]}{rule.note ? ` · ${rule.note}` : ""}
+                </p>
+              </div>
+              <button onClick={() => deleteRule(rule.id)} className={`${buttonClassName} shrink-0`}>
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="masking-env" className="block text-sm font-medium">
+              Environment
+            </label>
+            <select
+              id="masking-env"
+              value={form.env}
+              onChange={(e) => setForm({ ...form, env: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Select environment</option>
+              <EnvironmentOptions />
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="masking-schema" className="block text-sm font-medium">
+              Schema
+            </label>
+            <input
+              id="masking-schema"
+              type="text"
+              value={form.schema}
+              onChange={(e) => setForm({ ...form, schema: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="masking-table" className="block text-sm font-medium">
+              Table
+            </label>
+            <input
+              id="masking-table"
+              type="text"
+              value={form.table}
+              onChange={(e) => setForm({ ...form, table: e.target.value })}
+              placeholder="customers"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="masking-column" className="block text-sm font-medium">
+              Column
+            </label>
+            <input
+              id="masking-column"
+              type="text"
+              value={form.column}
+              onChange={(e) => setForm({ ...form, column: e.target.value })}
+              placeholder="loyalty_number"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="masking-action" className="block text-sm font-medium">
+              Action
+            </label>
+            <select
+              id="masking-action"
+              value={form.action}
+              onChange={(e) => setForm({ ...form, action: e.target.value as MaskingAction })}
+              className={inputClassName}
+            >
+              {(Object.keys(ACTION_LABELS) as MaskingAction[]).map((action) => (
+                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="masking-note" className="block text-sm font-medium">
+              Note (optional)
+            </label>
+            <input
+              id="masking-note"
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {formError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+        )}
+
+        <button
+          onClick={saveRule}
+          disabled={saving || !form.env || !form.table || !form.column}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Add Rule"}
+        </button>
+      </div>
+    </div>
+  );
+}
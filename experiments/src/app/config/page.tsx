@@ -1,7 +1,13 @@
-import ConfigForm from "./config-form";
+import Link from "next/link";
+import ConnectionManager from "./connection-manager";
+import UploadManager from "./upload-manager";
+import MaskingManager from "./masking-manager";
+import { maskConnectionUrl } from "@/lib/connections";
 
 export default function Config() {
-  const demoPostgresUrl = process.env.DEMO_POSTGRES_DATABASE_URL || "Not set";
+  const demoPostgresUrl = process.env.DEMO_POSTGRES_DATABASE_URL
+    ? maskConnectionUrl(process.env.DEMO_POSTGRES_DATABASE_URL)
+    : "Not set";
 
   return (
     <div className="min-h-screen">
@@ -22,8 +28,42 @@ export default function Config() {
             </div>
           </div>
 
-          {/* In-Memory Config */}
-          <ConfigForm />
+          {/* Saved Connections */}
+          <ConnectionManager />
+
+          {/* Uploaded Files */}
+          <UploadManager />
+
+          {/* Sensitive Columns */}
+          <MaskingManager />
+
+          {/* Semantic Model */}
+          <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+            <h2 className="text-2xl mb-4">Semantic Model</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Define metrics, dimensions, synonyms and default time columns so generated SQL computes business terms the same way every time.
+            </p>
+            <Link
+              href="/config/semantic-model"
+              className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Edit semantic model
+            </Link>
+          </div>
+
+          {/* Prompts */}
+          <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+            <h2 className="text-2xl mb-4">Prompts</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Preview the versioned prompt templates the app sends to the model and diff any two versions.
+            </p>
+            <Link
+              href="/config/prompts"
+              className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              View prompts
+            </Link>
+          </div>
         </div>
       </div>
     </div>
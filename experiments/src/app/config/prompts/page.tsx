@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { diffLines } from "@/lib/text-diff";
+
+interface PromptMessage {
+  role: string;
+  content: string;
+}
+
+interface PromptVersionInfo {
+  version: number;
+  changes: string;
+  system?: string;
+  user: string;
+  variables: string[];
+  preview: PromptMessage[];
+}
+
+interface PromptInfo {
+  id: string;
+  description: string;
+  current: number;
+  variables: string[];
+  versions: PromptVersionInfo[];
+}
+
+type ViewMode = "template" | "preview";
+
+const inputClassName = "w-full p-3 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50";
+
+// "<id>@<version>", the same form API responses and traces record
+function versionKey(prompt: PromptInfo, version: PromptVersionInfo): string {
+  return `${prompt.id}@${version.version}`;
+}
+
+function versionText(version: PromptVersionInfo, mode: ViewMode): string {
+  if (mode === "preview") {
+    return version.preview.map((message) => `[${message.role}]\n${message.content}`).join("\n\n");
+  }
+  return [...(version.system ? [`[system]\n${version.system}`] : []), `[user]\n${version.user}`].join("\n\n");
+}
+
+export default function PromptsConfig() {
+  const [prompts, setPrompts] = useState<PromptInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [selectedId, setSelectedId] = useState("");
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [mode, setMode] = useState<ViewMode>("preview");
+  const [diffFrom, setDiffFrom] = useState("");
+  const [diffTo, setDiffTo] = useState("");
+
+  useEffect(() => {
+    fetchPrompts();
+  }, []);
+
+  const fetchPrompts = async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/prompts");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch prompts");
+      }
+
+      const data = await response.json();
+      setPrompts(data.prompts || []);
+    } catch (err) {
+      setError("Failed to load prompts");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectPrompt = (prompt: PromptInfo) => {
+    setSelectedId(prompt.id);
+    setSelectedVersion(prompt.current);
+    // Default to diffing the current version against the one before it
+    const current = prompt.versions[prompt.versions.length - 1];
+    const previous = prompt.versions[prompt.versions.length - 2] ?? current;
+    setDiffFrom(versionKey(prompt, previous));
+    setDiffTo(versionKey(prompt, current));
+  };
+
+  // Every version of every prompt, so versions can be diffed across prompts
+  // too (e.g. SQL generation against joined SQL generation)
+  const allVersions = prompts.flatMap((prompt) =>
+    prompt.versions.map((version) => ({ key: versionKey(prompt, version), version }))
+  );
+  const findVersion = (key: string) => allVersions.find((entry) => entry.key === key)?.version;
+
+  const selected = prompts.find((prompt) => prompt.id === selectedId);
+  const shownVersion = selected?.versions.find((version) => version.version === selectedVersion);
+  const fromVersion = findVersion(diffFrom);
+  const toVersion = findVersion(diffTo);
+  const diff = fromVersion && toVersion ? diffLines(versionText(fromVersion, mode), versionText(toVersion, mode)) : [];
+  const changedLines = diff.filter((line) => line.kind !== "same").length;
+
+  const renderModeToggle = () => (
+    <div className="flex gap-2">
+      {(["preview", "template"] as ViewMode[]).map((option) => (
+        <button
+          key={option}
+          onClick={() => setMode(option)}
+          className={`${buttonClassName} ${mode === option ? "bg-gray-200 dark:bg-gray-700" : ""}`}
+        >
+          {option === "preview" ? "Rendered with example" : "Template"}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen">
+      <div className="p-6 max-w-4xl mx-auto">
+        <h1 className="text-4xl mb-2">prompts</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">
+          Every prompt the app sends, versioned. API responses and LangSmith traces record the version used as <code>id@version</code>. Prompts are edited in <code>src/lib/prompts</code>. <Link href="/config" className="underline">Back to config</Link>
+        </p>
+
+        <div className="space-y-8">
+          {loading && (
+            <p className="text-gray-600 dark:text-gray-400">Loading prompts...</p>
+          )}
+
+          {error && (
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {/* Registry */}
+          {!loading && prompts.length > 0 && (
+            <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+              <h2 className="text-2xl mb-4">Registry</h2>
+              <div className="space-y-2">
+                {prompts.map((prompt) => (
+                  <button
+                    key={prompt.id}
+                    onClick={() => selectPrompt(prompt)}
+                    className={`w-full text-left p-3 border rounded ${
+                      prompt.id === selectedId
+                        ? "border-blue-500 bg-blue-50 dark:bg-blue-950"
+                        : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+                    }`}
+                  >
+                    <div className="flex justify-between gap-4">
+                      <span className="font-mono text-sm">{prompt.id}</span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">
+                        v{prompt.current} · {prompt.versions.length} version{prompt.versions.length === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{prompt.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {selected && shownVersion && (
+            <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
+              <h2 className="text-2xl">Preview</h2>
+              <div className="flex flex-wrap items-center gap-4">
+                <select
+                  value={shownVersion.version}
+                  onChange={(e) => setSelectedVersion(Number(e.target.value))}
+                  className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+                >
+                  {selected.versions.map((version) => (
+                    <option key={version.version} value={version.version}>
+                      v{version.version}{version.version === selected.current ? " (current)" : ""}
+                    </option>
+                  ))}
+                </select>
+                {renderModeToggle()}
+              </div>
+              <p className="text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Changes:</span> {shownVersion.changes}
+              </p>
+              <p className="text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Variables:</span>{" "}
+                <span className="font-mono">{shownVersion.variables.join(", ") || "none"}</span>
+              </p>
+              <pre className="p-3 bg-gray-100 dark:bg-gray-800 rounded border border-gray-300 dark:border-gray-700 text-xs whitespace-pre-wrap break-words max-h-[600px] overflow-auto">
+                {versionText(shownVersion, mode)}
+              </pre>
+            </div>
+          )}
+
+          {/* Diff */}
+          {selected && (
+            <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
+              <h2 className="text-2xl">Diff</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  { label: "From", value: diffFrom, onChange: setDiffFrom },
+                  { label: "To", value: diffTo, onChange: setDiffTo },
+                ].map((side) => (
+                  <div key={side.label} className="space-y-2">
+                    <label className="block text-sm font-medium">{side.label}</label>
+                    <select
+                      value={side.value}
+                      onChange={(e) => side.onChange(e.target.value)}
+                      className={inputClassName}
+                    >
+                      {allVersions.map((entry) => (
+                        <option key={entry.key} value={entry.key}>{entry.key}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {renderModeToggle()}
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {changedLines === 0 ? "No differences" : `${changedLines} changed line${changedLines === 1 ? "" : "s"}`}
+              </p>
+              <pre className="p-3 bg-gray-100 dark:bg-gray-800 rounded border border-gray-300 dark:border-gray-700 text-xs whitespace-pre-wrap break-words max-h-[600px] overflow-auto">
+                {diff.map((line, idx) => (
+                  <div
+                    key={idx}
+                    className={
+                      line.kind === "added"
+                        ? "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
+                        : line.kind === "removed"
+                          ? "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                          : ""
+                    }
+                  >
+                    {line.kind === "added" ? "+ " : line.kind === "removed" ? "- " : "  "}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import EnvironmentOptions from "@/components/environment-options";
+
+type SemanticKind = "metric" | "dimension";
+
+interface SemanticDefinition {
+  id: string;
+  env: string;
+  schema: string;
+  name: string;
+  description?: string;
+  table: string;
+  synonyms: string[];
+  expression: string;
+  filters?: string;
+  timeColumn?: string;
+  updatedAt: string;
+}
+
+interface DefinitionForm {
+  kind: SemanticKind;
+  name: string;
+  description: string;
+  table: string;
+  synonyms: string;
+  expression: string;
+  filters: string;
+  timeColumn: string;
+}
+
+const EMPTY_FORM: DefinitionForm = {
+  kind: "metric",
+  name: "",
+  description: "",
+  table: "",
+  synonyms: "",
+  expression: "",
+  filters: "",
+  timeColumn: "",
+};
+
+const inputClassName = "w-full p-3 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50";
+
+export default function SemanticModelConfig() {
+  const [env, setEnv] = useState("");
+  const [schema, setSchema] = useState("public");
+  const [metrics, setMetrics] = useState<SemanticDefinition[]>([]);
+  const [dimensions, setDimensions] = useState<SemanticDefinition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState<DefinitionForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState("");
+
+  useEffect(() => {
+    if (env && schema) {
+      fetchModel(env, schema);
+    } else {
+      setMetrics([]);
+      setDimensions([]);
+    }
+  }, [env, schema]);
+
+  const fetchModel = async (selectedEnv: string, selectedSchema: string) => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const params = new URLSearchParams({ env: selectedEnv, schema: selectedSchema });
+      const response = await fetch(`/api/semantic-model?${params}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch semantic model");
+      }
+
+      const data = await response.json();
+      setMetrics(data.metrics || []);
+      setDimensions(data.dimensions || []);
+    } catch (err) {
+      setError("Failed to load semantic model");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (kind: SemanticKind, definition: SemanticDefinition) => {
+    setEditingId(definition.id);
+    setFormError("");
+    setForm({
+      kind,
+      name: definition.name,
+      description: definition.description ?? "",
+      table: definition.table,
+      synonyms: definition.synonyms.join(", "),
+      expression: definition.expression,
+      filters: definition.filters ?? "",
+      timeColumn: definition.timeColumn ?? "",
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setFormError("");
+    setForm({ ...EMPTY_FORM, kind: form.kind });
+  };
+
+  const saveDefinition = async () => {
+    setSaving(true);
+    setFormError("");
+
+    try {
+      const response = await fetch(editingId ? `/api/semantic-model/${editingId}` : "/api/semantic-model", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, env, schema }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save definition");
+      }
+
+      setEditingId(null);
+      setForm({ ...EMPTY_FORM, kind: form.kind, table: form.table });
+      await fetchModel(env, schema);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save definition");
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteDefinition = async (id: string) => {
+    try {
+      const response = await fetch(`/api/semantic-model/${id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete definition");
+      }
+
+      if (editingId === id) cancelEditing();
+      await fetchModel(env, schema);
+    } catch (err) {
+      setError("Failed to delete definition");
+      console.error(err);
+    }
+  };
+
+  const renderDefinitions = (kind: SemanticKind, definitions: SemanticDefinition[]) => (
+    <div className="space-y-3">
+      {definitions.length === 0 && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No {kind}s defined for this schema yet.</p>
+      )}
+      {definitions.map((definition) => (
+        <div key={definition.id} className="border border-gray-300 dark:border-gray-700 rounded p-4 flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <p className="font-medium font-mono break-all">{definition.name}</p>
+            <p className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all">
+              {definition.expression} · {definition.table}
+              {definition.filters ? ` · WHERE ${definition.filters}` : ""}
+            </p>
+            {definition.timeColumn && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">Time column: {definition.timeColumn}</p>
+            )}
+            {definition.synonyms.length > 0 && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">Also: {definition.synonyms.join(", ")}</p>
+            )}
+            {definition.description && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">{definition.description}</p>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => startEditing(kind, definition)} className={buttonClassName}>
+              Edit
+            </button>
+            <button onClick={() => deleteDefinition(definition.id)} className={buttonClassName}>
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen">
+      <div className="p-6 max-w-4xl mx-auto">
+        <h1 className="text-4xl mb-2">semantic model</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">
+          Metrics and dimensions defined here are used whenever a question mentions them by name or synonym, and generated SQL cites the metric definitions it used. <Link href="/config" className="underline">Back to config</Link>
+        </p>
+
+        <div className="space-y-8">
+          {/* Scope */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="semantic-env" className="block text-sm font-medium">
+                Environment
+              </label>
+              <select
+                id="semantic-env"
+                value={env}
+                onChange={(e) => {
+                  setEnv(e.target.value);
+                  setEditingId(null);
+                }}
+                className={inputClassName}
+              >
+                <option value="">Select environment</option>
+                <EnvironmentOptions />
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="semantic-schema" className="block text-sm font-medium">
+                Schema
+              </label>
+              <input
+                id="semantic-schema"
+                type="text"
+                value={schema}
+                onChange={(e) => {
+                  setSchema(e.target.value);
+                  setEditingId(null);
+                }}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {loading && (
+            <p className="text-gray-600 dark:text-gray-400">Loading semantic model...</p>
+          )}
+
+          {error && (
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {env && schema && !loading && (
+            <>
+              {/* Metrics */}
+              <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+                <h2 className="text-2xl mb-4">Metrics</h2>
+                {renderDefinitions("metric", metrics)}
+              </div>
+
+              {/* Dimensions */}
+              <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+                <h2 className="text-2xl mb-4">Dimensions</h2>
+                {renderDefinitions("dimension", dimensions)}
+              </div>
+            </>
+          )}
+
+          {/* Add or Edit Definition */}
+          {env && schema && (
+            <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
+              <h2 className="text-2xl">{editingId ? `Edit ${form.kind}` : "Add definition"}</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label htmlFor="semantic-kind" className="block text-sm font-medium">
+                    Kind
+                  </label>
+                  <select
+                    id="semantic-kind"
+                    value={form.kind}
+                    onChange={(e) => setForm({ ...form, kind: e.target.value as SemanticKind })}
+                    disabled={!!editingId}
+                    className={inputClassName}
+                  >
+                    <option value="metric">Metric</option>
+                    <option value="dimension">Dimension</option>
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="semantic-name" className="block text-sm font-medium">
+                    Name
+                  </label>
+                  <input
+                    id="semantic-name"
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder={form.kind === "metric" ? "revenue" : "order_month"}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="semantic-table" className="block text-sm font-medium">
+                    Base table
+                  </label>
+                  <input
+                    id="semantic-table"
+                    type="text"
+                    value={form.table}
+                    onChange={(e) => setForm({ ...form, table: e.target.value })}
+                    placeholder="orders"
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="semantic-synonyms" className="block text-sm font-medium">
+                    Synonyms (comma-separated)
+                  </label>
+                  <input
+                    id="semantic-synonyms"
+                    type="text"
+                    value={form.synonyms}
+                    onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+                    placeholder={form.kind === "metric" ? "sales, turnover" : "month"}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="space-y-2 md:col-span-2">
+                  <label htmlFor="semantic-expression" className="block text-sm font-medium">
+                    SQL expression
+                  </label>
+                  <input
+                    id="semantic-expression"
+                    type="text"
+                    value={form.expression}
+                    onChange={(e) => setForm({ ...form, expression: e.target.value })}
+                    placeholder={form.kind === "metric" ? "SUM(total_amount)" : "date_trunc('month', created_at)"}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+
+                {form.kind === "metric" && (
+                  <>
+                    <div className="space-y-2">
+                      <label htmlFor="semantic-filters" className="block text-sm font-medium">
+                        Filters (optional)
+                      </label>
+                      <input
+                        id="semantic-filters"
+                        type="text"
+                        value={form.filters}
+                        onChange={(e) => setForm({ ...form, filters: e.target.value })}
+                        placeholder="status = 'completed'"
+                        className={`${inputClassName} font-mono`}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="semantic-time-column" className="block text-sm font-medium">
+                        Default time column (optional)
+                      </label>
+                      <input
+                        id="semantic-time-column"
+                        type="text"
+                        value={form.timeColumn}
+                        onChange={(e) => setForm({ ...form, timeColumn: e.target.value })}
+                        placeholder="created_at"
+                        className={inputClassName}
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div className="space-y-2 md:col-span-2">
+                  <label htmlFor="semantic-description" className="block text-sm font-medium">
+                    Description (optional)
+                  </label>
+                  <input
+                    id="semantic-description"
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={saveDefinition}
+                  disabled={saving || !form.name || !form.table || !form.expression}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : editingId ? "Save Changes" : "Add Definition"}
+                </button>
+                {editingId && (
+                  <button onClick={cancelEditing} className={buttonClassName}>
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface UploadedTable {
+  table: string;
+  fileName: string;
+  format: "csv" | "parquet" | "json";
+  rowCount: number;
+  columnCount: number;
+  sizeBytes: number;
+  uploadedAt: string;
+}
+
+const inputClassName = "w-full p-3 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function UploadManager() {
+  const [tables, setTables] = useState<UploadedTable[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [tableName, setTableName] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+  // Remounts the file input so it clears after an upload
+  const [inputKey, setInputKey] = useState(0);
+
+  useEffect(() => {
+    fetchTables();
+  }, []);
+
+  const fetchTables = async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/uploads");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch uploaded files");
+      }
+
+      const data = await response.json();
+      setTables(data.tables || []);
+    } catch (err) {
+      setError("Failed to load uploaded files");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadFile = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setUploadError("");
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (tableName.trim()) {
+        formData.append("tableName", tableName.trim());
+      }
+
+      const response = await fetch("/api/uploads", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload file");
+      }
+
+      setFile(null);
+      setTableName("");
+      setInputKey(key => key + 1);
+      await fetchTables();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Failed to upload file");
+      console.error(err);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const deleteTable = async (table: string) => {
+    if (!confirm(`Delete the uploaded table "${table}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/uploads/${encodeURIComponent(table)}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete uploaded table");
+      }
+
+      await fetchTables();
+    } catch (err) {
+      setError("Failed to delete uploaded table");
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-6">
+      <h2 className="text-2xl mb-4">Uploaded Files</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        CSV, TSV, Parquet and JSON files become tables in the &quot;Uploaded Files&quot; environment (schema &quot;main&quot;), queryable from every experiment without a database server.
+      </p>
+
+      {loading && (
+        <p className="text-gray-600 dark:text-gray-400">Loading uploaded files...</p>
+      )}
+
+      {error && (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {!loading && tables.length > 0 && (
+        <div className="space-y-3 mb-6">
+          {tables.map((table) => (
+            <div key={table.table} className="border border-gray-300 dark:border-gray-700 rounded p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium font-mono">{table.table}</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400 break-all">
+                  {table.fileName} · {table.format.toUpperCase()} · {table.rowCount.toLocaleString()} rows · {table.columnCount} columns · {formatSize(table.sizeBytes)} · {new Date(table.uploadedAt).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => deleteTable(table.table)} className={`${buttonClassName} shrink-0`}>
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="upload-file" className="block text-sm font-medium">
+            File
+          </label>
+          <input
+            key={inputKey}
+            id="upload-file"
+            type="file"
+            accept=".csv,.tsv,.txt,.parquet,.json,.jsonl,.ndjson"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="upload-table-name" className="block text-sm font-medium">
+            Table Name (optional)
+          </label>
+          <input
+            id="upload-table-name"
+            type="text"
+            value={tableName}
+            onChange={(e) => setTableName(e.target.value)}
+            placeholder="Derived from the file name, e.g. q3_sales"
+            className={inputClassName}
+          />
+        </div>
+
+        {uploadError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{uploadError}</p>
+        )}
+
+        <button
+          onClick={uploadFile}
+          disabled={!file || uploading}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {uploading ? "Uploading..." : "Upload"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect, useRef } from "react";
 import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import EnvironmentOptions from "@/components/environment-options";
+import ExecutionAttempts from "@/components/execution-attempts";
+import { REPAIR_ATTEMPTS } from "@/lib/query-execution";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
 
 // Register Chart.js components
 if (typeof window !== 'undefined') {
@@ -37,6 +41,7 @@ interface ConversationEntry {
   sql: string;
   result: QueryResult;
   interpretation: string;
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
 }
 
 export default function ChartJSGeneration() {
@@ -50,6 +55,7 @@ export default function ChartJSGeneration() {
   const [query, setQuery] = useState("");
   const [conversationHistory, setConversationHistory] = useState<ConversationEntry[]>([]);
   const [generatedSQL, setGeneratedSQL] = useState("");
+  const [executionAttempts, setExecutionAttempts] = useState<ExecutionAttempt[]>([]);
   const [queryResults, setQueryResults] = useState<QueryResult | null>(null);
   const [interpretation, setInterpretation] = useState("");
   const [chartConfig, setChartConfig] = useState<any>(null);
@@ -222,6 +228,7 @@ export default function ChartJSGeneration() {
 
     // Reset previous results
     setGeneratedSQL("");
+    setExecutionAttempts([]);
     setQueryResults(null);
     setInterpretation("");
     setChartConfig(null);
@@ -279,6 +286,7 @@ export default function ChartJSGeneration() {
     // Step 2: Execute SQL
     setExecutingSQL(true);
     let result: QueryResult | null = null;
+    let attempts: ExecutionAttempt[] = [];
     
     try {
       const response = await fetch("/api/execute-sql", {
@@ -289,6 +297,10 @@ export default function ChartJSGeneration() {
         body: JSON.stringify({
           env: selectedEnv,
           sql,
+          repairAttempts: REPAIR_ATTEMPTS,
+          question: currentQuery,
+          schema: selectedSchema,
+          tablesWithColumns: [{ table: selectedTable, columns }],
         }),
       });
 
@@ -297,6 +309,12 @@ export default function ChartJSGeneration() {
       }
 
       const data = await response.json();
+
+      // A repaired query replaces the generated one
+      sql = data.sql || sql;
+      attempts = data.attempts ?? [];
+      setGeneratedSQL(sql);
+      setExecutionAttempts(attempts);
       
       if (data.error) {
         setError(data.error);
@@ -328,6 +346,7 @@ export default function ChartJSGeneration() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: currentQuery,
           sql,
           result,
@@ -358,6 +377,7 @@ export default function ChartJSGeneration() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: currentQuery,
           sql,
           result,
@@ -378,6 +398,7 @@ export default function ChartJSGeneration() {
         sql,
         result,
         interpretation: interpretationText,
+        attempts,
       }]);
     } catch (err) {
       console.error("Failed to generate chart:", err);
@@ -395,7 +416,7 @@ export default function ChartJSGeneration() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -404,7 +425,7 @@ export default function ChartJSGeneration() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -654,9 +675,16 @@ export default function ChartJSGeneration() {
                     <span className="text-sm">Generating SQL...</span>
                   </div>
                 ) : (
-                  <pre className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg overflow-x-auto text-sm font-mono">
-                    {generatedSQL}
-                  </pre>
+                  <>
+                    <pre className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg overflow-x-auto text-sm font-mono">
+                      {generatedSQL}
+                    </pre>
+                    {executionAttempts.length > 0 && (
+                      <div className="mt-2">
+                        <ExecutionAttempts attempts={executionAttempts} />
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             )}
@@ -2,6 +2,10 @@
 
 import Link from "next/link";
 import { useState, useEffect } from "react";
+import EnvironmentOptions from "@/components/environment-options";
+import InlineDescription from "@/components/inline-description";
+import type { GlossaryEntry } from "@/lib/glossary";
+import type { TableProfile } from "@/lib/profiling";
 
 interface Table {
   name: string;
@@ -16,9 +20,30 @@ interface Column {
   maxLength: number | null;
 }
 
+type SampleMode = "first" | "tablesample" | "random" | "recent";
+
+interface SampleOptions {
+  mode: SampleMode;
+  limit: number;
+  orderBy: string;
+  filterColumn: string;
+  filterOperator: string;
+  filterValue: string;
+}
+
+const DEFAULT_SAMPLE_OPTIONS: SampleOptions = { mode: "first", limit: 10, orderBy: "", filterColumn: "", filterOperator: "=", filterValue: "" };
+
+const SAMPLE_MODE_LABELS: Record<SampleMode, string> = {
+  first: "First rows",
+  tablesample: "TABLESAMPLE SYSTEM",
+  random: "Random rows",
+  recent: "Most recent",
+};
+
 interface SampleData {
   columns: string[];
   rows: Record<string, any>[];
+  maskedColumns?: { column: string; action: "redact" | "hash"; reason: string }[];
 }
 
 export default function ConnectToDB() {
@@ -37,6 +62,12 @@ export default function ConnectToDB() {
   const [tablesError, setTablesError] = useState("");
   const [columnsError, setColumnsError] = useState("");
   const [sampleError, setSampleError] = useState("");
+  const [sampleOptions, setSampleOptions] = useState<SampleOptions>(DEFAULT_SAMPLE_OPTIONS);
+  const [profile, setProfile] = useState<TableProfile | null>(null);
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [loadingProfile, setLoadingProfile] = useState(false);
+  const [profileError, setProfileError] = useState("");
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
 
   useEffect(() => {
     if (selectedEnv) {
@@ -63,10 +94,17 @@ export default function ConnectToDB() {
   useEffect(() => {
     if (selectedTable && selectedSchema && selectedEnv) {
       fetchColumns(selectedEnv, selectedSchema, selectedTable);
-      fetchSampleData(selectedEnv, selectedSchema, selectedTable);
+      fetchGlossary(selectedEnv, selectedSchema, selectedTable);
+      setSampleOptions(DEFAULT_SAMPLE_OPTIONS);
+      fetchSampleData(selectedEnv, selectedSchema, selectedTable, DEFAULT_SAMPLE_OPTIONS);
+      // A new table starts collapsed rather than profiling on every click
+      setProfile(null);
+      setProfileOpen(false);
     } else {
+      setProfile(null);
       setColumns([]);
       setSampleData(null);
+      setGlossary([]);
     }
   }, [selectedTable, selectedSchema, selectedEnv]);
 
@@ -153,7 +191,82 @@ export default function ConnectToDB() {
     }
   };
 
-  const fetchSampleData = async (env: string, schema: string, table: string) => {
+  const fetchGlossary = async (env: string, schema: string, table: string) => {
+    try {
+      const params = new URLSearchParams({ env, schema, table });
+      const response = await fetch(`/api/glossary?${params}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch glossary");
+      }
+
+      const data = await response.json();
+      setGlossary(data.entries || []);
+    } catch (err) {
+      // Descriptions are optional; the columns still show without them
+      console.error(err);
+    }
+  };
+
+  const saveDescription = async (description: string, column?: string) => {
+    const response = await fetch("/api/glossary", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ env: selectedEnv, schema: selectedSchema, table: selectedTable, column, description }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save description");
+    }
+
+    await fetchGlossary(selectedEnv, selectedSchema, selectedTable);
+  };
+
+  const glossaryEntry = (column?: string) =>
+    glossary.find((entry) => entry.table === selectedTable && (entry.column ?? null) === (column ?? null));
+
+  const fetchProfile = async (refresh = false) => {
+    setLoadingProfile(true);
+    setProfileError("");
+
+    try {
+      const response = await fetch("/api/profile-table", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ env: selectedEnv, schema: selectedSchema, table: selectedTable, refresh }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to profile table");
+      }
+
+      setProfile(data.profile);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : "Failed to profile table");
+      console.error(err);
+    } finally {
+      setLoadingProfile(false);
+    }
+  };
+
+  const toggleProfile = () => {
+    const opening = !profileOpen;
+    setProfileOpen(opening);
+    // Profiles scan the table, so they load only when the panel is opened
+    if (opening && !profile && !loadingProfile) {
+      fetchProfile();
+    }
+  };
+
+  const fetchSampleData = async (env: string, schema: string, table: string, options: SampleOptions) => {
     setLoadingSample(true);
     setSampleError("");
     
@@ -163,17 +276,32 @@ export default function ConnectToDB() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ env, schema, table }),
+        body: JSON.stringify({
+          env,
+          schema,
+          table,
+          mode: options.mode,
+          limit: options.limit,
+          ...(options.mode === "recent" && options.orderBy ? { orderBy: options.orderBy } : {}),
+          ...(options.filterColumn ? {
+            filters: [{
+              column: options.filterColumn,
+              operator: options.filterOperator,
+              ...(options.filterOperator === "is_null" || options.filterOperator === "not_null" ? {} : { value: options.filterValue }),
+            }],
+          } : {}),
+        }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error("Failed to fetch sample data");
+        throw new Error(data.error || "Failed to fetch sample data");
       }
 
-      const data = await response.json();
       setSampleData(data);
     } catch (err) {
-      setSampleError("Failed to load sample data");
+      setSampleError(err instanceof Error ? err.message : "Failed to load sample data");
       console.error(err);
     } finally {
       setLoadingSample(false);
@@ -188,7 +316,7 @@ export default function ConnectToDB() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -197,7 +325,7 @@ export default function ConnectToDB() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -286,7 +414,14 @@ export default function ConnectToDB() {
 
         {selectedTable && (
           <div className="mt-8">
-            <h2 className="text-2xl mb-4">Columns in {selectedTable}</h2>
+            <h2 className="text-2xl mb-1">Columns in {selectedTable}</h2>
+            <InlineDescription
+              value={glossaryEntry()?.description}
+              source={glossaryEntry()?.source}
+              onSave={(description) => saveDescription(description)}
+              placeholder="Add table description"
+              className="mb-4 block"
+            />
             
             {loadingColumns && (
               <p className="text-gray-600 dark:text-gray-400">Loading columns...</p>
@@ -305,6 +440,7 @@ export default function ConnectToDB() {
                       <th className="px-4 py-3 text-left text-sm font-medium">Data Type</th>
                       <th className="px-4 py-3 text-left text-sm font-medium">Nullable</th>
                       <th className="px-4 py-3 text-left text-sm font-medium">Default</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Description</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -323,6 +459,13 @@ export default function ConnectToDB() {
                         <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 font-mono">
                           {column.default || "-"}
                         </td>
+                        <td className="px-4 py-3 text-sm min-w-[12rem]">
+                          <InlineDescription
+                            value={glossaryEntry(column.name)?.description}
+                            source={glossaryEntry(column.name)?.source}
+                            onSave={(description) => saveDescription(description, column.name)}
+                          />
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -333,13 +476,172 @@ export default function ConnectToDB() {
             {!loadingColumns && !columnsError && columns.length === 0 && (
               <p className="text-gray-600 dark:text-gray-400">No columns found in this table</p>
             )}
+
+            <div className="mt-6 border border-gray-300 dark:border-gray-700 rounded-lg">
+              <button
+                onClick={toggleProfile}
+                className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <span className="text-lg">Column Profile</span>
+                <span className="text-sm text-gray-500">{profileOpen ? "Hide" : "Show"}</span>
+              </button>
+
+              {profileOpen && (
+                <div className="px-4 pb-4 space-y-4">
+                  {loadingProfile && (
+                    <p className="text-gray-600 dark:text-gray-400">Profiling {selectedTable}...</p>
+                  )}
+
+                  {profileError && (
+                    <p className="text-red-600 dark:text-red-400">{profileError}</p>
+                  )}
+
+                  {!loadingProfile && profile && (
+                    <>
+                      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                        <span>
+                          {profile.sampled
+                            ? `${profile.sampledRows.toLocaleString()} sampled of ${profile.rowCount.toLocaleString()} rows`
+                            : `${profile.rowCount.toLocaleString()} rows`}
+                          {" · "}profiled {new Date(profile.profiledAt).toLocaleString()}
+                        </span>
+                        <button onClick={() => fetchProfile(true)} className="underline hover:no-underline">
+                          Refresh
+                        </button>
+                      </div>
+
+                      {profile.columns.map((column) => {
+                        const largestBucket = Math.max(1, ...(column.histogram ?? []).map((bucket) => bucket.count));
+                        return (
+                          <div key={column.name} className="border-t border-gray-200 dark:border-gray-700 pt-3 text-sm">
+                            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                              <span className="font-mono font-medium">{column.name}</span>
+                              <span className="text-xs text-gray-500">{column.type}</span>
+                              {column.masked && (
+                                <span className="text-xs px-1.5 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">
+                                  {column.masked === "hash" ? "hashed" : "redacted"}
+                                </span>
+                              )}
+                              {column.formats.map((format) => (
+                                <span key={format.format} className="text-xs px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                                  {format.format}
+                                </span>
+                              ))}
+                            </div>
+                            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                              {Math.round(column.nullRatio * 100)}% null · {column.distinctCount.toLocaleString()}{profile.sampled ? "+" : ""} distinct
+                              {column.min !== undefined && column.max !== undefined && ` · ${String(column.min)} to ${String(column.max)}`}
+                            </p>
+                            {column.topValues.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {column.topValues.map((entry) => (
+                                  <span key={entry.value} className="text-xs font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 max-w-[16rem] truncate" title={entry.value}>
+                                    {entry.value} <span className="text-gray-500">×{entry.count}</span>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {column.histogram && column.histogram.length > 1 && (
+                              <div className="flex items-end gap-px h-10 mt-2" title={`${String(column.min)} to ${String(column.max)}`}>
+                                {column.histogram.map((bucket, idx) => (
+                                  <div
+                                    key={idx}
+                                    className="flex-1 bg-blue-400 dark:bg-blue-600"
+                                    style={{ height: `${Math.max(2, (bucket.count / largestBucket) * 100)}%` }}
+                                    title={`${String(bucket.from)} to ${String(bucket.to)}: ${bucket.count}`}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         )}
         </div>
 
         {selectedTable && (
           <div className="flex-1 min-w-0">
-            <h2 className="text-2xl mb-4 sticky top-0 bg-white dark:bg-black py-2">Sample Data (LIMIT 10)</h2>
+            <h2 className="text-2xl mb-4 sticky top-0 bg-white dark:bg-black py-2">Sample Data (LIMIT {sampleOptions.limit})</h2>
+
+            <div className="flex flex-wrap items-end gap-2 mb-4 text-sm">
+              <select
+                value={sampleOptions.mode}
+                onChange={(e) => setSampleOptions({ ...sampleOptions, mode: e.target.value as SampleMode })}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+              >
+                {(Object.keys(SAMPLE_MODE_LABELS) as SampleMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{SAMPLE_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              {sampleOptions.mode === "recent" && (
+                <select
+                  value={sampleOptions.orderBy}
+                  onChange={(e) => setSampleOptions({ ...sampleOptions, orderBy: e.target.value })}
+                  className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+                >
+                  <option value="">Detect timestamp column</option>
+                  {columns.map((col) => (
+                    <option key={col.name} value={col.name}>{col.name}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={sampleOptions.limit}
+                onChange={(e) => setSampleOptions({ ...sampleOptions, limit: Number(e.target.value) })}
+                className="w-20 p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+                aria-label="Rows"
+              />
+              <select
+                value={sampleOptions.filterColumn}
+                onChange={(e) => setSampleOptions({ ...sampleOptions, filterColumn: e.target.value })}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+              >
+                <option value="">No filter</option>
+                {columns.map((col) => (
+                  <option key={col.name} value={col.name}>{col.name}</option>
+                ))}
+              </select>
+              {sampleOptions.filterColumn && (
+                <>
+                  <select
+                    value={sampleOptions.filterOperator}
+                    onChange={(e) => setSampleOptions({ ...sampleOptions, filterOperator: e.target.value })}
+                    className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+                  >
+                    {["=", "!=", "<", "<=", ">", ">=", "like"].map((operator) => (
+                      <option key={operator} value={operator}>{operator.toUpperCase()}</option>
+                    ))}
+                    <option value="is_null">IS NULL</option>
+                    <option value="not_null">IS NOT NULL</option>
+                  </select>
+                  {sampleOptions.filterOperator !== "is_null" && sampleOptions.filterOperator !== "not_null" && (
+                    <input
+                      type="text"
+                      value={sampleOptions.filterValue}
+                      onChange={(e) => setSampleOptions({ ...sampleOptions, filterValue: e.target.value })}
+                      placeholder="value"
+                      className="w-32 p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+                    />
+                  )}
+                </>
+              )}
+              <button
+                onClick={() => fetchSampleData(selectedEnv, selectedSchema, selectedTable, sampleOptions)}
+                disabled={loadingSample}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
             
             {loadingSample && (
               <p className="text-gray-600 dark:text-gray-400">Loading sample data...</p>
@@ -349,6 +651,12 @@ export default function ConnectToDB() {
               <p className="text-red-600 dark:text-red-400">{sampleError}</p>
             )}
             
+            {!loadingSample && !sampleError && sampleData && sampleData.maskedColumns && sampleData.maskedColumns.length > 0 && (
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+                Masked: {sampleData.maskedColumns.map((masked) => `${masked.column} (${masked.action === "hash" ? "hashed" : "redacted"}, ${masked.reason})`).join(", ")}
+              </p>
+            )}
+
             {!loadingSample && !sampleError && sampleData && sampleData.rows.length > 0 && (
               <div className="border border-gray-300 dark:border-gray-700 rounded-lg overflow-auto max-h-[calc(100vh-200px)]">
                 <table className="w-full text-sm">
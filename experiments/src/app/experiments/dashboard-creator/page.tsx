@@ -16,6 +16,16 @@ import ReactFlow, {
   useReactFlow,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import EnvironmentOptions from "@/components/environment-options";
+import { RESULT_PAGE_SIZE, appendResultPage, fetchNextResultPage, isNearBottom } from "@/lib/paged-results";
+import { cancelExecution, createQueryId, type ExecutionErrorType } from "@/lib/query-execution";
+import { askQuestion } from "@/lib/ask-client";
+import type { AskEvent, AskRequest, AskStage } from "@/lib/ask-pipeline";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
+import ExecutionAttempts from "@/components/execution-attempts";
+import { fetchSchemaSnapshot } from "@/lib/schema-cache";
+import { findColumnReferences, findMissingReferences, type ColumnRef } from "@/lib/schema-diff";
+import type { SchemaSnapshot } from "@/lib/schema-snapshot";
 
 // Register Chart.js components
 if (typeof window !== 'undefined') {
@@ -44,6 +54,8 @@ interface QueryResult {
   columns: string[];
   rows: Record<string, any>[];
   rowCount: number;
+  nextPageToken?: string; // Set while more rows can be loaded
+  truncated?: boolean; // Row cap reached
 }
 
 interface SQLEvaluation {
@@ -69,6 +81,8 @@ interface Message {
   chartConfig?: any; // Chart.js configuration
   refinedChartConfig?: any; // Chart for refined results
   error?: string;
+  errorType?: ExecutionErrorType; // Set when SQL execution failed
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
   timestamp: Date;
   userQuestion?: string; // Store the original question for refinement
   tablesWithColumns?: TableWithColumns[]; // Store schema context for refinement
@@ -82,6 +96,9 @@ interface SavedQuery {
   userQuestion: string;
   result?: QueryResult;
   isExecuting?: boolean;
+  isLoadingMore?: boolean;
+  references?: ColumnRef[]; // Columns the SQL used when it was saved
+  missingReferences?: ColumnRef[]; // Of those, the ones gone from the latest schema snapshot
 }
 
 interface SavedChart {
@@ -96,7 +113,7 @@ interface SavedChart {
 }
 
 // Custom Node Components for React Flow
-function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => void; onReExecute: () => void }; selected?: boolean }) {
+function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => void; onReExecute: () => void; onLoadMore: () => void }; selected?: boolean }) {
   const [isExpanded, setIsExpanded] = useState(false);
   
   return (
@@ -122,6 +139,11 @@ function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => vo
           ✕
         </button>
       </div>
+      {data.missingReferences && data.missingReferences.length > 0 && (
+        <div className="text-xs text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded p-2 mb-2 flex-shrink-0">
+          ⚠ Schema changed: {data.missingReferences.map((ref) => `${ref.table}.${ref.column}`).join(", ")} no longer exist{data.missingReferences.length === 1 ? 's' : ''}
+        </div>
+      )}
       <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-900 p-2 rounded overflow-x-auto mb-2 max-h-20 overflow-y-auto flex-shrink-0">
         {data.sql}
       </pre>
@@ -129,7 +151,7 @@ function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => vo
         <div className={`mb-2 flex flex-col min-h-0 ${isExpanded ? 'flex-1' : 'flex-shrink-0'}`}>
           <div className="flex items-center justify-between mb-1 flex-shrink-0">
             <p className="text-xs text-gray-600 dark:text-gray-400">
-              Results: {data.result.rowCount} rows
+              Results: {data.result.rowCount}{data.result.nextPageToken ? '+' : ''} rows
             </p>
             <button
               onClick={() => setIsExpanded(!isExpanded)}
@@ -138,7 +160,12 @@ function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => vo
               {isExpanded ? '▼ Collapse' : '▶ Expand'}
             </button>
           </div>
-          <div className={`border border-gray-200 dark:border-gray-700 rounded ${isExpanded ? 'overflow-auto flex-1' : 'overflow-hidden'}`}>
+          <div
+            onScroll={(e) => {
+              if (isExpanded && isNearBottom(e.currentTarget)) data.onLoadMore();
+            }}
+            className={`border border-gray-200 dark:border-gray-700 rounded ${isExpanded ? 'overflow-auto flex-1' : 'overflow-hidden'}`}
+          >
             <table className="w-full text-xs">
               <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
                 <tr>
@@ -170,7 +197,7 @@ function QueryNode({ data, selected }: { data: SavedQuery & { onRemove: () => vo
           </div>
           {!isExpanded && data.result.rowCount > 3 && (
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              Showing first 3 of {data.result.rowCount} rows
+              Showing first 3 of {data.result.rowCount}{data.result.nextPageToken ? '+' : ''} rows
             </p>
           )}
         </div>
@@ -289,6 +316,7 @@ export default function DashboardCreator() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentInput, setCurrentInput] = useState("");
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
+  const [loadingMoreRows, setLoadingMoreRows] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [loadingTables, setLoadingTables] = useState(false);
   const [error, setError] = useState("");
@@ -297,6 +325,8 @@ export default function DashboardCreator() {
   const [fetchingColumns, setFetchingColumns] = useState(false);
   const [generatingSQL, setGeneratingSQL] = useState(false);
   const [executingSQL, setExecutingSQL] = useState(false);
+  const [runningQueryId, setRunningQueryId] = useState<string | null>(null);
+  const [cancellingQuery, setCancellingQuery] = useState(false);
   const [evaluating, setEvaluating] = useState(false);
   const [generatingInterpretation, setGeneratingInterpretation] = useState(false);
   const [refiningSQL, setRefiningSQL] = useState<string | null>(null); // messageId being refined
@@ -321,6 +351,13 @@ export default function DashboardCreator() {
     setSavedCharts(prev => prev.filter(c => c.id !== chartId));
   }, []);
   
+  // Flags saved queries whose columns disappeared from the schema
+  const flagStaleSavedQueries = useCallback((snapshot: SchemaSnapshot) => {
+    setSavedQueries(prev => prev.map(q => 
+      q.references ? { ...q, missingReferences: findMissingReferences(q.references, snapshot) } : q
+    ));
+  }, []);
+
   const reExecuteSavedQuery = useCallback(async (queryId: string) => {
     const query = savedQueries.find(q => q.id === queryId);
     if (!query) return;
@@ -329,11 +366,18 @@ export default function DashboardCreator() {
       q.id === queryId ? { ...q, isExecuting: true } : q
     ));
 
+    // Re-check every saved query against the current schema in the background
+    if (selectedSchema) {
+      fetchSchemaSnapshot(selectedEnv, selectedSchema)
+        .then(flagStaleSavedQueries)
+        .catch(err => console.error("Error checking schema changes:", err));
+    }
+
     try {
       const response = await fetch("/api/execute-sql", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ env: selectedEnv, sql: query.sql }),
+        body: JSON.stringify({ env: selectedEnv, sql: query.sql, pageSize: RESULT_PAGE_SIZE }),
       });
 
       if (!response.ok) throw new Error("Failed to execute query");
@@ -355,6 +399,32 @@ export default function DashboardCreator() {
         q.id === queryId ? { ...q, isExecuting: false } : q
       ));
     }
+  }, [savedQueries, selectedEnv, selectedSchema, flagStaleSavedQueries]);
+
+  const loadMoreSavedQueryRows = useCallback(async (queryId: string) => {
+    const query = savedQueries.find(q => q.id === queryId);
+    const pageToken = query?.result?.nextPageToken;
+    if (!pageToken || query.isLoadingMore) return;
+
+    setSavedQueries(prev => prev.map(q =>
+      q.id === queryId ? { ...q, isLoadingMore: true } : q
+    ));
+
+    try {
+      const page = await fetchNextResultPage(selectedEnv, pageToken);
+      setSavedQueries(prev => prev.map(q =>
+        q.id === queryId && q.result
+          ? { ...q, result: appendResultPage(q.result, page), isLoadingMore: false }
+          : q
+      ));
+    } catch (err) {
+      console.error("Error loading more rows:", err);
+      setSavedQueries(prev => prev.map(q =>
+        q.id === queryId && q.result
+          ? { ...q, result: { ...q.result, nextPageToken: undefined }, isLoadingMore: false }
+          : q
+      ));
+    }
   }, [savedQueries, selectedEnv]);
 
   const reExecuteSavedChart = useCallback(async (chartId: string) => {
@@ -380,6 +450,7 @@ export default function DashboardCreator() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            env: selectedEnv,
             naturalLanguageQuery: chart.userQuestion,
             sql: chart.sql,
             result: data.result,
@@ -432,6 +503,7 @@ export default function DashboardCreator() {
             ...query,
             onRemove: () => removeSavedQuery(query.id),
             onReExecute: () => reExecuteSavedQuery(query.id),
+            onLoadMore: () => loadMoreSavedQueryRows(query.id),
           },
         });
       });
@@ -454,7 +526,7 @@ export default function DashboardCreator() {
       
       return newNodes;
     });
-  }, [savedQueries, savedCharts, removeSavedQuery, removeSavedChart, reExecuteSavedQuery, reExecuteSavedChart]);
+  }, [savedQueries, savedCharts, removeSavedQuery, removeSavedChart, reExecuteSavedQuery, reExecuteSavedChart, loadMoreSavedQueryRows]);
 
   useEffect(() => {
     if (selectedEnv) {
@@ -504,25 +576,16 @@ export default function DashboardCreator() {
     }
   };
 
+  // Tables and their columns come from one snapshot request
   const fetchTables = async (env: string, schema: string) => {
     setLoadingTables(true);
     setTablesError("");
     
     try {
-      const response = await fetch("/api/tables", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ env, schema }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch tables");
-      }
-
-      const data = await response.json();
-      setTables(data.tables || []);
+      const snapshot = await fetchSchemaSnapshot(env, schema);
+      setTables(snapshot.tables.map((table) => ({ name: table.name, type: table.type })));
+      setTableColumns(new Map(snapshot.tables.map((table) => [table.name, table.columns])));
+      flagStaleSavedQueries(snapshot);
     } catch (err) {
       setTablesError("Failed to load tables");
       console.error(err);
@@ -531,6 +594,30 @@ export default function DashboardCreator() {
     }
   };
 
+  // Loading flag shown while each pipeline stage runs
+  const setStageRunning = (stage: AskStage, running: boolean) => {
+    switch (stage) {
+      case "tables":
+        setIdentifyingTables(running);
+        break;
+      case "columns":
+        setFetchingColumns(running);
+        break;
+      case "sql":
+        setGeneratingSQL(running);
+        break;
+      case "execute":
+        setExecutingSQL(running);
+        break;
+      case "evaluate":
+        setEvaluating(running);
+        break;
+      case "interpret":
+        setGeneratingInterpretation(running);
+        break;
+    }
+  };
+
   const sendMessage = async () => {
     if (!currentInput.trim()) {
       return;
@@ -571,277 +658,142 @@ export default function DashboardCreator() {
       } : undefined
     }));
 
-    // Step 1: Identify relevant tables
-    setIdentifyingTables(true);
-    let relevantTables: string[] = [];
-    
-    try {
-      const response = await fetch("/api/identify-relevant-tables", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          query: userQuestion,
-          tables: tables.map(t => t.name),
-          conversationContext,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to identify relevant tables");
-      }
-
-      const data = await response.json();
-      relevantTables = data.relevantTables || [];
-      
-      // Update assistant message with relevant tables
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, relevantTables } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to identify relevant tables" } 
-          : msg
-      ));
-      console.error(err);
-      setIdentifyingTables(false);
-      return;
-    }
-    
-    setIdentifyingTables(false);
-
-    if (relevantTables.length === 0) {
+    const updateMessage = (changes: Partial<Message>) => {
       setMessages(prev => prev.map(msg => 
         msg.id === assistantMessageId 
-          ? { ...msg, error: "No relevant tables identified for your query" } 
+          ? { ...msg, ...changes } 
           : msg
       ));
-      return;
-    }
+    };
 
-    // Step 2: Fetch columns for relevant tables
-    setFetchingColumns(true);
+    // The server runs every stage; this only renders its progress
+    const queryId = createQueryId();
+    let sql = "";
     let tablesWithColumns: TableWithColumns[] = [];
-    
-    try {
-      const columnPromises = relevantTables.map(async (tableName) => {
-        const response = await fetch("/api/columns", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ 
-            env: selectedEnv, 
-            schema: selectedSchema, 
-            table: tableName 
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch columns for ${tableName}`);
+    let stopReason: string | undefined;
+
+    const handleEvent = (event: AskEvent) => {
+      if (event.type === "stage_started") {
+        setStageRunning(event.stage, true);
+        if (event.stage === "execute") {
+          setRunningQueryId(queryId);
+          updateMessage({ attempts: [] });
         }
-
-        const data = await response.json();
-        return {
-          table: tableName,
-          columns: data.columns || [],
-        };
-      });
-
-      tablesWithColumns = await Promise.all(columnPromises);
-      
-      // Store tablesWithColumns in the message for refinement
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, tablesWithColumns } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to fetch columns for relevant tables" } 
-          : msg
-      ));
-      console.error(err);
-      setFetchingColumns(false);
-      return;
-    }
-    
-    setFetchingColumns(false);
-
-    // Step 3: Generate joined SQL query
-    setGeneratingSQL(true);
-    let sql = "";
-    
-    try {
-      const response = await fetch("/api/generate-joined-sql", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          env: selectedEnv,
-          schema: selectedSchema,
-          query: userQuestion,
-          tablesWithColumns,
-          conversationContext,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to generate SQL");
-      }
-
-      const data = await response.json();
-      sql = data.sql || "";
-      
-      // Update assistant message with SQL
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, sql } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to generate SQL" } 
-          : msg
-      ));
-      console.error(err);
-      setGeneratingSQL(false);
-      return;
-    }
-    
-    setGeneratingSQL(false);
-
-    // Step 4: Execute SQL
-    setExecutingSQL(true);
-    let result: QueryResult | undefined = undefined;
-    let executionError: string | null = null;
-    
-    try {
-      const response = await fetch("/api/execute-sql", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          env: selectedEnv,
-          sql,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to execute SQL");
+        return;
       }
 
-      const data = await response.json();
-      
-      if (data.error) {
-        executionError = data.error;
+      // Each run is recorded as it finishes, so repairs show up while they happen
+      if (event.type === "execution_attempt") {
+        const { attempt } = event;
         setMessages(prev => prev.map(msg => 
           msg.id === assistantMessageId 
-            ? { ...msg, error: data.error } 
-            : msg
-        ));
-      } else {
-        result = data.result;
-        
-        // Update assistant message with result
-        setMessages(prev => prev.map(msg => 
-          msg.id === assistantMessageId 
-            ? { ...msg, result: result } 
+            ? { ...msg, attempts: [...(msg.attempts ?? []), attempt] } 
             : msg
         ));
+        return;
       }
-    } catch (err) {
-      executionError = "Failed to execute SQL";
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: executionError! } 
-          : msg
-      ));
-      console.error(err);
-    }
-    
-    setExecutingSQL(false);
 
-    // Step 5: Evaluate SQL Quality
-    setEvaluating(true);
-    let evaluation: SQLEvaluation | undefined = undefined;
-    
-    try {
-      const response = await fetch("/api/evaluate-sql-query", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          question: userQuestion,
-          generatedSQL: sql,
-          schema: selectedSchema,
-          tables: tablesWithColumns.map(twc => ({ name: twc.table, columns: twc.columns })),
-          executionSuccess: !executionError,
-          executionError,
-          executionResult: result,
-        }),
-      });
+      if (event.type === "done") {
+        stopReason = event.error;
+        // A query that needs confirmation is asked about below
+        if (event.error && event.status !== "needs_confirmation") {
+          updateMessage(event.status === "blocked" ? { error: event.error, errorType: "error" } : { error: event.error });
+        }
+        return;
+      }
 
-      if (!response.ok) throw new Error("Failed to evaluate SQL");
+      setStageRunning(event.stage, false);
+      if (event.stage === "execute") {
+        setRunningQueryId(null);
+        setCancellingQuery(false);
+      }
 
-      const data = await response.json();
-      evaluation = data.evaluation;
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, evaluation } 
-          : msg
-      ));
-    } catch (err) {
-      console.error("Evaluation error:", err);
-    }
-    
-    setEvaluating(false);
+      if (event.type === "stage_failed") {
+        console.error(`Stage ${event.stage} failed:`, event.error);
+        return;
+      }
 
-    // Step 6: Generate interpretation
-    if (result) {
-      setGeneratingInterpretation(true);
-      
-      try {
-        const response = await fetch("/api/interpret-results", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            naturalLanguageQuery: userQuestion,
-            sql,
-            result,
-            conversationContext,
-          }),
-        });
+      if (event.type !== "stage_completed") {
+        return;
+      }
 
-        if (!response.ok) {
-          throw new Error("Failed to generate interpretation");
-        }
+      switch (event.stage) {
+        case "tables":
+          updateMessage({ relevantTables: event.data.relevantTables });
+          break;
+        case "columns":
+          tablesWithColumns = event.data.tablesWithColumns;
+          // Store tablesWithColumns in the message for refinement
+          updateMessage({ tablesWithColumns });
+          // Revalidates the cached snapshot; usually a 304
+          fetchSchemaSnapshot(selectedEnv, selectedSchema)
+            .then(flagStaleSavedQueries)
+            .catch((err) => console.error(err));
+          break;
+        case "sql":
+          sql = event.data.sql;
+          updateMessage({ sql });
+          break;
+        case "execute":
+          if (event.data.confirmationRequired) {
+            break;
+          }
+          // A repaired query replaces the generated one
+          sql = event.data.sql;
+          if (event.data.error) {
+            updateMessage({ sql, attempts: event.data.attempts, error: event.data.error, errorType: event.data.errorType || "error" });
+          } else {
+            updateMessage({ sql, attempts: event.data.attempts, result: event.data.result });
+          }
+          break;
+        case "evaluate":
+          updateMessage({ evaluation: event.data.evaluation });
+          break;
+        case "interpret":
+          updateMessage({ interpretation: event.data.interpretation, content: event.data.interpretation });
+          break;
+      }
+    };
 
-        const data = await response.json();
-        
-        // Update assistant message with interpretation
-        setMessages(prev => prev.map(msg => 
-          msg.id === assistantMessageId 
-            ? { ...msg, interpretation: data.interpretation || "", content: data.interpretation || "" } 
-            : msg
-        ));
-      } catch (err) {
-        console.error("Failed to generate interpretation:", err);
-      } finally {
-        setGeneratingInterpretation(false);
+    try {
+      const request: AskRequest = {
+        env: selectedEnv,
+        schema: selectedSchema,
+        question: userQuestion,
+        conversationContext,
+        queryId,
+        pageSize: RESULT_PAGE_SIZE,
+      };
+
+      const status = await askQuestion(request, handleEvent);
+
+      // Queries above the environment's confirmation cost only run once the user agrees
+      if (status === "needs_confirmation") {
+        if (window.confirm(`${stopReason}\n\nRun this query anyway?`)) {
+          await askQuestion({
+            ...request,
+            sql,
+            tablesWithColumns,
+            stages: ["execute", "evaluate", "interpret"],
+            confirmCost: true,
+          }, handleEvent);
+        } else {
+          updateMessage({ error: "Query not run: its estimated cost needs confirmation", errorType: "cancelled" });
+        }
       }
+    } catch (err) {
+      updateMessage({ error: "Failed to answer the question" });
+      console.error(err);
+    } finally {
+      // Stages the stream broke off in never reported finishing
+      setIdentifyingTables(false);
+      setFetchingColumns(false);
+      setGeneratingSQL(false);
+      setExecutingSQL(false);
+      setEvaluating(false);
+      setGeneratingInterpretation(false);
+      setRunningQueryId(null);
+      setCancellingQuery(false);
     }
   };
 
@@ -854,76 +806,59 @@ export default function DashboardCreator() {
 
     setRefiningSQL(messageId);
 
-    try {
-      // Call the refinement API
-      const response = await fetch("/api/refine-sql", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          question: message.userQuestion,
-          originalSQL: message.sql,
-          evaluation: message.evaluation,
-          executionResult: message.result,
-          schema: selectedSchema,
-          schemaContext: message.tablesWithColumns,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Failed to refine SQL");
-
-      const data = await response.json();
-      const refinedSQL = data.refinedSQL;
-
-      // Update message with refined SQL
+    const updateRefinement = (changes: Partial<Message>) => {
       setMessages(prev => prev.map(msg => 
-        msg.id === messageId ? { ...msg, refinedSQL } : msg
+        msg.id === messageId ? { ...msg, ...changes } : msg
       ));
+    };
 
-      // Execute the refined SQL
-      try {
-        const execResponse = await fetch("/api/execute-sql", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ env: selectedEnv, sql: refinedSQL }),
-        });
-
-        if (!execResponse.ok) throw new Error("Failed to execute refined SQL");
+    // The server refines, runs and grades the query; this only renders it
+    const handleEvent = (event: AskEvent) => {
+      if (event.type === "stage_failed") {
+        console.error(`Stage ${event.stage} failed:`, event.error);
+        return;
+      }
 
-        const execData = await execResponse.json();
-        
-        if (execData.error) {
-          setMessages(prev => prev.map(msg => 
-            msg.id === messageId ? { ...msg, refinedResult: { columns: [], rows: [], rowCount: 0 } } : msg
-          ));
-        } else {
-          setMessages(prev => prev.map(msg => 
-            msg.id === messageId ? { ...msg, refinedResult: execData.result } : msg
-          ));
+      if (event.type !== "stage_completed") {
+        return;
+      }
 
-          // Evaluate the refined SQL
-          const evalResponse = await fetch("/api/evaluate-sql-query", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              question: message.userQuestion,
-              generatedSQL: refinedSQL,
-              schema: selectedSchema,
-              tables: message.tablesWithColumns.map(twc => ({ name: twc.table, columns: twc.columns })),
-              executionSuccess: true,
-              executionResult: execData.result,
-            }),
+      switch (event.stage) {
+        case "refine":
+          updateRefinement({ refinedSQL: event.data.sql });
+          break;
+        case "execute":
+          // A repaired query replaces the refined one; a failed one shows no rows
+          updateRefinement({
+            refinedSQL: event.data.sql,
+            refinedResult: !event.data.error && event.data.result ? event.data.result : { columns: [], rows: [], rowCount: 0 },
           });
-
-          if (evalResponse.ok) {
-            const evalData = await evalResponse.json();
-            setMessages(prev => prev.map(msg => 
-              msg.id === messageId ? { ...msg, refinedEvaluation: evalData.evaluation } : msg
-            ));
-          }
-        }
-      } catch (err) {
-        console.error("Error executing refined SQL:", err);
+          break;
+        case "evaluate":
+          updateRefinement({ refinedEvaluation: event.data.evaluation });
+          break;
       }
+    };
+
+    try {
+      await askQuestion({
+        env: selectedEnv,
+        schema: selectedSchema,
+        question: message.userQuestion,
+        sql: message.sql,
+        tablesWithColumns: message.tablesWithColumns,
+        evaluation: message.evaluation,
+        executionResult: message.error
+          ? { success: false, error: message.error }
+          : message.result && {
+              success: true,
+              rowCount: message.result.rowCount,
+              columns: message.result.columns,
+              sampleRows: message.result.rows.slice(0, 3),
+            },
+        stages: ["refine", "execute", "evaluate"],
+        pageSize: RESULT_PAGE_SIZE,
+      }, handleEvent);
     } catch (err) {
       console.error("Error refining SQL:", err);
     } finally {
@@ -931,6 +866,53 @@ export default function DashboardCreator() {
     }
   };
 
+  // Fetch the next page of a message's result when its table is scrolled to the bottom
+  const loadMoreRows = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const pageToken = message?.result?.nextPageToken;
+    if (!pageToken || loadingMoreRows.has(messageId)) return;
+
+    setLoadingMoreRows(prev => new Set(prev).add(messageId));
+
+    try {
+      const page = await fetchNextResultPage(selectedEnv, pageToken);
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: appendResultPage(msg.result, page) }
+          : msg
+      ));
+    } catch (err) {
+      console.error("Error loading more rows:", err);
+      // Drop the token so scrolling doesn't retry an expired cursor forever
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: { ...msg.result, nextPageToken: undefined } }
+          : msg
+      ));
+    } finally {
+      setLoadingMoreRows(prev => {
+        const next = new Set(prev);
+        next.delete(messageId);
+        return next;
+      });
+    }
+  };
+
+  const cancelRunningQuery = async () => {
+    if (!runningQueryId) return;
+
+    setCancellingQuery(true);
+
+    try {
+      const cancelled = await cancelExecution(selectedEnv, runningQueryId);
+      // Nothing to cancel: the query finished while the request was in flight
+      if (!cancelled) setCancellingQuery(false);
+    } catch (err) {
+      console.error("Error cancelling query:", err);
+      setCancellingQuery(false);
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 0.9) return "text-green-600 dark:text-green-400";
     if (score >= 0.7) return "text-blue-600 dark:text-blue-400";
@@ -938,36 +920,13 @@ export default function DashboardCreator() {
     return "text-red-600 dark:text-red-400";
   };
 
-  const toggleTableExpanded = async (tableName: string) => {
+  // Columns are already loaded with the schema snapshot
+  const toggleTableExpanded = (tableName: string) => {
     const newExpanded = new Set(expandedTables);
     if (newExpanded.has(tableName)) {
       newExpanded.delete(tableName);
     } else {
       newExpanded.add(tableName);
-      
-      // Fetch columns if we don't have them yet
-      if (!tableColumns.has(tableName)) {
-        try {
-          const response = await fetch("/api/columns", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ 
-              env: selectedEnv, 
-              schema: selectedSchema, 
-              table: tableName 
-            }),
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            setTableColumns(prev => new Map(prev).set(tableName, data.columns || []));
-          }
-        } catch (err) {
-          console.error(`Error fetching columns for ${tableName}:`, err);
-        }
-      }
     }
     setExpandedTables(newExpanded);
   };
@@ -991,6 +950,7 @@ export default function DashboardCreator() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: message.userQuestion,
           sql: sqlToUse,
           result: resultToUse,
@@ -1031,8 +991,10 @@ export default function DashboardCreator() {
       name: queryName,
       sql: message.sql,
       userQuestion: message.userQuestion,
-      result: message.result,
+      // The chat message keeps paging its own cursor; re-execute to page the saved copy
+      result: message.result ? { ...message.result, nextPageToken: undefined } : undefined,
       timestamp: new Date(),
+      references: findColumnReferences(message.sql, message.tablesWithColumns || []),
     };
 
     setSavedQueries(prev => [...prev, savedQuery]);
@@ -1072,7 +1034,7 @@ export default function DashboardCreator() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -1081,7 +1043,7 @@ export default function DashboardCreator() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -1269,10 +1231,26 @@ export default function DashboardCreator() {
                         </div>
                       ) : (
                         <div className="inline-block bg-gray-100 dark:bg-gray-800 px-4 py-3 rounded-lg max-w-[90%] text-left">
-                          {message.error ? (
+                          {message.error && message.errorType === 'timeout' ? (
+                            <div className="text-yellow-700 dark:text-yellow-400">
+                              <p className="text-sm font-semibold mb-1">Query Timed Out</p>
+                              <p className="text-sm">{message.error}</p>
+                              <p className="text-xs mt-1">Try narrowing the question or adding filters so the query scans less data.</p>
+                            </div>
+                          ) : message.error && message.errorType === 'cancelled' ? (
+                            <div className="text-gray-600 dark:text-gray-400">
+                              <p className="text-sm font-semibold mb-1">Query Cancelled</p>
+                              <p className="text-sm">{message.error}</p>
+                            </div>
+                          ) : message.error ? (
                             <div className="text-red-600 dark:text-red-400">
                               <p className="text-sm font-semibold mb-1">Error</p>
                               <p className="text-sm">{message.error}</p>
+                              {message.attempts && (
+                                <div className="mt-2 text-gray-800 dark:text-gray-200">
+                                  <ExecutionAttempts attempts={message.attempts} />
+                                </div>
+                              )}
                             </div>
                           ) : (
                             <div className="space-y-3">
@@ -1308,6 +1286,11 @@ export default function DashboardCreator() {
                                   <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-900 p-2 rounded overflow-x-auto">
                                     {message.sql}
                                   </pre>
+                                  {message.attempts && (
+                                    <div className="mt-2">
+                                      <ExecutionAttempts attempts={message.attempts} />
+                                    </div>
+                                  )}
                                 </div>
                               )}
                               
@@ -1315,7 +1298,7 @@ export default function DashboardCreator() {
                                 <div>
                                   <div className="flex items-center justify-between mb-1">
                                     <p className="text-xs font-semibold text-gray-600 dark:text-gray-400">
-                                      Results ({message.result.rowCount} rows)
+                                      Results ({message.result.rowCount}{message.result.nextPageToken ? '+' : ''} rows)
                                     </p>
                                     {message.result.rowCount > 5 && (
                                       <button
@@ -1330,14 +1313,21 @@ export default function DashboardCreator() {
                                         }}
                                         className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
                                       >
-                                        {expandedResults.has(message.id) ? 'Show less' : `Show all ${message.result.rowCount} rows`}
+                                        {expandedResults.has(message.id) ? 'Show less' : `Show all ${message.result.rowCount}${message.result.nextPageToken ? '+' : ''} rows`}
                                       </button>
                                     )}
                                   </div>
                                   <div className="relative">
-                                    <div className={`border border-gray-300 dark:border-gray-700 rounded overflow-x-auto ${
-                                      expandedResults.has(message.id) ? 'max-h-96' : 'max-h-64'
-                                    }`}>
+                                    <div
+                                      onScroll={(e) => {
+                                        if (expandedResults.has(message.id) && isNearBottom(e.currentTarget)) {
+                                          loadMoreRows(message.id);
+                                        }
+                                      }}
+                                      className={`border border-gray-300 dark:border-gray-700 rounded overflow-x-auto ${
+                                        expandedResults.has(message.id) ? 'max-h-96 overflow-y-auto' : 'max-h-64'
+                                      }`}
+                                    >
                                     <table className="w-full text-xs">
                                       <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
                                         <tr>
@@ -1373,7 +1363,13 @@ export default function DashboardCreator() {
                                   <div className="flex items-center justify-between mt-1">
                                     <div>
                                       {!expandedResults.has(message.id) && message.result.rowCount > 5 && (
-                                        <p className="text-xs text-gray-500">Showing first 5 of {message.result.rowCount} rows</p>
+                                        <p className="text-xs text-gray-500">Showing first 5 of {message.result.rowCount}{message.result.nextPageToken ? '+' : ''} rows</p>
+                                      )}
+                                      {expandedResults.has(message.id) && loadingMoreRows.has(message.id) && (
+                                        <p className="text-xs text-gray-500">Loading more rows...</p>
+                                      )}
+                                      {message.result.truncated && (
+                                        <p className="text-xs text-yellow-600 dark:text-yellow-400">Row limit reached; refine the query to see the rest</p>
                                       )}
                                     </div>
                                     {!message.chartConfig && (
@@ -1611,6 +1607,15 @@ export default function DashboardCreator() {
                       <div className="flex items-center gap-2">
                         <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
                         <span className="text-sm">Executing query...</span>
+                        {runningQueryId && (
+                          <button
+                            onClick={cancelRunningQuery}
+                            disabled={cancellingQuery}
+                            className="ml-2 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                          >
+                            {cancellingQuery ? 'Cancelling...' : 'Cancel'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
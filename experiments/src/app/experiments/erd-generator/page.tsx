@@ -3,6 +3,11 @@
 import { useState, useEffect, useMemo } from "react";
 import { ReactFlow, Node, Edge, Background, Controls, MiniMap, Handle, Position, NodeProps } from 'reactflow';
 import 'reactflow/dist/style.css';
+import EnvironmentOptions from "@/components/environment-options";
+import InlineDescription from "@/components/inline-description";
+import type { GlossaryEntry } from "@/lib/glossary";
+import type { InferredRelationship, RelationshipStatus } from "@/lib/relationship-inference";
+import { fetchSchemaSnapshot } from "@/lib/schema-cache";
 
 interface Table {
   name: string;
@@ -29,8 +34,11 @@ interface ForeignKey {
   toTable: string;
   toColumn: string;
   constraintName: string;
+  inferred?: boolean;
 }
 
+type SaveDescription = (table: string, description: string, column?: string) => Promise<void>;
+
 interface TableClassification {
   tableName: string;
   type: 'fact' | 'dimension' | 'bridge';
@@ -54,10 +62,16 @@ export default function ERDGenerator() {
   const [optimizedLayout, setOptimizedLayout] = useState<OptimizedLayout | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingTables, setLoadingTables] = useState(false);
-  const [loadingColumns, setLoadingColumns] = useState(false);
   const [optimizingLayout, setOptimizingLayout] = useState(false);
   const [error, setError] = useState("");
   const [tablesError, setTablesError] = useState("");
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [suggestingDescriptions, setSuggestingDescriptions] = useState(false);
+  const [glossaryError, setGlossaryError] = useState("");
+  const [relationships, setRelationships] = useState<InferredRelationship[]>([]);
+  const [discoveringRelationships, setDiscoveringRelationships] = useState(false);
+  const [relationshipsError, setRelationshipsError] = useState("");
+  const [relationshipsNote, setRelationshipsNote] = useState("");
 
   useEffect(() => {
     if (selectedEnv) {
@@ -71,25 +85,18 @@ export default function ERDGenerator() {
 
   useEffect(() => {
     if (selectedSchema && selectedEnv) {
-      fetchTables(selectedEnv, selectedSchema);
+      fetchSnapshot(selectedEnv, selectedSchema);
+      fetchGlossary(selectedEnv, selectedSchema);
+      fetchRelationships(selectedEnv, selectedSchema);
     } else {
       setTables([]);
       setTablesWithColumns([]);
+      setForeignKeys([]);
+      setGlossary([]);
+      setRelationships([]);
     }
   }, [selectedSchema, selectedEnv]);
 
-  useEffect(() => {
-    if (tables.length > 0 && selectedSchema && selectedEnv) {
-      fetchAllColumns(selectedEnv, selectedSchema, tables);
-    }
-  }, [tables, selectedSchema, selectedEnv]);
-
-  useEffect(() => {
-    if (tablesWithColumns.length > 0 && selectedSchema && selectedEnv) {
-      fetchForeignKeys(selectedEnv, selectedSchema);
-    }
-  }, [tablesWithColumns, selectedSchema, selectedEnv]);
-
   const fetchSchemas = async (env: string) => {
     setLoading(true);
     setError("");
@@ -118,88 +125,181 @@ export default function ERDGenerator() {
     }
   };
 
-  const fetchTables = async (env: string, schema: string) => {
+  // Tables, columns and foreign keys in a single request
+  const fetchSnapshot = async (env: string, schema: string) => {
     setLoadingTables(true);
     setTablesError("");
     setTablesWithColumns([]);
+    setForeignKeys([]);
     
     try {
-      const response = await fetch("/api/tables", {
+      const snapshot = await fetchSchemaSnapshot(env, schema);
+      setTables(snapshot.tables.map((table) => ({ name: table.name, type: table.type })));
+      setTablesWithColumns(snapshot.tables.map((table) => ({
+        table: table.name,
+        type: table.type,
+        columns: table.columns,
+      })));
+      setForeignKeys(snapshot.foreignKeys);
+    } catch (err) {
+      setTablesError("Failed to load tables");
+      console.error(err);
+    } finally {
+      setLoadingTables(false);
+    }
+  };
+
+  const fetchGlossary = async (env: string, schema: string) => {
+    setGlossaryError("");
+
+    try {
+      const params = new URLSearchParams({ env, schema });
+      const response = await fetch(`/api/glossary?${params}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch glossary");
+      }
+
+      const data = await response.json();
+      setGlossary(data.entries || []);
+    } catch (err) {
+      // Descriptions are optional; the diagram still renders without them
+      console.error(err);
+    }
+  };
+
+  const saveDescription: SaveDescription = async (table, description, column) => {
+    const response = await fetch("/api/glossary", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ env: selectedEnv, schema: selectedSchema, table, column, description }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save description");
+    }
+
+    await fetchGlossary(selectedEnv, selectedSchema);
+  };
+
+  // Fills in descriptions the glossary doesn't have yet; existing ones are kept
+  const suggestDescriptions = async () => {
+    if (!tablesWithColumns.length || !selectedEnv || !selectedSchema) return;
+
+    setSuggestingDescriptions(true);
+    setGlossaryError("");
+
+    try {
+      const response = await fetch("/api/analyze-schema", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ env, schema }),
+        body: JSON.stringify({
+          env: selectedEnv,
+          schema: selectedSchema,
+          tablesWithColumns,
+          suggestDescriptions: true,
+        }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch tables");
+        throw new Error("Failed to suggest descriptions");
       }
 
-      const data = await response.json();
-      setTables(data.tables || []);
+      await fetchGlossary(selectedEnv, selectedSchema);
     } catch (err) {
-      setTablesError("Failed to load tables");
+      setGlossaryError("Failed to suggest descriptions");
       console.error(err);
     } finally {
-      setLoadingTables(false);
+      setSuggestingDescriptions(false);
     }
   };
 
-  const fetchAllColumns = async (env: string, schema: string, tables: Table[]) => {
-    setLoadingColumns(true);
-    
+  const fetchRelationships = async (env: string, schema: string) => {
+    setRelationshipsError("");
+    setRelationshipsNote("");
+
     try {
-      // Fetch columns for all tables in parallel
-      const columnPromises = tables.map(async (table) => {
-        const response = await fetch("/api/columns", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ env, schema, table: table.name }),
-        });
+      const params = new URLSearchParams({ env, schema });
+      const response = await fetch(`/api/inferred-relationships?${params}`);
 
-        if (!response.ok) {
-          throw new Error(`Failed to fetch columns for ${table.name}`);
-        }
+      if (!response.ok) {
+        throw new Error("Failed to fetch inferred relationships");
+      }
 
-        const data = await response.json();
-        return {
-          table: table.name,
-          type: table.type,
-          columns: data.columns || [],
-        };
+      const data = await response.json();
+      setRelationships(data.relationships || []);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Proposes relationships from column names, types and sampled values
+  const discoverRelationships = async () => {
+    if (!selectedEnv || !selectedSchema) return;
+
+    setDiscoveringRelationships(true);
+    setRelationshipsError("");
+    setRelationshipsNote("");
+
+    try {
+      const response = await fetch("/api/inferred-relationships", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ env: selectedEnv, schema: selectedSchema }),
       });
 
-      const results = await Promise.all(columnPromises);
-      setTablesWithColumns(results);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to discover relationships");
+      }
+
+      setRelationships(data.relationships || []);
+      if (data.truncated) {
+        setRelationshipsNote(`Checked ${data.checked} of ${data.candidates} candidates before the time limit; the rest were skipped`);
+      }
     } catch (err) {
-      console.error("Error fetching all columns:", err);
-      setTablesError("Failed to load columns for all tables");
+      setRelationshipsError(err instanceof Error ? err.message : "Failed to discover relationships");
+      console.error(err);
     } finally {
-      setLoadingColumns(false);
+      setDiscoveringRelationships(false);
     }
   };
 
-  const fetchForeignKeys = async (env: string, schema: string) => {
+  // Accepted relationships come back as foreign keys, so the diagram's
+  // edges are reloaded after every decision
+  const decideRelationship = async (id: string, status: RelationshipStatus) => {
+    setRelationshipsError("");
+
     try {
-      const response = await fetch("/api/foreign-keys", {
-        method: "POST",
+      const response = await fetch(`/api/inferred-relationships/${id}`, {
+        method: "PUT",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ env, schema }),
+        body: JSON.stringify({ status }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error("Failed to fetch foreign keys");
+        throw new Error(data.error || "Failed to update relationship");
       }
 
-      const data = await response.json();
-      setForeignKeys(data.foreignKeys || []);
+      setRelationships((current) => current.map((entry) => entry.id === id ? data.relationship : entry));
+      const snapshot = await fetchSchemaSnapshot(selectedEnv, selectedSchema);
+      setForeignKeys(snapshot.foreignKeys);
     } catch (err) {
-      console.error("Error fetching foreign keys:", err);
+      setRelationshipsError(err instanceof Error ? err.message : "Failed to update relationship");
+      console.error(err);
     }
   };
 
@@ -214,6 +314,8 @@ export default function ERDGenerator() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          env: selectedEnv,
+          schema: selectedSchema,
           tablesWithColumns,
           foreignKeys,
         }),
@@ -240,7 +342,7 @@ export default function ERDGenerator() {
         
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -249,7 +351,7 @@ export default function ERDGenerator() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -293,31 +395,63 @@ export default function ERDGenerator() {
             <div className="mt-8">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl">Entity Relationship Diagram - {selectedSchema}</h2>
-                {!loadingTables && !loadingColumns && tablesWithColumns.length > 0 && (
-                  <button
-                    onClick={optimizeLayout}
-                    disabled={optimizingLayout}
-                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-                  >
-                    {optimizingLayout && (
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                    )}
-                    {optimizingLayout ? 'Optimizing...' : 'Optimize Layout'}
-                  </button>
+                {!loadingTables && tablesWithColumns.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={discoverRelationships}
+                      disabled={discoveringRelationships}
+                      className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                      {discoveringRelationships ? 'Discovering...' : 'Discover Relationships'}
+                    </button>
+                    <button
+                      onClick={suggestDescriptions}
+                      disabled={suggestingDescriptions}
+                      className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                      {suggestingDescriptions ? 'Suggesting...' : 'Suggest Descriptions'}
+                    </button>
+                    <button
+                      onClick={optimizeLayout}
+                      disabled={optimizingLayout}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                    >
+                      {optimizingLayout && (
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      )}
+                      {optimizingLayout ? 'Optimizing...' : 'Optimize Layout'}
+                    </button>
+                  </div>
                 )}
               </div>
               
-              {(loadingTables || loadingColumns) && (
+              {loadingTables && (
                 <p className="text-gray-600 dark:text-gray-400">
-                  {loadingTables ? "Loading tables..." : "Loading columns..."}
+                  Loading tables and columns...
                 </p>
               )}
               
               {tablesError && (
                 <p className="text-red-600 dark:text-red-400">{tablesError}</p>
               )}
+
+              {glossaryError && (
+                <p className="text-red-600 dark:text-red-400 mb-4">{glossaryError}</p>
+              )}
+
+              {relationshipsError && (
+                <p className="text-red-600 dark:text-red-400 mb-4">{relationshipsError}</p>
+              )}
+
+              {relationshipsNote && (
+                <p className="text-yellow-600 dark:text-yellow-400 mb-4">{relationshipsNote}</p>
+              )}
+
+              {relationships.length > 0 && (
+                <RelationshipCandidates relationships={relationships} onDecide={decideRelationship} />
+              )}
               
-              {!loadingTables && !loadingColumns && !tablesError && tablesWithColumns.length > 0 && (
+              {!loadingTables && !tablesError && tablesWithColumns.length > 0 && (
                 <>
                   {optimizedLayout && (
                     <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -342,6 +476,8 @@ export default function ERDGenerator() {
                     tablesWithColumns={tablesWithColumns} 
                     foreignKeys={foreignKeys}
                     optimizedLayout={optimizedLayout}
+                    glossary={glossary}
+                    onSaveDescription={saveDescription}
                   />
                 </>
               )}
@@ -357,10 +493,69 @@ export default function ERDGenerator() {
   );
 }
 
+// Inferred relationships with their evidence; proposed ones first
+function RelationshipCandidates({ relationships, onDecide }: {
+  relationships: InferredRelationship[];
+  onDecide: (id: string, status: RelationshipStatus) => Promise<void>;
+}) {
+  const order: Record<RelationshipStatus, number> = { proposed: 0, accepted: 1, rejected: 2 };
+  const sorted = [...relationships].sort((a, b) => order[a.status] - order[b.status] || b.score - a.score);
+  const statusColors: Record<RelationshipStatus, string> = {
+    proposed: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+    accepted: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+    rejected: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-gray-50 dark:bg-gray-900 text-sm font-semibold text-gray-700 dark:text-gray-300">
+        Inferred Relationships ({relationships.filter((entry) => entry.status === 'proposed').length} to review)
+      </div>
+      <div className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+        {sorted.map((relationship) => (
+          <div key={relationship.id} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+            <div className="min-w-0">
+              <p className="font-mono truncate">
+                {relationship.fromTable}.{relationship.fromColumn} → {relationship.toTable}.{relationship.toColumn}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                score {Math.round(relationship.score * 100)}% · {Math.round(relationship.signals.containment * 100)}% of {relationship.signals.sampledValues} sampled values match · type {relationship.signals.typeScore === 1 ? 'identical' : 'compatible'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={`px-2 py-0.5 rounded text-xs ${statusColors[relationship.status]}`}>{relationship.status}</span>
+              {relationship.status !== 'accepted' && (
+                <button
+                  onClick={() => onDecide(relationship.id, 'accepted')}
+                  className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                >
+                  Accept
+                </button>
+              )}
+              {relationship.status !== 'rejected' && (
+                <button
+                  onClick={() => onDecide(relationship.id, 'rejected')}
+                  className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                >
+                  Reject
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Custom node component with column-level handles
 function TableNode({ data }: NodeProps) {
   const tableWithCols = data.tableWithCols as TableWithColumns;
   const tableType = data.tableType as 'fact' | 'dimension' | 'bridge' | undefined;
+  const glossary = data.glossary as GlossaryEntry[];
+  const onSaveDescription = data.onSaveDescription as SaveDescription;
+  const glossaryEntry = (column?: string) =>
+    glossary.find((entry) => entry.table === tableWithCols.table && (entry.column ?? null) === (column ?? null));
   
   // Determine header color based on table type
   const headerColors = {
@@ -380,6 +575,15 @@ function TableNode({ data }: NodeProps) {
           <span className="text-[10px] opacity-75 uppercase">{tableType}</span>
         )}
       </div>
+      <div className="nodrag bg-white px-3 py-1.5 border-b border-gray-200">
+        <InlineDescription
+          value={glossaryEntry()?.description}
+          source={glossaryEntry()?.source}
+          onSave={(description) => onSaveDescription(tableWithCols.table, description)}
+          placeholder="Add table description"
+          className="block w-full"
+        />
+      </div>
       
       {/* Columns List */}
       <div className="bg-white">
@@ -429,6 +633,15 @@ function TableNode({ data }: NodeProps) {
                   {column.type}
                 </span>
               </div>
+              <div className="nodrag">
+                <InlineDescription
+                  value={glossaryEntry(column.name)?.description}
+                  source={glossaryEntry(column.name)?.source}
+                  onSave={(description) => onSaveDescription(tableWithCols.table, description, column.name)}
+                  placeholder="Add description"
+                  className="block w-full text-[10px]"
+                />
+              </div>
             </div>
           );
         })}
@@ -450,9 +663,11 @@ interface ERDVisualizationProps {
   tablesWithColumns: TableWithColumns[];
   foreignKeys: ForeignKey[];
   optimizedLayout: OptimizedLayout | null;
+  glossary: GlossaryEntry[];
+  onSaveDescription: SaveDescription;
 }
 
-function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout }: ERDVisualizationProps) {
+function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout, glossary, onSaveDescription }: ERDVisualizationProps) {
   const nodes: Node[] = useMemo(() => {
     // If we have optimized layout, use it; otherwise use grid layout
     if (optimizedLayout) {
@@ -469,6 +684,8 @@ function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout }: E
           data: { 
             tableWithCols,
             tableType: classification?.type,
+            glossary,
+            onSaveDescription,
           },
           style: {
             background: 'white',
@@ -506,6 +723,8 @@ function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout }: E
         data: { 
           tableWithCols,
           tableType: undefined,
+          glossary,
+          onSaveDescription,
         },
         style: {
           background: 'white',
@@ -518,7 +737,7 @@ function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout }: E
         },
       };
     });
-  }, [tablesWithColumns, optimizedLayout]);
+  }, [tablesWithColumns, optimizedLayout, glossary, onSaveDescription]);
 
   const edges: Edge[] = useMemo(() => {
     return foreignKeys.map((fk, index) => ({
@@ -529,11 +748,13 @@ function ERDVisualization({ tablesWithColumns, foreignKeys, optimizedLayout }: E
       targetHandle: `${fk.toTable}-${fk.toColumn}-target`,
       type: 'smoothstep',
       animated: false,
-      label: `${fk.fromColumn} → ${fk.toColumn}`,
+      label: `${fk.fromColumn} → ${fk.toColumn}${fk.inferred ? ' (inferred)' : ''}`,
       style: { 
-        stroke: '#2563eb', 
+        stroke: fk.inferred ? '#16a34a' : '#2563eb', 
         strokeWidth: 2,
         strokeOpacity: 0.6,
+        // Accepted inferred relationships aren't declared in the database
+        ...(fk.inferred ? { strokeDasharray: '6 4' } : {}),
       },
       labelStyle: { 
         fontSize: 9, 
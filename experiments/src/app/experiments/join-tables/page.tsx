@@ -2,6 +2,16 @@
 
 import { useState, useEffect, useRef } from "react";
 import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import EnvironmentOptions from "@/components/environment-options";
+import { RESULT_PAGE_SIZE, appendResultPage, fetchNextResultPage, isNearBottom } from "@/lib/paged-results";
+import { cancelExecution, createQueryId, type ExecutionErrorType } from "@/lib/query-execution";
+import { askQuestion } from "@/lib/ask-client";
+import type { AskEvent, AskRequest, AskStage } from "@/lib/ask-pipeline";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
+import ExecutionAttempts from "@/components/execution-attempts";
+import type { JoinPlan } from "@/lib/join-planner";
+import type { CostCheck, QueryPlan } from "@/lib/query-plan";
+import PlanTree from "@/components/plan-tree";
 
 // Register Chart.js components
 if (typeof window !== 'undefined') {
@@ -30,6 +40,8 @@ interface QueryResult {
   columns: string[];
   rows: Record<string, any>[];
   rowCount: number;
+  nextPageToken?: string; // Set while more rows can be loaded
+  truncated?: boolean; // Row cap reached
 }
 
 interface SQLEvaluation {
@@ -46,6 +58,9 @@ interface Message {
   content: string;
   relevantTables?: string[];
   sql?: string;
+  joinPlan?: JoinPlan; // Foreign-key joins the SQL was generated from
+  plan?: QueryPlan; // EXPLAIN preview of sql
+  costCheck?: CostCheck;
   refinedSQL?: string;
   refinedEvaluation?: SQLEvaluation;
   refinedResult?: QueryResult;
@@ -55,6 +70,8 @@ interface Message {
   chartConfig?: any; // Chart.js configuration
   refinedChartConfig?: any; // Chart for refined results
   error?: string;
+  errorType?: ExecutionErrorType; // Set when SQL execution failed
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
   timestamp: Date;
   userQuestion?: string; // Store the original question for refinement
   tablesWithColumns?: TableWithColumns[]; // Store schema context for refinement
@@ -68,6 +85,7 @@ export default function JoinTables() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentInput, setCurrentInput] = useState("");
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
+  const [loadingMoreRows, setLoadingMoreRows] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [loadingTables, setLoadingTables] = useState(false);
   const [error, setError] = useState("");
@@ -76,6 +94,8 @@ export default function JoinTables() {
   const [fetchingColumns, setFetchingColumns] = useState(false);
   const [generatingSQL, setGeneratingSQL] = useState(false);
   const [executingSQL, setExecutingSQL] = useState(false);
+  const [runningQueryId, setRunningQueryId] = useState<string | null>(null);
+  const [cancellingQuery, setCancellingQuery] = useState(false);
   const [evaluating, setEvaluating] = useState(false);
   const [generatingInterpretation, setGeneratingInterpretation] = useState(false);
   const [refiningSQL, setRefiningSQL] = useState<string | null>(null); // messageId being refined
@@ -158,6 +178,31 @@ export default function JoinTables() {
     }
   };
 
+  // Loading flag shown while each pipeline stage runs
+  const setStageRunning = (stage: AskStage, running: boolean) => {
+    switch (stage) {
+      case "tables":
+        setIdentifyingTables(running);
+        break;
+      case "columns":
+        setFetchingColumns(running);
+        break;
+      case "sql":
+        setGeneratingSQL(running);
+        break;
+      case "plan":
+      case "execute":
+        setExecutingSQL(running);
+        break;
+      case "evaluate":
+        setEvaluating(running);
+        break;
+      case "interpret":
+        setGeneratingInterpretation(running);
+        break;
+    }
+  };
+
   const sendMessage = async () => {
     if (!currentInput.trim()) {
       return;
@@ -198,277 +243,143 @@ export default function JoinTables() {
       } : undefined
     }));
 
-    // Step 1: Identify relevant tables
-    setIdentifyingTables(true);
-    let relevantTables: string[] = [];
-    
-    try {
-      const response = await fetch("/api/identify-relevant-tables", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          query: userQuestion,
-          tables: tables.map(t => t.name),
-          conversationContext,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to identify relevant tables");
-      }
-
-      const data = await response.json();
-      relevantTables = data.relevantTables || [];
-      
-      // Update assistant message with relevant tables
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, relevantTables } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to identify relevant tables" } 
-          : msg
-      ));
-      console.error(err);
-      setIdentifyingTables(false);
-      return;
-    }
-    
-    setIdentifyingTables(false);
-
-    if (relevantTables.length === 0) {
+    const updateMessage = (changes: Partial<Message>) => {
       setMessages(prev => prev.map(msg => 
         msg.id === assistantMessageId 
-          ? { ...msg, error: "No relevant tables identified for your query" } 
+          ? { ...msg, ...changes } 
           : msg
       ));
-      return;
-    }
+    };
 
-    // Step 2: Fetch columns for relevant tables
-    setFetchingColumns(true);
+    // The server runs every stage; this only renders its progress
+    const queryId = createQueryId();
+    let sql = "";
     let tablesWithColumns: TableWithColumns[] = [];
-    
-    try {
-      const columnPromises = relevantTables.map(async (tableName) => {
-        const response = await fetch("/api/columns", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ 
-            env: selectedEnv, 
-            schema: selectedSchema, 
-            table: tableName 
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch columns for ${tableName}`);
+    let stopReason: string | undefined;
+
+    const handleEvent = (event: AskEvent) => {
+      if (event.type === "stage_started") {
+        setStageRunning(event.stage, true);
+        if (event.stage === "execute") {
+          setRunningQueryId(queryId);
+          updateMessage({ attempts: [] });
         }
-
-        const data = await response.json();
-        return {
-          table: tableName,
-          columns: data.columns || [],
-        };
-      });
-
-      tablesWithColumns = await Promise.all(columnPromises);
-      
-      // Store tablesWithColumns in the message for refinement
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, tablesWithColumns } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to fetch columns for relevant tables" } 
-          : msg
-      ));
-      console.error(err);
-      setFetchingColumns(false);
-      return;
-    }
-    
-    setFetchingColumns(false);
-
-    // Step 3: Generate joined SQL query
-    setGeneratingSQL(true);
-    let sql = "";
-    
-    try {
-      const response = await fetch("/api/generate-joined-sql", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          env: selectedEnv,
-          schema: selectedSchema,
-          query: userQuestion,
-          tablesWithColumns,
-          conversationContext,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to generate SQL");
+        return;
       }
 
-      const data = await response.json();
-      sql = data.sql || "";
-      
-      // Update assistant message with SQL
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, sql } 
-          : msg
-      ));
-    } catch (err) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: "Failed to generate SQL" } 
-          : msg
-      ));
-      console.error(err);
-      setGeneratingSQL(false);
-      return;
-    }
-    
-    setGeneratingSQL(false);
-
-    // Step 4: Execute SQL
-    setExecutingSQL(true);
-    let result: QueryResult | undefined = undefined;
-    let executionError: string | null = null;
-    
-    try {
-      const response = await fetch("/api/execute-sql", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          env: selectedEnv,
-          sql,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to execute SQL");
-      }
-
-      const data = await response.json();
-      
-      if (data.error) {
-        executionError = data.error;
-        setMessages(prev => prev.map(msg => 
-          msg.id === assistantMessageId 
-            ? { ...msg, error: data.error } 
-            : msg
-        ));
-      } else {
-        result = data.result;
-        
-        // Update assistant message with result
+      // Each run is recorded as it finishes, so repairs show up while they happen
+      if (event.type === "execution_attempt") {
+        const { attempt } = event;
         setMessages(prev => prev.map(msg => 
           msg.id === assistantMessageId 
-            ? { ...msg, result: result } 
+            ? { ...msg, attempts: [...(msg.attempts ?? []), attempt] } 
             : msg
         ));
+        return;
       }
-    } catch (err) {
-      executionError = "Failed to execute SQL";
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, error: executionError! } 
-          : msg
-      ));
-      console.error(err);
-    }
-    
-    setExecutingSQL(false);
 
-    // Step 5: Evaluate SQL Quality
-    setEvaluating(true);
-    let evaluation: SQLEvaluation | undefined = undefined;
-    
-    try {
-      const response = await fetch("/api/evaluate-sql-query", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          question: userQuestion,
-          generatedSQL: sql,
-          schema: selectedSchema,
-          tables: tablesWithColumns.map(twc => ({ name: twc.table, columns: twc.columns })),
-          executionSuccess: !executionError,
-          executionError,
-          executionResult: result,
-        }),
-      });
+      if (event.type === "done") {
+        stopReason = event.error;
+        // A query that needs confirmation is asked about below
+        if (event.error && event.status !== "needs_confirmation") {
+          updateMessage(event.status === "blocked" ? { error: event.error, errorType: "error" } : { error: event.error });
+        }
+        return;
+      }
 
-      if (!response.ok) throw new Error("Failed to evaluate SQL");
+      setStageRunning(event.stage, false);
+      if (event.stage === "execute") {
+        setRunningQueryId(null);
+        setCancellingQuery(false);
+      }
 
-      const data = await response.json();
-      evaluation = data.evaluation;
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? { ...msg, evaluation } 
-          : msg
-      ));
-    } catch (err) {
-      console.error("Evaluation error:", err);
-    }
-    
-    setEvaluating(false);
+      if (event.type === "stage_failed") {
+        console.error(`Stage ${event.stage} failed:`, event.error);
+        return;
+      }
 
-    // Step 6: Generate interpretation
-    if (result) {
-      setGeneratingInterpretation(true);
-      
-      try {
-        const response = await fetch("/api/interpret-results", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            naturalLanguageQuery: userQuestion,
-            sql,
-            result,
-            conversationContext,
-          }),
-        });
+      if (event.type !== "stage_completed") {
+        return;
+      }
 
-        if (!response.ok) {
-          throw new Error("Failed to generate interpretation");
-        }
+      switch (event.stage) {
+        case "tables":
+          updateMessage({ relevantTables: event.data.relevantTables });
+          break;
+        case "columns":
+          tablesWithColumns = event.data.tablesWithColumns;
+          // Store tablesWithColumns in the message for refinement
+          updateMessage({ tablesWithColumns });
+          break;
+        case "sql":
+          sql = event.data.sql;
+          updateMessage({ sql, joinPlan: event.data.joinPlan });
+          break;
+        case "plan":
+          updateMessage({ plan: event.data.plan, costCheck: event.data.costCheck });
+          break;
+        case "execute":
+          if (event.data.confirmationRequired) {
+            break;
+          }
+          // A repaired query replaces the generated one
+          sql = event.data.sql;
+          if (event.data.error) {
+            updateMessage({ sql, attempts: event.data.attempts, error: event.data.error, errorType: event.data.errorType || "error" });
+          } else {
+            updateMessage({ sql, attempts: event.data.attempts, result: event.data.result });
+          }
+          break;
+        case "evaluate":
+          updateMessage({ evaluation: event.data.evaluation });
+          break;
+        case "interpret":
+          updateMessage({ interpretation: event.data.interpretation, content: event.data.interpretation });
+          break;
+      }
+    };
 
-        const data = await response.json();
-        
-        // Update assistant message with interpretation
-        setMessages(prev => prev.map(msg => 
-          msg.id === assistantMessageId 
-            ? { ...msg, interpretation: data.interpretation || "", content: data.interpretation || "" } 
-            : msg
-        ));
-      } catch (err) {
-        console.error("Failed to generate interpretation:", err);
-      } finally {
-        setGeneratingInterpretation(false);
+    try {
+      const request: AskRequest = {
+        env: selectedEnv,
+        schema: selectedSchema,
+        question: userQuestion,
+        conversationContext,
+        // The plan is previewed before the query runs
+        stages: ["tables", "columns", "sql", "plan", "execute", "evaluate", "interpret"],
+        queryId,
+        pageSize: RESULT_PAGE_SIZE,
+      };
+
+      const status = await askQuestion(request, handleEvent);
+
+      // Queries above the environment's confirmation cost only run once the user agrees
+      if (status === "needs_confirmation") {
+        if (window.confirm(`${stopReason}\n\nRun this query anyway?`)) {
+          await askQuestion({
+            ...request,
+            sql,
+            tablesWithColumns,
+            stages: ["execute", "evaluate", "interpret"],
+            confirmCost: true,
+          }, handleEvent);
+        } else {
+          updateMessage({ error: "Query not run: its estimated cost needs confirmation", errorType: "cancelled" });
+        }
       }
+    } catch (err) {
+      updateMessage({ error: "Failed to answer the question" });
+      console.error(err);
+    } finally {
+      // Stages the stream broke off in never reported finishing
+      setIdentifyingTables(false);
+      setFetchingColumns(false);
+      setGeneratingSQL(false);
+      setExecutingSQL(false);
+      setEvaluating(false);
+      setGeneratingInterpretation(false);
+      setRunningQueryId(null);
+      setCancellingQuery(false);
     }
   };
 
@@ -481,76 +392,59 @@ export default function JoinTables() {
 
     setRefiningSQL(messageId);
 
-    try {
-      // Call the refinement API
-      const response = await fetch("/api/refine-sql", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          question: message.userQuestion,
-          originalSQL: message.sql,
-          evaluation: message.evaluation,
-          executionResult: message.result,
-          schema: selectedSchema,
-          schemaContext: message.tablesWithColumns,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Failed to refine SQL");
-
-      const data = await response.json();
-      const refinedSQL = data.refinedSQL;
-
-      // Update message with refined SQL
+    const updateRefinement = (changes: Partial<Message>) => {
       setMessages(prev => prev.map(msg => 
-        msg.id === messageId ? { ...msg, refinedSQL } : msg
+        msg.id === messageId ? { ...msg, ...changes } : msg
       ));
+    };
 
-      // Execute the refined SQL
-      try {
-        const execResponse = await fetch("/api/execute-sql", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ env: selectedEnv, sql: refinedSQL }),
-        });
-
-        if (!execResponse.ok) throw new Error("Failed to execute refined SQL");
-
-        const execData = await execResponse.json();
-        
-        if (execData.error) {
-          setMessages(prev => prev.map(msg => 
-            msg.id === messageId ? { ...msg, refinedResult: { columns: [], rows: [], rowCount: 0 } } : msg
-          ));
-        } else {
-          setMessages(prev => prev.map(msg => 
-            msg.id === messageId ? { ...msg, refinedResult: execData.result } : msg
-          ));
+    // The server refines, runs and grades the query; this only renders it
+    const handleEvent = (event: AskEvent) => {
+      if (event.type === "stage_failed") {
+        console.error(`Stage ${event.stage} failed:`, event.error);
+        return;
+      }
 
-          // Evaluate the refined SQL
-          const evalResponse = await fetch("/api/evaluate-sql-query", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              question: message.userQuestion,
-              generatedSQL: refinedSQL,
-              schema: selectedSchema,
-              tables: message.tablesWithColumns.map(twc => ({ name: twc.table, columns: twc.columns })),
-              executionSuccess: true,
-              executionResult: execData.result,
-            }),
-          });
+      if (event.type !== "stage_completed") {
+        return;
+      }
 
-          if (evalResponse.ok) {
-            const evalData = await evalResponse.json();
-            setMessages(prev => prev.map(msg => 
-              msg.id === messageId ? { ...msg, refinedEvaluation: evalData.evaluation } : msg
-            ));
-          }
-        }
-      } catch (err) {
-        console.error("Error executing refined SQL:", err);
+      switch (event.stage) {
+        case "refine":
+          updateRefinement({ refinedSQL: event.data.sql });
+          break;
+        case "execute":
+          // A repaired query replaces the refined one; a failed one shows no rows
+          updateRefinement({
+            refinedSQL: event.data.sql,
+            refinedResult: !event.data.error && event.data.result ? event.data.result : { columns: [], rows: [], rowCount: 0 },
+          });
+          break;
+        case "evaluate":
+          updateRefinement({ refinedEvaluation: event.data.evaluation });
+          break;
       }
+    };
+
+    try {
+      await askQuestion({
+        env: selectedEnv,
+        schema: selectedSchema,
+        question: message.userQuestion,
+        sql: message.sql,
+        tablesWithColumns: message.tablesWithColumns,
+        evaluation: message.evaluation,
+        executionResult: message.error
+          ? { success: false, error: message.error }
+          : message.result && {
+              success: true,
+              rowCount: message.result.rowCount,
+              columns: message.result.columns,
+              sampleRows: message.result.rows.slice(0, 3),
+            },
+        stages: ["refine", "execute", "evaluate"],
+        pageSize: RESULT_PAGE_SIZE,
+      }, handleEvent);
     } catch (err) {
       console.error("Error refining SQL:", err);
     } finally {
@@ -558,6 +452,53 @@ export default function JoinTables() {
     }
   };
 
+  // Fetch the next page of a message's result when its table is scrolled to the bottom
+  const loadMoreRows = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const pageToken = message?.result?.nextPageToken;
+    if (!pageToken || loadingMoreRows.has(messageId)) return;
+
+    setLoadingMoreRows(prev => new Set(prev).add(messageId));
+
+    try {
+      const page = await fetchNextResultPage(selectedEnv, pageToken);
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: appendResultPage(msg.result, page) }
+          : msg
+      ));
+    } catch (err) {
+      console.error("Error loading more rows:", err);
+      // Drop the token so scrolling doesn't retry an expired cursor forever
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: { ...msg.result, nextPageToken: undefined } }
+          : msg
+      ));
+    } finally {
+      setLoadingMoreRows(prev => {
+        const next = new Set(prev);
+        next.delete(messageId);
+        return next;
+      });
+    }
+  };
+
+  const cancelRunningQuery = async () => {
+    if (!runningQueryId) return;
+
+    setCancellingQuery(true);
+
+    try {
+      const cancelled = await cancelExecution(selectedEnv, runningQueryId);
+      // Nothing to cancel: the query finished while the request was in flight
+      if (!cancelled) setCancellingQuery(false);
+    } catch (err) {
+      console.error("Error cancelling query:", err);
+      setCancellingQuery(false);
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 0.9) return "text-green-600 dark:text-green-400";
     if (score >= 0.7) return "text-blue-600 dark:text-blue-400";
@@ -618,6 +559,7 @@ export default function JoinTables() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: message.userQuestion,
           sql: sqlToUse,
           result: resultToUse,
@@ -653,7 +595,7 @@ export default function JoinTables() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -662,7 +604,7 @@ export default function JoinTables() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -828,10 +770,26 @@ export default function JoinTables() {
                         </div>
                       ) : (
                         <div className="inline-block bg-gray-100 dark:bg-gray-800 px-4 py-3 rounded-lg max-w-[90%] text-left">
-                          {message.error ? (
+                          {message.error && message.errorType === 'timeout' ? (
+                            <div className="text-yellow-700 dark:text-yellow-400">
+                              <p className="text-sm font-semibold mb-1">Query Timed Out</p>
+                              <p className="text-sm">{message.error}</p>
+                              <p className="text-xs mt-1">Try narrowing the question or adding filters so the query scans less data.</p>
+                            </div>
+                          ) : message.error && message.errorType === 'cancelled' ? (
+                            <div className="text-gray-600 dark:text-gray-400">
+                              <p className="text-sm font-semibold mb-1">Query Cancelled</p>
+                              <p className="text-sm">{message.error}</p>
+                            </div>
+                          ) : message.error ? (
                             <div className="text-red-600 dark:text-red-400">
                               <p className="text-sm font-semibold mb-1">Error</p>
                               <p className="text-sm">{message.error}</p>
+                              {message.attempts && (
+                                <div className="mt-2 text-gray-800 dark:text-gray-200">
+                                  <ExecutionAttempts attempts={message.attempts} />
+                                </div>
+                              )}
                             </div>
                           ) : (
                             <div className="space-y-3">
@@ -853,12 +811,41 @@ export default function JoinTables() {
                                 </div>
                               )}
                               
+                              {message.joinPlan && message.joinPlan.joins.length > 0 && (
+                                <div>
+                                  <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">
+                                    Join Plan{message.joinPlan.bridgeTables.length > 0 ? ` (via ${message.joinPlan.bridgeTables.join(', ')})` : ''}:
+                                  </p>
+                                  <ul className="text-xs font-mono space-y-0.5">
+                                    {message.joinPlan.joins.map((join) => (
+                                      <li key={`${join.joinTo}-${join.table}`}>
+                                        {join.table} ON {join.condition}
+                                        {join.edge.source === 'inferred' && <span className="text-gray-500"> (inferred)</span>}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                  {message.joinPlan.warnings.filter((warning) => warning.kind !== 'inferred').map((warning, idx) => (
+                                    <p key={idx} className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">{warning.message}</p>
+                                  ))}
+                                </div>
+                              )}
+
                               {message.sql && (
                                 <div>
                                   <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">SQL Query:</p>
                                   <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-900 p-2 rounded overflow-x-auto">
                                     {message.sql}
                                   </pre>
+                                  {message.plan && (
+                                    <div className="mt-2">
+                                      <PlanTree plan={message.plan} costCheck={message.costCheck} compact />
+                                    </div>
+                                  )}
+                                  {message.attempts && (
+                                    <div className="mt-2">
+                                      <ExecutionAttempts attempts={message.attempts} />
+                                    </div>
+                                  )}
                                 </div>
                               )}
                               
@@ -866,7 +853,7 @@ export default function JoinTables() {
                                 <div>
                                   <div className="flex items-center justify-between mb-1">
                                     <p className="text-xs font-semibold text-gray-600 dark:text-gray-400">
-                                      Results ({message.result.rowCount} rows)
+                                      Results ({message.result.rowCount}{message.result.nextPageToken ? '+' : ''} rows)
                                     </p>
                                     {message.result.rowCount > 5 && (
                                       <button
@@ -881,14 +868,21 @@ export default function JoinTables() {
                                         }}
                                         className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
                                       >
-                                        {expandedResults.has(message.id) ? 'Show less' : `Show all ${message.result.rowCount} rows`}
+                                        {expandedResults.has(message.id) ? 'Show less' : `Show all ${message.result.rowCount}${message.result.nextPageToken ? '+' : ''} rows`}
                                       </button>
                                     )}
                                   </div>
                                   <div className="relative">
-                                    <div className={`border border-gray-300 dark:border-gray-700 rounded overflow-x-auto ${
-                                      expandedResults.has(message.id) ? 'max-h-96' : 'max-h-64'
-                                    }`}>
+                                    <div
+                                      onScroll={(e) => {
+                                        if (expandedResults.has(message.id) && isNearBottom(e.currentTarget)) {
+                                          loadMoreRows(message.id);
+                                        }
+                                      }}
+                                      className={`border border-gray-300 dark:border-gray-700 rounded overflow-x-auto ${
+                                        expandedResults.has(message.id) ? 'max-h-96 overflow-y-auto' : 'max-h-64'
+                                      }`}
+                                    >
                                     <table className="w-full text-xs">
                                       <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
                                         <tr>
@@ -924,7 +918,13 @@ export default function JoinTables() {
                                   <div className="flex items-center justify-between mt-1">
                                     <div>
                                       {!expandedResults.has(message.id) && message.result.rowCount > 5 && (
-                                        <p className="text-xs text-gray-500">Showing first 5 of {message.result.rowCount} rows</p>
+                                        <p className="text-xs text-gray-500">Showing first 5 of {message.result.rowCount}{message.result.nextPageToken ? '+' : ''} rows</p>
+                                      )}
+                                      {expandedResults.has(message.id) && loadingMoreRows.has(message.id) && (
+                                        <p className="text-xs text-gray-500">Loading more rows...</p>
+                                      )}
+                                      {message.result.truncated && (
+                                        <p className="text-xs text-yellow-600 dark:text-yellow-400">Row limit reached; refine the query to see the rest</p>
                                       )}
                                     </div>
                                     {!message.chartConfig && (
@@ -1138,6 +1138,15 @@ export default function JoinTables() {
                       <div className="flex items-center gap-2">
                         <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
                         <span className="text-sm">Executing query...</span>
+                        {runningQueryId && (
+                          <button
+                            onClick={cancelRunningQuery}
+                            disabled={cancellingQuery}
+                            className="ml-2 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                          >
+                            {cancellingQuery ? 'Cancelling...' : 'Cancel'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
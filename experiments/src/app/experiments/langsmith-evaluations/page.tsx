@@ -19,6 +19,8 @@ interface ConfigStatus {
   configuration: {
     langsmithConfigured: boolean;
     openaiConfigured: boolean;
+    llmConfigured: boolean;
+    evaluationModel: string;
     langsmithEndpoint: string;
     tracingEnabled: boolean;
   };
@@ -173,6 +175,12 @@ export default function LangSmithEvaluations() {
                   {configStatus.configuration.openaiConfigured ? "✓ Configured" : "✗ Not configured"}
                 </span>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">Model:</span>
+                <span className={configStatus.configuration.llmConfigured ? "text-green-600" : "text-red-600"}>
+                  {configStatus.configuration.evaluationModel} {configStatus.configuration.llmConfigured ? "✓" : "✗ Not configured"}
+                </span>
+              </div>
               <div className="flex items-center gap-2">
                 <span className="font-semibold">Tracing:</span>
                 <span className={configStatus.configuration.tracingEnabled ? "text-green-600" : "text-yellow-600"}>
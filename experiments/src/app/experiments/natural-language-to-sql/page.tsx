@@ -2,6 +2,10 @@
 
 import Link from "next/link";
 import { useState, useEffect } from "react";
+import EnvironmentOptions from "@/components/environment-options";
+import ExecutionAttempts from "@/components/execution-attempts";
+import { REPAIR_ATTEMPTS } from "@/lib/query-execution";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
 
 interface Table {
   name: string;
@@ -35,6 +39,7 @@ interface Message {
   result?: QueryResult;
   interpretation?: string;
   error?: string;
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
   timestamp: Date;
 }
 
@@ -304,6 +309,10 @@ export default function NaturalLanguageToSQL() {
         body: JSON.stringify({
           env: selectedEnv,
           sql,
+          repairAttempts: REPAIR_ATTEMPTS,
+          question: currentInput,
+          schema: selectedSchema,
+          tablesWithColumns: [{ table: selectedTable, columns }],
         }),
       });
 
@@ -312,6 +321,14 @@ export default function NaturalLanguageToSQL() {
       }
 
       const data = await response.json();
+
+      // A repaired query replaces the generated one
+      sql = data.sql || sql;
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantMessageId 
+          ? { ...msg, sql, attempts: data.attempts } 
+          : msg
+      ));
       
       if (data.error) {
         setMessages(prev => prev.map(msg => 
@@ -355,6 +372,7 @@ export default function NaturalLanguageToSQL() {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
+            env: selectedEnv,
             naturalLanguageQuery: currentInput,
             sql,
             result,
@@ -390,7 +408,7 @@ export default function NaturalLanguageToSQL() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -399,7 +417,7 @@ export default function NaturalLanguageToSQL() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -618,6 +636,11 @@ export default function NaturalLanguageToSQL() {
                           <div className="text-red-600 dark:text-red-400">
                             <p className="text-sm font-semibold mb-1">Error</p>
                             <p className="text-sm">{message.error}</p>
+                            {message.attempts && (
+                              <div className="mt-2 text-gray-800 dark:text-gray-200">
+                                <ExecutionAttempts attempts={message.attempts} />
+                              </div>
+                            )}
                           </div>
                         ) : (
                           <div className="space-y-3">
@@ -627,6 +650,11 @@ export default function NaturalLanguageToSQL() {
                                 <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-900 p-2 rounded overflow-x-auto">
                                   {message.sql}
                                 </pre>
+                                {message.attempts && (
+                                  <div className="mt-2">
+                                    <ExecutionAttempts attempts={message.attempts} />
+                                  </div>
+                                )}
                               </div>
                             )}
                             
@@ -2,6 +2,11 @@
 
 import { useState, useEffect } from "react";
 import Script from "next/script";
+import EnvironmentOptions from "@/components/environment-options";
+import ExecutionAttempts from "@/components/execution-attempts";
+import { REPAIR_ATTEMPTS } from "@/lib/query-execution";
+import { fetchSchemaSnapshot } from "@/lib/schema-cache";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
 
 interface Table {
   name: string;
@@ -35,6 +40,7 @@ interface QuestionResult {
   interpretation?: string;
   chartConfig?: any;
   error?: string;
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
   isProcessing: boolean;
   currentStep?: 'generating-sql' | 'executing-sql' | 'interpreting' | 'generating-chart' | 'complete';
   stepStatuses?: {
@@ -56,7 +62,6 @@ export default function QueryGeneration() {
   const [questionResults, setQuestionResults] = useState<Map<number, QuestionResult>>(new Map());
   const [loading, setLoading] = useState(false);
   const [loadingTables, setLoadingTables] = useState(false);
-  const [loadingAllColumns, setLoadingAllColumns] = useState(false);
   const [analyzingSchema, setAnalyzingSchema] = useState(false);
   const [generatingQuestions, setGeneratingQuestions] = useState(false);
   const [error, setError] = useState("");
@@ -79,7 +84,7 @@ export default function QueryGeneration() {
 
   useEffect(() => {
     if (selectedSchema && selectedEnv) {
-      fetchTables(selectedEnv, selectedSchema);
+      fetchSnapshot(selectedEnv, selectedSchema);
     } else {
       setTables([]);
       setTablesWithColumns([]);
@@ -89,12 +94,6 @@ export default function QueryGeneration() {
     }
   }, [selectedSchema, selectedEnv]);
 
-  useEffect(() => {
-    if (tables.length > 0 && selectedSchema && selectedEnv) {
-      fetchAllColumns(selectedEnv, selectedSchema, tables);
-    }
-  }, [tables, selectedSchema, selectedEnv]);
-
   // Render charts when chart configs are available
   useEffect(() => {
     questionResults.forEach((result, idx) => {
@@ -146,27 +145,21 @@ export default function QueryGeneration() {
     }
   };
 
-  const fetchTables = async (env: string, schema: string) => {
+  // Tables and all of their columns in a single request
+  const fetchSnapshot = async (env: string, schema: string) => {
     setLoadingTables(true);
     setTablesError("");
     setTablesWithColumns([]);
     setSchemaAnalysis("");
     
     try {
-      const response = await fetch("/api/tables", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ env, schema }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch tables");
-      }
-
-      const data = await response.json();
-      setTables(data.tables || []);
+      const snapshot = await fetchSchemaSnapshot(env, schema);
+      setTables(snapshot.tables.map((table) => ({ name: table.name, type: table.type })));
+      setTablesWithColumns(snapshot.tables.map((table) => ({
+        table: table.name,
+        type: table.type,
+        columns: table.columns,
+      })));
     } catch (err) {
       setTablesError("Failed to load tables");
       console.error(err);
@@ -175,42 +168,6 @@ export default function QueryGeneration() {
     }
   };
 
-  const fetchAllColumns = async (env: string, schema: string, tables: Table[]) => {
-    setLoadingAllColumns(true);
-    
-    try {
-      // Fetch columns for all tables in parallel
-      const columnPromises = tables.map(async (table) => {
-        const response = await fetch("/api/columns", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ env, schema, table: table.name }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch columns for ${table.name}`);
-        }
-
-        const data = await response.json();
-        return {
-          table: table.name,
-          type: table.type,
-          columns: data.columns || [],
-        };
-      });
-
-      const results = await Promise.all(columnPromises);
-      setTablesWithColumns(results);
-    } catch (err) {
-      console.error("Error fetching all columns:", err);
-      setTablesError("Failed to load columns for all tables");
-    } finally {
-      setLoadingAllColumns(false);
-    }
-  };
-
   const analyzeSchema = async () => {
     if (tablesWithColumns.length === 0) return;
 
@@ -332,7 +289,7 @@ export default function QueryGeneration() {
         throw new Error("Failed to generate SQL");
       }
 
-      const { sql } = await sqlResponse.json();
+      let { sql } = await sqlResponse.json();
       
       // Update with SQL and mark SQL generation as complete
       const current = newResults.get(questionIndex)!;
@@ -357,6 +314,10 @@ export default function QueryGeneration() {
         body: JSON.stringify({
           env: selectedEnv,
           sql,
+          repairAttempts: REPAIR_ATTEMPTS,
+          question,
+          schema: selectedSchema,
+          tablesWithColumns: tablesWithColumns.map(t => ({ table: t.table, columns: t.columns })),
         }),
       });
 
@@ -365,6 +326,15 @@ export default function QueryGeneration() {
       }
 
       const executeData = await executeResponse.json();
+
+      // A repaired query replaces the generated one
+      sql = executeData.sql || sql;
+      newResults.set(questionIndex, {
+        ...newResults.get(questionIndex)!,
+        sql,
+        attempts: executeData.attempts,
+      });
+      setQuestionResults(new Map(newResults));
       
       if (executeData.error) {
         throw new Error(executeData.error);
@@ -393,6 +363,7 @@ export default function QueryGeneration() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: question,
           sql,
           result,
@@ -438,6 +409,7 @@ export default function QueryGeneration() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          env: selectedEnv,
           naturalLanguageQuery: question,
           sql,
           result,
@@ -481,6 +453,7 @@ export default function QueryGeneration() {
       newResults.set(questionIndex, {
         question,
         error: err.message || "Failed to process question",
+        attempts: newResults.get(questionIndex)?.attempts,
         isProcessing: false,
       });
       setQuestionResults(new Map(newResults));
@@ -500,7 +473,7 @@ export default function QueryGeneration() {
           
           <div className="mb-6">
             <label htmlFor="env-selector" className="block text-sm mb-2">
-              Select Demo Environment
+              Select Environment
             </label>
             <select
               id="env-selector"
@@ -509,7 +482,7 @@ export default function QueryGeneration() {
               className="w-full max-w-md px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-400"
             >
               <option value="">Select an environment...</option>
-              <option value="demo-postgres">Demo Postgres URL</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -554,18 +527,14 @@ export default function QueryGeneration() {
             <h2 className="text-2xl mb-4">Schema Overview: {selectedSchema}</h2>
             
             {loadingTables && (
-              <p className="text-gray-600 dark:text-gray-400">Loading tables...</p>
+              <p className="text-gray-600 dark:text-gray-400">Loading tables and columns...</p>
             )}
             
             {tablesError && (
               <p className="text-red-600 dark:text-red-400">{tablesError}</p>
             )}
             
-            {loadingAllColumns && !loadingTables && (
-              <p className="text-gray-600 dark:text-gray-400">Loading columns for all tables...</p>
-            )}
-
-            {!loadingTables && !loadingAllColumns && !tablesError && tablesWithColumns.length > 0 && (
+            {!loadingTables && !tablesError && tablesWithColumns.length > 0 && (
               <div className="space-y-6">
                 <div className="flex items-center justify-between mb-4">
                   <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -834,6 +803,11 @@ export default function QueryGeneration() {
                                     <div className="text-red-600 dark:text-red-400 text-sm border-t border-gray-300 dark:border-gray-700 pt-4">
                                       <p className="font-semibold mb-1">Error:</p>
                                       <p>{result.error}</p>
+                                      {result.attempts && (
+                                        <div className="mt-2 text-gray-800 dark:text-gray-200">
+                                          <ExecutionAttempts attempts={result.attempts} />
+                                        </div>
+                                      )}
                                     </div>
                                   )}
                                   
@@ -845,6 +819,11 @@ export default function QueryGeneration() {
                                           <pre className="text-xs font-mono bg-gray-100 dark:bg-gray-900 p-3 rounded overflow-x-auto">
                                             {result.sql}
                                           </pre>
+                                          {result.attempts && (
+                                            <div className="mt-2">
+                                              <ExecutionAttempts attempts={result.attempts} />
+                                            </div>
+                                          )}
                                         </div>
                                       )}
 
@@ -918,7 +897,7 @@ export default function QueryGeneration() {
               </div>
             )}
             
-            {!loadingTables && !loadingAllColumns && !tablesError && tables.length === 0 && (
+            {!loadingTables && !tablesError && tables.length === 0 && (
               <p className="text-gray-600 dark:text-gray-400">No tables found in this schema</p>
             )}
           </div>
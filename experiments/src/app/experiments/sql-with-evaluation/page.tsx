@@ -1,6 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import EnvironmentOptions from "@/components/environment-options";
+import { RESULT_PAGE_SIZE, appendResultPage, fetchNextResultPage, isNearBottom } from "@/lib/paged-results";
+import { REPAIR_ATTEMPTS, previewQueryPlan } from "@/lib/query-execution";
+import type { CostCheck, QueryPlan } from "@/lib/query-plan";
+import type { ExecutionAttempt } from "@/lib/sql-repair";
+import PlanTree from "@/components/plan-tree";
+import ExecutionAttempts from "@/components/execution-attempts";
 
 interface Table {
   name: string;
@@ -24,6 +31,8 @@ interface QueryResult {
   columns: string[];
   rows: Record<string, any>[];
   rowCount: number;
+  nextPageToken?: string; // Set while more rows can be loaded
+  truncated?: boolean; // Row cap reached
 }
 
 interface SQLEvaluation {
@@ -39,6 +48,8 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   sql?: string;
+  plan?: QueryPlan; // EXPLAIN preview of sql
+  costCheck?: CostCheck;
   refinedSQL?: string;
   refinedEvaluation?: SQLEvaluation;
   refinedResult?: QueryResult;
@@ -46,6 +57,7 @@ interface Message {
   result?: QueryResult;
   interpretation?: string;
   error?: string;
+  attempts?: ExecutionAttempt[]; // Runs of the query, including automatic repairs of database errors
   timestamp: Date;
   userQuestion?: string; // Store the original question for refinement
 }
@@ -61,6 +73,7 @@ export default function SQLWithEvaluation() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentInput, setCurrentInput] = useState("");
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
+  const [loadingMoreRows, setLoadingMoreRows] = useState<Set<string>>(new Set());
   const [generatingSQL, setGeneratingSQL] = useState(false);
   const [evaluating, setEvaluating] = useState(false);
   const [executingSQL, setExecutingSQL] = useState(false);
@@ -232,8 +245,33 @@ export default function SQLWithEvaluation() {
     
     setGeneratingSQL(false);
 
-    // Step 2: Execute SQL (do this before evaluation so we can pass results)
+    // Step 2: Execute SQL (do this before evaluation so we can pass results),
+    // after previewing the plan against the environment's cost policy
     setExecutingSQL(true);
+    const preview = await previewQueryPlan(selectedEnv, sql);
+    setMessages(prev => prev.map(msg => 
+      msg.id === assistantMessageId ? { ...msg, plan: preview.plan, costCheck: preview.costCheck } : msg
+    ));
+
+    let confirmCost = false;
+    if (preview.costCheck?.decision === "block") {
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantMessageId ? { ...msg, error: `Query blocked: ${preview.costCheck!.reason}` } : msg
+      ));
+      setExecutingSQL(false);
+      return;
+    }
+    if (preview.costCheck?.decision === "confirm") {
+      if (!window.confirm(`${preview.costCheck.reason}\n\nRun this query anyway?`)) {
+        setMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId ? { ...msg, error: "Query not run: its estimated cost needs confirmation" } : msg
+        ));
+        setExecutingSQL(false);
+        return;
+      }
+      confirmCost = true;
+    }
+
     let result: QueryResult | undefined = undefined;
     let executionError: string | null = null;
     
@@ -241,12 +279,33 @@ export default function SQLWithEvaluation() {
       const response = await fetch("/api/execute-sql", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ env: selectedEnv, sql }),
+        body: JSON.stringify({
+          env: selectedEnv,
+          sql,
+          pageSize: RESULT_PAGE_SIZE,
+          confirmCost,
+          repairAttempts: REPAIR_ATTEMPTS,
+          question: userQuestion,
+          schema: selectedSchema,
+          tablesWithColumns: [{ table: selectedTable, columns }],
+        }),
       });
 
       if (!response.ok) throw new Error("Failed to execute SQL");
 
       const data = await response.json();
+
+      // A repaired query replaces the generated one, and the plan previewed
+      // for the generated one no longer applies
+      if (data.sql && data.sql !== sql) {
+        sql = data.sql;
+        setMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId ? { ...msg, sql, plan: undefined, costCheck: undefined } : msg
+        ));
+      }
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantMessageId ? { ...msg, attempts: data.attempts } : msg
+      ));
       
       if (data.error) {
         executionError = data.error;
@@ -278,6 +337,7 @@ export default function SQLWithEvaluation() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          env: selectedEnv,
           question: userQuestion,
           generatedSQL: sql,
           schema: selectedSchema,
@@ -311,6 +371,7 @@ export default function SQLWithEvaluation() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            env: selectedEnv,
             question: userQuestion,
             sql,
             result,
@@ -348,6 +409,7 @@ export default function SQLWithEvaluation() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          env: selectedEnv,
           question: message.userQuestion,
           originalSQL: message.sql,
           evaluation: message.evaluation,
@@ -372,7 +434,7 @@ export default function SQLWithEvaluation() {
         const execResponse = await fetch("/api/execute-sql", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ env: selectedEnv, sql: refinedSQL }),
+          body: JSON.stringify({ env: selectedEnv, sql: refinedSQL, pageSize: RESULT_PAGE_SIZE }),
         });
 
         if (!execResponse.ok) throw new Error("Failed to execute refined SQL");
@@ -393,6 +455,7 @@ export default function SQLWithEvaluation() {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
+              env: selectedEnv,
               question: message.userQuestion,
               generatedSQL: refinedSQL,
               schema: selectedSchema,
@@ -419,6 +482,38 @@ export default function SQLWithEvaluation() {
     }
   };
 
+  // Fetch the next page of a message's result when its table is scrolled to the bottom
+  const loadMoreRows = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const pageToken = message?.result?.nextPageToken;
+    if (!pageToken || loadingMoreRows.has(messageId)) return;
+
+    setLoadingMoreRows(prev => new Set(prev).add(messageId));
+
+    try {
+      const page = await fetchNextResultPage(selectedEnv, pageToken);
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: appendResultPage(msg.result, page) }
+          : msg
+      ));
+    } catch (err) {
+      console.error("Error loading more rows:", err);
+      // Drop the token so scrolling doesn't retry an expired cursor forever
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.result
+          ? { ...msg, result: { ...msg.result, nextPageToken: undefined } }
+          : msg
+      ));
+    } finally {
+      setLoadingMoreRows(prev => {
+        const next = new Set(prev);
+        next.delete(messageId);
+        return next;
+      });
+    }
+  };
+
   const toggleResultExpanded = (messageId: string) => {
     setExpandedResults(prev => {
       const newSet = new Set(prev);
@@ -463,7 +558,7 @@ export default function SQLWithEvaluation() {
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
             >
               <option value="">Select environment</option>
-              <option value="demo">Demo</option>
+              <EnvironmentOptions />
             </select>
           </div>
 
@@ -539,6 +634,16 @@ export default function SQLWithEvaluation() {
                           <pre className="text-sm bg-gray-900 text-gray-100 p-3 rounded overflow-x-auto">
                             <code>{message.sql}</code>
                           </pre>
+                          {message.plan && (
+                            <div className="mt-3">
+                              <PlanTree plan={message.plan} costCheck={message.costCheck} />
+                            </div>
+                          )}
+                          {message.attempts && (
+                            <div className="mt-3">
+                              <ExecutionAttempts attempts={message.attempts} />
+                            </div>
+                          )}
                         </div>
                       )}
 
@@ -681,7 +786,7 @@ export default function SQLWithEvaluation() {
                       {message.result && (
                         <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-white dark:bg-gray-800">
                           <div className="flex items-center justify-between mb-2">
-                            <span className="text-sm font-semibold">Results ({message.result.rowCount} rows)</span>
+                            <span className="text-sm font-semibold">Results ({message.result.rowCount}{message.result.nextPageToken ? '+' : ''} rows)</span>
                             <button
                               onClick={() => toggleResultExpanded(message.id)}
                               className="text-sm text-blue-500 hover:text-blue-600"
@@ -689,7 +794,14 @@ export default function SQLWithEvaluation() {
                               {expandedResults.has(message.id) ? 'Show Less' : 'Show More'}
                             </button>
                           </div>
-                          <div className="overflow-x-auto">
+                          <div
+                            onScroll={(e) => {
+                              if (expandedResults.has(message.id) && isNearBottom(e.currentTarget)) {
+                                loadMoreRows(message.id);
+                              }
+                            }}
+                            className={`overflow-x-auto ${expandedResults.has(message.id) ? 'max-h-96 overflow-y-auto' : ''}`}
+                          >
                             <table className="min-w-full text-sm">
                               <thead className="bg-gray-100 dark:bg-gray-700">
                                 <tr>
@@ -711,6 +823,12 @@ export default function SQLWithEvaluation() {
                               </tbody>
                             </table>
                           </div>
+                          {expandedResults.has(message.id) && loadingMoreRows.has(message.id) && (
+                            <p className="text-xs text-gray-500 mt-2">Loading more rows...</p>
+                          )}
+                          {message.result.truncated && (
+                            <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-2">Row limit reached; refine the query to see the rest</p>
+                          )}
                         </div>
                       )}
 
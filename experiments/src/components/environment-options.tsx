@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DIALECT_LABELS, type SqlDialect } from "@/lib/dialects";
+
+interface EnvironmentSummary {
+  name: string;
+  label: string;
+  kind: string;
+  dialect: SqlDialect;
+  sslMode: string;
+}
+
+// Renders one <option> per environment registered on the server.
+// Meant to be placed inside an environment <select> after its placeholder option.
+export default function EnvironmentOptions() {
+  const [environments, setEnvironments] = useState<EnvironmentSummary[]>([]);
+
+  useEffect(() => {
+    const fetchEnvironments = async () => {
+      try {
+        const response = await fetch("/api/environments");
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch environments");
+        }
+
+        const data = await response.json();
+        setEnvironments(data.environments || []);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    fetchEnvironments();
+  }, []);
+
+  return (
+    <>
+      {environments.map((environment) => (
+        <option key={environment.name} value={environment.name}>
+          {environment.label}
+          {environment.dialect !== "postgres" && ` (${DIALECT_LABELS[environment.dialect]})`}
+        </option>
+      ))}
+    </>
+  );
+}
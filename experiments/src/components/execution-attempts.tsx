@@ -0,0 +1,52 @@
+"use client";
+
+import type { ExecutionAttempt } from "@/lib/sql-repair";
+
+interface ExecutionAttemptsProps {
+  attempts: ExecutionAttempt[];
+}
+
+// The runs behind a chat answer when the database rejected the generated
+// query and it was repaired, so users can see what was fixed. Renders
+// nothing when the first query ran as generated.
+export default function ExecutionAttempts({ attempts }: ExecutionAttemptsProps) {
+  if (attempts.length < 2) return null;
+
+  const repaired = attempts[attempts.length - 1].outcome === "succeeded";
+
+  return (
+    <div className="text-xs">
+      <p className="font-semibold text-gray-600 dark:text-gray-400 mb-1">
+        {repaired
+          ? `Query repaired after ${attempts.length - 1} error${attempts.length === 2 ? "" : "s"}:`
+          : `Query still failing after ${attempts.length - 1} repair${attempts.length === 2 ? "" : "s"}:`}
+      </p>
+      <ol className="space-y-1">
+        {attempts.map((attempt) => (
+          <li key={attempt.attempt}>
+            <details>
+              <summary className="cursor-pointer">
+                <span className="font-semibold">
+                  {attempt.attempt === 1 ? "Generated query" : `Repair ${attempt.attempt - 1}`}
+                </span>
+                {attempt.outcome === "succeeded" ? (
+                  <span className="text-green-700 dark:text-green-400"> ran ({attempt.rowCount ?? 0} rows)</span>
+                ) : (
+                  <span className="text-red-600 dark:text-red-400">
+                    {" "}failed{attempt.databaseError?.code ? ` [${attempt.databaseError.code}]` : ""}: {attempt.error}
+                  </span>
+                )}
+              </summary>
+              <pre className="font-mono bg-gray-50 dark:bg-gray-900 p-2 mt-1 rounded overflow-x-auto">
+                {attempt.sql}
+              </pre>
+              {attempt.databaseError?.hint && (
+                <p className="text-gray-500 mt-1">Hint: {attempt.databaseError.hint}</p>
+              )}
+            </details>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
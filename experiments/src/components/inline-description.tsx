@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+
+interface InlineDescriptionProps {
+  value?: string;
+  // "suggested" descriptions came from the LLM and are flagged until edited
+  source?: "comment" | "suggested" | "manual";
+  onSave: (description: string) => Promise<void>;
+  placeholder?: string;
+  className?: string;
+}
+
+// Click-to-edit glossary description. Enter saves, Escape cancels, and
+// saving an empty value reverts to the database comment.
+export default function InlineDescription({ value, source, onSave, placeholder = "Add description", className = "" }: InlineDescriptionProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const startEditing = () => {
+    setDraft(value ?? "");
+    setError("");
+    setEditing(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError("");
+
+    try {
+      await onSave(draft);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save description");
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className={`flex flex-col gap-1 ${className}`}>
+        <input
+          type="text"
+          value={draft}
+          autoFocus
+          readOnly={saving}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") setEditing(false);
+          }}
+          onBlur={() => !saving && setEditing(false)}
+          placeholder={placeholder}
+          className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={startEditing}
+      title="Edit description"
+      className={`text-left text-xs hover:underline ${value ? "text-gray-600 dark:text-gray-400" : "text-gray-400 italic"} ${className}`}
+    >
+      {value || placeholder}
+      {value && source === "suggested" && (
+        <span className="ml-1 px-1 rounded bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 not-italic">suggested</span>
+      )}
+    </button>
+  );
+}
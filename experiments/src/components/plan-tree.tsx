@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import type { CostCheck, PlanNode, QueryPlan } from "@/lib/query-plan";
+
+interface PlanTreeProps {
+  plan: QueryPlan;
+  costCheck?: CostCheck;
+  // Smaller text for compact chat bubbles
+  compact?: boolean;
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function PlanNodeRow({ node, depth, largeScans }: { node: PlanNode; depth: number; largeScans: Set<string> }) {
+  const isLargeSeqScan = node.nodeType === "Seq Scan" && !!node.relation && largeScans.has(node.relation);
+
+  return (
+    <>
+      <div className="flex items-baseline gap-2" style={{ paddingLeft: `${depth * 16}px` }}>
+        <span className="text-gray-400">{depth > 0 ? "└" : "•"}</span>
+        <span className={isLargeSeqScan ? "font-semibold text-red-600 dark:text-red-400" : "font-semibold"}>
+          {node.joinType ? `${node.joinType} ${node.nodeType}` : node.nodeType}
+        </span>
+        {node.relation && (
+          <span className="font-mono">
+            {node.relation}{node.alias ? ` ${node.alias}` : ""}
+          </span>
+        )}
+        {node.indexName && <span className="font-mono text-gray-500">using {node.indexName}</span>}
+        <span className="text-gray-500 whitespace-nowrap">
+          cost {formatNumber(node.totalCost)} · rows {formatNumber(node.planRows)}
+        </span>
+      </div>
+      {node.filter && (
+        <div className="font-mono text-gray-500 break-all" style={{ paddingLeft: `${depth * 16 + 20}px` }}>
+          filter: {node.filter}
+        </div>
+      )}
+      {node.children.map((child, i) => (
+        <PlanNodeRow key={i} node={child} depth={depth + 1} largeScans={largeScans} />
+      ))}
+    </>
+  );
+}
+
+// Collapsible EXPLAIN plan with estimated cost, rows and large-table warnings
+export default function PlanTree({ plan, costCheck, compact = false }: PlanTreeProps) {
+  const [expanded, setExpanded] = useState(false);
+  const largeScans = new Set(plan.sequentialScans.map((scan) => scan.relation));
+  const textSize = compact ? "text-xs" : "text-sm";
+
+  return (
+    <div className={`border border-gray-300 dark:border-gray-700 rounded-lg p-3 bg-white dark:bg-gray-900 ${textSize}`}>
+      <div className="flex items-center justify-between gap-4">
+        <span>
+          <span className="font-semibold">Query Plan</span>
+          <span className="text-gray-500 ml-2">
+            cost {formatNumber(plan.totalCost)} · ~{formatNumber(plan.estimatedRows)} rows
+          </span>
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-blue-500 hover:text-blue-600"
+        >
+          {expanded ? "Hide Plan" : "Show Plan"}
+        </button>
+      </div>
+
+      {costCheck && costCheck.decision !== "allow" && (
+        <p className={`mt-2 ${costCheck.decision === "block" ? "text-red-600 dark:text-red-400" : "text-yellow-700 dark:text-yellow-400"}`}>
+          {costCheck.reason}
+        </p>
+      )}
+
+      {plan.sequentialScans.length > 0 && (
+        <ul className="mt-2 space-y-1 text-yellow-700 dark:text-yellow-400">
+          {plan.sequentialScans.map((scan) => (
+            <li key={scan.relation}>
+              ⚠ Sequential scan on <span className="font-mono">{scan.relation}</span> (~{formatNumber(scan.estimatedTableRows)} rows)
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {expanded && (
+        <div className="mt-3 space-y-1 overflow-x-auto">
+          <PlanNodeRow node={plan.root} depth={0} largeScans={largeScans} />
+        </div>
+      )}
+    </div>
+  );
+}
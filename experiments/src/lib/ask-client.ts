@@ -0,0 +1,59 @@
+// Client-side helper for /api/ask, which streams pipeline progress as
+// server-sent events
+
+import type { AskEvent, AskRequest, AskStatus } from "@/lib/ask-pipeline";
+
+// Posts the question and calls onEvent for each event as it arrives.
+// Resolves with the status of the final "done" event; throws when the
+// request is refused (400) or the stream breaks off before finishing.
+export async function askQuestion(
+  request: AskRequest,
+  onEvent: (event: AskEvent) => void,
+  signal?: AbortSignal
+): Promise<AskStatus> {
+  const response = await fetch("/api/ask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to ask question");
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let status: AskStatus | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; only the data lines matter
+    // since each payload repeats its type
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const data = buffer
+        .slice(0, boundary)
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice("data: ".length))
+        .join("\n");
+      buffer = buffer.slice(boundary + 2);
+      if (!data) continue;
+
+      const event = JSON.parse(data) as AskEvent;
+      if (event.type === "done") status = event.status;
+      onEvent(event);
+    }
+  }
+
+  if (!status) {
+    throw new Error("The answer stream ended early");
+  }
+
+  return status;
+}
@@ -0,0 +1,420 @@
+import { randomUUID } from "crypto";
+import { getPool } from "@/lib/db";
+import { getDriver, type DatabaseDriver } from "@/lib/drivers";
+import { getEnvironment, type Environment } from "@/lib/environments";
+import type { ConversationMessage } from "@/lib/conversation";
+import type { ChartConfig, SQLEvaluation } from "@/lib/llm";
+import { generateJoinedSql, type TableWithColumns } from "@/lib/joined-sql";
+import type { JoinPlan } from "@/lib/join-planner";
+import { generateChartConfig, interpretResults } from "@/lib/result-insights";
+import { cancelQuery, isValidQueryId } from "@/lib/running-queries";
+import type { RetrievedTable } from "@/lib/schema-retrieval";
+import type { SchemaSnapshot } from "@/lib/schema-snapshot";
+import { explainSql, type ExecutionResponse, type ExplainResponse } from "@/lib/sql-execution";
+import { clampRepairAttempts, DEFAULT_REPAIR_ATTEMPTS, MAX_REPAIR_ATTEMPTS, runWithRepairs, type ExecutionAttempt } from "@/lib/sql-repair";
+import { evaluateSql } from "@/lib/sql-evaluation";
+import { refineSql, type RefinementExecution } from "@/lib/sql-refinement";
+import { identifyRelevantTables } from "@/lib/table-selection";
+
+// Answers a question end to end on the server: pick tables, read their
+// columns, write joined SQL (or refine an earlier query from its
+// evaluation), optionally preview its plan, run it (repairing it when the
+// database rejects it), grade it, explain the results and chart them.
+// /api/ask streams the events as they happen, so the chat pages, scripts
+// and bots all get the same behavior.
+
+export const ASK_STAGES = ["tables", "columns", "sql", "refine", "plan", "execute", "evaluate", "interpret", "chart"] as const;
+
+export type AskStage = (typeof ASK_STAGES)[number];
+
+// The plan preview and the chart cost extra round trips, so they're opt-in;
+// refine is for follow-up requests that pass sql and its evaluation
+export const DEFAULT_ASK_STAGES: AskStage[] = ["tables", "columns", "sql", "execute", "evaluate", "interpret"];
+
+export interface AskRequest {
+  env: string;
+  schema: string;
+  question: string;
+  conversationContext?: ConversationMessage[];
+  // Stages to run; they always run in pipeline order
+  stages?: AskStage[];
+  // Results of earlier runs. A stage whose result is given is skipped, e.g.
+  // to run a query again once the user has confirmed its cost.
+  relevantTables?: string[];
+  tablesWithColumns?: TableWithColumns[];
+  sql?: string;
+  // For the refine stage: the earlier evaluation of sql and, when it ran,
+  // its outcome (as for /api/refine-sql)
+  evaluation?: SQLEvaluation;
+  executionResult?: RefinementExecution;
+  // As for /api/execute-sql; the query id lets the client cancel the query
+  queryId?: string;
+  pageSize?: number;
+  confirmCost?: boolean;
+  // Times a query the database rejects is fixed and re-run; defaults to
+  // SQL_REPAIR_ATTEMPTS (2), 0 turns repairs off
+  repairAttempts?: number;
+}
+
+export interface AskStageData {
+  tables: { relevantTables: string[]; candidates: RetrievedTable[]; promptVersion?: string };
+  columns: { tablesWithColumns: TableWithColumns[] };
+  sql: { sql: string; metricsUsed: string[]; joinPlan?: JoinPlan; promptVersion: string };
+  // Later stages run the refined sql
+  refine: { sql: string; promptVersion: string };
+  plan: ExplainResponse;
+  // Query errors are reported here rather than failing the stage. sql is
+  // the query that ran last, attempts every run including the repairs.
+  execute: ExecutionResponse & { sql: string; attempts: ExecutionAttempt[] };
+  evaluate: { evaluation: SQLEvaluation; promptVersion: string };
+  interpret: { interpretation: string; promptVersion: string };
+  chart: { chartConfig: ChartConfig; promptVersion: string };
+}
+
+// "failed": a stage failed, or the query did (reported once evaluate,
+// interpret and chart have run). "needs_confirmation": the query's estimated
+// cost needs the user's say-so; ask again with the sql, confirmCost: true
+// and the remaining stages
+export type AskStatus = "completed" | "failed" | "blocked" | "needs_confirmation" | "cancelled";
+
+export type StageCompletedEvent = {
+  [S in AskStage]: { type: "stage_completed"; stage: S; data: AskStageData[S] };
+}[AskStage];
+
+export type AskEvent =
+  | { type: "stage_started"; stage: AskStage }
+  | StageCompletedEvent
+  | { type: "stage_skipped"; stage: AskStage; reason: string }
+  | { type: "stage_failed"; stage: AskStage; error: string }
+  // Sent by the execute stage as each run of the query finishes
+  | { type: "execution_attempt"; attempt: ExecutionAttempt }
+  | { type: "done"; status: AskStatus; error?: string };
+
+// What a stage needs when it runs: the result of an earlier stage, or the
+// same value passed in the request
+const STAGE_INPUTS: Partial<Record<AskStage, { stage: AskStage; field?: keyof AskRequest }>> = {
+  columns: { stage: "tables", field: "relevantTables" },
+  sql: { stage: "columns", field: "tablesWithColumns" },
+  refine: { stage: "sql", field: "sql" },
+  plan: { stage: "sql", field: "sql" },
+  execute: { stage: "sql", field: "sql" },
+  evaluate: { stage: "sql", field: "sql" },
+  interpret: { stage: "execute" },
+  chart: { stage: "execute" },
+};
+
+const STAGE_FAILURES: Record<AskStage, string> = {
+  tables: "Failed to identify relevant tables",
+  columns: "Failed to fetch columns for relevant tables",
+  sql: "Failed to generate SQL",
+  refine: "Failed to refine SQL",
+  plan: "Failed to explain SQL",
+  execute: "Failed to execute SQL",
+  evaluate: "Failed to evaluate SQL",
+  interpret: "Failed to generate interpretation",
+  chart: "Failed to generate chart configuration",
+};
+
+function isAskStage(value: unknown): value is AskStage {
+  return ASK_STAGES.includes(value as AskStage);
+}
+
+export function validateAskRequest(request: Partial<AskRequest>): string | null {
+  if (!request.question || !request.env || !request.schema) {
+    return "Question, environment and schema are required";
+  }
+
+  if (request.stages !== undefined) {
+    if (!Array.isArray(request.stages) || request.stages.length === 0) {
+      return "stages must be a non-empty array";
+    }
+    const unknown = request.stages.find((stage) => !isAskStage(stage));
+    if (unknown !== undefined) {
+      return `Unknown stage "${unknown}"; expected one of ${ASK_STAGES.join(", ")}`;
+    }
+  }
+
+  if (request.relevantTables !== undefined && !Array.isArray(request.relevantTables)) {
+    return "relevantTables must be an array";
+  }
+  if (request.tablesWithColumns !== undefined && !Array.isArray(request.tablesWithColumns)) {
+    return "tablesWithColumns must be an array";
+  }
+  if (request.conversationContext !== undefined && !Array.isArray(request.conversationContext)) {
+    return "conversationContext must be an array";
+  }
+  if (request.repairAttempts !== undefined && clampRepairAttempts(request.repairAttempts, -1) !== request.repairAttempts) {
+    return `repairAttempts must be a whole number from 0 to ${MAX_REPAIR_ATTEMPTS}`;
+  }
+
+  const stages = request.stages ?? DEFAULT_ASK_STAGES;
+  if (stages.includes("refine") && (typeof request.evaluation !== "object" || request.evaluation === null)) {
+    return "The refine stage needs the evaluation of the sql it refines";
+  }
+  for (const stage of stages) {
+    const input = STAGE_INPUTS[stage];
+    if (!input || stages.includes(input.stage) || (input.field && request[input.field] !== undefined)) continue;
+    if (input.field === "relevantTables" && request.tablesWithColumns !== undefined) continue;
+    return `The ${stage} stage needs the ${input.stage} stage${input.field ? ` or ${input.field}` : ""}`;
+  }
+
+  return null;
+}
+
+// Retrieval has usually just read the catalog; otherwise ask the driver
+async function loadColumns(
+  driver: DatabaseDriver,
+  schema: string,
+  tables: string[],
+  snapshot?: SchemaSnapshot
+): Promise<TableWithColumns[]> {
+  const catalog = snapshot?.tables ?? [];
+  const columns = snapshot ? [] : await driver.listColumns(schema);
+
+  return tables.map((table) => {
+    const found = snapshot
+      ? catalog.find((entry) => entry.name === table)?.columns
+      : columns.filter((column) => column.table === table);
+
+    if (!found || found.length === 0) {
+      throw new Error(`Table ${table} not found in schema ${schema}`);
+    }
+
+    return {
+      table,
+      columns: found.map((column) => ({
+        name: column.name,
+        type: column.type,
+        nullable: column.nullable,
+        default: column.default,
+        maxLength: column.maxLength,
+      })),
+    };
+  });
+}
+
+// Runs the requested stages, calling emit for every event, and resolves
+// with the final status once "done" has been emitted. Aborting the signal
+// stops between stages and cancels a running query.
+export async function runAskPipeline(
+  request: AskRequest,
+  emit: (event: AskEvent) => void,
+  signal?: AbortSignal
+): Promise<AskStatus> {
+  const { env, schema, question, conversationContext, confirmCost } = request;
+  const stages = new Set(request.stages ?? DEFAULT_ASK_STAGES);
+  const queryId = isValidQueryId(request.queryId) ? request.queryId : randomUUID();
+
+  let relevantTables = request.relevantTables ?? request.tablesWithColumns?.map((twc) => twc.table);
+  let tablesWithColumns = request.tablesWithColumns;
+  let sql = request.sql;
+  let snapshot: SchemaSnapshot | undefined;
+  let execution: AskStageData["execute"] | undefined;
+  let interpretation: string | undefined;
+
+  const finish = (status: AskStatus, error?: string): AskStatus => {
+    emit(error ? { type: "done", status, error } : { type: "done", status });
+    return status;
+  };
+
+  const environment: Environment | undefined = await getEnvironment(env);
+  const driver = environment ? await getDriver(env) : undefined;
+
+  if (!environment || !driver) {
+    return finish("failed", `Environment "${env}" is not configured`);
+  }
+
+  // Resolves with the stage's data, or undefined once stage_failed is sent
+  const runStage = async <S extends AskStage>(
+    stage: S,
+    work: () => Promise<AskStageData[S]>
+  ): Promise<AskStageData[S] | undefined> => {
+    emit({ type: "stage_started", stage });
+    try {
+      const data = await work();
+      emit({ type: "stage_completed", stage, data } as StageCompletedEvent);
+      return data;
+    } catch (error) {
+      console.error(`Error in ask stage "${stage}":`, error);
+      emit({ type: "stage_failed", stage, error: STAGE_FAILURES[stage] });
+      return undefined;
+    }
+  };
+
+  const skip = (stage: AskStage, reason: string) => emit({ type: "stage_skipped", stage, reason });
+
+  // Each handler returns how the run ends when it has to stop early
+  const handlers: Record<AskStage, () => Promise<{ status: AskStatus; error?: string } | void>> = {
+    tables: async () => {
+      if (relevantTables) return skip("tables", "relevantTables was provided");
+
+      const selection = await runStage("tables", async () => {
+        const { snapshot: catalog, ...result } = await identifyRelevantTables({
+          env,
+          schema,
+          query: question,
+          conversationContext,
+        });
+        snapshot = catalog;
+        return result;
+      });
+
+      if (!selection) return { status: "failed", error: STAGE_FAILURES.tables };
+      if (selection.relevantTables.length === 0) {
+        return { status: "failed", error: "No relevant tables identified for your query" };
+      }
+      relevantTables = selection.relevantTables;
+    },
+
+    columns: async () => {
+      if (tablesWithColumns) return skip("columns", "tablesWithColumns was provided");
+
+      const data = await runStage("columns", async () => ({
+        tablesWithColumns: await loadColumns(driver, schema, relevantTables!, snapshot),
+      }));
+
+      if (!data) return { status: "failed", error: STAGE_FAILURES.columns };
+      tablesWithColumns = data.tablesWithColumns;
+    },
+
+    sql: async () => {
+      if (sql) return skip("sql", "sql was provided");
+
+      const data = await runStage("sql", () => generateJoinedSql({
+        env,
+        schema,
+        query: question,
+        tablesWithColumns: tablesWithColumns!,
+        conversationContext,
+      }));
+
+      if (!data) return { status: "failed", error: STAGE_FAILURES.sql };
+      sql = data.sql;
+    },
+
+    refine: async () => {
+      const data = await runStage("refine", async () => {
+        const { refinedSQL, promptVersion } = await refineSql({
+          env,
+          question,
+          sql: sql!,
+          evaluation: request.evaluation!,
+          executionResult: request.executionResult,
+          schema,
+          tables: tablesWithColumns,
+        });
+        return { sql: refinedSQL, promptVersion };
+      });
+
+      if (!data) return { status: "failed", error: STAGE_FAILURES.refine };
+      sql = data.sql;
+    },
+
+    // Planning problems don't stop the run: the query reports its own error
+    plan: async () => {
+      const preview = await runStage("plan", () => explainSql(environment, sql!));
+      const costCheck = preview?.costCheck;
+
+      if (costCheck?.decision === "block") {
+        return { status: "blocked", error: `Query blocked: ${costCheck.reason}` };
+      }
+      if (costCheck?.decision === "confirm" && confirmCost !== true) {
+        return { status: "needs_confirmation", error: costCheck.reason };
+      }
+    },
+
+    execute: async () => {
+      // A client that goes away mid-query shouldn't leave it running
+      const pool = await getPool(env);
+      const cancel = () => {
+        if (pool) cancelQuery(pool, { env, queryId }).catch((error) => console.error("Error cancelling query:", error));
+      };
+      signal?.addEventListener("abort", cancel);
+
+      try {
+        execution = await runStage("execute", async () => {
+          const run = await runWithRepairs({
+            environment,
+            driver,
+            sql: sql!,
+            options: { pageSize: request.pageSize, queryId, confirmCost },
+            question,
+            schema,
+            tablesWithColumns,
+            maxRepairs: request.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
+            onAttempt: (attempt) => emit({ type: "execution_attempt", attempt }),
+          });
+          return { ...run.execution, sql: run.sql, attempts: run.attempts };
+        });
+      } finally {
+        signal?.removeEventListener("abort", cancel);
+      }
+
+      if (!execution) return { status: "failed", error: STAGE_FAILURES.execute };
+      // Later stages grade and explain the query that actually ran
+      sql = execution.sql;
+      if (execution.confirmationRequired) {
+        return { status: "needs_confirmation", error: execution.error ?? undefined };
+      }
+      // The user stopped the query on purpose; don't spend time evaluating it
+      if (execution.errorType === "cancelled") {
+        return { status: "cancelled", error: execution.error ?? undefined };
+      }
+    },
+
+    // Failed queries are graded too; the evaluation explains what went wrong
+    evaluate: async () => {
+      await runStage("evaluate", () => evaluateSql({
+        env,
+        question,
+        sql: sql!,
+        schema,
+        tables: tablesWithColumns?.map((twc) => ({ name: twc.table, columns: twc.columns })),
+        executionSuccess: !execution?.error,
+        executionError: execution?.error ?? null,
+        executionResult: execution?.result,
+      }));
+    },
+
+    interpret: async () => {
+      if (!execution?.result) return skip("interpret", "The query returned no result");
+
+      const data = await runStage("interpret", () => interpretResults({
+        env,
+        question,
+        sql: sql!,
+        result: execution!.result!,
+        conversationContext,
+      }));
+      interpretation = data?.interpretation;
+    },
+
+    chart: async () => {
+      if (!execution?.result) return skip("chart", "The query returned no result");
+
+      await runStage("chart", () => generateChartConfig({
+        env,
+        question,
+        sql,
+        result: execution!.result!,
+        interpretation,
+      }));
+    },
+  };
+
+  for (const stage of ASK_STAGES) {
+    if (!stages.has(stage)) continue;
+    if (signal?.aborted) return finish("cancelled");
+
+    const stop = await handlers[stage]();
+    if (stop) return finish(stop.status, stop.error);
+  }
+
+  // The later stages still run for a query that failed, but the question
+  // wasn't answered
+  if (execution?.error) {
+    return finish("failed", execution.error);
+  }
+
+  return finish("completed");
+}
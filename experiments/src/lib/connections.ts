@@ -0,0 +1,252 @@
+import { randomUUID } from "crypto";
+import { Client, type ClientConfig } from "pg";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+import { decryptSecret, encryptSecret } from "@/lib/secrets";
+import { detectDialect, type SqlDialect } from "@/lib/dialects";
+import type { SslMode } from "@/lib/environments";
+
+const CONNECTIONS_FILE = "connections.json";
+
+interface StoredConnection {
+  id: string;
+  name: string;
+  // Connection URL (including credentials) encrypted with CONNECTION_ENCRYPTION_KEY
+  encryptedUrl: string;
+  sslMode: SslMode;
+  encryptedSslCa?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedConnection {
+  id: string;
+  name: string;
+  connectionString: string;
+  sslMode: SslMode;
+  sslCa?: string;
+}
+
+// Connection metadata that is safe to send to the browser
+export interface ConnectionSummary {
+  id: string;
+  name: string;
+  maskedUrl: string;
+  sslMode: SslMode;
+  hasSslCa: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConnectionInput {
+  name?: string;
+  url?: string;
+  sslMode?: SslMode;
+  sslCa?: string;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  dialect?: SqlDialect;
+  latencyMs?: number;
+  serverVersion?: string;
+  // PostgreSQL only
+  permissions?: {
+    currentUser: string;
+    database: string;
+    isSuperuser: boolean;
+    readOnlyByDefault: boolean;
+    canCreateInPublic: boolean;
+    readableTables: number;
+  };
+  error?: string;
+}
+
+const SSL_MODES: SslMode[] = ["disable", "no-verify", "verify-full"];
+
+export function maskConnectionUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = "****";
+    }
+    return parsed.toString();
+  } catch {
+    return "(invalid url)";
+  }
+}
+
+// Returns an error message when the input is not a valid connection, otherwise null.
+// When `partial` is set (edits), omitted fields are allowed.
+export function validateConnectionInput(input: ConnectionInput, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (!input.name || !input.name.trim()) {
+      return "Connection name is required";
+    }
+  }
+
+  if (!partial || input.url) {
+    if (!input.url || !detectDialect(input.url)) {
+      return "Connection URL must start with postgresql://, mysql://, sqlite: or duckdb:";
+    }
+  }
+
+  if (input.sslMode !== undefined && !SSL_MODES.includes(input.sslMode)) {
+    return `SSL mode must be one of: ${SSL_MODES.join(", ")}`;
+  }
+
+  return null;
+}
+
+async function readConnections(): Promise<StoredConnection[]> {
+  return readJsonFile<StoredConnection[]>(CONNECTIONS_FILE, []);
+}
+
+function toSummary(stored: StoredConnection): ConnectionSummary {
+  return {
+    id: stored.id,
+    name: stored.name,
+    maskedUrl: maskConnectionUrl(decryptSecret(stored.encryptedUrl)),
+    sslMode: stored.sslMode,
+    hasSslCa: !!stored.encryptedSslCa,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+  };
+}
+
+function toSavedConnection(stored: StoredConnection): SavedConnection {
+  return {
+    id: stored.id,
+    name: stored.name,
+    connectionString: decryptSecret(stored.encryptedUrl),
+    sslMode: stored.sslMode,
+    sslCa: stored.encryptedSslCa ? decryptSecret(stored.encryptedSslCa) : undefined,
+  };
+}
+
+export async function listConnectionSummaries(): Promise<ConnectionSummary[]> {
+  const connections = await readConnections();
+  return connections.map(toSummary);
+}
+
+export async function listSavedConnections(): Promise<SavedConnection[]> {
+  const connections = await readConnections();
+  return connections.map(toSavedConnection);
+}
+
+export async function getSavedConnection(id: string): Promise<SavedConnection | undefined> {
+  const connections = await readConnections();
+  const stored = connections.find((c) => c.id === id);
+  return stored ? toSavedConnection(stored) : undefined;
+}
+
+export async function createConnection(input: ConnectionInput): Promise<ConnectionSummary> {
+  return withFileLock(CONNECTIONS_FILE, async () => {
+    const connections = await readConnections();
+    const now = new Date().toISOString();
+
+    const stored: StoredConnection = {
+      id: `conn-${randomUUID().slice(0, 8)}`,
+      name: input.name!.trim(),
+      encryptedUrl: encryptSecret(input.url!),
+      sslMode: input.sslMode || "verify-full",
+      encryptedSslCa: input.sslCa ? encryptSecret(input.sslCa) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await writeJsonFile(CONNECTIONS_FILE, [...connections, stored]);
+    return toSummary(stored);
+  });
+}
+
+// Omitted fields keep their current value, so the UI never needs to
+// round-trip the stored password to save an edit.
+export async function updateConnection(id: string, input: ConnectionInput): Promise<ConnectionSummary | undefined> {
+  return withFileLock(CONNECTIONS_FILE, async () => {
+    const connections = await readConnections();
+    const index = connections.findIndex((c) => c.id === id);
+    if (index === -1) return undefined;
+
+    const current = connections[index];
+    const updated: StoredConnection = {
+      ...current,
+      name: input.name !== undefined ? input.name.trim() : current.name,
+      encryptedUrl: input.url ? encryptSecret(input.url) : current.encryptedUrl,
+      sslMode: input.sslMode || current.sslMode,
+      encryptedSslCa: input.sslCa !== undefined
+        ? (input.sslCa ? encryptSecret(input.sslCa) : undefined)
+        : current.encryptedSslCa,
+      updatedAt: new Date().toISOString(),
+    };
+
+    connections[index] = updated;
+    await writeJsonFile(CONNECTIONS_FILE, connections);
+    return toSummary(updated);
+  });
+}
+
+export async function deleteConnection(id: string): Promise<boolean> {
+  return withFileLock(CONNECTIONS_FILE, async () => {
+    const connections = await readConnections();
+    const remaining = connections.filter((c) => c.id !== id);
+    if (remaining.length === connections.length) return false;
+
+    await writeJsonFile(CONNECTIONS_FILE, remaining);
+    return true;
+  });
+}
+
+// Connects, runs SELECT 1 and probes the server version and the
+// privileges of the connecting role.
+export async function testConnection(config: ClientConfig): Promise<ConnectionTestResult> {
+  const client = new Client({ ...config, connectionTimeoutMillis: 10000 });
+
+  try {
+    const startedAt = Date.now();
+    await client.connect();
+    await client.query("SELECT 1");
+    const latencyMs = Date.now() - startedAt;
+
+    const versionResult = await client.query("SHOW server_version");
+
+    const permissionsResult = await client.query(`
+      SELECT
+        current_user AS user_name,
+        current_database() AS database,
+        (SELECT rolsuper FROM pg_roles WHERE rolname = current_user) AS is_superuser,
+        current_setting('default_transaction_read_only') = 'on' AS read_only_by_default,
+        CASE WHEN EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'public')
+          THEN has_schema_privilege('public', 'CREATE')
+          ELSE false
+        END AS can_create_in_public,
+        (
+          SELECT COUNT(*)
+          FROM information_schema.tables
+          WHERE table_schema NOT IN ('information_schema', 'pg_catalog')
+            AND has_table_privilege(quote_ident(table_schema) || '.' || quote_ident(table_name), 'SELECT')
+        )::int AS readable_tables;
+    `);
+    const permissions = permissionsResult.rows[0];
+
+    return {
+      success: true,
+      latencyMs,
+      serverVersion: versionResult.rows[0]?.server_version,
+      permissions: {
+        currentUser: permissions.user_name,
+        database: permissions.database,
+        isSuperuser: !!permissions.is_superuser,
+        readOnlyByDefault: permissions.read_only_by_default,
+        canCreateInPublic: permissions.can_create_in_public,
+        readableTables: permissions.readable_tables,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to connect",
+    };
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
@@ -0,0 +1,13 @@
+// Earlier turns of a chat, as the pages send them with each question so
+// table selection, SQL generation and interpretation can follow up on them
+export interface ConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+  relevantTables?: string[];
+  sql?: string;
+  result?: {
+    rowCount: number;
+    // JSON of the first rows
+    preview?: string;
+  };
+}
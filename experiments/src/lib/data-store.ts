@@ -0,0 +1,50 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Server-side state (saved connections, snapshots, ...) lives in JSON files
+// under DATA_DIR, defaulting to .data/ in the app directory.
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  const filePath = path.join(getDataDir(), fileName);
+
+  try {
+    const contents = await fs.readFile(filePath, "utf8");
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(fileName: string, value: unknown): Promise<void> {
+  const filePath = path.join(getDataDir(), fileName);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash never leaves a half-written file
+  // behind; the name is unique so concurrent writes never share one
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tempPath, filePath);
+}
+
+// Mutations of one file run one at a time, so a read-modify-write never
+// overwrites a change made while it was running
+const globalForDataStore = globalThis as unknown as { __jsonFileQueues?: Map<string, Promise<unknown>> };
+
+export function withFileLock<T>(fileName: string, task: () => Promise<T>): Promise<T> {
+  const queues = (globalForDataStore.__jsonFileQueues ??= new Map());
+  const run = (queues.get(fileName) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => {});
+  queues.set(fileName, settled);
+  // Forget the file once nothing is waiting on it
+  settled.then(() => {
+    if (queues.get(fileName) === settled) queues.delete(fileName);
+  });
+  return run;
+}
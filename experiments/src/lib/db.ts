@@ -0,0 +1,128 @@
+import { Pool, type PoolClient, type QueryResultRow } from "pg";
+import { getEnvironment, toSslConfig, type Environment } from "@/lib/environments";
+
+interface PoolEntry {
+  pool: Pool;
+  // Identifies the settings the pool was created with, so edited
+  // connections get a fresh pool instead of reusing stale sockets
+  configKey: string;
+}
+
+export interface PoolHealth {
+  healthy: boolean;
+  latencyMs?: number;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  error?: string;
+}
+
+// Keep pools on globalThis so Next.js dev reloads don't leak connections
+const globalForPools = globalThis as unknown as { __dbPools?: Map<string, PoolEntry> };
+const pools = globalForPools.__dbPools ?? (globalForPools.__dbPools = new Map());
+
+function toConfigKey(environment: Environment): string {
+  return JSON.stringify([environment.connectionString, environment.sslMode, environment.sslCa ?? null]);
+}
+
+function createPool(environment: Environment): Pool {
+  const pool = new Pool({
+    connectionString: environment.connectionString,
+    ssl: toSslConfig(environment.sslMode, environment.sslCa),
+    max: Number(process.env.DB_POOL_MAX) || 10,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000,
+    keepAlive: true,
+  });
+
+  // Idle clients can error when the server drops them; without a listener
+  // this would crash the process
+  pool.on("error", (error) => {
+    console.error(`Idle client error in pool "${environment.name}":`, error);
+  });
+
+  return pool;
+}
+
+// Returns the shared pool for a PostgreSQL environment, or undefined when
+// the environment is unknown, not configured or uses another dialect
+// (see getDriver for those).
+export async function getPool(env: string): Promise<Pool | undefined> {
+  const environment = await getEnvironment(env);
+  const existing = pools.get(env);
+
+  if (!environment || environment.dialect !== "postgres") {
+    if (existing) await closePool(env);
+    return undefined;
+  }
+
+  const configKey = toConfigKey(environment);
+  if (existing && existing.configKey === configKey) {
+    return existing.pool;
+  }
+
+  if (existing) await closePool(env);
+
+  const pool = createPool(environment);
+  pools.set(env, { pool, configKey });
+  return pool;
+}
+
+export async function closePool(env: string): Promise<void> {
+  const existing = pools.get(env);
+  if (!existing) return;
+
+  pools.delete(env);
+  await existing.pool.end().catch((error: unknown) => {
+    console.error(`Error closing pool "${env}":`, error);
+  });
+}
+
+// Checks out a client for work that must share a session (transactions,
+// SET LOCAL, cursors). The client is always released, and discarded
+// instead of returned to the pool if the callback failed.
+export async function withClient<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  let failure: Error | undefined;
+
+  try {
+    return await fn(client);
+  } catch (error) {
+    failure = error instanceof Error ? error : new Error(String(error));
+    throw error;
+  } finally {
+    client.release(failure);
+  }
+}
+
+export async function queryRows<T extends QueryResultRow>(
+  pool: Pool,
+  text: string,
+  params: unknown[] = []
+): Promise<T[]> {
+  const result = await pool.query<T>(text, params);
+  return result.rows;
+}
+
+export async function checkHealth(pool: Pool): Promise<PoolHealth> {
+  const startedAt = Date.now();
+
+  try {
+    await pool.query("SELECT 1");
+    return {
+      healthy: true,
+      latencyMs: Date.now() - startedAt,
+      totalCount: pool.totalCount,
+      idleCount: pool.idleCount,
+      waitingCount: pool.waitingCount,
+    };
+  } catch (error) {
+    return {
+      healthy: false,
+      totalCount: pool.totalCount,
+      idleCount: pool.idleCount,
+      waitingCount: pool.waitingCount,
+      error: error instanceof Error ? error.message : "Health check failed",
+    };
+  }
+}
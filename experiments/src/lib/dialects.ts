@@ -0,0 +1,69 @@
+// SQL dialects the app can connect to, and what the LLM prompts need to
+// know about each. Safe to import from client components.
+
+export type SqlDialect = "postgres" | "mysql" | "sqlite" | "duckdb";
+
+export const DIALECT_LABELS: Record<SqlDialect, string> = {
+  postgres: "PostgreSQL",
+  mysql: "MySQL",
+  sqlite: "SQLite",
+  duckdb: "DuckDB",
+};
+
+// Connection URLs look like postgresql://..., mysql://..., or
+// sqlite:<path> / duckdb:<path> for database files on the server
+export function detectDialect(url: string): SqlDialect | undefined {
+  if (/^postgres(ql)?:\/\//i.test(url)) return "postgres";
+  if (/^mysql:\/\//i.test(url)) return "mysql";
+  if (/^sqlite:/i.test(url)) return "sqlite";
+  if (/^duckdb:/i.test(url)) return "duckdb";
+  return undefined;
+}
+
+export function quoteIdentifierFor(dialect: SqlDialect, name: string): string {
+  return dialect === "mysql"
+    ? `\`${name.replace(/`/g, "``")}\``
+    : `"${name.replace(/"/g, '""')}"`;
+}
+
+// schema.table, quoted for the dialect
+export function qualifiedTableName(dialect: SqlDialect, schema: string, table: string): string {
+  return `${quoteIdentifierFor(dialect, schema)}.${quoteIdentifierFor(dialect, table)}`;
+}
+
+// Bind placeholder for the index-th (1-based) parameter of a statement
+export function placeholderFor(dialect: SqlDialect, index: number): string {
+  return dialect === "postgres" ? `$${index}` : "?";
+}
+
+const DIALECT_RULES: Record<SqlDialect, string[]> = {
+  postgres: [
+    "Use ILIKE for case-insensitive matching",
+    "Use date_trunc(), EXTRACT() and INTERVAL '7 days' for date arithmetic",
+    "Casts may use the :: operator; quote identifiers with double quotes",
+  ],
+  mysql: [
+    "Schemas are databases; qualify tables as database.table and quote identifiers with backticks",
+    "There is no ILIKE; LIKE is case-insensitive under the default collation",
+    "Use DATE_FORMAT(), DATE_SUB(NOW(), INTERVAL 7 DAY), YEAR() and MONTH() for dates",
+    "Use CAST(x AS ...) instead of ::, and CONCAT() instead of ||",
+    "FULL OUTER JOIN is not supported",
+  ],
+  sqlite: [
+    "The schema is normally \"main\"; quote identifiers with double quotes",
+    "Dates are stored as TEXT or INTEGER: use date(), datetime(), strftime('%Y-%m', col) and julianday() instead of date_trunc, EXTRACT or INTERVAL",
+    "There is no ILIKE; LIKE is case-insensitive for ASCII",
+    "Integer division truncates: CAST one side AS REAL for ratios",
+    "There are no :: casts; use CAST(x AS type)",
+  ],
+  duckdb: [
+    "Syntax is close to PostgreSQL: ILIKE, date_trunc(), INTERVAL and :: casts work",
+    "Use strftime(col, '%Y-%m') to format dates",
+    "GROUP BY ALL and QUALIFY are available",
+  ],
+};
+
+// Dialect-specific rules appended to the SQL generation prompts
+export function dialectPromptRules(dialect: SqlDialect): string {
+  return DIALECT_RULES[dialect].map((rule) => `- ${rule}`).join("\n");
+}
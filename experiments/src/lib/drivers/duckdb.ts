@@ -0,0 +1,151 @@
+import { DuckDBInstance, type DuckDBConnection, type DuckDBValue } from "@duckdb/node-api";
+import { QueryInterruptedError } from "@/lib/running-queries";
+import type { SnapshotForeignKey } from "@/lib/schema-snapshot";
+import { cappedStatement, probeHealth, toReadOnlyResult } from "@/lib/drivers/shared";
+import type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers/types";
+
+type Row = Record<string, unknown>;
+
+// Opens the database file read-only with file system access disabled, so
+// queries cannot reach read_csv('/etc/passwd') and the like. Every query
+// gets its own connection, which is what interrupt() acts on.
+export async function createDuckDbDriver(filePath: string): Promise<DatabaseDriver> {
+  const instance = await DuckDBInstance.create(filePath, {
+    access_mode: "READ_ONLY",
+    enable_external_access: "false",
+  });
+
+  const withConnection = async <T>(fn: (connection: DuckDBConnection) => Promise<T>): Promise<T> => {
+    const connection = await instance.connect();
+    try {
+      return await fn(connection);
+    } finally {
+      connection.closeSync();
+    }
+  };
+
+  // Values come back the way pg returns them: BIGINT and DECIMAL as strings
+  const rows = <T extends Row>(sql: string, values: DuckDBValue[] = []) =>
+    withConnection(async (connection) => {
+      const reader = await connection.runAndReadAll(sql, values);
+      return reader.getRowObjectsJson() as T[];
+    });
+
+  return {
+    dialect: "duckdb",
+
+    async listSchemas() {
+      const result = await rows<{ schema_name: string }>(`
+        SELECT schema_name
+        FROM information_schema.schemata
+        WHERE catalog_name = current_database()
+          AND schema_name NOT IN ('information_schema', 'pg_catalog')
+        ORDER BY schema_name
+      `);
+      return result.map((row) => row.schema_name);
+    },
+
+    async listTables(schema) {
+      const result = await rows<{ table_name: string; table_type: string; view_definition: string | null }>(`
+        SELECT t.table_name, t.table_type, v.sql AS view_definition
+        FROM information_schema.tables t
+        LEFT JOIN duckdb_views() v
+          ON v.database_name = t.table_catalog AND v.schema_name = t.table_schema AND v.view_name = t.table_name
+        WHERE t.table_catalog = current_database() AND t.table_schema = $1
+        ORDER BY t.table_name
+      `, [schema]);
+
+      return result.map((row): CatalogTable => ({
+        name: row.table_name,
+        type: row.table_type,
+        ...(row.view_definition ? { viewDefinition: row.view_definition } : {}),
+      }));
+    },
+
+    async listColumns(schema, table) {
+      const result = await rows<{
+        table_name: string;
+        column_name: string;
+        data_type: string;
+        is_nullable: string;
+        column_default: string | null;
+        character_maximum_length: number | null;
+      }>(`
+        SELECT table_name, column_name, data_type, is_nullable, column_default, character_maximum_length
+        FROM information_schema.columns
+        WHERE table_catalog = current_database() AND table_schema = $1
+          AND ($2::VARCHAR IS NULL OR table_name = $2)
+        ORDER BY table_name, ordinal_position
+      `, [schema, table ?? null]);
+
+      return result.map((row): CatalogColumn => ({
+        table: row.table_name,
+        name: row.column_name,
+        type: row.data_type.toLowerCase(),
+        nullable: row.is_nullable === "YES",
+        default: row.column_default,
+        maxLength: row.character_maximum_length,
+      }));
+    },
+
+    async listForeignKeys(schema) {
+      const result = await rows<{
+        table_name: string;
+        constraint_name: string;
+        constraint_column_names: string[];
+        referenced_table: string;
+        referenced_column_names: string[];
+      }>(`
+        SELECT table_name, constraint_name, constraint_column_names, referenced_table, referenced_column_names
+        FROM duckdb_constraints()
+        WHERE constraint_type = 'FOREIGN KEY'
+          AND database_name = current_database() AND schema_name = $1
+        ORDER BY table_name, constraint_index
+      `, [schema]);
+
+      // One entry per column pair, like information_schema reports them
+      return result.flatMap((row) => row.constraint_column_names.map((column, index): SnapshotForeignKey => ({
+        fromTable: row.table_name,
+        fromColumn: column,
+        toTable: row.referenced_table,
+        toColumn: row.referenced_column_names[index],
+        constraintName: row.constraint_name,
+      })));
+    },
+
+    executeReadOnly(statement, options) {
+      return withConnection(async (connection) => {
+        let timedOut = false;
+        const timer = setTimeout(() => {
+          timedOut = true;
+          connection.interrupt();
+        }, Math.max(1, options.statementTimeoutMs));
+
+        try {
+          const reader = await connection.runAndReadAll(cappedStatement(statement, options.maxRows), options.params);
+          return toReadOnlyResult(reader.columnNames(), reader.getRowObjectsJson() as Row[], options.maxRows);
+        } catch (error) {
+          if (timedOut) {
+            throw new QueryInterruptedError("timeout", "Query exceeded the statement timeout");
+          }
+          throw error;
+        } finally {
+          clearTimeout(timer);
+        }
+      });
+    },
+
+    async serverVersion() {
+      const [row] = await rows<{ version: string }>("SELECT version() AS version");
+      return row?.version ?? "";
+    },
+
+    checkHealth() {
+      return probeHealth(() => rows("SELECT 1"));
+    },
+
+    async close() {
+      instance.closeSync();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import path from "path";
+import { getPool } from "@/lib/db";
+import { detectDialect } from "@/lib/dialects";
+import { getEnvironment, type Environment } from "@/lib/environments";
+import type { ConnectionTestResult } from "@/lib/connections";
+import { createDuckDbDriver } from "@/lib/drivers/duckdb";
+import { createMysqlDriver } from "@/lib/drivers/mysql";
+import { createPostgresDriver } from "@/lib/drivers/postgres";
+import { createSqliteDriver } from "@/lib/drivers/sqlite";
+import type { DatabaseDriver } from "@/lib/drivers/types";
+
+export type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers/types";
+
+interface DriverEntry {
+  driver: Promise<DatabaseDriver>;
+  configKey: string;
+}
+
+type ConnectionSettings = Pick<Environment, "connectionString" | "sslMode" | "sslCa">;
+
+// Same reasoning as the pg pools in db.ts: survive dev reloads, and
+// replace the driver when the environment's settings change
+const globalForDrivers = globalThis as unknown as { __dbDrivers?: Map<string, DriverEntry> };
+const drivers = globalForDrivers.__dbDrivers ?? (globalForDrivers.__dbDrivers = new Map());
+
+// sqlite:./data/app.db, sqlite:/abs/app.db and sqlite:///abs/app.db (and
+// the duckdb: equivalents); relative paths start at the app directory
+function databaseFilePath(url: string): string {
+  return path.resolve(process.cwd(), url.replace(/^(sqlite|duckdb):(\/\/)?/i, ""));
+}
+
+async function openDriver(settings: ConnectionSettings): Promise<DatabaseDriver> {
+  const dialect = detectDialect(settings.connectionString);
+
+  switch (dialect) {
+    case "sqlite":
+      return createSqliteDriver(databaseFilePath(settings.connectionString));
+    case "duckdb":
+      return createDuckDbDriver(databaseFilePath(settings.connectionString));
+    case "mysql":
+      return createMysqlDriver(settings.connectionString, settings.sslMode, settings.sslCa);
+    default:
+      throw new Error(`Unsupported connection URL scheme "${settings.connectionString.split(":")[0]}:"`);
+  }
+}
+
+function toConfigKey(environment: Environment): string {
+  return JSON.stringify([environment.connectionString, environment.sslMode, environment.sslCa ?? null]);
+}
+
+// Returns the driver for an environment of any dialect, or undefined when
+// the environment is unknown. PostgreSQL environments share the pool from
+// getPool.
+export async function getDriver(env: string): Promise<DatabaseDriver | undefined> {
+  const environment = await getEnvironment(env);
+
+  if (!environment || environment.dialect === "postgres") {
+    await closeDriver(env);
+    const pool = environment ? await getPool(env) : undefined;
+    return pool ? createPostgresDriver(pool) : undefined;
+  }
+
+  const configKey = toConfigKey(environment);
+  const existing = drivers.get(env);
+  if (existing && existing.configKey === configKey) {
+    return existing.driver;
+  }
+
+  if (existing) await closeDriver(env);
+
+  const driver = openDriver(environment);
+  drivers.set(env, { driver, configKey });
+  // Don't keep a failed open around; the next request retries
+  driver.catch(() => {
+    if (drivers.get(env)?.driver === driver) drivers.delete(env);
+  });
+  return driver;
+}
+
+export async function closeDriver(env: string): Promise<void> {
+  const existing = drivers.get(env);
+  if (!existing) return;
+
+  drivers.delete(env);
+  try {
+    await (await existing.driver).close();
+  } catch (error) {
+    console.error(`Error closing driver "${env}":`, error);
+  }
+}
+
+// Connection test for the non-PostgreSQL dialects; testConnection in
+// connections.ts covers PostgreSQL with its permission probes
+export async function testDriverConnection(settings: ConnectionSettings): Promise<ConnectionTestResult> {
+  let driver: DatabaseDriver | undefined;
+
+  try {
+    const startedAt = Date.now();
+    driver = await openDriver(settings);
+    const health = await driver.checkHealth();
+    if (!health.healthy) {
+      return { success: false, error: health.error };
+    }
+
+    return {
+      success: true,
+      latencyMs: Date.now() - startedAt,
+      serverVersion: await driver.serverVersion(),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to connect",
+    };
+  } finally {
+    await driver?.close().catch(() => {});
+  }
+}
@@ -0,0 +1,221 @@
+import type { FieldPacket, PoolConnection as CallbackPoolConnection } from "mysql2";
+import mysql, { type RowDataPacket, type SslOptions } from "mysql2/promise";
+import type { SslMode } from "@/lib/environments";
+import { QueryInterruptedError } from "@/lib/running-queries";
+import type { SnapshotForeignKey } from "@/lib/schema-snapshot";
+import { probeHealth, toReadOnlyResult } from "@/lib/drivers/shared";
+import type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers/types";
+
+// ER_QUERY_TIMEOUT, raised when max_execution_time stops a SELECT
+const QUERY_TIMEOUT_ERRNO = 3024;
+
+const SYSTEM_SCHEMAS = ["mysql", "information_schema", "performance_schema", "sys"];
+
+function toMysqlSsl(sslMode: SslMode, sslCa?: string): SslOptions | undefined {
+  switch (sslMode) {
+    case "disable":
+      return undefined;
+    case "no-verify":
+      return { rejectUnauthorized: false };
+    case "verify-full":
+      return sslCa ? { rejectUnauthorized: true, ca: sslCa } : { rejectUnauthorized: true };
+  }
+}
+
+// Runs the statement as written and stops reading after the row cap plus
+// the one extra row that tells whether the cap cut anything off. MySQL
+// refuses cappedStatement's derived table whenever two columns share a
+// name (o.id and c.id in a join), so the cap can't go into the SQL.
+function queryCapped(
+  connection: CallbackPoolConnection,
+  statement: string,
+  params: unknown[] | undefined,
+  maxRows: number
+): Promise<{ columns: string[]; rows: Record<string, unknown>[]; stopped: boolean }> {
+  return new Promise((resolve, reject) => {
+    const columns: string[] = [];
+    const rows: Record<string, unknown>[] = [];
+    let settled = false;
+
+    const query = connection.query(statement, params);
+    query.on("fields", (fields: FieldPacket[]) => {
+      columns.push(...fields.map((field) => field.name));
+    });
+    query.on("result", (row) => {
+      if (settled) return;
+      rows.push(row as Record<string, unknown>);
+      if (rows.length > maxRows) {
+        settled = true;
+        resolve({ columns, rows, stopped: true });
+      }
+    });
+    query.on("error", (error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+    query.on("end", () => {
+      if (settled) return;
+      settled = true;
+      resolve({ columns, rows, stopped: false });
+    });
+  });
+}
+
+// MySQL schemas are databases; the URL's database is only the default one
+export function createMysqlDriver(connectionString: string, sslMode: SslMode, sslCa?: string): DatabaseDriver {
+  const pool = mysql.createPool({
+    uri: connectionString,
+    ssl: toMysqlSsl(sslMode, sslCa),
+    connectionLimit: Number(process.env.DB_POOL_MAX) || 10,
+    connectTimeout: 10000,
+    enableKeepAlive: true,
+    // BIGINT and DECIMAL come back as strings, the way pg returns them
+    supportBigNumbers: true,
+    bigNumberStrings: true,
+  });
+
+  const rows = async <T>(sql: string, params: unknown[] = []): Promise<T[]> => {
+    const [result] = await pool.query<RowDataPacket[]>(sql, params);
+    return result as T[];
+  };
+
+  return {
+    dialect: "mysql",
+
+    async listSchemas() {
+      const result = await rows<{ schema_name: string }>(`
+        SELECT SCHEMA_NAME AS schema_name
+        FROM information_schema.SCHEMATA
+        WHERE SCHEMA_NAME NOT IN (?)
+        ORDER BY SCHEMA_NAME
+      `, [SYSTEM_SCHEMAS]);
+      return result.map((row) => row.schema_name);
+    },
+
+    async listTables(schema) {
+      const result = await rows<{ table_name: string; table_type: string; view_definition: string | null }>(`
+        SELECT t.TABLE_NAME AS table_name, t.TABLE_TYPE AS table_type, v.VIEW_DEFINITION AS view_definition
+        FROM information_schema.TABLES t
+        LEFT JOIN information_schema.VIEWS v
+          ON v.TABLE_SCHEMA = t.TABLE_SCHEMA AND v.TABLE_NAME = t.TABLE_NAME
+        WHERE t.TABLE_SCHEMA = ?
+        ORDER BY t.TABLE_NAME
+      `, [schema]);
+
+      return result.map((row): CatalogTable => ({
+        name: row.table_name,
+        type: row.table_type,
+        ...(row.view_definition ? { viewDefinition: row.view_definition } : {}),
+      }));
+    },
+
+    async listColumns(schema, table) {
+      const result = await rows<{
+        table_name: string;
+        column_name: string;
+        data_type: string;
+        is_nullable: string;
+        column_default: string | null;
+        character_maximum_length: number | string | null;
+      }>(`
+        SELECT
+          TABLE_NAME AS table_name,
+          COLUMN_NAME AS column_name,
+          DATA_TYPE AS data_type,
+          IS_NULLABLE AS is_nullable,
+          COLUMN_DEFAULT AS column_default,
+          CHARACTER_MAXIMUM_LENGTH AS character_maximum_length
+        FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA = ? AND (? IS NULL OR TABLE_NAME = ?)
+        ORDER BY TABLE_NAME, ORDINAL_POSITION
+      `, [schema, table ?? null, table ?? null]);
+
+      return result.map((row): CatalogColumn => ({
+        table: row.table_name,
+        name: row.column_name,
+        type: row.data_type,
+        nullable: row.is_nullable === "YES",
+        default: row.column_default,
+        maxLength: row.character_maximum_length === null ? null : Number(row.character_maximum_length),
+      }));
+    },
+
+    async listForeignKeys(schema) {
+      const result = await rows<{
+        from_table: string;
+        from_column: string;
+        to_table: string;
+        to_column: string;
+        constraint_name: string;
+      }>(`
+        SELECT
+          TABLE_NAME AS from_table,
+          COLUMN_NAME AS from_column,
+          REFERENCED_TABLE_NAME AS to_table,
+          REFERENCED_COLUMN_NAME AS to_column,
+          CONSTRAINT_NAME AS constraint_name
+        FROM information_schema.KEY_COLUMN_USAGE
+        WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IS NOT NULL
+        ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION
+      `, [schema]);
+
+      return result.map((row): SnapshotForeignKey => ({
+        fromTable: row.from_table,
+        fromColumn: row.from_column,
+        toTable: row.to_table,
+        toColumn: row.to_column,
+        constraintName: row.constraint_name,
+      }));
+    },
+
+    // max_execution_time only applies to SELECT, which is all the guard lets through
+    async executeReadOnly(statement, options) {
+      const connection = await pool.getConnection();
+      // A connection left mid-result can't run anything else, so it is
+      // destroyed rather than returned to the pool
+      let stopped = false;
+
+      try {
+        await connection.query(`SET SESSION max_execution_time = ${Math.max(0, Math.floor(options.statementTimeoutMs))}`);
+        await connection.query("START TRANSACTION READ ONLY");
+
+        const result = await queryCapped(
+          connection.connection as unknown as CallbackPoolConnection,
+          statement,
+          options.params,
+          options.maxRows
+        );
+        stopped = result.stopped;
+        if (!stopped) await connection.query("ROLLBACK");
+
+        return toReadOnlyResult(result.columns, result.rows, options.maxRows);
+      } catch (error) {
+        await connection.query("ROLLBACK").catch(() => {});
+        if ((error as { errno?: number }).errno === QUERY_TIMEOUT_ERRNO) {
+          throw new QueryInterruptedError("timeout", "Query exceeded the statement timeout");
+        }
+        throw error;
+      } finally {
+        if (stopped) {
+          connection.destroy();
+        } else {
+          connection.release();
+        }
+      }
+    },
+
+    async serverVersion() {
+      const [row] = await rows<{ version: string }>("SELECT VERSION() AS version");
+      return row?.version ?? "";
+    },
+
+    checkHealth() {
+      return probeHealth(() => pool.query("SELECT 1"));
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import type { Pool } from "pg";
+import { checkHealth, queryRows } from "@/lib/db";
+import { executeReadOnly } from "@/lib/sql-guard";
+import type { SnapshotForeignKey } from "@/lib/schema-snapshot";
+import type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers/types";
+
+// Wraps the environment's shared pool; closing the pool stays with closePool
+export function createPostgresDriver(pool: Pool): DatabaseDriver {
+  return {
+    dialect: "postgres",
+
+    async listSchemas() {
+      // All schemas excluding system schemas
+      const rows = await queryRows<{ schema_name: string }>(pool, `
+        SELECT schema_name
+        FROM information_schema.schemata
+        WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND schema_name NOT LIKE 'pg_%'
+        ORDER BY schema_name;
+      `);
+      return rows.map((row) => row.schema_name);
+    },
+
+    async listTables(schema) {
+      const rows = await queryRows<{ table_name: string; table_type: string; view_definition: string | null }>(pool, `
+        SELECT
+          t.table_name,
+          t.table_type,
+          v.view_definition
+        FROM information_schema.tables t
+        LEFT JOIN information_schema.views v
+          ON v.table_schema = t.table_schema AND v.table_name = t.table_name
+        WHERE t.table_schema = $1
+        ORDER BY t.table_name;
+      `, [schema]);
+
+      return rows.map((row): CatalogTable => ({
+        name: row.table_name,
+        type: row.table_type,
+        ...(row.view_definition ? { viewDefinition: row.view_definition } : {}),
+      }));
+    },
+
+    async listColumns(schema, table) {
+      const rows = await queryRows<{
+        table_name: string;
+        column_name: string;
+        data_type: string;
+        is_nullable: string;
+        column_default: string | null;
+        character_maximum_length: number | null;
+      }>(pool, `
+        SELECT
+          table_name,
+          column_name,
+          data_type,
+          is_nullable,
+          column_default,
+          character_maximum_length
+        FROM information_schema.columns
+        WHERE table_schema = $1
+          AND ($2::text IS NULL OR table_name = $2)
+        ORDER BY table_name, ordinal_position;
+      `, [schema, table ?? null]);
+
+      return rows.map((row): CatalogColumn => ({
+        table: row.table_name,
+        name: row.column_name,
+        type: row.data_type,
+        nullable: row.is_nullable === "YES",
+        default: row.column_default,
+        maxLength: row.character_maximum_length,
+      }));
+    },
+
+    async listForeignKeys(schema) {
+      const rows = await queryRows<{
+        from_table: string;
+        from_column: string;
+        to_table: string;
+        to_column: string;
+        constraint_name: string;
+      }>(pool, `
+        SELECT
+          tc.table_name AS from_table,
+          kcu.column_name AS from_column,
+          ccu.table_name AS to_table,
+          ccu.column_name AS to_column,
+          tc.constraint_name
+        FROM information_schema.table_constraints AS tc
+        JOIN information_schema.key_column_usage AS kcu
+          ON tc.constraint_name = kcu.constraint_name
+          AND tc.table_schema = kcu.table_schema
+        JOIN information_schema.constraint_column_usage AS ccu
+          ON ccu.constraint_name = tc.constraint_name
+          AND ccu.table_schema = tc.table_schema
+        WHERE tc.constraint_type = 'FOREIGN KEY'
+          AND tc.table_schema = $1
+        ORDER BY tc.table_name, kcu.ordinal_position;
+      `, [schema]);
+
+      return rows.map((row): SnapshotForeignKey => ({
+        fromTable: row.from_table,
+        fromColumn: row.from_column,
+        toTable: row.to_table,
+        toColumn: row.to_column,
+        constraintName: row.constraint_name,
+      }));
+    },
+
+    executeReadOnly(statement, options, handle) {
+      return executeReadOnly(pool, statement, options, handle);
+    },
+
+    async serverVersion() {
+      const [row] = await queryRows<{ server_version: string }>(pool, "SHOW server_version");
+      return row?.server_version ?? "";
+    },
+
+    checkHealth() {
+      return checkHealth(pool);
+    },
+
+    async close() {},
+  };
+}
@@ -0,0 +1,30 @@
+import type { PoolHealth } from "@/lib/db";
+import type { ReadOnlyResult } from "@/lib/sql-guard";
+
+// Wraps a checked statement so the database stops after the row cap; one
+// extra row tells whether the cap cut anything off. Not for MySQL, which
+// rejects derived tables with duplicate column names.
+export function cappedStatement(statement: string, maxRows: number): string {
+  return `SELECT * FROM (${statement}\n) AS guarded_query LIMIT ${maxRows + 1}`;
+}
+
+export function toReadOnlyResult(columns: string[], rows: Record<string, unknown>[], maxRows: number): ReadOnlyResult {
+  const truncated = rows.length > maxRows;
+  const kept = truncated ? rows.slice(0, maxRows) : rows;
+  return { columns, rows: kept, rowCount: kept.length, truncated };
+}
+
+// Health for drivers without pg's pool counters: one probe query, with
+// the counters describing a single connection (mysql2 does not expose its
+// pool's counters either)
+export async function probeHealth(probe: () => Promise<unknown>): Promise<PoolHealth> {
+  const startedAt = Date.now();
+  const counts = { totalCount: 1, idleCount: 1, waitingCount: 0 };
+
+  try {
+    await probe();
+    return { healthy: true, latencyMs: Date.now() - startedAt, ...counts };
+  } catch (error) {
+    return { healthy: false, ...counts, error: error instanceof Error ? error.message : "Health check failed" };
+  }
+}
@@ -0,0 +1,179 @@
+import Database from "better-sqlite3";
+import { spawn } from "child_process";
+import { quoteIdentifierFor } from "@/lib/dialects";
+import { QueryInterruptedError } from "@/lib/running-queries";
+import type { SnapshotForeignKey } from "@/lib/schema-snapshot";
+import { cappedStatement, probeHealth, toReadOnlyResult } from "@/lib/drivers/shared";
+import type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers/types";
+
+const quote = (name: string) => quoteIdentifierFor("sqlite", name);
+
+// "VARCHAR(255)" -> varchar / 255, the way information_schema reports types
+function parseDeclaredType(declared: string): { type: string; maxLength: number | null } {
+  const match = declared.match(/^(.*?)\s*\(\s*(\d+)\s*\)$/);
+  return match
+    ? { type: match[1].toLowerCase(), maxLength: Number(match[2]) }
+    : { type: declared.toLowerCase(), maxLength: null };
+}
+
+// Runs one query on its own read-only connection. better-sqlite3 blocks the
+// thread it runs on and never yields inside a statement, so a worker
+// thread could not be stopped either: queries run in a child process that
+// is killed when the statement timeout passes.
+const QUERY_PROCESS = `
+const Database = require("better-sqlite3");
+process.once("message", ({ filePath, statement, params }) => {
+  try {
+    const db = new Database(filePath, { readonly: true, fileMustExist: true });
+    const prepared = db.prepare(statement);
+    const rows = prepared.all(...params);
+    process.send({ columns: prepared.columns().map((column) => column.name), rows }, () => process.exit(0));
+  } catch (error) {
+    process.send({ error: { message: error.message, code: error.code } }, () => process.exit(0));
+  }
+});
+`;
+
+type QueryReply =
+  | { columns: string[]; rows: Record<string, unknown>[] }
+  | { error: { message: string; code?: string } };
+
+function runInChildProcess(filePath: string, statement: string, params: unknown[], timeoutMs: number): Promise<{ columns: string[]; rows: Record<string, unknown>[] }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["-e", QUERY_PROCESS], {
+      stdio: ["ignore", "ignore", "inherit", "ipc"],
+      serialization: "advanced",
+    });
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      finish();
+      if (child.exitCode === null) child.kill("SIGKILL");
+    };
+
+    const timer = setTimeout(() => {
+      settle(() => reject(new QueryInterruptedError("timeout", "Query exceeded the statement timeout")));
+    }, Math.max(1, timeoutMs));
+
+    child.once("message", (reply: QueryReply) => {
+      settle(() => {
+        if ("error" in reply) {
+          // Keeps the code (SQLITE_ERROR, ...) that execution errors report
+          reject(Object.assign(new Error(reply.error.message), { code: reply.error.code }));
+        } else {
+          resolve(reply);
+        }
+      });
+    });
+    child.once("error", (error) => settle(() => reject(error)));
+    child.once("exit", (code) => settle(() => reject(new Error(`SQLite query process exited with code ${code}`))));
+    child.send({ filePath, statement, params });
+  });
+}
+
+// Opens the database file read-only; a missing file is an error rather
+// than a new empty database. Catalog reads run in this process; queries
+// run in a child process so the statement timeout can stop them.
+export function createSqliteDriver(filePath: string): DatabaseDriver {
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+
+  return {
+    dialect: "sqlite",
+
+    async listSchemas() {
+      const rows = db.prepare("PRAGMA database_list").all() as { name: string }[];
+      return rows.map((row) => row.name).filter((name) => name !== "temp");
+    },
+
+    async listTables(schema) {
+      const rows = db.prepare(`
+        SELECT name, type, sql
+        FROM ${quote(schema)}.sqlite_master
+        WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+        ORDER BY name
+      `).all() as { name: string; type: string; sql: string | null }[];
+
+      return rows.map((row): CatalogTable => ({
+        name: row.name,
+        type: row.type === "view" ? "VIEW" : "BASE TABLE",
+        ...(row.type === "view" && row.sql ? { viewDefinition: row.sql } : {}),
+      }));
+    },
+
+    async listColumns(schema, table) {
+      const rows = db.prepare(`
+        SELECT m.name AS table_name, p.name AS column_name, p.type, p."notnull" AS not_null, p.dflt_value
+        FROM ${quote(schema)}.sqlite_master m
+        JOIN pragma_table_info(m.name, ?) p
+        WHERE m.type IN ('table', 'view') AND m.name NOT LIKE 'sqlite_%'
+          AND (? IS NULL OR m.name = ?)
+        ORDER BY m.name, p.cid
+      `).all(schema, table ?? null, table ?? null) as {
+        table_name: string;
+        column_name: string;
+        type: string;
+        not_null: number;
+        dflt_value: string | null;
+      }[];
+
+      return rows.map((row): CatalogColumn => ({
+        table: row.table_name,
+        name: row.column_name,
+        ...parseDeclaredType(row.type),
+        nullable: row.not_null === 0,
+        default: row.dflt_value,
+      }));
+    },
+
+    async listForeignKeys(schema) {
+      // A foreign key without target columns points at the referenced
+      // table's primary key
+      const rows = db.prepare(`
+        SELECT
+          m.name AS from_table,
+          f.id,
+          f."from" AS from_column,
+          f."table" AS to_table,
+          COALESCE(f."to", (SELECT p.name FROM pragma_table_info(f."table", ?) p WHERE p.pk = f.seq + 1)) AS to_column
+        FROM ${quote(schema)}.sqlite_master m
+        JOIN pragma_foreign_key_list(m.name, ?) f
+        WHERE m.type = 'table'
+        ORDER BY m.name, f.id, f.seq
+      `).all(schema, schema) as { from_table: string; id: number; from_column: string; to_table: string; to_column: string | null }[];
+
+      // SQLite foreign keys are unnamed
+      return rows.map((row): SnapshotForeignKey => ({
+        fromTable: row.from_table,
+        fromColumn: row.from_column,
+        toTable: row.to_table,
+        toColumn: row.to_column ?? "rowid",
+        constraintName: `${row.from_table}_fk_${row.id}`,
+      }));
+    },
+
+    async executeReadOnly(statement, options) {
+      const { columns, rows } = await runInChildProcess(
+        filePath,
+        cappedStatement(statement, options.maxRows),
+        options.params ?? [],
+        options.statementTimeoutMs
+      );
+      return toReadOnlyResult(columns, rows, options.maxRows);
+    },
+
+    async serverVersion() {
+      const row = db.prepare("SELECT sqlite_version() AS version").get() as { version: string };
+      return row.version;
+    },
+
+    checkHealth() {
+      return probeHealth(async () => db.prepare("SELECT 1").get());
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { PoolHealth } from "@/lib/db";
+import type { SqlDialect } from "@/lib/dialects";
+import type { SnapshotColumn, SnapshotForeignKey } from "@/lib/schema-snapshot";
+import type { ReadOnlyOptions, ReadOnlyResult } from "@/lib/sql-guard";
+import type { QueryHandle } from "@/lib/running-queries";
+
+export interface CatalogTable {
+  name: string;
+  // information_schema naming for every dialect: "BASE TABLE", "VIEW", ...
+  type: string;
+  viewDefinition?: string;
+}
+
+export interface CatalogColumn extends SnapshotColumn {
+  table: string;
+}
+
+// What the schema browsers, snapshots and /api/execute-sql need from a
+// database. PostgreSQL-only features (cursors, EXPLAIN, introspection,
+// cancellation) keep using the pg pool from getPool.
+export interface DatabaseDriver {
+  readonly dialect: SqlDialect;
+  listSchemas(): Promise<string[]>;
+  listTables(schema: string): Promise<CatalogTable[]>;
+  // Columns of one table, or of every table in the schema, in ordinal order
+  listColumns(schema: string, table?: string): Promise<CatalogColumn[]>;
+  listForeignKeys(schema: string): Promise<SnapshotForeignKey[]>;
+  // Runs an already-checked statement read-only, with the environment's
+  // statement timeout and row cap
+  executeReadOnly(statement: string, options: ReadOnlyOptions, handle?: QueryHandle): Promise<ReadOnlyResult>;
+  serverVersion(): Promise<string>;
+  checkHealth(): Promise<PoolHealth>;
+  close(): Promise<void>;
+}
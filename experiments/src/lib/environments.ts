@@ -0,0 +1,271 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ClientConfig } from "pg";
+import { getDataDir } from "@/lib/data-store";
+import { listSavedConnections } from "@/lib/connections";
+import { detectDialect, type SqlDialect } from "@/lib/dialects";
+
+// How strictly the server certificate is checked:
+// - "disable": plain TCP, no TLS
+// - "no-verify": TLS without certificate verification (managed/demo databases)
+// - "verify-full": TLS with certificate and hostname verification
+export type SslMode = "disable" | "no-verify" | "verify-full";
+
+export interface Environment {
+  name: string;
+  label: string;
+  kind: "builtin" | "custom" | "connection" | "uploads";
+  // Derived from the connection URL scheme
+  dialect: SqlDialect;
+  connectionString: string;
+  sslMode: SslMode;
+  // Optional PEM-encoded CA bundle used when sslMode is "verify-full"
+  sslCa?: string;
+  guardrails: QueryGuardrails;
+}
+
+// Limits applied to ad-hoc (LLM-generated) SQL run against an environment
+export interface QueryGuardrails {
+  statementTimeoutMs: number;
+  maxRows: number;
+  // When set, queries may only reference these schemas
+  allowedSchemas?: string[];
+  // EXPLAIN cost above which a query needs explicit confirmation / is refused
+  confirmCostAbove?: number;
+  blockCostAbove?: number;
+  // Sequential scans over tables with at least this many rows are flagged
+  largeTableRows: number;
+}
+
+// Environment metadata that is safe to send to the browser
+export interface EnvironmentSummary {
+  name: string;
+  label: string;
+  kind: Environment["kind"];
+  dialect: SqlDialect;
+  sslMode: SslMode;
+}
+
+const SSL_MODES: SslMode[] = ["disable", "no-verify", "verify-full"];
+
+// Built-in environments are configured through <PREFIX>_POSTGRES_DATABASE_URL,
+// <PREFIX>_POSTGRES_SSL_MODE, <PREFIX>_POSTGRES_SSL_CA and the optional guardrail
+// overrides <PREFIX>_POSTGRES_STATEMENT_TIMEOUT_MS, _MAX_ROWS, _ALLOWED_SCHEMAS,
+// _CONFIRM_COST and _BLOCK_COST
+const BUILTIN_ENVIRONMENTS: { name: string; label: string; prefix: string; defaultSslMode: SslMode }[] = [
+  { name: "demo-postgres", label: "Demo Postgres URL", prefix: "DEMO", defaultSslMode: "no-verify" },
+  { name: "dev", label: "Development", prefix: "DEV", defaultSslMode: "no-verify" },
+  { name: "staging", label: "Staging", prefix: "STAGING", defaultSslMode: "verify-full" },
+  { name: "prod", label: "Production", prefix: "PROD", defaultSslMode: "verify-full" },
+];
+
+function parseSslMode(value: string | undefined, fallback: SslMode): SslMode {
+  if (value && SSL_MODES.includes(value as SslMode)) {
+    return value as SslMode;
+  }
+  return fallback;
+}
+
+// URLs without a recognised scheme are handed to the PostgreSQL driver,
+// which reports the problem when connecting
+function parseDialect(url: string): SqlDialect {
+  return detectDialect(url) ?? "postgres";
+}
+
+function parseSchemaList(value: unknown): string[] | undefined {
+  const list = Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : typeof value === "string" ? value.split(",") : [];
+  const schemas = list.map((s) => s.trim()).filter(Boolean);
+  return schemas.length > 0 ? schemas : undefined;
+}
+
+// Cost thresholds are off unless configured
+function parseCost(value: unknown): number | undefined {
+  const cost = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(cost) && cost > 0 ? cost : undefined;
+}
+
+// Defaults come from QUERY_STATEMENT_TIMEOUT_MS / QUERY_MAX_ROWS /
+// QUERY_CONFIRM_COST / QUERY_BLOCK_COST / LARGE_TABLE_ROWS and can be
+// overridden per environment
+function parseGuardrails(overrides: {
+  statementTimeoutMs?: unknown;
+  maxRows?: unknown;
+  allowedSchemas?: unknown;
+  confirmCost?: unknown;
+  blockCost?: unknown;
+}): QueryGuardrails {
+  return {
+    statementTimeoutMs: Number(overrides.statementTimeoutMs) || Number(process.env.QUERY_STATEMENT_TIMEOUT_MS) || 30000,
+    maxRows: Number(overrides.maxRows) || Number(process.env.QUERY_MAX_ROWS) || 5000,
+    allowedSchemas: parseSchemaList(overrides.allowedSchemas),
+    confirmCostAbove: parseCost(overrides.confirmCost) ?? parseCost(process.env.QUERY_CONFIRM_COST),
+    blockCostAbove: parseCost(overrides.blockCost) ?? parseCost(process.env.QUERY_BLOCK_COST),
+    largeTableRows: Number(process.env.LARGE_TABLE_ROWS) || 100000,
+  };
+}
+
+function loadBuiltinEnvironments(): Environment[] {
+  const environments: Environment[] = [];
+
+  for (const builtin of BUILTIN_ENVIRONMENTS) {
+    const connectionString = process.env[`${builtin.prefix}_POSTGRES_DATABASE_URL`];
+    if (!connectionString) continue;
+
+    environments.push({
+      name: builtin.name,
+      label: builtin.label,
+      kind: "builtin",
+      dialect: parseDialect(connectionString),
+      connectionString,
+      sslMode: parseSslMode(process.env[`${builtin.prefix}_POSTGRES_SSL_MODE`], builtin.defaultSslMode),
+      sslCa: process.env[`${builtin.prefix}_POSTGRES_SSL_CA`],
+      guardrails: parseGuardrails({
+        statementTimeoutMs: process.env[`${builtin.prefix}_POSTGRES_STATEMENT_TIMEOUT_MS`],
+        maxRows: process.env[`${builtin.prefix}_POSTGRES_MAX_ROWS`],
+        allowedSchemas: process.env[`${builtin.prefix}_POSTGRES_ALLOWED_SCHEMAS`],
+        confirmCost: process.env[`${builtin.prefix}_POSTGRES_CONFIRM_COST`],
+        blockCost: process.env[`${builtin.prefix}_POSTGRES_BLOCK_COST`],
+      }),
+    });
+  }
+
+  return environments;
+}
+
+// CUSTOM_ENVIRONMENTS holds a JSON array of
+// { "name": "...", "label": "...", "url": "...", "sslMode": "...", "sslCa": "...",
+//   "statementTimeoutMs": 30000, "maxRows": 5000, "allowedSchemas": ["public"],
+//   "confirmCost": 100000, "blockCost": 10000000 }
+// "url" may also be mysql://..., sqlite:<path> or duckdb:<path>
+function loadCustomEnvironments(): Environment[] {
+  const raw = process.env.CUSTOM_ENVIRONMENTS;
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error("CUSTOM_ENVIRONMENTS is not valid JSON:", error);
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    console.error("CUSTOM_ENVIRONMENTS must be a JSON array");
+    return [];
+  }
+
+  return parsed
+    .filter((entry) => entry && typeof entry.name === "string" && typeof entry.url === "string")
+    .map((entry) => ({
+      name: entry.name,
+      label: typeof entry.label === "string" ? entry.label : entry.name,
+      kind: "custom" as const,
+      dialect: parseDialect(entry.url),
+      connectionString: entry.url,
+      sslMode: parseSslMode(entry.sslMode, "verify-full"),
+      sslCa: typeof entry.sslCa === "string" ? entry.sslCa : undefined,
+      guardrails: parseGuardrails(entry),
+    }));
+}
+
+// Connections saved from the config page
+async function loadConnectionEnvironments(): Promise<Environment[]> {
+  try {
+    const connections = await listSavedConnections();
+    return connections.map((connection) => ({
+      name: connection.id,
+      label: connection.name,
+      kind: "connection" as const,
+      dialect: parseDialect(connection.connectionString),
+      connectionString: connection.connectionString,
+      sslMode: connection.sslMode,
+      sslCa: connection.sslCa,
+      guardrails: parseGuardrails({}),
+    }));
+  } catch (error) {
+    console.error("Failed to load saved connections:", error);
+    return [];
+  }
+}
+
+// Uploaded CSV / Parquet / JSON files live as tables in one DuckDB file
+export const UPLOADS_ENVIRONMENT = "uploaded-files";
+
+export function uploadsDatabasePath(): string {
+  return path.join(getDataDir(), "uploads", "uploads.duckdb");
+}
+
+// Listed once the first file has been uploaded
+async function loadUploadsEnvironment(): Promise<Environment[]> {
+  const databasePath = uploadsDatabasePath();
+
+  try {
+    await fs.access(databasePath);
+  } catch {
+    return [];
+  }
+
+  return [{
+    name: UPLOADS_ENVIRONMENT,
+    label: "Uploaded Files",
+    kind: "uploads",
+    dialect: "duckdb",
+    connectionString: `duckdb:${databasePath}`,
+    sslMode: "disable",
+    guardrails: parseGuardrails({}),
+  }];
+}
+
+export async function listEnvironments(): Promise<Environment[]> {
+  const environments = [...loadBuiltinEnvironments()];
+  const names = new Set(environments.map((e) => e.name));
+
+  // Built-in names win over custom entries and saved connections with the same name
+  const others = [
+    ...loadCustomEnvironments(),
+    ...(await loadConnectionEnvironments()),
+    ...(await loadUploadsEnvironment()),
+  ];
+  for (const environment of others) {
+    if (names.has(environment.name)) continue;
+    names.add(environment.name);
+    environments.push(environment);
+  }
+
+  return environments;
+}
+
+export async function getEnvironment(name: string): Promise<Environment | undefined> {
+  const environments = await listEnvironments();
+  return environments.find((e) => e.name === name);
+}
+
+// Dialect used to phrase prompts for an environment; PostgreSQL when the
+// environment is unknown
+export async function getDialect(env: string | undefined): Promise<SqlDialect> {
+  const environment = env ? await getEnvironment(env) : undefined;
+  return environment?.dialect ?? "postgres";
+}
+
+export function toEnvironmentSummary(environment: Environment): EnvironmentSummary {
+  return {
+    name: environment.name,
+    label: environment.label,
+    kind: environment.kind,
+    dialect: environment.dialect,
+    sslMode: environment.sslMode,
+  };
+}
+
+export function toSslConfig(sslMode: SslMode, sslCa?: string): ClientConfig["ssl"] {
+  switch (sslMode) {
+    case "disable":
+      return false;
+    case "no-verify":
+      return { rejectUnauthorized: false };
+    case "verify-full":
+      return sslCa ? { rejectUnauthorized: true, ca: sslCa } : { rejectUnauthorized: true };
+  }
+}
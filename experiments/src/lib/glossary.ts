@@ -0,0 +1,181 @@
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+import { loadIntrospection, type TableIntrospection } from "@/lib/introspection";
+
+// Human descriptions of tables and columns ("amt_c" is the charged amount in
+// cents), used wherever a prompt lists the schema. PostgreSQL COMMENT ON text
+// is the starting point; descriptions edited here or suggested by the LLM
+// are stored and take precedence.
+
+// "comment" entries are read live from the database and never stored
+export type GlossarySource = "comment" | "suggested" | "manual";
+
+export interface GlossaryEntry {
+  env: string;
+  schema: string;
+  table: string;
+  // Omitted for the table's own description
+  column?: string;
+  description: string;
+  source: GlossarySource;
+  updatedAt?: string;
+}
+
+export interface GlossaryInput {
+  env?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  description?: string;
+}
+
+export interface GlossarySuggestion {
+  table: string;
+  column?: string;
+  description: string;
+}
+
+// Description of a table, or of one of its columns
+export type GlossaryLookup = (table: string, column?: string) => string | undefined;
+
+const GLOSSARY_FILE = "glossary.json";
+const MAX_DESCRIPTION_LENGTH = 500;
+
+async function readEntries(): Promise<GlossaryEntry[]> {
+  return readJsonFile<GlossaryEntry[]>(GLOSSARY_FILE, []);
+}
+
+function sameTarget(entry: GlossaryEntry, other: Pick<GlossaryEntry, "env" | "schema" | "table" | "column">): boolean {
+  return entry.env === other.env && entry.schema === other.schema && entry.table === other.table && (entry.column ?? null) === (other.column ?? null);
+}
+
+function commentEntries(env: string, schema: string, introspection: TableIntrospection[]): GlossaryEntry[] {
+  return introspection.flatMap((table) => [
+    ...(table.comment ? [{ env, schema, table: table.table, description: table.comment, source: "comment" as const }] : []),
+    ...table.columns
+      .filter((column) => column.comment)
+      .map((column) => ({ env, schema, table: table.table, column: column.name, description: column.comment!, source: "comment" as const })),
+  ]);
+}
+
+// Database comments overlaid with stored descriptions. Pass table names to
+// limit the result; omit them for the whole schema.
+export async function getGlossary(env: string, schema: string, tables?: string[]): Promise<GlossaryEntry[]> {
+  const [introspection, stored] = await Promise.all([loadIntrospection(env, schema, tables), readEntries()]);
+  const inScope = stored.filter((entry) =>
+    entry.env === env && entry.schema === schema && (!tables || tables.length === 0 || tables.includes(entry.table))
+  );
+
+  const comments = commentEntries(env, schema, introspection).filter((comment) => !inScope.some((entry) => sameTarget(entry, comment)));
+  return [...comments, ...inScope].sort((a, b) =>
+    a.table.localeCompare(b.table) || (a.column ?? "").localeCompare(b.column ?? "")
+  );
+}
+
+export function validateGlossaryInput(input: GlossaryInput): string | null {
+  for (const field of ["env", "schema", "table"] as const) {
+    if (typeof input[field] !== "string" || !input[field]!.trim()) {
+      return `${field[0].toUpperCase()}${field.slice(1)} is required`;
+    }
+  }
+  if (input.column !== undefined && input.column !== null && typeof input.column !== "string") {
+    return "Column must be a string";
+  }
+  if (typeof input.description !== "string") return "Description must be a string";
+  if (input.description.length > MAX_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Stores a description, replacing any earlier one for the same table or
+// column. An empty description removes the stored entry, so the database
+// comment (if any) applies again.
+export async function saveGlossaryEntry(input: GlossaryInput, source: Exclude<GlossarySource, "comment"> = "manual"): Promise<GlossaryEntry | null> {
+  const target = {
+    env: input.env!.trim(),
+    schema: input.schema!.trim(),
+    table: input.table!.trim(),
+    ...(input.column?.trim() ? { column: input.column.trim() } : {}),
+  };
+  const description = input.description!.trim();
+
+  return withFileLock(GLOSSARY_FILE, async () => {
+    const entries = await readEntries();
+    const remaining = entries.filter((entry) => !sameTarget(entry, target));
+
+    if (!description) {
+      await writeJsonFile(GLOSSARY_FILE, remaining);
+      return null;
+    }
+
+    const entry: GlossaryEntry = { ...target, description, source, updatedAt: new Date().toISOString() };
+    await writeJsonFile(GLOSSARY_FILE, [...remaining, entry]);
+    return entry;
+  });
+}
+
+// Stores LLM suggestions for tables and columns that have no description
+// yet; anything already described, by comment or by hand, is left alone
+export async function saveGlossarySuggestions(env: string, schema: string, suggestions: GlossarySuggestion[]): Promise<GlossaryEntry[]> {
+  return withFileLock(GLOSSARY_FILE, async () => {
+    const existing = await getGlossary(env, schema);
+    const entries = await readEntries();
+    const now = new Date().toISOString();
+
+    const added: GlossaryEntry[] = [];
+    for (const suggestion of suggestions) {
+      const description = suggestion.description?.trim().slice(0, MAX_DESCRIPTION_LENGTH);
+      if (!suggestion.table || !description) continue;
+
+      const entry: GlossaryEntry = {
+        env,
+        schema,
+        table: suggestion.table,
+        ...(suggestion.column ? { column: suggestion.column } : {}),
+        description,
+        source: "suggested",
+        updatedAt: now,
+      };
+      if ([...existing, ...added].some((other) => sameTarget(other, entry))) continue;
+      added.push(entry);
+    }
+
+    if (added.length > 0) {
+      await writeJsonFile(GLOSSARY_FILE, [...entries, ...added]);
+    }
+    return added;
+  });
+}
+
+export function glossaryLookup(entries: GlossaryEntry[]): GlossaryLookup {
+  const descriptions = new Map(entries.map((entry) => [`${entry.table}\u0000${entry.column ?? ""}`, entry.description]));
+  return (table, column) => descriptions.get(`${table}\u0000${column ?? ""}`);
+}
+
+// Lookup for prompt building. Prompts still work without descriptions, so
+// failures are logged and yield an empty lookup.
+export async function loadGlossary(env: string | undefined, schema: string | undefined, tables?: string[]): Promise<GlossaryLookup> {
+  if (!env || !schema) return () => undefined;
+
+  try {
+    return glossaryLookup(await getGlossary(env, schema, tables));
+  } catch (error) {
+    console.error("Error loading glossary:", error);
+    return () => undefined;
+  }
+}
+
+// Introspection with glossary descriptions in place of the raw comments
+export function applyGlossary(introspection: TableIntrospection[], lookup: GlossaryLookup): TableIntrospection[] {
+  return introspection.map((table) => ({
+    ...table,
+    comment: lookup(table.table) ?? table.comment,
+    columns: table.columns.map((column) => ({ ...column, comment: lookup(table.table, column.name) ?? column.comment })),
+  }));
+}
+
+// " -- description" suffix for schema lines in prompts
+export function describeForPrompt(lookup: GlossaryLookup, table: string, column?: string): string {
+  const description = lookup(table, column);
+  return description ? ` -- ${description.replace(/\s+/g, " ")}` : "";
+}
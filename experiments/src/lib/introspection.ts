@@ -0,0 +1,252 @@
+import type { Pool } from "pg";
+import { getPool, queryRows } from "@/lib/db";
+
+export interface IntrospectedColumn {
+  name: string;
+  // Full type as PostgreSQL prints it, e.g. "character varying(255)"
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  comment?: string;
+  // Allowed labels when the column is an enum type
+  enumValues?: string[];
+}
+
+export interface NamedConstraint {
+  name: string;
+  columns: string[];
+}
+
+export interface CheckConstraint {
+  name: string;
+  definition: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  // Empty for expression-only indexes; see definition
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+  method: string;
+  definition: string;
+}
+
+export interface TableIntrospection {
+  table: string;
+  type: "table" | "view" | "materialized view" | "foreign table" | "partitioned table";
+  comment?: string;
+  // pg_class.reltuples; undefined when the table was never analyzed
+  estimatedRows?: number;
+  columns: IntrospectedColumn[];
+  primaryKey?: string[];
+  uniqueConstraints: NamedConstraint[];
+  checkConstraints: CheckConstraint[];
+  indexes: IndexInfo[];
+}
+
+const RELATION_KINDS: Record<string, TableIntrospection["type"]> = {
+  r: "table",
+  v: "view",
+  m: "materialized view",
+  f: "foreign table",
+  p: "partitioned table",
+};
+
+// Reads tables, columns, constraints, indexes, enum labels and comments
+// from pg_catalog. Pass table names to limit the result; omit them for the
+// whole schema.
+export async function introspectSchema(pool: Pool, schema: string, tables?: string[]): Promise<TableIntrospection[]> {
+  const filter = tables && tables.length > 0 ? tables : null;
+
+  const [relations, columns, constraints, indexes] = await Promise.all([
+    queryRows<{ table_name: string; relkind: string; comment: string | null; estimated_rows: number | null }>(pool, `
+      SELECT
+        c.relname AS table_name,
+        c.relkind,
+        obj_description(c.oid, 'pg_class') AS comment,
+        CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::float8 END AS estimated_rows
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'v', 'm', 'f', 'p')
+        AND NOT c.relispartition
+        AND ($2::text[] IS NULL OR c.relname = ANY($2::text[]))
+      ORDER BY c.relname;
+    `, [schema, filter]),
+    queryRows<{
+      table_name: string;
+      column_name: string;
+      data_type: string;
+      nullable: boolean;
+      column_default: string | null;
+      comment: string | null;
+      enum_values: string[] | null;
+    }>(pool, `
+      SELECT
+        c.relname AS table_name,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS data_type,
+        NOT a.attnotnull AS nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS column_default,
+        col_description(c.oid, a.attnum) AS comment,
+        CASE WHEN t.typtype = 'e' THEN
+          ARRAY(SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder)
+        END AS enum_values
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_type t ON t.oid = a.atttypid
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'v', 'm', 'f', 'p')
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+        AND ($2::text[] IS NULL OR c.relname = ANY($2::text[]))
+      ORDER BY c.relname, a.attnum;
+    `, [schema, filter]),
+    queryRows<{ table_name: string; constraint_name: string; contype: string; definition: string; columns: string[] }>(pool, `
+      SELECT
+        c.relname AS table_name,
+        con.conname AS constraint_name,
+        con.contype,
+        pg_get_constraintdef(con.oid) AS definition,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS columns
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND con.contype IN ('p', 'u', 'c')
+        AND ($2::text[] IS NULL OR c.relname = ANY($2::text[]))
+      ORDER BY c.relname, con.conname;
+    `, [schema, filter]),
+    queryRows<{
+      table_name: string;
+      index_name: string;
+      is_unique: boolean;
+      is_primary: boolean;
+      method: string;
+      definition: string;
+      columns: string[];
+    }>(pool, `
+      SELECT
+        t.relname AS table_name,
+        i.relname AS index_name,
+        ix.indisunique AS is_unique,
+        ix.indisprimary AS is_primary,
+        am.amname AS method,
+        pg_get_indexdef(ix.indexrelid) AS definition,
+        CASE WHEN 0 = ANY(ix.indkey::int2[]) THEN ARRAY[]::text[] ELSE ARRAY(
+          SELECT a.attname::text
+          FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) END AS columns
+      FROM pg_index ix
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_am am ON am.oid = i.relam
+      WHERE n.nspname = $1
+        AND ($2::text[] IS NULL OR t.relname = ANY($2::text[]))
+      ORDER BY t.relname, i.relname;
+    `, [schema, filter]),
+  ]);
+
+  return relations.map((relation) => {
+    const own = <T extends { table_name: string }>(rows: T[]) => rows.filter((row) => row.table_name === relation.table_name);
+    const tableConstraints = own(constraints);
+    const primaryKey = tableConstraints.find((con) => con.contype === "p");
+
+    return {
+      table: relation.table_name,
+      type: RELATION_KINDS[relation.relkind],
+      comment: relation.comment ?? undefined,
+      estimatedRows: relation.estimated_rows ?? undefined,
+      columns: own(columns).map((col) => ({
+        name: col.column_name,
+        type: col.data_type,
+        nullable: col.nullable,
+        default: col.column_default,
+        comment: col.comment ?? undefined,
+        enumValues: col.enum_values ?? undefined,
+      })),
+      primaryKey: primaryKey?.columns,
+      uniqueConstraints: tableConstraints
+        .filter((con) => con.contype === "u")
+        .map((con) => ({ name: con.constraint_name, columns: con.columns })),
+      checkConstraints: tableConstraints
+        .filter((con) => con.contype === "c")
+        .map((con) => ({ name: con.constraint_name, definition: con.definition })),
+      indexes: own(indexes).map((index) => ({
+        name: index.index_name,
+        columns: index.columns,
+        unique: index.is_unique,
+        primary: index.is_primary,
+        method: index.method,
+        definition: index.definition,
+      })),
+    };
+  });
+}
+
+// Compact description of a table for LLM prompts: real keys, constraints,
+// indexes and comments instead of guesses from column names
+export function formatTableForPrompt(table: TableIntrospection, schema?: string): string {
+  const name = schema ? `${schema}.${table.table}` : table.table;
+  const size = table.estimatedRows !== undefined ? ` (~${Math.round(table.estimatedRows).toLocaleString("en-US")} rows)` : "";
+  const lines = [`Table: ${name}${size}${table.type !== "table" ? ` [${table.type}]` : ""}`];
+
+  if (table.comment) lines.push(`Description: ${table.comment}`);
+
+  lines.push("Columns:");
+  for (const col of table.columns) {
+    let line = `  - ${col.name} (${col.type}${col.nullable ? ", nullable" : ", not null"})`;
+    if (table.primaryKey?.length === 1 && table.primaryKey[0] === col.name) line += " PRIMARY KEY";
+    if (col.enumValues) line += ` one of: ${col.enumValues.map((value) => `'${value}'`).join(", ")}`;
+    if (col.default) line += ` DEFAULT ${col.default}`;
+    if (col.comment) line += ` -- ${col.comment}`;
+    lines.push(line);
+  }
+
+  if (table.primaryKey && table.primaryKey.length > 1) {
+    lines.push(`Primary key: (${table.primaryKey.join(", ")})`);
+  }
+  if (table.uniqueConstraints.length > 0) {
+    lines.push(`Unique: ${table.uniqueConstraints.map((con) => `(${con.columns.join(", ")})`).join(", ")}`);
+  }
+  if (table.checkConstraints.length > 0) {
+    lines.push(`Checks: ${table.checkConstraints.map((con) => con.definition).join("; ")}`);
+  }
+
+  // Primary keys and unique constraints are already listed above
+  const secondaryIndexes = table.indexes.filter((index) =>
+    !index.primary && !table.uniqueConstraints.some((con) => con.name === index.name)
+  );
+  if (secondaryIndexes.length > 0) {
+    lines.push(`Indexes: ${secondaryIndexes
+      .map((index) => `${index.name} ${index.columns.length > 0 ? `(${index.columns.join(", ")})` : `[${index.definition}]`}${index.unique ? " unique" : ""}`)
+      .join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+// Introspection for prompt building. Prompts still work from the column
+// lists the client sent, so failures are logged and yield an empty list.
+export async function loadIntrospection(env: string | undefined, schema: string | undefined, tables?: string[]): Promise<TableIntrospection[]> {
+  if (!env || !schema) return [];
+
+  try {
+    const pool = await getPool(env);
+    return pool ? await introspectSchema(pool, schema, tables) : [];
+  } catch (error) {
+    console.error("Error introspecting schema:", error);
+    return [];
+  }
+}
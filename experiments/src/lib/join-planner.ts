@@ -0,0 +1,363 @@
+import { getDriver } from "@/lib/drivers";
+import { withAcceptedSnapshot } from "@/lib/relationship-inference";
+import { buildSchemaSnapshot, type SchemaSnapshot, type SnapshotForeignKey } from "@/lib/schema-snapshot";
+
+// Works out how a set of tables joins from the schema's foreign keys instead
+// of leaving the LLM to guess from column names; accepted inferred
+// relationships count as declared keys. Where a schema has no declared key,
+// a "<table>_id" column pointing at a table with an "id" column counts as
+// one, at a higher cost. Tables are connected along the
+// cheapest paths, pulling in bridge tables where needed, and the plan notes
+// joins that repeat rows and would inflate aggregates.
+
+export interface JoinEdge {
+  // The referencing ("many") side
+  fromTable: string;
+  fromColumns: string[];
+  // The referenced ("one") side
+  toTable: string;
+  toColumns: string[];
+  source: "foreign key" | "inferred";
+  constraintName?: string;
+}
+
+export interface JoinGraph {
+  tables: string[];
+  edges: JoinEdge[];
+}
+
+export interface PlannedJoin {
+  // Table this join brings in
+  table: string;
+  // Table already in the plan it joins to
+  joinTo: string;
+  // e.g. "order_items.order_id = orders.id"
+  condition: string;
+  edge: JoinEdge;
+  // Seen from joinTo: "one-to-many" repeats joinTo's rows
+  cardinality: "many-to-one" | "one-to-many";
+}
+
+export type JoinWarningKind = "fan-out" | "chasm" | "ambiguous" | "inferred" | "unreachable";
+
+export interface JoinWarning {
+  kind: JoinWarningKind;
+  tables: string[];
+  message: string;
+}
+
+export interface JoinPlan {
+  tables: string[];
+  // Tables not asked for that the joins pass through
+  bridgeTables: string[];
+  joins: PlannedJoin[];
+  unreachable: string[];
+  warnings: JoinWarning[];
+}
+
+const FOREIGN_KEY_COST = 1;
+// Conventions are guesses, so a declared path of the same length wins
+const INFERRED_COST = 1.5;
+
+function plural(name: string): string[] {
+  if (name.endsWith("y")) return [`${name.slice(0, -1)}ies`, `${name}s`];
+  if (/(s|x|ch|sh)$/.test(name)) return [`${name}es`];
+  return [`${name}s`];
+}
+
+// Declared keys, grouped so composite keys stay one edge
+function foreignKeyEdges(foreignKeys: SnapshotForeignKey[]): JoinEdge[] {
+  const grouped = new Map<string, JoinEdge>();
+  for (const fk of foreignKeys) {
+    const key = `${fk.fromTable}\u0000${fk.constraintName}`;
+    const edge = grouped.get(key);
+    if (edge) {
+      edge.fromColumns.push(fk.fromColumn);
+      edge.toColumns.push(fk.toColumn);
+    } else {
+      grouped.set(key, {
+        fromTable: fk.fromTable,
+        fromColumns: [fk.fromColumn],
+        toTable: fk.toTable,
+        toColumns: [fk.toColumn],
+        source: "foreign key",
+        constraintName: fk.constraintName,
+      });
+    }
+  }
+  return [...grouped.values()];
+}
+
+// "customer_id" -> customers.id (or customer.id) when no declared key
+// already covers the column
+function inferredEdges(snapshot: Pick<SchemaSnapshot, "tables">, declared: JoinEdge[]): JoinEdge[] {
+  const tablesByName = new Map(snapshot.tables.map((table) => [table.name.toLowerCase(), table]));
+  const edges: JoinEdge[] = [];
+
+  for (const table of snapshot.tables) {
+    for (const column of table.columns) {
+      const match = /^(.+?)_?id$/i.exec(column.name);
+      if (!match || column.name.toLowerCase() === "id") continue;
+      if (declared.some((edge) => edge.fromTable === table.name && edge.fromColumns.includes(column.name))) continue;
+
+      const base = match[1].replace(/_$/, "").toLowerCase();
+      const target = [base, ...plural(base)].map((name) => tablesByName.get(name)).find(Boolean);
+      const targetKey = target?.columns.find((col) => col.name.toLowerCase() === "id");
+      if (!target || !targetKey || target.name === table.name) continue;
+
+      edges.push({
+        fromTable: table.name,
+        fromColumns: [column.name],
+        toTable: target.name,
+        toColumns: [targetKey.name],
+        source: "inferred",
+      });
+    }
+  }
+  return edges;
+}
+
+export function buildJoinGraph(snapshot: Pick<SchemaSnapshot, "tables" | "foreignKeys">): JoinGraph {
+  const declared = foreignKeyEdges(snapshot.foreignKeys);
+  return {
+    tables: snapshot.tables.map((table) => table.name),
+    edges: [...declared, ...inferredEdges(snapshot, declared)],
+  };
+}
+
+function edgeCost(edge: JoinEdge): number {
+  return edge.source === "foreign key" ? FOREIGN_KEY_COST : INFERRED_COST;
+}
+
+function otherEnd(edge: JoinEdge, table: string): string {
+  return edge.fromTable === table ? edge.toTable : edge.fromTable;
+}
+
+// Sorts parallel edges so the choice between them is stable
+function edgeLabel(edge: JoinEdge): string {
+  return `${edge.fromTable}.${edge.fromColumns.join(",")}->${edge.toTable}`;
+}
+
+interface Reached {
+  cost: number;
+  previous?: { table: string; edge: JoinEdge };
+  // Distinct cheapest routes; more than one means the path is ambiguous
+  routes: number;
+  // Parallel edges tied with the chosen one on its last step
+  alternatives: JoinEdge[];
+}
+
+// Cheapest paths from every table already in the plan at once
+function shortestPaths(graph: JoinGraph, sources: Set<string>): Map<string, Reached> {
+  const reached = new Map<string, Reached>();
+  const settled = new Set<string>();
+  for (const source of sources) reached.set(source, { cost: 0, routes: 1, alternatives: [] });
+
+  const adjacency = new Map<string, JoinEdge[]>();
+  for (const edge of [...graph.edges].sort((a, b) => edgeLabel(a).localeCompare(edgeLabel(b)))) {
+    if (edge.fromTable === edge.toTable) continue;
+    for (const table of [edge.fromTable, edge.toTable]) {
+      const list = adjacency.get(table) ?? [];
+      list.push(edge);
+      adjacency.set(table, list);
+    }
+  }
+
+  while (true) {
+    let current: string | undefined;
+    for (const [table, entry] of reached) {
+      if (settled.has(table)) continue;
+      if (current === undefined || entry.cost < reached.get(current)!.cost || (entry.cost === reached.get(current)!.cost && table < current)) {
+        current = table;
+      }
+    }
+    if (current === undefined) break;
+    settled.add(current);
+
+    const from = reached.get(current)!;
+    for (const edge of adjacency.get(current) ?? []) {
+      const next = otherEnd(edge, current);
+      if (sources.has(next) || settled.has(next)) continue;
+
+      const cost = from.cost + edgeCost(edge);
+      const existing = reached.get(next);
+      if (!existing || cost < existing.cost) {
+        reached.set(next, { cost, previous: { table: current, edge }, routes: from.routes, alternatives: [] });
+      } else if (cost === existing.cost) {
+        // A parallel edge is reported on its own rather than as another route
+        if (existing.previous?.table === current) existing.alternatives.push(edge);
+        else existing.routes += from.routes;
+      }
+    }
+  }
+  return reached;
+}
+
+function joinCondition(edge: JoinEdge): string {
+  return edge.fromColumns
+    .map((column, idx) => `${edge.fromTable}.${column} = ${edge.toTable}.${edge.toColumns[idx]}`)
+    .join(" AND ");
+}
+
+function describeEdge(edge: JoinEdge): string {
+  return `${edge.fromTable}.${edge.fromColumns.join(", ")} -> ${edge.toTable}`;
+}
+
+// Connects the requested tables one at a time, always adding the cheapest
+// remaining one; a greedy Steiner tree, exact for two tables and close for
+// the handful a question usually names
+export function planJoins(graph: JoinGraph, requested: string[]): JoinPlan {
+  const known = new Set(graph.tables);
+  const tables = [...new Set(requested)].filter((table) => known.has(table));
+  const plan: JoinPlan = {
+    tables,
+    bridgeTables: [],
+    joins: [],
+    unreachable: [...new Set(requested)].filter((table) => !known.has(table)),
+    warnings: [],
+  };
+  if (tables.length === 0) return plan;
+
+  const inPlan = new Set([tables[0]]);
+  const remaining = new Set(tables.slice(1));
+
+  while (remaining.size > 0) {
+    const reached = shortestPaths(graph, inPlan);
+    const target = [...remaining]
+      .filter((table) => reached.has(table))
+      .sort((a, b) => reached.get(a)!.cost - reached.get(b)!.cost || tables.indexOf(a) - tables.indexOf(b))[0];
+
+    if (!target) {
+      plan.unreachable.push(...remaining);
+      break;
+    }
+
+    // Walk back to the plan, then add the joins outward from it
+    const steps: { table: string; joinTo: string; edge: JoinEdge; alternatives: JoinEdge[] }[] = [];
+    let table = target;
+    while (!inPlan.has(table)) {
+      const entry = reached.get(table)!;
+      steps.unshift({ table, joinTo: entry.previous!.table, edge: entry.previous!.edge, alternatives: entry.alternatives });
+      table = entry.previous!.table;
+    }
+
+    if (reached.get(target)!.routes > 1) {
+      plan.warnings.push({
+        kind: "ambiguous",
+        tables: [steps[0].joinTo, target],
+        message: `${target} can be reached from ${steps[0].joinTo} along more than one equally short path; the plan uses ${[steps[0].joinTo, ...steps.map((step) => step.table)].join(" -> ")}. Check it matches the question.`,
+      });
+    }
+
+    for (const step of steps) {
+      inPlan.add(step.table);
+      remaining.delete(step.table);
+      if (!tables.includes(step.table)) plan.bridgeTables.push(step.table);
+
+      plan.joins.push({
+        table: step.table,
+        joinTo: step.joinTo,
+        condition: joinCondition(step.edge),
+        edge: step.edge,
+        cardinality: step.edge.fromTable === step.table ? "one-to-many" : "many-to-one",
+      });
+
+      if (step.alternatives.length > 0) {
+        plan.warnings.push({
+          kind: "ambiguous",
+          tables: [step.joinTo, step.table],
+          message: `${step.joinTo} and ${step.table} are related more than once (${[step.edge, ...step.alternatives].map(describeEdge).join("; ")}); the plan uses ${describeEdge(step.edge)}. Pick the one the question means.`,
+        });
+      }
+      if (step.edge.source === "inferred") {
+        plan.warnings.push({
+          kind: "inferred",
+          tables: [step.edge.fromTable, step.edge.toTable],
+          message: `No foreign key links ${step.edge.fromTable} and ${step.edge.toTable}; ${joinCondition(step.edge)} is inferred from the column name.`,
+        });
+      }
+    }
+  }
+
+  plan.warnings.push(...fanOutWarnings(plan));
+  if (plan.unreachable.length > 0) {
+    plan.warnings.push({
+      kind: "unreachable",
+      tables: plan.unreachable,
+      message: `No known relationship connects ${plan.unreachable.join(", ")} to the other tables.`,
+    });
+  }
+  return plan;
+}
+
+// A join from a requested table out to the "many" side repeats that
+// table's rows, and two such branches from one table multiply against each
+// other. Joins toward the "one" side (orders -> customers) repeat nothing.
+function fanOutWarnings(plan: JoinPlan): JoinWarning[] {
+  const warnings: JoinWarning[] = [];
+  const children = new Map<string, string[]>();
+
+  for (const join of plan.joins) {
+    const parent = join.edge.toTable;
+    children.set(parent, [...(children.get(parent) ?? []), join.edge.fromTable]);
+  }
+
+  const fanOuts = plan.joins.filter((join) =>
+    join.cardinality === "one-to-many" && plan.tables.includes(join.joinTo) && (children.get(join.joinTo)?.length ?? 0) < 2
+  );
+  if (fanOuts.length > 0) {
+    const pairs = fanOuts.map((join) => `${join.joinTo} -> ${join.table}`);
+    warnings.push({
+      kind: "fan-out",
+      tables: [...new Set(fanOuts.flatMap((join) => [join.joinTo, join.table]))],
+      message: `These joins repeat the left table's rows once per matching right row: ${pairs.join(", ")}. SUM, COUNT or AVG over the left table's columns will double-count; aggregate the right table in a subquery first, or count DISTINCT keys.`,
+    });
+  }
+
+  for (const [parent, many] of children) {
+    if (many.length < 2) continue;
+    warnings.push({
+      kind: "chasm",
+      tables: [parent, ...many],
+      message: `${parent} has many ${many.join(" and many ")}; joining them together multiplies their rows against each other. Aggregate each of ${many.join(", ")} per ${parent} in its own subquery and join the results.`,
+    });
+  }
+
+  return warnings;
+}
+
+// Prompt section with the joins the SQL must use and the pitfalls to avoid
+export function formatJoinPlanForPrompt(plan: JoinPlan): string {
+  if (plan.joins.length === 0 && plan.unreachable.length === 0) return "";
+
+  const lines = ["Join Plan (derived from the schema's foreign keys; use these join conditions exactly):"];
+
+  for (const join of plan.joins) {
+    const bridge = plan.bridgeTables.includes(join.table) ? " [bridge table]" : "";
+    lines.push(`  - JOIN ${join.table}${bridge} ON ${join.condition} (${join.cardinality} from ${join.joinTo}${join.edge.source === "inferred" ? ", inferred" : ""})`);
+  }
+
+  if (plan.warnings.length > 0) {
+    lines.push("Warnings:");
+    for (const warning of plan.warnings) lines.push(`  - ${warning.message}`);
+  }
+
+  return lines.join("\n");
+}
+
+// Join plan for prompt building. Generation still works without one, so
+// failures are logged and yield undefined.
+export async function loadJoinPlan(env: string | undefined, schema: string | undefined, tables: string[]): Promise<JoinPlan | undefined> {
+  if (!env || !schema || tables.length < 2) return undefined;
+
+  try {
+    const driver = await getDriver(env);
+    if (!driver) return undefined;
+
+    const snapshot = await withAcceptedSnapshot(env, await buildSchemaSnapshot(driver, schema));
+    return planJoins(buildJoinGraph(snapshot), tables);
+  } catch (error) {
+    console.error("Error planning joins:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,159 @@
+import { traceable } from "langsmith/traceable";
+import { complete } from "@/lib/llm";
+import type { ConversationMessage } from "@/lib/conversation";
+import { DIALECT_LABELS, dialectPromptRules, type SqlDialect } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { formatTableForPrompt, loadIntrospection, type TableIntrospection } from "@/lib/introspection";
+import { formatJoinPlanForPrompt, loadJoinPlan, type JoinPlan } from "@/lib/join-planner";
+import { JOINED_SQL_GENERATION } from "@/lib/prompts";
+import type { SnapshotColumn } from "@/lib/schema-snapshot";
+import { citeMetrics, formatSemanticsForPrompt, resolveSemantics, type ResolvedSemantics } from "@/lib/semantic-model";
+
+// Writes one query over several tables, joined along the foreign-key join
+// plan. Used by /api/generate-joined-sql and the /api/ask pipeline.
+
+export interface TableWithColumns {
+  table: string;
+  columns: SnapshotColumn[];
+}
+
+export interface JoinedSqlParams {
+  env?: string;
+  schema: string;
+  query: string;
+  tablesWithColumns: TableWithColumns[];
+  conversationContext?: ConversationMessage[];
+}
+
+export interface JoinedSql {
+  sql: string;
+  metricsUsed: string[];
+  joinPlan?: JoinPlan;
+  promptVersion: string;
+}
+
+// Schema information for a prompt, using the database's own keys and
+// constraints for every table that could be introspected
+export function formatTablesForPrompt(tablesWithColumns: TableWithColumns[], introspection?: TableIntrospection[]): string {
+  return tablesWithColumns.map((twc) => {
+    const introspected = introspection?.find(t => t.table === twc.table);
+    if (introspected) {
+      return formatTableForPrompt(introspected);
+    }
+
+    const columnsInfo = twc.columns.map(col => 
+      `  - ${col.name} (${col.type}${col.nullable ? ', nullable' : ', not null'})`
+    ).join('\n');
+    
+    return `Table: ${twc.table}\nColumns:\n${columnsInfo}`;
+  }).join('\n\n');
+}
+
+// Strips the markdown fence models sometimes add and ends the query with a semicolon
+export function cleanGeneratedSql(content: string): string {
+  let cleanedSql = content;
+  if (cleanedSql.startsWith("```sql")) {
+    cleanedSql = cleanedSql.replace(/^```sql\n/, "").replace(/\n```$/, "");
+  } else if (cleanedSql.startsWith("```")) {
+    cleanedSql = cleanedSql.replace(/^```\n/, "").replace(/\n```$/, "");
+  }
+
+  if (!cleanedSql.trim().endsWith(";")) {
+    cleanedSql = cleanedSql.trim() + ";";
+  }
+  return cleanedSql;
+}
+
+const generateJoinedSQLLogic = traceable(
+  async (params: {
+    schema: string;
+    query: string;
+    tablesWithColumns: TableWithColumns[];
+    conversationContext?: ConversationMessage[];
+    introspection?: TableIntrospection[];
+    semantics?: ResolvedSemantics;
+    joinPlan?: JoinPlan;
+    dialect: SqlDialect;
+  }) => {
+    const { schema, query, tablesWithColumns, conversationContext, introspection, semantics, joinPlan, dialect } = params;
+
+    const schemaInfo = formatTablesForPrompt(tablesWithColumns, introspection);
+
+    // Bridge tables the join plan passes through, when they could be read
+    const bridgeInfo = (joinPlan?.bridgeTables ?? [])
+      .map((table) => introspection?.find(t => t.table === table))
+      .filter((table): table is TableIntrospection => !!table)
+      .map((table) => formatTableForPrompt(table))
+      .join('\n\n');
+
+    // Join conditions from real foreign keys, so relationships aren't guessed
+    const joinPlanInfo = joinPlan ? formatJoinPlanForPrompt(joinPlan) : '';
+
+    // Build conversation history if provided
+    const conversationHistory = conversationContext && conversationContext.length > 0
+      ? conversationContext.map((msg, idx) => {
+          let text = `${idx + 1}. ${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+          if (msg.relevantTables && msg.relevantTables.length > 0) {
+            text += `\n   Tables used: ${msg.relevantTables.join(', ')}`;
+          }
+          if (msg.sql) text += `\n   SQL: ${msg.sql}`;
+          if (msg.result) text += `\n   Result: ${msg.result.rowCount} rows`;
+          return text;
+        }).join('\n')
+      : '';
+
+    const prompt = JOINED_SQL_GENERATION.render({
+      dialect: DIALECT_LABELS[dialect],
+      dialectRules: dialectPromptRules(dialect),
+      schema,
+      tables: schemaInfo,
+      bridgeTables: bridgeInfo,
+      joinPlan: joinPlanInfo,
+      semantics: semantics ? formatSemanticsForPrompt(semantics, schema) : '',
+      conversation: conversationHistory,
+      question: query,
+    });
+
+    const completion = await complete("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.3,
+      maxTokens: 2048,
+    });
+
+    const cleanedSql = cleanGeneratedSql(completion.content);
+
+    // Cite the metric definitions the query relies on
+    const { sql: citedSql, metricsUsed } = semantics
+      ? citeMetrics(cleanedSql, semantics, schema)
+      : { sql: cleanedSql, metricsUsed: [] };
+
+    return { sql: citedSql, metricsUsed, promptVersion: prompt.promptVersion };
+  },
+  { name: "generate_joined_sql" }
+);
+
+export async function generateJoinedSql(params: JoinedSqlParams): Promise<JoinedSql> {
+  const { env, schema, query, tablesWithColumns, conversationContext } = params;
+
+  const tableNames = tablesWithColumns.map((twc) => twc.table);
+  const joinPlan = await loadJoinPlan(env, schema, tableNames);
+  const introspection = await loadIntrospection(
+    env,
+    schema,
+    [...tableNames, ...(joinPlan?.bridgeTables ?? [])]
+  );
+
+  const result = await generateJoinedSQLLogic({
+    schema,
+    query,
+    tablesWithColumns,
+    conversationContext,
+    introspection,
+    semantics: await resolveSemantics(env, schema, query),
+    joinPlan,
+    dialect: await getDialect(env),
+  });
+
+  return { ...result, joinPlan };
+}
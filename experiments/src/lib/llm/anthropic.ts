@@ -0,0 +1,88 @@
+import { getCurrentRunTree, traceable } from "langsmith/traceable";
+import type { CompletionRequest, LlmProvider } from "@/lib/llm/types";
+
+const MESSAGES_URL = "https://api.anthropic.com/v1/messages";
+const API_VERSION = "2023-06-01";
+// The Messages API requires an output limit
+const DEFAULT_MAX_TOKENS = 4096;
+const JSON_INSTRUCTION = "Respond with a single JSON object and nothing else.";
+
+interface MessagesResponse {
+  content?: { type: string; text?: string; input?: unknown }[];
+  error?: { message?: string };
+}
+
+// Models sometimes wrap JSON in prose or a code fence despite the instruction
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// Anthropic's Messages API over fetch. System messages move to the
+// top-level system field; the API has no JSON mode, so JSON requests are
+// instructed and their reply trimmed to the object. Response formats are
+// sent as a tool the model is made to call, whose input is the reply.
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const complete = traceable(
+    async (model: string, request: CompletionRequest) => {
+      const runTree = getCurrentRunTree(true);
+      if (runTree && request.promptVersion) {
+        runTree.metadata = { ...runTree.metadata, promptVersion: request.promptVersion };
+      }
+
+      const system = [
+        ...request.messages.filter((message) => message.role === "system").map((message) => message.content),
+        ...(request.json && !request.responseFormat ? [JSON_INSTRUCTION] : []),
+      ].join("\n\n");
+
+      const response = await fetch(MESSAGES_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": API_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(system ? { system } : {}),
+          messages: request.messages.filter((message) => message.role !== "system"),
+          ...(request.temperature !== undefined ? { temperature: Math.min(1, request.temperature) } : {}),
+          ...(request.responseFormat
+            ? {
+                tools: [{
+                  name: request.responseFormat.name,
+                  description: request.responseFormat.description,
+                  input_schema: request.responseFormat.schema,
+                }],
+                tool_choice: { type: "tool", name: request.responseFormat.name },
+              }
+            : {}),
+        }),
+      });
+
+      const data = (await response.json()) as MessagesResponse;
+
+      if (!response.ok) {
+        throw new Error(`Anthropic request failed (${response.status}): ${data.error?.message ?? "unknown error"}`);
+      }
+
+      const toolUse = data.content?.find((block) => block.type === "tool_use");
+      if (request.responseFormat && toolUse) {
+        return { content: JSON.stringify(toolUse.input), provider: "anthropic" as const, model };
+      }
+
+      const text = (data.content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("")
+        .trim();
+
+      return { content: request.json ? extractJsonObject(text) : text, provider: "anthropic" as const, model };
+    },
+    { name: "anthropic_messages", run_type: "llm" }
+  );
+
+  return { name: "anthropic", complete };
+}
@@ -0,0 +1,84 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import type { CompletionRequest, JsonSchema, LlmProvider, LlmTask } from "@/lib/llm/types";
+
+// Canned reply for requests whose last user message contains `match`
+// (or matches it, when written as "/pattern/flags")
+export interface FakeResponse {
+  match: string;
+  response: string;
+  // Limits the fixture to one task
+  task?: LlmTask;
+}
+
+const globalForFake = globalThis as unknown as { __fakeLlmResponses?: FakeResponse[] };
+
+// Fixtures added from code, checked before those in the LLM_FAKE_RESPONSES file
+export function registerFakeResponses(responses: FakeResponse[]): void {
+  globalForFake.__fakeLlmResponses = [...responses, ...(globalForFake.__fakeLlmResponses ?? [])];
+}
+
+export function clearFakeResponses(): void {
+  globalForFake.__fakeLlmResponses = [];
+}
+
+function fixtureFile(file: string | undefined): FakeResponse[] {
+  if (!file) return [];
+  return JSON.parse(readFileSync(path.resolve(process.cwd(), file), "utf8")) as FakeResponse[];
+}
+
+function matches(pattern: string, text: string): boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return regex ? new RegExp(regex[1], regex[2]).test(text) : text.includes(pattern);
+}
+
+// The smallest value a schema accepts, with one item per array so list
+// handling gets exercised
+function sampleValue(schema: JsonSchema): unknown {
+  if (schema.enum) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries((schema.required ?? []).map((name) => [name, sampleValue(schema.properties?.[name] ?? {})]));
+    case "array":
+      return schema.items ? [sampleValue(schema.items)] : [];
+    case "string":
+      return "fake";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+// Without a fixture: a value matching the schema for response formats,
+// "{}" for other JSON requests, a query that runs anywhere for generation,
+// and a fixed sentence naming the request otherwise
+function defaultResponse(task: LlmTask, request: CompletionRequest, prompt: string): string {
+  if (request.responseFormat) return JSON.stringify(sampleValue(request.responseFormat.schema));
+  if (request.json) return "{}";
+  if (task === "generation") return "SELECT 1";
+  const hash = createHash("sha256").update(prompt).digest("hex").slice(0, 8);
+  return `Fake ${task} response ${hash}`;
+}
+
+// Deterministic replies with no network access, so every route runs
+// offline in tests. The model name is the task, which lets fixtures and
+// defaults tell the tasks apart.
+export function createFakeProvider(fixturesFile?: string): LlmProvider {
+  return {
+    name: "fake",
+    async complete(model, request) {
+      const task = model as LlmTask;
+      const prompt = [...request.messages].reverse().find((message) => message.role === "user")?.content ?? "";
+      const fixture = [...(globalForFake.__fakeLlmResponses ?? []), ...fixtureFile(fixturesFile)]
+        .find((entry) => (!entry.task || entry.task === task) && matches(entry.match, prompt));
+
+      return { content: fixture?.response ?? defaultResponse(task, request, prompt), provider: "fake", model };
+    },
+  };
+}
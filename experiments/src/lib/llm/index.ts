@@ -0,0 +1,173 @@
+import { createAnthropicProvider } from "@/lib/llm/anthropic";
+import { createFakeProvider } from "@/lib/llm/fake";
+import { createAzureProvider, createLocalProvider, createOpenAiProvider } from "@/lib/llm/openai";
+import { parseStructured, repairMessage, StructuredOutputError, type StructuredOutput } from "@/lib/llm/structured";
+import type { CompletionRequest, CompletionResult, LlmProvider, LlmProviderName, LlmTask } from "@/lib/llm/types";
+
+export type { ChatMessage, CompletionRequest, CompletionResult, JsonSchema, LlmProviderName, LlmTask, ResponseFormat } from "@/lib/llm/types";
+export { clearFakeResponses, registerFakeResponses, type FakeResponse } from "@/lib/llm/fake";
+export { defineOutput, StructuredOutputError, validateJsonSchema, type StructuredOutput } from "@/lib/llm/structured";
+export * from "@/lib/llm/outputs";
+
+// Which chat model each AI route uses. LLM_PROVIDER picks the provider for
+// every task; LLM_MODEL_<TASK> sets a task's model, and "provider:model"
+// moves that task to another provider, e.g.
+// LLM_MODEL_EVALUATION=anthropic:claude-haiku-4-5.
+
+export interface ModelChoice {
+  provider: LlmProviderName;
+  model: string;
+}
+
+const PROVIDERS: LlmProviderName[] = ["openai", "anthropic", "azure", "local", "fake"];
+
+const DEFAULT_MODELS: Record<LlmProviderName, Record<LlmTask, string>> = {
+  openai: { generation: "gpt-4o", evaluation: "gpt-4o-mini", interpretation: "gpt-4o", charting: "gpt-4o", layout: "gpt-4o" },
+  anthropic: {
+    generation: "claude-sonnet-4-5",
+    evaluation: "claude-haiku-4-5",
+    interpretation: "claude-sonnet-4-5",
+    charting: "claude-sonnet-4-5",
+    layout: "claude-sonnet-4-5",
+  },
+  // Deployment names; these match deployments named after their model
+  azure: { generation: "gpt-4o", evaluation: "gpt-4o-mini", interpretation: "gpt-4o", charting: "gpt-4o", layout: "gpt-4o" },
+  local: { generation: "llama3.1", evaluation: "llama3.1", interpretation: "llama3.1", charting: "llama3.1", layout: "llama3.1" },
+  // The fake provider reads the task from the model name
+  fake: { generation: "generation", evaluation: "evaluation", interpretation: "interpretation", charting: "charting", layout: "layout" },
+};
+
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+// Same reasoning as the driver cache: survive dev reloads, and replace a
+// provider when its settings change
+const globalForLlm = globalThis as unknown as { __llmProviders?: Map<LlmProviderName, { provider: LlmProvider; configKey: string }> };
+const providers = globalForLlm.__llmProviders ?? (globalForLlm.__llmProviders = new Map());
+
+function isProviderName(name: string): name is LlmProviderName {
+  return PROVIDERS.includes(name as LlmProviderName);
+}
+
+function defaultProvider(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!configured) return "openai";
+  if (!isProviderName(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}"; expected one of: ${PROVIDERS.join(", ")}`);
+  }
+  return configured;
+}
+
+export function resolveModel(task: LlmTask): ModelChoice {
+  const configured = process.env[`LLM_MODEL_${task.toUpperCase()}`]?.trim();
+  const provider = defaultProvider();
+  if (!configured) return { provider, model: DEFAULT_MODELS[provider][task] };
+
+  const separator = configured.indexOf(":");
+  const prefix = separator === -1 ? "" : configured.slice(0, separator).toLowerCase();
+  return isProviderName(prefix)
+    ? { provider: prefix, model: configured.slice(separator + 1) || DEFAULT_MODELS[prefix][task] }
+    // Ollama tags such as "llama3.1:8b" contain colons too
+    : { provider, model: configured };
+}
+
+// Settings a provider needs, or the error message for the first one missing
+function providerSettings(name: LlmProviderName): { settings: string[] } | { error: string } {
+  switch (name) {
+    case "openai":
+      return process.env.OPENAI_API_KEY
+        ? { settings: [process.env.OPENAI_API_KEY] }
+        : { error: "OpenAI API key not configured" };
+    case "anthropic":
+      return process.env.ANTHROPIC_API_KEY
+        ? { settings: [process.env.ANTHROPIC_API_KEY] }
+        : { error: "Anthropic API key not configured" };
+    case "azure":
+      return process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY
+        ? { settings: [process.env.AZURE_OPENAI_ENDPOINT, process.env.AZURE_OPENAI_API_KEY, process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION] }
+        : { error: "Azure OpenAI endpoint and API key not configured" };
+    case "local":
+      return { settings: [process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL, process.env.LOCAL_LLM_API_KEY || "local"] };
+    case "fake":
+      return { settings: [process.env.LLM_FAKE_RESPONSES ?? ""] };
+  }
+}
+
+function createProvider(name: LlmProviderName, settings: string[]): LlmProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAiProvider(settings[0]);
+    case "anthropic":
+      return createAnthropicProvider(settings[0]);
+    case "azure":
+      return createAzureProvider(settings[0], settings[1], settings[2]);
+    case "local":
+      return createLocalProvider(settings[0], settings[1]);
+    case "fake":
+      return createFakeProvider(settings[0] || undefined);
+  }
+}
+
+// Why a task can't run as configured, for the routes' 500 responses; null
+// when it can
+export function llmConfigError(task: LlmTask): string | null {
+  try {
+    const result = providerSettings(resolveModel(task).provider);
+    return "error" in result ? result.error : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function getProvider(name: LlmProviderName): LlmProvider {
+  const result = providerSettings(name);
+  if ("error" in result) throw new Error(result.error);
+
+  const configKey = JSON.stringify(result.settings);
+  const existing = providers.get(name);
+  if (existing && existing.configKey === configKey) return existing.provider;
+
+  const provider = createProvider(name, result.settings);
+  providers.set(name, { provider, configKey });
+  return provider;
+}
+
+// Runs a chat completion with the provider and model configured for the task
+export async function complete(task: LlmTask, request: CompletionRequest): Promise<CompletionResult> {
+  const { provider, model } = resolveModel(task);
+  return getProvider(provider).complete(model, request);
+}
+
+// Retries after the first reply, each showing the model its invalid reply
+// and what was wrong with it
+const STRUCTURED_REPAIR_ATTEMPTS = 2;
+
+// Runs a completion whose reply must match a response format, asking the
+// model to repair invalid replies. Throws StructuredOutputError when the
+// repairs run out.
+export async function completeStructured<T>(
+  task: LlmTask,
+  request: Omit<CompletionRequest, "json" | "responseFormat">,
+  output: StructuredOutput<T>
+): Promise<CompletionResult & { value: T; repairs: number }> {
+  let messages = request.messages;
+  let errors: string[] = [];
+  let content = "";
+
+  for (let attempt = 0; attempt <= STRUCTURED_REPAIR_ATTEMPTS; attempt++) {
+    const result = await complete(task, { ...request, messages, json: true, responseFormat: output });
+    const parsed = parseStructured(result.content, output);
+    if (parsed.value !== undefined) return { ...result, value: parsed.value, repairs: attempt };
+
+    errors = parsed.errors;
+    content = result.content;
+    // Only the latest invalid reply is shown, so repairs don't grow the prompt
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: result.content },
+      { role: "user", content: repairMessage(errors) },
+    ];
+  }
+
+  throw new StructuredOutputError(output.name, errors, STRUCTURED_REPAIR_ATTEMPTS + 1, content);
+}
@@ -0,0 +1,50 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { wrapOpenAI } from "langsmith/wrappers";
+import type { CompletionRequest, LlmProvider, LlmProviderName } from "@/lib/llm/types";
+
+// Structured outputs: the reply is constrained to the schema while it's
+// generated when the format is strict
+function responseFormat(request: CompletionRequest) {
+  if (request.responseFormat) {
+    const { name, description, schema, strict } = request.responseFormat;
+    return { type: "json_schema" as const, json_schema: { name, description, schema: { ...schema }, strict } };
+  }
+  return request.json ? { type: "json_object" as const } : undefined;
+}
+
+// OpenAI, Azure OpenAI and OpenAI-compatible local servers (Ollama,
+// llama.cpp, vLLM) share the chat completions API and this implementation.
+// Clients are wrapped for LangSmith tracing.
+function createChatCompletionsProvider(name: LlmProviderName, client: OpenAI): LlmProvider {
+  const traced = wrapOpenAI(client);
+
+  return {
+    name,
+    async complete(model, request) {
+      const format = responseFormat(request);
+      const completion = await traced.chat.completions.create({
+        model,
+        messages: request.messages,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+        ...(format ? { response_format: format } : {}),
+      }, request.promptVersion ? { langsmithExtra: { metadata: { promptVersion: request.promptVersion } } } : undefined);
+
+      return { content: completion.choices[0]?.message?.content?.trim() || "", provider: name, model };
+    },
+  };
+}
+
+export function createOpenAiProvider(apiKey: string): LlmProvider {
+  return createChatCompletionsProvider("openai", new OpenAI({ apiKey }));
+}
+
+// Models are deployment names on Azure
+export function createAzureProvider(endpoint: string, apiKey: string, apiVersion: string): LlmProvider {
+  return createChatCompletionsProvider("azure", new AzureOpenAI({ endpoint, apiKey, apiVersion }));
+}
+
+// Local servers usually ignore the key, but the client requires one
+export function createLocalProvider(baseURL: string, apiKey: string): LlmProvider {
+  return createChatCompletionsProvider("local", new OpenAI({ baseURL, apiKey }));
+}
@@ -0,0 +1,170 @@
+import { defineOutput } from "@/lib/llm/structured";
+import type { JsonSchema } from "@/lib/llm/types";
+
+// Response shapes of the routes that ask for JSON. Prompts describe the
+// same shape in words, so a change here needs a new prompt version too.
+
+// Strict objects require every property and allow no others
+function strictObject(properties: Record<string, JsonSchema>): JsonSchema {
+  return { type: "object", properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+const stringList: JsonSchema = { type: "array", items: { type: "string" } };
+
+export interface SQLEvaluation {
+  score: number;
+  summary: string;
+  strengths: string[];
+  issues: string[];
+  suggestions: string;
+}
+
+export const SQL_EVALUATION_OUTPUT = defineOutput<SQLEvaluation>({
+  name: "sql_evaluation",
+  description: "Quality score and feedback for a generated SQL query",
+  strict: true,
+  schema: strictObject({
+    score: { type: "number", minimum: 0, maximum: 1 },
+    summary: { type: "string" },
+    strengths: stringList,
+    issues: stringList,
+    // Empty when there is nothing to suggest
+    suggestions: { type: "string" },
+  }),
+});
+
+export interface ReferenceEvaluation {
+  score: number;
+  reasoning: string;
+}
+
+export const REFERENCE_EVALUATION_OUTPUT = defineOutput<ReferenceEvaluation>({
+  name: "reference_evaluation",
+  description: "Score for a generated SQL query compared with a reference query",
+  strict: true,
+  schema: strictObject({
+    score: { type: "number", minimum: 0, maximum: 1 },
+    reasoning: { type: "string" },
+  }),
+});
+
+export interface RelevantTables {
+  tables: string[];
+}
+
+export const RELEVANT_TABLES_OUTPUT = defineOutput<RelevantTables>({
+  name: "relevant_tables",
+  description: "Names of the candidate tables needed to answer the question",
+  strict: true,
+  schema: strictObject({ tables: stringList }),
+});
+
+export interface GeneratedQuestions {
+  questions: string[];
+}
+
+export const QUESTIONS_OUTPUT = defineOutput<GeneratedQuestions>({
+  name: "generated_questions",
+  description: "Questions that could be answered by querying the schema",
+  strict: true,
+  schema: strictObject({ questions: stringList }),
+});
+
+export interface GlossaryDescriptions {
+  descriptions: { table: string; column: string | null; description: string }[];
+}
+
+export const GLOSSARY_DESCRIPTIONS_OUTPUT = defineOutput<GlossaryDescriptions>({
+  name: "glossary_descriptions",
+  description: "Plain-language descriptions of tables and columns",
+  strict: true,
+  schema: strictObject({
+    descriptions: {
+      type: "array",
+      items: strictObject({
+        table: { type: "string" },
+        // null describes the table itself
+        column: { type: ["string", "null"] },
+        description: { type: "string" },
+      }),
+    },
+  }),
+});
+
+export type ErdTableType = "fact" | "dimension" | "bridge";
+
+// Positions come back as a list because strict schemas can't have keys
+// named after the tables; the route turns them into a map
+export interface ErdLayout {
+  classifications: { tableName: string; type: ErdTableType; reasoning: string }[];
+  positions: { tableName: string; x: number; y: number }[];
+}
+
+export const ERD_LAYOUT_OUTPUT = defineOutput<ErdLayout>({
+  name: "erd_layout",
+  description: "Table classifications and canvas positions for an ERD",
+  strict: true,
+  schema: strictObject({
+    classifications: {
+      type: "array",
+      items: strictObject({
+        tableName: { type: "string" },
+        type: { type: "string", enum: ["fact", "dimension", "bridge"] },
+        reasoning: { type: "string" },
+      }),
+    },
+    positions: {
+      type: "array",
+      items: strictObject({
+        tableName: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+      }),
+    },
+  }),
+});
+
+export const CHART_TYPES = ["bar", "line", "pie", "doughnut", "scatter", "bubble", "radar", "polarArea"] as const;
+
+export interface ChartConfig {
+  type: (typeof CHART_TYPES)[number];
+  data: {
+    labels?: (string | number)[];
+    datasets: { label?: string; data: unknown[]; [option: string]: unknown }[];
+  };
+  options?: Record<string, unknown>;
+}
+
+// Not strict: Chart.js options and dataset styling are open-ended, so only
+// the parts the page relies on are checked
+export const CHART_CONFIG_OUTPUT = defineOutput<ChartConfig>({
+  name: "chart_config",
+  description: "A Chart.js configuration object",
+  strict: false,
+  schema: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: [...CHART_TYPES] },
+      data: {
+        type: "object",
+        properties: {
+          labels: { type: "array", items: { type: ["string", "number"] } },
+          datasets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                label: { type: "string" },
+                data: { type: "array" },
+              },
+              required: ["data"],
+            },
+          },
+        },
+        required: ["datasets"],
+      },
+      options: { type: "object" },
+    },
+    required: ["type", "data"],
+  },
+});
@@ -0,0 +1,103 @@
+import type { JsonSchema, ResponseFormat } from "@/lib/llm/types";
+
+// A response format whose replies parse to T. The type is only carried for
+// callers; the schema is what's checked at runtime.
+export interface StructuredOutput<T> extends ResponseFormat {
+  readonly __type?: T;
+}
+
+export function defineOutput<T>(format: ResponseFormat): StructuredOutput<T> {
+  return format;
+}
+
+// Raised when a reply still doesn't match its schema after the repair
+// retries; routes answer 422 with the validation errors
+export class StructuredOutputError extends Error {
+  readonly status = 422;
+
+  constructor(
+    public readonly output: string,
+    public readonly errors: string[],
+    public readonly attempts: number,
+    public readonly content: string
+  ) {
+    super(`Model response did not match the ${output} schema after ${attempts} attempt${attempts === 1 ? "" : "s"}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// Checks a value against a schema, returning one message per problem with
+// a JSONPath-style location ("$.positions[2].x: expected number")
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [`${path}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, idx) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${idx}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) errors.push(`${path}.${name}: is required`);
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        errors.push(...validateJsonSchema(propertyValue, property, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Parses a reply and validates it against the output's schema
+export function parseStructured<T>(content: string, output: StructuredOutput<T>): { value?: T; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { errors: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateJsonSchema(value, output.schema);
+  return errors.length > 0 ? { errors } : { value: value as T, errors };
+}
+
+// The follow-up message asking the model to fix its previous reply
+export function repairMessage(errors: string[]): string {
+  return `Your previous response did not match the required JSON schema:
+${errors.slice(0, 20).map((error) => `- ${error}`).join("\n")}
+
+Respond again with only a corrected JSON object.`;
+}
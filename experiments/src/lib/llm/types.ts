@@ -0,0 +1,63 @@
+export type LlmProviderName = "openai" | "anthropic" | "azure" | "local" | "fake";
+
+// What a call is for; each task has its own model setting
+export type LlmTask = "generation" | "evaluation" | "interpretation" | "charting" | "layout";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+// The subset of JSON Schema response formats use: what OpenAI's strict
+// structured outputs and Anthropic's tool input schemas both accept
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+// A named JSON shape the reply must match. Strict formats list every
+// property as required and allow no others, which OpenAI needs to enforce
+// the schema while generating; non-strict ones are guidance only.
+export interface ResponseFormat {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+  strict: boolean;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object; providers without a JSON mode are
+  // instructed instead and their reply trimmed to the object
+  json?: boolean;
+  // Ask for JSON matching a schema, with strict function calling or
+  // structured outputs where the provider has them; implies json
+  responseFormat?: ResponseFormat;
+  // "<id>@<version>" of the registry prompt the messages came from,
+  // recorded as trace metadata
+  promptVersion?: string;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: LlmProviderName;
+  model: string;
+}
+
+// A chat model API. Implementations are stateless apart from their client,
+// so one instance serves every task.
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  complete(model: string, request: CompletionRequest): Promise<CompletionResult>;
+}
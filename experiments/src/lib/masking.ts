@@ -0,0 +1,284 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+
+// "allow" lets an admin clear a column that detection flags by mistake
+export type MaskingAction = "redact" | "hash" | "allow";
+
+export interface MaskingRule {
+  id: string;
+  env: string;
+  schema: string;
+  table: string;
+  column: string;
+  action: MaskingAction;
+  note?: string;
+  createdAt: string;
+}
+
+export type MaskingRuleInput = Partial<Pick<MaskingRule, "env" | "schema" | "table" | "column" | "action" | "note">>;
+
+export interface MaskedColumn {
+  column: string;
+  action: Exclude<MaskingAction, "allow">;
+  reason: string;
+}
+
+// Where a set of rows came from. Sample data knows its table; query results
+// only know their column names, so rules for them match on the column alone.
+export interface MaskingContext {
+  env?: string;
+  schema?: string;
+  table?: string;
+  columnTypes?: Record<string, string>;
+}
+
+type Row = Record<string, unknown>;
+
+const RULES_FILE = "masking-rules.json";
+const ACTIONS: MaskingAction[] = ["redact", "hash", "allow"];
+const REDACTED = "[REDACTED]";
+const HASH_PREFIX = "hash:";
+
+// Column names (split into words) that hold personal data
+const SENSITIVE_NAMES: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\be ?mail( address)?\b/, reason: "email" },
+  { pattern: /\b(phone|mobile|cell|fax|telephone|msisdn)\b/, reason: "phone" },
+  { pattern: /\b(ssn|social security|sin|national id|tax id|tin|nino|passport|driver'?s? licen[cs]e)\b/, reason: "government id" },
+  { pattern: /\b(credit card|card number|cc number|pan|cvv|cvc|iban|account number|routing number)\b/, reason: "financial" },
+  { pattern: /\b(password|passwd|pwd|secret|token|api key|private key)\b/, reason: "credential" },
+  { pattern: /\b(dob|date of birth|birth ?date|birthday)\b/, reason: "date of birth" },
+  { pattern: /\b(first|last|full|middle|maiden|sur|given) ?name\b/, reason: "personal name" },
+  { pattern: /\b(street|address|address line \d|postcode|postal code|zip|zip code)\b/, reason: "address" },
+  { pattern: /\b(ip|ip address|mac address)\b/, reason: "network address" },
+];
+
+// Column types that only hold network addresses
+const SENSITIVE_TYPES = /^(inet|cidr|macaddr8?)$/i;
+
+// Whole-value patterns used to classify a column by its content
+const VALUE_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i, reason: "email" },
+  { pattern: /^\d{3}-\d{2}-\d{4}$/, reason: "government id" },
+  // Needs a separator or "+", or every 10-digit BIGINT would count
+  { pattern: /^(?=.*[\s.()+-])\+?(\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/, reason: "phone" },
+  { pattern: /^(\d[ -]?){12,18}\d$/, reason: "financial" },
+];
+
+// Patterns scrubbed out of free text in columns that are otherwise left alone
+const INLINE_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[^\s@<>()"',;]+@[^\s@<>()"',;]+\.[a-z]{2,}/gi, replacement: "[email]" },
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: "[ssn]" },
+  { pattern: /\b(?:\d[ -]?){12,18}\d\b/g, replacement: "[card]" },
+  { pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, replacement: "[phone]" },
+];
+
+// A column is classified by content when at least this share of its
+// non-empty text values match one pattern
+const CONTENT_MATCH_RATIO = 0.5;
+
+// Hashes are keyed so low-entropy values (phone numbers, SSNs) can't be
+// recovered by hashing every candidate. Without a configured key they stay
+// consistent until the server restarts.
+const globalForMasking = globalThis as unknown as { __maskingKey?: Buffer };
+
+function getHashKey(): Buffer | string {
+  const secret = process.env.MASKING_HASH_KEY || process.env.CONNECTION_ENCRYPTION_KEY;
+  if (secret) return secret;
+  return globalForMasking.__maskingKey ?? (globalForMasking.__maskingKey = randomBytes(32));
+}
+
+function hashValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return HASH_PREFIX + createHmac("sha256", getHashKey()).update(text).digest("hex").slice(0, 12);
+}
+
+// Values that already went through a mask (client-supplied sample rows)
+function isMasked(value: unknown): boolean {
+  return value === REDACTED || (typeof value === "string" && /^hash:[0-9a-f]{12}$/.test(value));
+}
+
+// Luhn checksum, so order numbers and timestamps don't read as card numbers
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// customerEmail, customer_email and "Customer Email" -> "customer email"
+function nameWords(column: string): string {
+  return column
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_\-.\s]+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function matchesValuePattern(value: string, pattern: RegExp, reason: string): boolean {
+  return pattern.test(value) && (reason !== "financial" || isCardNumber(value));
+}
+
+export function detectSensitiveColumn(column: string, type: string | undefined, values: unknown[]): string | null {
+  const words = nameWords(column);
+  const byName = SENSITIVE_NAMES.find(({ pattern }) => pattern.test(words));
+  if (byName) return `${byName.reason} (name)`;
+
+  if (type && SENSITIVE_TYPES.test(type.trim())) return "network address (type)";
+
+  const texts = values.filter((value): value is string => typeof value === "string" && value.trim() !== "" && !isMasked(value));
+  if (texts.length === 0) return null;
+
+  for (const { pattern, reason } of VALUE_PATTERNS) {
+    const matches = texts.filter((value) => matchesValuePattern(value.trim(), pattern, reason)).length;
+    if (matches / texts.length >= CONTENT_MATCH_RATIO) return `${reason} (content)`;
+  }
+  return null;
+}
+
+function scrubText(value: string): string {
+  // BIGINT and NUMERIC arrive as strings; they're numbers, not text
+  if (/^-?\d+(\.\d+)?$/.test(value)) return value;
+
+  return INLINE_PATTERNS.reduce(
+    (text, { pattern, replacement }) => text.replace(pattern, (match) =>
+      replacement === "[card]" && !isCardNumber(match) ? match : replacement
+    ),
+    value
+  );
+}
+
+// Rows from a known table use that table's rules only
+function findRule(rules: MaskingRule[], column: string, context: MaskingContext): MaskingRule | undefined {
+  const candidates = rules.filter((rule) =>
+    rule.column.toLowerCase() === column.toLowerCase() && (!context.env || rule.env === context.env)
+  );
+
+  if (context.schema && context.table) {
+    return candidates.find((rule) => rule.schema === context.schema && rule.table === context.table);
+  }
+  // Query results can rename and combine columns, so without a table every
+  // rule for the column name applies; masking too much beats leaking
+  return candidates.find((rule) => rule.action !== "allow") ?? candidates[0];
+}
+
+// Applies the masking policy to rows before they leave the server: tagged
+// and detected columns are redacted or hashed whole, and emails, SSNs, card
+// and phone numbers are scrubbed from any other text. Nulls are kept so row
+// shape and missing data stay visible.
+export async function maskRows<T extends Row>(
+  rows: T[],
+  context: MaskingContext = {}
+): Promise<{ rows: T[]; maskedColumns: MaskedColumn[] }> {
+  if (!Array.isArray(rows) || rows.length === 0) return { rows: rows ?? [], maskedColumns: [] };
+
+  const rules = await listMaskingRules();
+  const columns = [...new Set(rows.flatMap((row) => (row && typeof row === "object" ? Object.keys(row) : [])))];
+
+  const actions = new Map<string, MaskingAction>();
+  const maskedColumns: MaskedColumn[] = [];
+
+  for (const column of columns) {
+    const rule = findRule(rules, column, context);
+    if (rule) {
+      actions.set(column, rule.action);
+      if (rule.action !== "allow") maskedColumns.push({ column, action: rule.action, reason: "tagged sensitive" });
+      continue;
+    }
+
+    const reason = detectSensitiveColumn(column, context.columnTypes?.[column], rows.map((row) => row?.[column]));
+    if (reason) {
+      actions.set(column, "redact");
+      maskedColumns.push({ column, action: "redact", reason });
+    }
+  }
+
+  const masked = rows.map((row) => {
+    if (!row || typeof row !== "object") return row;
+
+    const result: Row = {};
+    for (const [column, value] of Object.entries(row)) {
+      const action = actions.get(column);
+      if (value === null || value === undefined || isMasked(value)) {
+        result[column] = value;
+      } else if (action === "redact") {
+        result[column] = REDACTED;
+      } else if (action === "hash") {
+        result[column] = hashValue(value);
+      } else if (typeof value === "string" && action !== "allow") {
+        result[column] = scrubText(value);
+      } else {
+        result[column] = value;
+      }
+    }
+    return result as T;
+  });
+
+  return { rows: masked, maskedColumns };
+}
+
+// For prompt builders that only need the masked rows
+export async function maskRowsForPrompt<T extends Row>(rows: T[] | undefined, context: MaskingContext = {}): Promise<T[]> {
+  if (!rows) return [];
+  return (await maskRows(rows, context)).rows;
+}
+
+export async function listMaskingRules(): Promise<MaskingRule[]> {
+  return readJsonFile<MaskingRule[]>(RULES_FILE, []);
+}
+
+export function validateMaskingRuleInput(input: MaskingRuleInput): string | null {
+  for (const field of ["env", "schema", "table", "column"] as const) {
+    if (typeof input[field] !== "string" || !input[field]!.trim()) {
+      return `${field[0].toUpperCase()}${field.slice(1)} is required`;
+    }
+  }
+
+  if (!input.action || !ACTIONS.includes(input.action)) {
+    return `Action must be one of: ${ACTIONS.join(", ")}`;
+  }
+
+  return null;
+}
+
+// Adds a rule, replacing any existing rule for the same column
+export async function saveMaskingRule(input: MaskingRuleInput): Promise<MaskingRule> {
+  const rule: MaskingRule = {
+    id: randomUUID(),
+    env: input.env!.trim(),
+    schema: input.schema!.trim(),
+    table: input.table!.trim(),
+    column: input.column!.trim(),
+    action: input.action!,
+    ...(input.note?.trim() ? { note: input.note.trim() } : {}),
+    createdAt: new Date().toISOString(),
+  };
+
+  return withFileLock(RULES_FILE, async () => {
+    const rules = await listMaskingRules();
+    const remaining = rules.filter((existing) =>
+      !(existing.env === rule.env && existing.schema === rule.schema && existing.table === rule.table && existing.column.toLowerCase() === rule.column.toLowerCase())
+    );
+    await writeJsonFile(RULES_FILE, [...remaining, rule]);
+    return rule;
+  });
+}
+
+export async function deleteMaskingRule(id: string): Promise<boolean> {
+  return withFileLock(RULES_FILE, async () => {
+    const rules = await listMaskingRules();
+    const remaining = rules.filter((rule) => rule.id !== id);
+    if (remaining.length === rules.length) return false;
+
+    await writeJsonFile(RULES_FILE, remaining);
+    return true;
+  });
+}
@@ -0,0 +1,43 @@
+// Client-side helpers for results fetched page by page from /api/execute-sql
+
+export const RESULT_PAGE_SIZE = 100;
+
+export interface ResultPage {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  nextPageToken?: string;
+  truncated?: boolean;
+}
+
+// True when a scrollable element is within `threshold` pixels of its bottom
+export function isNearBottom(element: HTMLElement, threshold = 48): boolean {
+  return element.scrollHeight - element.scrollTop - element.clientHeight <= threshold;
+}
+
+export async function fetchNextResultPage(env: string, pageToken: string): Promise<ResultPage> {
+  const response = await fetch("/api/execute-sql", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ env, pageToken, pageSize: RESULT_PAGE_SIZE }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || "Failed to fetch more rows");
+  }
+
+  return data.result;
+}
+
+// Appends a fetched page to an existing result
+export function appendResultPage<T extends ResultPage>(result: T, page: ResultPage): T {
+  return {
+    ...result,
+    rows: [...result.rows, ...page.rows],
+    rowCount: result.rowCount + page.rows.length,
+    nextPageToken: page.nextPageToken,
+    truncated: page.truncated,
+  } as T;
+}
@@ -0,0 +1,366 @@
+import { createHash } from "crypto";
+import { placeholderFor, qualifiedTableName } from "@/lib/dialects";
+import { getDriver, type DatabaseDriver } from "@/lib/drivers";
+import { getEnvironment } from "@/lib/environments";
+import { listMaskingRules, maskRows } from "@/lib/masking";
+import { resolveTable, tableSampleClause } from "@/lib/sample-data";
+
+export type ColumnKind = "numeric" | "temporal" | "boolean" | "text" | "other";
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface HistogramBucket {
+  // Numbers for numeric columns, ISO timestamps for temporal ones
+  from: number | string;
+  to: number | string;
+  count: number;
+}
+
+export interface DetectedFormat {
+  format: string;
+  // Share of the non-null values that match
+  ratio: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  kind: ColumnKind;
+  nullRatio: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+  topValues: ValueCount[];
+  histogram?: HistogramBucket[];
+  formats: DetectedFormat[];
+  // Set when the masking policy covers the column; redacted columns carry
+  // no values at all, hashed ones only hashes
+  masked?: "redact" | "hash";
+}
+
+export interface TableProfile {
+  env: string;
+  schema: string;
+  table: string;
+  // Hash of the columns, the catalog's row estimate and the masking rules;
+  // the cache key
+  fingerprint: string;
+  rowCount: number;
+  sampledRows: number;
+  // True when the statistics come from a sample rather than every row
+  sampled: boolean;
+  profiledAt: string;
+  columns: ColumnProfile[];
+}
+
+type Row = Record<string, unknown>;
+
+// Rows read per profile; counts and top values are exact below this size
+const SAMPLE_ROWS = 5000;
+const TOP_VALUES = 10;
+const HISTOGRAM_BUCKETS = 10;
+// A format is reported when at least this share of values match it
+const FORMAT_RATIO = 0.8;
+// Columns with at most this many values are listed in prompts as enums
+const ENUM_MAX_DISTINCT = 20;
+const MAX_PROMPT_TABLES = 5;
+const MAX_CACHED_PROFILES = 200;
+// Row estimates lag behind writes, so profiles are also redone at this age
+const PROFILE_MAX_AGE_MS = 15 * 60 * 1000;
+
+const FORMATS: { format: string; pattern: RegExp }[] = [
+  { format: "email", pattern: /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i },
+  { format: "uuid", pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i },
+  { format: "url", pattern: /^https?:\/\/\S+$/i },
+  { format: "ipv4", pattern: /^(\d{1,3}\.){3}\d{1,3}$/ },
+  { format: "iso date", pattern: /^\d{4}-\d{2}-\d{2}$/ },
+  { format: "iso timestamp", pattern: /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/ },
+  { format: "phone", pattern: /^(?=.*[\s.()+-])\+?(\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/ },
+  { format: "integer", pattern: /^-?\d+$/ },
+  { format: "decimal", pattern: /^-?\d*\.\d+$/ },
+  { format: "currency", pattern: /^-?[$€£¥]\s?\d[\d,]*(\.\d+)?$/ },
+  { format: "boolean", pattern: /^(true|false|yes|no|y|n|t|f)$/i },
+  { format: "json", pattern: /^\s*[[{][^]*[\]}]\s*$/ },
+  { format: "upper-case code", pattern: /^(?=.*[A-Z])[A-Z0-9_-]{2,12}$/ },
+];
+
+const globalForProfiles = globalThis as unknown as { __tableProfiles?: Map<string, TableProfile> };
+const profiles = globalForProfiles.__tableProfiles ?? (globalForProfiles.__tableProfiles = new Map());
+
+function columnKind(type: string): ColumnKind {
+  if (/bool/i.test(type)) return "boolean";
+  if (/date|time/i.test(type)) return "temporal";
+  if (/int|numeric|decimal|real|double|float|money|serial|number/i.test(type)) return "numeric";
+  if (/char|text|string|uuid|enum|json|clob|set/i.test(type)) return "text";
+  return "other";
+}
+
+function valueKey(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toTime(value: unknown): number | undefined {
+  const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Number.isFinite(time) ? time : undefined;
+}
+
+function topValues(values: unknown[]): ValueCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = valueKey(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+}
+
+// Equal-width buckets between the smallest and largest value
+function histogram(points: number[], format: (point: number) => number | string): HistogramBucket[] {
+  if (points.length === 0) return [];
+
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  if (min === max) return [{ from: format(min), to: format(max), count: points.length }];
+
+  const width = (max - min) / HISTOGRAM_BUCKETS;
+  const counts = new Array<number>(HISTOGRAM_BUCKETS).fill(0);
+  for (const point of points) {
+    counts[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor((point - min) / width))]++;
+  }
+
+  return counts.map((count, index) => ({
+    from: format(min + index * width),
+    to: format(index === HISTOGRAM_BUCKETS - 1 ? max : min + (index + 1) * width),
+    count,
+  }));
+}
+
+function detectFormats(values: unknown[]): DetectedFormat[] {
+  const texts = values.filter((value): value is string => typeof value === "string" && value.trim() !== "");
+  if (texts.length === 0) return [];
+
+  return FORMATS
+    .map(({ format, pattern }) => ({
+      format,
+      ratio: Number((texts.filter((value) => pattern.test(value.trim())).length / texts.length).toFixed(3)),
+    }))
+    .filter(({ ratio }) => ratio >= FORMAT_RATIO);
+}
+
+// Distinct and null counts come from the raw values; everything that shows
+// values comes from the masked ones, so profiles never reveal more than
+// sample data would
+function profileColumn(name: string, type: string, raw: unknown[], masked: unknown[], action?: "redact" | "hash"): ColumnProfile {
+  const kind = columnKind(type);
+  const present = raw.filter((value) => value !== null && value !== undefined);
+  const profile: ColumnProfile = {
+    name,
+    type,
+    kind,
+    nullRatio: raw.length === 0 ? 0 : Number(((raw.length - present.length) / raw.length).toFixed(3)),
+    distinctCount: new Set(present.map(valueKey)).size,
+    topValues: [],
+    // Numbers and dates arrive as strings from some drivers; their format is their type
+    formats: kind === "text" || kind === "other" ? detectFormats(present) : [],
+    ...(action ? { masked: action } : {}),
+  };
+
+  if (action === "redact") return profile;
+
+  const shown = masked.filter((value) => value !== null && value !== undefined);
+  profile.topValues = topValues(shown);
+  if (action === "hash") return profile;
+
+  if (kind === "numeric") {
+    const numbers = shown.map(toNumber).filter((value): value is number => value !== undefined);
+    if (numbers.length > 0) {
+      profile.min = Math.min(...numbers);
+      profile.max = Math.max(...numbers);
+      profile.histogram = histogram(numbers, (point) => Number(point.toPrecision(6)));
+    }
+  } else if (kind === "temporal") {
+    const times = shown.map(toTime).filter((value): value is number => value !== undefined);
+    if (times.length > 0) {
+      profile.min = new Date(Math.min(...times)).toISOString();
+      profile.max = new Date(Math.max(...times)).toISOString();
+      profile.histogram = histogram(times, (point) => new Date(Math.round(point)).toISOString());
+    }
+  }
+
+  return profile;
+}
+
+async function countRows(driver: DatabaseDriver, from: string, options: { statementTimeoutMs: number }): Promise<number> {
+  const { rows } = await driver.executeReadOnly(`SELECT COUNT(*) AS row_count FROM ${from}`, { ...options, maxRows: 1 });
+  return Number(rows[0]?.row_count ?? 0);
+}
+
+// The catalog's row estimate, which costs no scan; undefined where the
+// dialect keeps none (SQLite) or the table was never analyzed
+async function estimateRows(driver: DatabaseDriver, schema: string, table: string, options: { statementTimeoutMs: number }): Promise<number | undefined> {
+  const [schemaParam, tableParam] = [placeholderFor(driver.dialect, 1), placeholderFor(driver.dialect, 2)];
+  const statements: Partial<Record<DatabaseDriver["dialect"], string>> = {
+    postgres: `SELECT CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::float8 END AS estimated_rows
+      FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ${schemaParam} AND c.relname = ${tableParam}`,
+    mysql: `SELECT TABLE_ROWS AS estimated_rows FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = ${schemaParam} AND TABLE_NAME = ${tableParam}`,
+    duckdb: `SELECT estimated_size AS estimated_rows FROM duckdb_tables()
+      WHERE schema_name = ${schemaParam} AND table_name = ${tableParam}`,
+  };
+  const statement = statements[driver.dialect];
+  if (!statement) return undefined;
+
+  const { rows } = await driver.executeReadOnly(statement, { ...options, maxRows: 1, params: [schema, table] });
+  const estimate = rows[0]?.estimated_rows;
+  return estimate === null || estimate === undefined ? undefined : Number(estimate);
+}
+
+// Large tables are read through TABLESAMPLE where the dialect has it, so
+// the sample is spread over the table rather than its first pages
+function sampleStatement(driver: DatabaseDriver, from: string, rowCount: number, isTable: boolean): string {
+  if (rowCount <= SAMPLE_ROWS || !isTable || (driver.dialect !== "postgres" && driver.dialect !== "duckdb")) {
+    return `SELECT * FROM ${from}`;
+  }
+  // No oversampling: the row cap would keep only the first pages' rows
+  const percent = Math.min(100, Math.ceil((SAMPLE_ROWS / rowCount) * 100 * 1000) / 1000);
+  return `SELECT * FROM ${from}${tableSampleClause(driver.dialect, percent)}`;
+}
+
+function cacheKey(env: string, schema: string, table: string): string {
+  return JSON.stringify([env, schema, table]);
+}
+
+// Profiles a table, or returns the cached profile while its fingerprint
+// still matches and it is recent. The fingerprint reads only the catalog;
+// rows are counted exactly when the table is profiled.
+export async function getTableProfile(
+  env: string,
+  schema: string,
+  table: string,
+  options: { refresh?: boolean } = {}
+): Promise<TableProfile | undefined> {
+  const environment = await getEnvironment(env);
+  const driver = environment ? await getDriver(env) : undefined;
+  if (!environment || !driver) return undefined;
+
+  const resolved = await resolveTable(driver, schema, table);
+  const from = qualifiedTableName(driver.dialect, resolved.schema, resolved.table.name);
+  const estimatedRows = await estimateRows(driver, resolved.schema, resolved.table.name, environment.guardrails);
+  const rules = (await listMaskingRules()).filter((rule) => rule.env === env);
+
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify({ columns: resolved.columns, estimatedRows, rules }))
+    .digest("hex")
+    .slice(0, 32);
+
+  const key = cacheKey(env, resolved.schema, resolved.table.name);
+  const cached = profiles.get(key);
+  if (
+    cached && cached.fingerprint === fingerprint && !options.refresh &&
+    Date.now() - Date.parse(cached.profiledAt) < PROFILE_MAX_AGE_MS
+  ) {
+    return cached;
+  }
+
+  const rowCount = await countRows(driver, from, environment.guardrails);
+
+  const { rows } = await driver.executeReadOnly(
+    sampleStatement(driver, from, rowCount, resolved.table.type === "BASE TABLE"),
+    { ...environment.guardrails, maxRows: SAMPLE_ROWS }
+  );
+
+  const columnTypes = Object.fromEntries(resolved.columns.map((column) => [column.name, column.type]));
+  const masked = await maskRows(rows as Row[], { env, schema: resolved.schema, table: resolved.table.name, columnTypes });
+  const actions = new Map(masked.maskedColumns.map((column) => [column.column, column.action]));
+
+  const profile: TableProfile = {
+    env,
+    schema: resolved.schema,
+    table: resolved.table.name,
+    fingerprint,
+    rowCount,
+    sampledRows: rows.length,
+    sampled: rows.length < rowCount,
+    profiledAt: new Date().toISOString(),
+    columns: resolved.columns.map((column) => profileColumn(
+      column.name,
+      column.type,
+      rows.map((row) => row[column.name]),
+      masked.rows.map((row) => row[column.name]),
+      actions.get(column.name)
+    )),
+  };
+
+  // Oldest first out once the cache is full
+  profiles.delete(key);
+  profiles.set(key, profile);
+  if (profiles.size > MAX_CACHED_PROFILES) {
+    profiles.delete(profiles.keys().next().value!);
+  }
+
+  return profile;
+}
+
+// Profiles for prompt building. Prompts still work without them, so
+// failures are logged and skipped.
+export async function loadProfiles(env: string | undefined, schema: string | undefined, tables: string[]): Promise<TableProfile[]> {
+  if (!env || !schema) return [];
+
+  const results = await Promise.all(tables.slice(0, MAX_PROMPT_TABLES).map(async (table) => {
+    try {
+      return await getTableProfile(env, schema, table);
+    } catch (error) {
+      console.error(`Error profiling ${schema}.${table}:`, error);
+      return undefined;
+    }
+  }));
+
+  return results.filter((profile): profile is TableProfile => !!profile);
+}
+
+function formatValue(value: number | string | undefined): string {
+  if (typeof value === "number") return value.toLocaleString("en-US", { maximumFractionDigits: 4 });
+  return String(value).replace(/T00:00:00\.000Z$/, "");
+}
+
+// Observed values, ranges and formats, so generated WHERE clauses use
+// values that actually occur in the data
+export function formatProfileForPrompt(profile: TableProfile): string {
+  const scope = profile.sampled
+    ? `${profile.sampledRows.toLocaleString("en-US")} sampled of ${profile.rowCount.toLocaleString("en-US")} rows`
+    : `${profile.rowCount.toLocaleString("en-US")} rows`;
+  const lines = [`Observed data in ${profile.schema}.${profile.table} (${scope}):`];
+
+  for (const column of profile.columns) {
+    const facts: string[] = [];
+
+    if (column.masked) {
+      facts.push("sensitive, values hidden");
+    } else if (column.distinctCount > 0 && column.distinctCount <= ENUM_MAX_DISTINCT && column.kind !== "numeric" && column.kind !== "temporal") {
+      facts.push(`values: ${column.topValues.map((entry) => `'${entry.value.replace(/'/g, "''")}'`).join(", ")}${column.distinctCount > column.topValues.length ? ", ..." : ""}`);
+    } else if (column.min !== undefined && column.max !== undefined) {
+      facts.push(`range ${formatValue(column.min)} to ${formatValue(column.max)}`);
+    }
+
+    if (!column.masked && column.distinctCount > ENUM_MAX_DISTINCT) facts.push(`${column.distinctCount.toLocaleString("en-US")}${profile.sampled ? "+" : ""} distinct`);
+    if (column.formats.length > 0) facts.push(`format: ${column.formats.map((entry) => entry.format).join("/")}`);
+    if (column.nullRatio > 0) facts.push(`${Math.round(column.nullRatio * 100)}% null`);
+    if (column.nullRatio === 1) facts.splice(0, facts.length, "always null");
+
+    if (facts.length > 0) lines.push(`  - ${column.name}: ${facts.join("; ")}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,324 @@
+import { definePrompt } from "@/lib/prompts/registry";
+
+// Prompts that describe schemas and results rather than write SQL
+
+const EXAMPLE_SCHEMA = `Schema: public
+
+1. Table: public.orders (BASE TABLE)
+   Columns (3):
+   - id: integer NOT NULL
+   - customer_id: integer NOT NULL
+   - amt_c: integer NULL`;
+
+export type SchemaAnalysisVariables = {
+  dialect: string;
+  schemaContext: string;
+};
+
+export const SCHEMA_ANALYSIS = definePrompt<SchemaAnalysisVariables>({
+  id: "schema-analysis",
+  description: "Summarizes what a schema models and how its tables relate (analyze-schema)",
+  example: { dialect: "PostgreSQL", schemaContext: EXAMPLE_SCHEMA },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from analyze-schema; dialect follows the environment",
+      system: `You are a database schema analyst expert. Your task is to analyze database schemas and provide insightful, comprehensive summaries.
+
+Your analysis should include:
+1. **Overview**: A brief summary of what this schema represents based on table names and structure
+2. **Key Tables**: Identify and describe the most important tables
+3. **Relationships**: Infer likely relationships between tables based on column names and foreign key patterns
+4. **Data Model Insights**: Describe the data model and its purpose
+5. **Notable Patterns**: Point out any interesting patterns, naming conventions, or design decisions
+6. **Potential Use Cases**: Suggest what kind of application or system this schema might support
+
+Be thorough but concise. Write in a clear, professional manner.`,
+      user: `Analyze this {{dialect}} schema and provide a comprehensive summary:
+
+{{schemaContext}}
+
+Please provide a detailed analysis of this schema, including its structure, relationships, and potential purpose.`,
+    },
+  ],
+});
+
+export type GlossarySuggestionVariables = {
+  schemaContext: string;
+  // One "table" or "table.column" per line
+  undescribed: string;
+};
+
+export const GLOSSARY_SUGGESTION = definePrompt<GlossarySuggestionVariables>({
+  id: "glossary-suggestion",
+  description: "Drafts glossary descriptions for undescribed tables and columns (analyze-schema)",
+  example: { schemaContext: EXAMPLE_SCHEMA, undescribed: "orders\norders.amt_c" },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from analyze-schema",
+      system: "You are a data steward writing a business glossary. Always respond with valid JSON only.",
+      user: `Write a short, plain-language description (one sentence, under 20 words) of each table and column listed below, using the schema for context. Decode abbreviations (e.g. amt_c = "charged amount in cents") and mention units or codes when the name implies them. If you cannot tell what something holds, leave it out rather than guessing.
+
+{{schemaContext}}
+
+Describe only these:
+{{undescribed}}
+
+Respond with a JSON object in this exact format:
+{
+  "descriptions": [
+    { "table": "table_name", "column": "column_name or null for the table itself", "description": "..." }
+  ]
+}`,
+    },
+  ],
+});
+
+export type QuestionGenerationVariables = {
+  dialect: string;
+  schemaContext: string;
+  schemaAnalysis: string;
+};
+
+export const QUESTION_GENERATION = definePrompt<QuestionGenerationVariables>({
+  id: "question-generation",
+  description: "Suggests questions a schema can answer (generate-questions)",
+  example: { dialect: "PostgreSQL", schemaContext: EXAMPLE_SCHEMA, schemaAnalysis: "" },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from generate-questions; dialect follows the environment",
+      system: `You are a data analyst who generates insightful questions about database schemas. Your task is to generate 5-10 interesting, diverse questions that could be answered by querying the database.
+
+Guidelines:
+1. Generate questions that vary in complexity (simple counts, aggregations, filtering, joins, trends)
+2. Make questions specific and realistic based on the actual schema
+3. Include questions that would be useful for business insights
+4. Make questions natural and conversational
+5. Return ONLY the questions as a JSON array of strings, no other text
+6. Each question should be actionable and answerable with SQL
+
+Example format:
+["Question 1 here?", "Question 2 here?", ...]`,
+      user: `Based on this {{dialect}} schema, generate 5-10 interesting questions that could be answered by querying this database:
+
+{{schemaContext}}
+
+{{#schemaAnalysis}}Previous Schema Analysis:
+{{schemaAnalysis}}{{/schemaAnalysis}}
+
+Return ONLY a JSON array of question strings.`,
+    },
+    {
+      version: 2,
+      changes: "Asks for a JSON object with a questions array, matching the structured output schema",
+      system: `You are a data analyst who generates insightful questions about database schemas. Your task is to generate 5-10 interesting, diverse questions that could be answered by querying the database.
+
+Guidelines:
+1. Generate questions that vary in complexity (simple counts, aggregations, filtering, joins, trends)
+2. Make questions specific and realistic based on the actual schema
+3. Include questions that would be useful for business insights
+4. Make questions natural and conversational
+5. Return ONLY a JSON object with the questions in a "questions" array of strings, no other text
+6. Each question should be actionable and answerable with SQL
+
+Example format:
+{"questions": ["Question 1 here?", "Question 2 here?", ...]}`,
+      user: `Based on this {{dialect}} schema, generate 5-10 interesting questions that could be answered by querying this database:
+
+{{schemaContext}}
+
+{{#schemaAnalysis}}Previous Schema Analysis:
+{{schemaAnalysis}}{{/schemaAnalysis}}
+
+Return ONLY a JSON object with a "questions" array of question strings.`,
+    },
+  ],
+});
+
+export type ResultInterpretationVariables = {
+  question: string;
+  sql: string;
+  conversation: string;
+  rowCount: string;
+  // Masked JSON of the first rows
+  rows: string;
+  truncated: boolean;
+  shownRows: string;
+};
+
+export const RESULT_INTERPRETATION = definePrompt<ResultInterpretationVariables>({
+  id: "result-interpretation",
+  description: "Explains a query's results in plain language (interpret-results)",
+  example: {
+    question: "How many orders did we get last month?",
+    sql: "SELECT COUNT(*) AS orders FROM public.orders WHERE created_at >= DATE_TRUNC('month', NOW()) - INTERVAL '1 month'",
+    conversation: "",
+    rowCount: "1",
+    rows: '[\n  {\n    "orders": 1284\n  }\n]',
+    truncated: false,
+    shownRows: "10",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from interpret-results",
+      system: "You are a helpful data analyst assistant that interprets query results in clear, natural language.",
+      user: `You are a helpful data analyst assistant. Based on the following query and results, provide a clear, concise interpretation and summary.
+
+{{#conversation}}Previous Conversation:
+{{conversation}}{{/conversation}}
+
+Current User's Question: "{{question}}"
+
+SQL Query Executed:
+{{sql}}
+
+Results ({{rowCount}} rows):
+{{rows}}
+{{#truncated}}
+(Showing first {{shownRows}} of {{rowCount}} total rows){{/truncated}}
+
+Provide a natural language summary and interpretation of these results. Focus on:
+1. Directly answering the user's question
+2. Key insights from the data
+3. Any notable patterns or trends
+4. Keep it concise and conversational
+{{#conversation}}5. Reference previous context if relevant{{/conversation}}
+
+Response:`,
+    },
+  ],
+});
+
+export type ChartConfigVariables = {
+  question: string;
+  sql: string;
+  interpretation: string;
+  columns: string;
+  rowCount: string;
+  // Masked JSON of the first rows
+  sampleRows: string;
+};
+
+export const CHART_CONFIG = definePrompt<ChartConfigVariables>({
+  id: "chart-config",
+  description: "Writes a Chart.js configuration for a query's results (generate-chart-config)",
+  example: {
+    question: "Revenue by month",
+    sql: "SELECT month, revenue FROM public.monthly_revenue",
+    interpretation: "",
+    columns: "month, revenue",
+    rowCount: "12",
+    sampleRows: '[\n  {\n    "month": "2024-01",\n    "revenue": 1200\n  }\n]',
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from generate-chart-config",
+      system: `You are an expert at creating Chart.js visualizations. Generate Chart.js configuration objects based on data and user requests.
+
+Rules:
+1. Return ONLY valid JSON - no markdown, no code blocks, no explanations
+2. Choose the most appropriate chart type (bar, line, pie, doughnut, scatter, etc.)
+3. Extract labels and data from the query results
+4. Use appropriate colors and styling
+5. Include responsive options
+6. Add meaningful titles and legends
+7. The configuration must be a valid Chart.js config object with "type", "data", and "options" properties`,
+      user: `Given this data query and results, generate a Chart.js configuration.
+
+User Request: {{question}}
+SQL Query: {{#sql}}{{sql}}{{/sql}}{{^sql}}N/A{{/sql}}
+Interpretation: {{#interpretation}}{{interpretation}}{{/interpretation}}{{^interpretation}}N/A{{/interpretation}}
+
+Data:
+- Columns: {{columns}}
+- Row Count: {{rowCount}}
+- Sample Data: {{sampleRows}}
+
+Generate a Chart.js configuration object that best visualizes this data.
+Return ONLY the JSON configuration object.`,
+    },
+  ],
+});
+
+const ERD_LAYOUT_TASK = `You are a database schema expert. Analyze this database schema and create an optimized ERD layout.
+
+TABLES AND COLUMNS:
+{{tables}}
+
+FOREIGN KEY RELATIONSHIPS:
+{{relationships}}
+
+Your task:
+1. Classify each table as either "fact", "dimension", or "bridge":
+   - Fact tables: Large transactional tables with many foreign keys, often contain metrics/measures (use the row estimates when given)
+   - Dimension tables: Descriptive reference tables that fact tables reference, usually smaller
+   - Bridge tables: Join tables that resolve many-to-many relationships
+
+2. Create a star/snowflake schema layout with:
+   - Fact tables in the center
+   - Dimension tables arranged in a circle around fact tables
+   - Bridge tables positioned between related tables
+   - Minimize edge crossings
+   - Use a canvas size of approximately 3000x3000 pixels
+   - Space tables at least 600 pixels apart horizontally and 500 pixels vertically
+   - Create generous spacing for a clean, readable layout
+
+`;
+
+export type ErdLayoutVariables = {
+  tables: string;
+  relationships: string;
+};
+
+export const ERD_LAYOUT = definePrompt<ErdLayoutVariables>({
+  id: "erd-layout",
+  description: "Classifies tables and positions them for the ERD (optimize-erd-layout)",
+  example: {
+    tables: "orders:\n  - id (integer)\n  - customer_id (integer)\n\ncustomers:\n  - id (integer)\n  - name (text)",
+    relationships: "orders.customer_id -> customers.id",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from optimize-erd-layout",
+      system: "You are a database schema expert. Always respond with valid JSON only, no additional text.",
+      user: `${ERD_LAYOUT_TASK}Return your response as JSON with this exact structure:
+{
+  "classifications": [
+    {
+      "tableName": "table_name",
+      "type": "fact" | "dimension" | "bridge",
+      "reasoning": "Brief explanation"
+    }
+  ],
+  "positions": {
+    "table_name": { "x": number, "y": number }
+  }
+}`,
+    },
+    {
+      version: 2,
+      changes: "Positions are a list of objects naming their table, matching the structured output schema",
+      system: "You are a database schema expert. Always respond with valid JSON only, no additional text.",
+      user: `${ERD_LAYOUT_TASK}Return your response as JSON with this exact structure:
+{
+  "classifications": [
+    {
+      "tableName": "table_name",
+      "type": "fact" | "dimension" | "bridge",
+      "reasoning": "Brief explanation"
+    }
+  ],
+  "positions": [
+    { "tableName": "table_name", "x": number, "y": number }
+  ]
+}
+
+Include one classification and one position for every table.`,
+    },
+  ],
+});
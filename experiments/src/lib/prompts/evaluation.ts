@@ -0,0 +1,150 @@
+import { definePrompt } from "@/lib/prompts/registry";
+
+// LLM-as-judge prompts, plus the target of the sample LangSmith
+// experiment. Both evaluators score against the same rubric and scale, so
+// scores from the query page and from experiments compare.
+
+const EVALUATOR_SYSTEM = "You are an expert SQL evaluator. Always respond with valid JSON only.";
+
+const CRITERIA = `1. **Syntax Correctness**: Is the SQL syntactically valid for {{dialect}}?
+2. **Semantic Accuracy**: Does the query semantically match what the user asked for?
+3. **Schema Usage**: Does it correctly use the provided schema (tables, columns, joins)?
+4. **Best Practices**: Does it follow SQL best practices (proper JOINs, qualified table names, etc.)?
+5. **Completeness**: Does it fully address the user's question?`;
+
+const SCORE_SCALE = `Provide a score from 0.0 to 1.0 where:
+- 1.0 = Perfect, production-ready SQL
+- 0.7-0.9 = Good SQL with minor issues
+- 0.4-0.6 = Functional but has problems
+- 0.0-0.3 = Incorrect or broken SQL`;
+
+export type SqlEvaluationVariables = {
+  dialect: string;
+  question: string;
+  schemaInfo: string;
+  sql: string;
+  // Row count, columns and masked sample rows when the query ran
+  results: string;
+  hasResults: boolean;
+  executionFailed: boolean;
+  executionError: string;
+};
+
+export const SQL_EVALUATION = definePrompt<SqlEvaluationVariables>({
+  id: "sql-evaluation",
+  description: "Scores a generated query, and its results when it ran (evaluate-sql-query)",
+  example: {
+    dialect: "PostgreSQL",
+    question: "Total order value per customer",
+    schemaInfo: "  public.orders:\n    - customer_id: integer\n    - total: numeric",
+    sql: "SELECT customer_id, SUM(total) FROM public.orders GROUP BY customer_id",
+    results: "- Rows returned: 42\n- Columns: customer_id, sum",
+    hasResults: true,
+    executionFailed: false,
+    executionError: "",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Rubric shared with the reference evaluation; dialect follows the environment instead of always PostgreSQL",
+      system: EVALUATOR_SYSTEM,
+      user: `You are an expert SQL evaluator. Evaluate the quality of a {{dialect}} query generated from a natural language question.
+
+Consider the following criteria:
+${CRITERIA}
+6. **Result Accuracy**: {{#hasResults}}Do the actual results make sense for the question?{{/hasResults}}{{^hasResults}}No execution results available yet.{{/hasResults}}
+7. **Execution**: {{#executionFailed}}The query failed to execute with error: {{executionError}}{{/executionFailed}}{{^executionFailed}}The query executed successfully.{{/executionFailed}}
+
+User's Question: "{{question}}"
+
+{{#schemaInfo}}Available Schema:
+{{schemaInfo}}{{/schemaInfo}}
+
+Generated SQL:
+{{sql}}
+
+{{#results}}Actual Query Results:
+{{results}}
+
+IMPORTANT: Verify that these results actually answer the user's question. Check if the data, column names, and row count make sense for what was asked.{{/results}}
+
+${SCORE_SCALE}
+
+Also provide:
+- A brief summary (1-2 sentences)
+- Specific strengths (array of strings)
+- Specific issues or areas for improvement (array of strings)
+- Suggested improvements (optional, string)
+
+Respond with ONLY a JSON object in this exact format:
+{
+  "score": 0.0,
+  "summary": "brief summary here",
+  "strengths": ["strength 1", "strength 2"],
+  "issues": ["issue 1", "issue 2"],
+  "suggestions": "optional suggestions here"
+}`,
+    },
+  ],
+});
+
+export type SqlReferenceEvaluationVariables = {
+  dialect: string;
+  question: string;
+  explanation: string;
+  referenceSql: string;
+  sql: string;
+};
+
+export const SQL_REFERENCE_EVALUATION = definePrompt<SqlReferenceEvaluationVariables>({
+  id: "sql-reference-evaluation",
+  description: "Scores a generated query against a dataset's reference query (evaluate-sql-generation)",
+  example: {
+    dialect: "PostgreSQL",
+    question: "Get the total number of orders per customer",
+    explanation: "Should join customers with orders and count orders per customer",
+    referenceSql: "SELECT c.name, COUNT(o.id) FROM public.customers c LEFT JOIN public.orders o ON c.id = o.customer_id GROUP BY c.id, c.name",
+    sql: "SELECT customer_id, COUNT(*) FROM public.orders GROUP BY customer_id",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Rubric shared with the query evaluation",
+      system: EVALUATOR_SYSTEM,
+      user: `You are an expert SQL evaluator. Evaluate whether the generated SQL query correctly answers the user's natural language question.
+
+Consider the following criteria:
+${CRITERIA}
+
+User's Question: "{{question}}"
+
+Expected Behavior: {{explanation}}
+Reference SQL: {{referenceSql}}
+
+Generated SQL: {{sql}}
+
+${SCORE_SCALE}
+
+Respond with ONLY a JSON object in this exact format:
+{"score": 0.0, "reasoning": "your detailed reasoning here"}`,
+    },
+  ],
+});
+
+export type QuestionAnsweringVariables = {
+  question: string;
+};
+
+export const QUESTION_ANSWERING = definePrompt<QuestionAnsweringVariables>({
+  id: "question-answering",
+  description: "Answers a dataset question; the target of the sample experiment (evaluate-langsmith)",
+  example: { question: "What is the capital of France?" },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from evaluate-langsmith",
+      system: "Answer the following question accurately",
+      user: "{{question}}",
+    },
+  ],
+});
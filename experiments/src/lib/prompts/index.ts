@@ -0,0 +1,6 @@
+// Every prompt the app sends, versioned. Importing this module registers
+// them all, so listPrompts() sees the full set.
+export * from "@/lib/prompts/registry";
+export * from "@/lib/prompts/sql";
+export * from "@/lib/prompts/evaluation";
+export * from "@/lib/prompts/analysis";
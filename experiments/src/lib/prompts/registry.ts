@@ -0,0 +1,116 @@
+import type { ChatMessage } from "@/lib/llm";
+
+// Prompt templates are plain text with mustache-style placeholders, so
+// versions can be previewed and diffed as text:
+// - {{name}} inserts a variable
+// - {{#name}}...{{/name}} is kept only when the variable is non-empty/true
+// - {{^name}}...{{/name}} is kept only when it is empty/false
+
+export type PromptVariables = Record<string, string | boolean>;
+
+export interface PromptVersion {
+  version: number;
+  // What changed from the previous version
+  changes: string;
+  system?: string;
+  user: string;
+}
+
+export interface PromptDefinition<V extends PromptVariables> {
+  id: string;
+  description: string;
+  // Values the admin page previews the templates with; its keys are the
+  // variables the templates may use
+  example: V;
+  versions: PromptVersion[];
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: number;
+  // "<id>@<version>", recorded in API responses and traces
+  promptVersion: string;
+  messages: ChatMessage[];
+}
+
+export interface Prompt<V extends PromptVariables> extends PromptDefinition<V> {
+  // The version render uses unless told otherwise: the highest
+  current: number;
+  // "<id>@<current>"
+  promptVersion: string;
+  render(variables: V, version?: number): RenderedPrompt;
+}
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// Filled as the prompt modules load; index.ts imports all of them
+const prompts = new Map<string, Prompt<PromptVariables>>();
+
+function isSet(value: string | boolean | undefined): boolean {
+  return typeof value === "string" ? value.trim() !== "" : !!value;
+}
+
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  let text = template;
+  // Sections can contain other sections, so repeat until none are left
+  for (let previous = ""; previous !== text; ) {
+    previous = text;
+    text = text.replace(SECTION_PATTERN, (_match, kind: string, name: string, body: string) =>
+      (kind === "#") === isSet(variables[name]) ? body : ""
+    );
+  }
+
+  return text
+    .replace(VARIABLE_PATTERN, (_match, name: string) => String(variables[name] ?? ""))
+    // Hidden sections leave blank lines behind
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)) names.add(match[1]);
+  return [...names];
+}
+
+// Registers a prompt. Templates may only use the variables the example
+// declares, which the variables type enforces at every render call.
+export function definePrompt<V extends PromptVariables>(definition: PromptDefinition<V>): Prompt<V> {
+  const declared = new Set(Object.keys(definition.example));
+  for (const version of definition.versions) {
+    const unknown = templateVariables(`${version.system ?? ""}\n${version.user}`).filter((name) => !declared.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Prompt ${definition.id}@${version.version} uses undeclared variables: ${unknown.join(", ")}`);
+    }
+  }
+
+  const versions = [...definition.versions].sort((a, b) => a.version - b.version);
+  const prompt: Prompt<V> = {
+    ...definition,
+    versions,
+    current: versions[versions.length - 1].version,
+    promptVersion: `${definition.id}@${versions[versions.length - 1].version}`,
+    render(variables, version = prompt.current) {
+      const template = versions.find((entry) => entry.version === version);
+      if (!template) throw new Error(`Prompt ${definition.id} has no version ${version}`);
+
+      return {
+        id: definition.id,
+        version,
+        promptVersion: `${definition.id}@${version}`,
+        messages: [
+          ...(template.system ? [{ role: "system" as const, content: renderTemplate(template.system, variables) }] : []),
+          { role: "user", content: renderTemplate(template.user, variables) },
+        ],
+      };
+    },
+  };
+
+  prompts.set(definition.id, prompt as unknown as Prompt<PromptVariables>);
+  return prompt;
+}
+
+export function listPrompts(): Prompt<PromptVariables>[] {
+  return [...prompts.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
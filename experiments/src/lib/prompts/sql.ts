@@ -0,0 +1,355 @@
+import { definePrompt } from "@/lib/prompts/registry";
+
+// Prompts that write or rewrite SQL. They share the generator's rules and
+// the dialect section, so a rule changed here changes for every route.
+
+const DIALECT_SPECIFICS = `{{dialect}} specifics:
+{{dialectRules}}`;
+
+const SQL_GENERATOR_SYSTEM = `You are an expert {{dialect}} SQL query generator. Generate SQL queries based on natural language requests.
+
+Rules:
+1. Return ONLY the SQL query, no explanations or markdown formatting
+2. Use proper {{dialect}} syntax
+3. Always use schema-qualified table names (schema.table)
+4. Consider the column types and constraints when generating queries
+5. Use appropriate WHERE clauses, JOINs, and aggregations as needed
+6. For date/time queries, use {{dialect}} date functions
+7. Make queries efficient and use indexes when possible
+
+${DIALECT_SPECIFICS}`;
+
+const EXAMPLE_DIALECT = {
+  dialect: "PostgreSQL",
+  dialectRules: "- Use ILIKE for case-insensitive matching\n- Use DATE_TRUNC for grouping by period",
+};
+
+export type SqlGenerationVariables = {
+  dialect: string;
+  dialectRules: string;
+  schema: string;
+  // Empty to query across the schema
+  table: string;
+  columns: string;
+  sampleData: string;
+  profiles: string;
+  semantics: string;
+  conversation: string;
+  question: string;
+  // True when columns lists real keys, constraints and enum values
+  hasConstraints: boolean;
+};
+
+export const SQL_GENERATION = definePrompt<SqlGenerationVariables>({
+  id: "sql-generation",
+  description: "Writes a query for a question over one table or a set of tables (generate-sql, and the SQL generation evaluation)",
+  example: {
+    ...EXAMPLE_DIALECT,
+    schema: "public",
+    table: "",
+    columns: "  public.orders:\n    - id: integer NOT NULL\n    - customer_id: integer NOT NULL\n    - total: numeric NULL",
+    sampleData: "",
+    profiles: "",
+    semantics: "",
+    conversation: "",
+    question: "Total order value per customer",
+    hasConstraints: false,
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Generator rules shared with joined SQL generation",
+      system: SQL_GENERATOR_SYSTEM,
+      user: `Given the following {{dialect}} schema:
+
+Schema: {{schema}}
+{{#table}}Specific Table: {{table}}{{/table}}{{^table}}Query across any tables in the schema as needed{{/table}}
+
+{{#columns}}Available Tables and Columns:
+{{columns}}{{/columns}}
+
+{{#sampleData}}Sample Data (first 3 rows):
+{{sampleData}}{{/sampleData}}
+
+{{#profiles}}Column Profiles:
+{{profiles}}{{/profiles}}
+
+{{semantics}}
+
+{{#conversation}}Conversation History:
+{{conversation}}{{/conversation}}
+
+Generate a SQL query for: "{{question}}"
+
+Important:
+- Always use fully qualified table names (schema.table)
+- Use appropriate JOINs if the query requires data from multiple tables
+{{#hasConstraints}}- Use the primary keys, unique constraints, enum values and comments listed above instead of guessing from column names
+- Only compare enum columns against their listed values{{/hasConstraints}}{{^hasConstraints}}- Make sure to infer relationships between tables based on column names{{/hasConstraints}}
+{{#profiles}}- Filter on values that appear in the column profiles (matching their exact spelling and case) and stay within the observed ranges{{/profiles}}
+{{#conversation}}- Consider the conversation history and build upon previous queries if relevant{{/conversation}}
+
+Return ONLY the SQL query.`,
+    },
+  ],
+});
+
+export type JoinedSqlGenerationVariables = {
+  dialect: string;
+  dialectRules: string;
+  schema: string;
+  tables: string;
+  bridgeTables: string;
+  joinPlan: string;
+  semantics: string;
+  conversation: string;
+  question: string;
+};
+
+export const JOINED_SQL_GENERATION = definePrompt<JoinedSqlGenerationVariables>({
+  id: "joined-sql-generation",
+  description: "Writes a query joining the tables picked for a question, following the join plan (generate-joined-sql)",
+  example: {
+    ...EXAMPLE_DIALECT,
+    schema: "public",
+    tables: "Table: orders\nColumns:\n  - id (integer, not null)\n  - customer_id (integer, not null)\n\nTable: customers\nColumns:\n  - id (integer, not null)\n  - name (text, nullable)",
+    bridgeTables: "",
+    joinPlan: "Join plan for orders, customers:\n  - FROM orders\n  - JOIN customers ON orders.customer_id = customers.id (many-to-one from orders)",
+    semantics: "",
+    conversation: "",
+    question: "Orders per customer name",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Generator rules shared with SQL generation",
+      system: SQL_GENERATOR_SYSTEM,
+      user: `Given a natural language query and database schema information, generate a SQL query that joins the relevant tables to answer the user's question.
+
+{{#conversation}}Conversation History:
+{{conversation}}{{/conversation}}
+
+Current User Query: "{{question}}"
+
+Database Schema:
+{{tables}}
+
+{{bridgeTables}}
+
+{{joinPlan}}
+
+{{semantics}}
+
+Instructions:
+1. Analyze the query and determine what data is needed
+2. {{#joinPlan}}Use the JOIN conditions from the Join Plan above, including any bridge tables, and follow its warnings (aggregate in subqueries before fan-out joins); only fall back to naming patterns for tables the plan could not connect{{/joinPlan}}{{^joinPlan}}Identify the appropriate JOIN conditions from the primary keys and unique constraints listed above, falling back to common naming patterns (e.g., table_id, id){{/joinPlan}}
+3. Generate a well-formed SQL query that answers the question
+4. Use appropriate JOIN types (INNER JOIN, LEFT JOIN, etc.)
+5. Include only relevant columns in the SELECT clause
+6. Add appropriate WHERE clauses if filtering is needed
+7. Use schema qualification ({{schema}}.table_name) for all table references
+8. Add ORDER BY or LIMIT clauses if they make sense for the query
+{{#conversation}}9. Consider the conversation history - the user might be building upon or modifying a previous query{{/conversation}}
+
+Return ONLY the SQL query, without any explanation or markdown formatting. Do not wrap it in backticks or code blocks.`,
+    },
+  ],
+});
+
+export type SqlRefinementVariables = {
+  dialect: string;
+  dialectRules: string;
+  question: string;
+  sql: string;
+  // Percentage, e.g. "65"
+  score: string;
+  summary: string;
+  strengths: string;
+  issues: string;
+  suggestions: string;
+  execution: string;
+  executionSucceeded: boolean;
+  schemaInfo: string;
+};
+
+export const SQL_REFINEMENT = definePrompt<SqlRefinementVariables>({
+  id: "sql-refinement",
+  description: "Rewrites a query from its evaluation and execution result (refine-sql)",
+  example: {
+    ...EXAMPLE_DIALECT,
+    question: "Total order value per customer",
+    sql: "SELECT customer_id, SUM(total) FROM orders",
+    score: "40",
+    summary: "The aggregate is missing its GROUP BY.",
+    strengths: "- Uses the right table",
+    issues: "- No GROUP BY customer_id\n- Table is not schema-qualified",
+    suggestions: "Group by customer_id and qualify the table name.",
+    execution: "Execution Result:\n- Status: FAILED\n- Error: column \"orders.customer_id\" must appear in the GROUP BY clause",
+    executionSucceeded: false,
+    schemaInfo: "  public.orders:\n    - customer_id: integer NOT NULL\n    - total: numeric NULL",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from refine-sql",
+      system: "You are an expert {{dialect}} SQL optimizer. Return only the improved SQL query with no additional text or formatting.",
+      user: `You are an expert {{dialect}} SQL optimizer. Your task is to refine and improve an SQL query based on evaluation feedback and actual execution results.
+
+User's Original Question: "{{question}}"
+
+Original SQL Query:
+{{sql}}
+
+Quality Evaluation (Score: {{score}}%):
+Summary: {{summary}}
+
+Strengths:
+{{strengths}}
+
+Issues Identified:
+{{issues}}
+
+Suggestions:
+{{suggestions}}
+
+{{execution}}
+
+Available Schema:
+{{schemaInfo}}
+
+Instructions:
+1. Address ALL issues identified in the evaluation
+2. Implement the suggestions provided
+3. {{#executionSucceeded}}Ensure the results actually answer the user's question based on the sample data{{/executionSucceeded}}{{^executionSucceeded}}Fix the execution error{{/executionSucceeded}}
+4. Maintain or improve upon the strengths
+5. Follow {{dialect}} best practices
+6. Use schema-qualified table names (schema.table)
+7. Keep the query efficient and readable
+
+${DIALECT_SPECIFICS}
+
+Generate an IMPROVED version of the SQL query that addresses these issues.
+
+IMPORTANT: Return ONLY the improved SQL query, no explanations, no markdown formatting, no comments. Just the raw SQL.`,
+    },
+  ],
+});
+
+export type SqlRepairVariables = {
+  dialect: string;
+  dialectRules: string;
+  schema: string;
+  tables: string;
+  question: string;
+  sql: string;
+  error: string;
+  // SQLSTATE or driver error code, when reported
+  errorCode: string;
+  // The line the error position points at, with a caret under it
+  errorLocation: string;
+  hint: string;
+  // Earlier failed attempts at this question, oldest first
+  previousAttempts: string;
+};
+
+export const SQL_REPAIR = definePrompt<SqlRepairVariables>({
+  id: "sql-repair",
+  description: "Fixes a query the database rejected, from its error and the schema (automatic repair in /api/ask)",
+  example: {
+    ...EXAMPLE_DIALECT,
+    schema: "public",
+    tables: "Table: orders\nColumns:\n  - id (integer, not null)\n  - customer_id (integer, not null)\n  - total (numeric, nullable)",
+    question: "Total order value per customer",
+    sql: "SELECT customer, SUM(total) FROM public.orders GROUP BY customer;",
+    error: 'column "customer" does not exist',
+    errorCode: "42703",
+    errorLocation: "SELECT customer, SUM(total) FROM public.orders GROUP BY customer;\n       ^",
+    hint: "",
+    previousAttempts: "",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Repairs from the database error, its position and the tables the query uses",
+      system: `${SQL_GENERATOR_SYSTEM}
+
+The database rejected a query you wrote. Fix it so it runs and still answers the question. Return ONLY the corrected SQL query, no explanations or markdown formatting.`,
+      user: `User's Question: "{{question}}"
+
+Schema: {{schema}}
+
+Tables:
+{{tables}}
+
+Query that failed:
+{{sql}}
+
+Database error{{#errorCode}} ({{errorCode}}){{/errorCode}}: {{error}}
+{{#errorLocation}}
+Error location:
+{{errorLocation}}{{/errorLocation}}
+{{#hint}}
+Hint: {{hint}}{{/hint}}
+{{#previousAttempts}}
+Earlier attempts that also failed:
+{{previousAttempts}}{{/previousAttempts}}
+
+Use only the tables and columns listed above, qualify ambiguous column references with their table alias, and cast values whose types don't match.
+
+Corrected SQL Query:`,
+    },
+  ],
+});
+
+const TABLE_SELECTION_TASK = `You are a database expert. Given a user's natural language query and a list of candidate tables, identify which tables are likely relevant to answering the query.
+
+{{#conversation}}Conversation History:
+{{conversation}}{{/conversation}}
+
+Current User Query: "{{question}}"
+
+Candidate Tables (retrieved from a larger schema; choose only from these):
+{{candidates}}
+
+Analyze the query and determine which tables would be needed to answer it. Consider:
+- Table names and what they likely contain
+- Common database naming conventions (e.g., "orders", "customers", "products")
+- Relationships that might exist between tables
+- What data would be needed to answer the query
+{{#conversation}}- Previous context from the conversation (the user might be referring to tables or concepts from earlier messages){{/conversation}}
+
+`;
+
+export type TableSelectionVariables = {
+  question: string;
+  candidates: string;
+  conversation: string;
+};
+
+export const TABLE_SELECTION = definePrompt<TableSelectionVariables>({
+  id: "table-selection",
+  description: "Picks the tables a question needs from the retrieved candidates (identify-relevant-tables)",
+  example: {
+    question: "Which customers placed the most orders?",
+    candidates: "1. orders: id, customer_id, total\n2. customers: id, name\n3. order_items (joins to orders): id, order_id, product_id",
+    conversation: "",
+  },
+  versions: [
+    {
+      version: 1,
+      changes: "Extracted from identify-relevant-tables",
+      user: `${TABLE_SELECTION_TASK}Return ONLY a JSON array of table names that are relevant. Do not include any explanation or additional text.
+
+Example format:
+["table1", "table2", "table3"]`,
+    },
+    {
+      version: 2,
+      changes: "Asks for a JSON object with a tables array, matching the structured output schema",
+      user: `${TABLE_SELECTION_TASK}Return ONLY a JSON object with the names of the relevant tables in a "tables" array. Do not include any explanation or additional text.
+
+Example format:
+{"tables": ["table1", "table2", "table3"]}`,
+    },
+  ],
+});
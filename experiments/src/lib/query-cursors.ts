@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto";
+import type { Pool, PoolClient } from "pg";
+import type { QueryGuardrails } from "@/lib/environments";
+import { beginReadOnly } from "@/lib/sql-guard";
+import { trackQuery, type QueryHandle } from "@/lib/running-queries";
+
+// A server-side cursor held open between page requests. Each session owns
+// a pooled client with an open READ ONLY transaction.
+interface CursorSession {
+  id: string;
+  env: string;
+  client: PoolClient;
+  columns: string[];
+  fetched: number;
+  maxRows: number;
+  // Row read ahead to find out whether another page exists
+  buffered: Record<string, unknown>[];
+  idleTimer?: ReturnType<typeof setTimeout>;
+  // Serialises FETCHes; a client cannot run two commands at once
+  pending: Promise<unknown>;
+}
+
+export interface CursorPage {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  // Set while more rows can be fetched with this token
+  nextPageToken?: string;
+  // True when the environment's row cap stopped the cursor early
+  truncated: boolean;
+}
+
+const CURSOR_NAME = "guarded_cursor";
+const IDLE_TIMEOUT_MS = Number(process.env.CURSOR_IDLE_TIMEOUT_MS) || 60000;
+// Per environment. Each cursor holds one of the pool's clients while it is
+// open, so at most half the pool goes to cursors and other queries still run.
+const MAX_OPEN_CURSORS = Number(process.env.MAX_OPEN_CURSORS) || undefined;
+
+function cursorLimit(pool: Pool): number {
+  const half = Math.max(1, Math.floor((pool.options.max ?? 10) / 2));
+  return MAX_OPEN_CURSORS ? Math.min(MAX_OPEN_CURSORS, half) : half;
+}
+
+const globalForCursors = globalThis as unknown as { __queryCursors?: Map<string, CursorSession> };
+const sessions = globalForCursors.__queryCursors ?? (globalForCursors.__queryCursors = new Map());
+
+function scheduleIdleClose(session: CursorSession) {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    closeCursor(session.id).catch((error) => console.error("Error closing idle cursor:", error));
+  }, IDLE_TIMEOUT_MS);
+}
+
+export async function closeCursor(id: string): Promise<void> {
+  const session = sessions.get(id);
+  if (!session) return;
+
+  sessions.delete(id);
+  clearTimeout(session.idleTimer);
+
+  let failure: Error | undefined;
+  try {
+    await session.pending.catch(() => {});
+    await session.client.query("ROLLBACK");
+  } catch (error) {
+    failure = error instanceof Error ? error : new Error(String(error));
+  } finally {
+    session.client.release(failure);
+  }
+}
+
+// The DECLARE sent for a statement; error positions count from its start
+export function cursorStatement(statement: string): string {
+  return `DECLARE ${CURSOR_NAME} NO SCROLL CURSOR FOR ${statement}\n`;
+}
+
+// Declares a cursor for an already-checked statement. The first page is
+// fetched right away so errors surface on the initial request.
+export async function openCursor(
+  pool: Pool,
+  env: string,
+  statement: string,
+  guardrails: QueryGuardrails,
+  pageSize: number,
+  queryId?: string
+): Promise<CursorPage> {
+  // Never let abandoned cursors exhaust the pool: close the environment's
+  // oldest (sessions keep insertion order)
+  const open = [...sessions.values()].filter((session) => session.env === env);
+  for (const session of open.slice(0, Math.max(0, open.length - cursorLimit(pool) + 1))) {
+    await closeCursor(session.id);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await beginReadOnly(client, guardrails);
+    await client.query(cursorStatement(statement));
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    client.release(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  const session: CursorSession = {
+    id: randomUUID(),
+    env,
+    client,
+    columns: [],
+    fetched: 0,
+    maxRows: guardrails.maxRows,
+    buffered: [],
+    pending: Promise.resolve(),
+  };
+  sessions.set(session.id, session);
+
+  return fetchPage(session, pageSize, queryId);
+}
+
+// FETCH is where the query does its work, so each page is tracked under
+// the query id of the request that asked for it
+async function fetchPage(session: CursorSession, pageSize: number, queryId?: string): Promise<CursorPage> {
+  const handle: QueryHandle | undefined = queryId ? { env: session.env, queryId } : undefined;
+  const remaining = session.maxRows - session.fetched;
+  const count = Math.max(0, Math.min(pageSize, remaining));
+
+  const run = async (): Promise<CursorPage> => {
+    // Read one row past the page to know whether another page exists.
+    // FETCH 0 would re-read the current row, so skip it when the buffer suffices.
+    const fetchCount = count + 1 - session.buffered.length;
+    let fetchedRows: Record<string, unknown>[] = [];
+    if (fetchCount > 0) {
+      const result = await trackQuery(session.client, handle, () =>
+        session.client.query(`FETCH FORWARD ${fetchCount} FROM ${CURSOR_NAME}`)
+      );
+      if (result.fields.length > 0) {
+        session.columns = result.fields.map((field) => field.name);
+      }
+      fetchedRows = result.rows;
+    }
+
+    const available = [...session.buffered, ...fetchedRows];
+    const hasMore = available.length > count;
+    const rows = available.slice(0, count);
+    session.buffered = available.slice(count);
+    session.fetched += rows.length;
+
+    const truncated = hasMore && session.fetched >= session.maxRows;
+    const done = !hasMore || truncated;
+
+    return {
+      columns: session.columns,
+      rows,
+      nextPageToken: done ? undefined : session.id,
+      truncated,
+    };
+  };
+
+  const pending = session.pending.then(run);
+  session.pending = pending.catch(() => {});
+
+  try {
+    const page = await pending;
+    if (page.nextPageToken) {
+      scheduleIdleClose(session);
+    } else {
+      await closeCursor(session.id);
+    }
+    return page;
+  } catch (error) {
+    await closeCursor(session.id);
+    throw error;
+  }
+}
+
+// Returns the next page for a token, or undefined when the token is
+// unknown, expired or belongs to another environment.
+export async function fetchNextPage(
+  pageToken: string,
+  env: string,
+  pageSize: number,
+  queryId?: string
+): Promise<CursorPage | undefined> {
+  const session = sessions.get(pageToken);
+  if (!session || session.env !== env) return undefined;
+
+  return fetchPage(session, pageSize, queryId);
+}
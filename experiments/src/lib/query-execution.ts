@@ -0,0 +1,61 @@
+// Client-side helpers for previewing and cancelling queries sent to /api/execute-sql
+
+import type { CostCheck, QueryPlan } from "@/lib/query-plan";
+
+// Matches the errorType returned by /api/execute-sql
+export type ExecutionErrorType = "timeout" | "cancelled" | "error";
+
+// Automatic repairs the chat pages ask /api/execute-sql for when the
+// database rejects a generated query
+export const REPAIR_ATTEMPTS = 2;
+
+// Generated before the request is sent, so the query can be cancelled
+// while /api/execute-sql is still waiting on it
+export function createQueryId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Returns true when the server asked PostgreSQL to stop the query, or will
+// stop it as soon as it starts because the cancel arrived first
+export async function cancelExecution(env: string, queryId: string): Promise<boolean> {
+  const response = await fetch("/api/execute-sql/cancel", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ env, queryId }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to cancel query");
+  }
+
+  return data.cancelled || data.pending === true;
+}
+
+export interface PlanPreview {
+  plan?: QueryPlan;
+  costCheck?: CostCheck;
+  error?: string;
+}
+
+// Asks /api/explain-sql for the plan and cost decision. Never throws: when
+// planning fails the query is simply run and reports its own error.
+export async function previewQueryPlan(env: string, sql: string): Promise<PlanPreview> {
+  try {
+    const response = await fetch("/api/explain-sql", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ env, sql }),
+    });
+
+    const data = await response.json();
+    return { plan: data.plan, costCheck: data.costCheck, error: data.error || undefined };
+  } catch (err) {
+    console.error("Error previewing query plan:", err);
+    return { error: "Failed to explain SQL" };
+  }
+}
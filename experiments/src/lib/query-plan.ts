@@ -0,0 +1,162 @@
+import type { Pool, PoolClient } from "pg";
+import { withClient } from "@/lib/db";
+import type { QueryGuardrails } from "@/lib/environments";
+import { beginReadOnly } from "@/lib/sql-guard";
+
+// One node of an EXPLAIN plan, trimmed to what the UIs display
+export interface PlanNode {
+  nodeType: string;
+  // schema.table for scans
+  relation?: string;
+  alias?: string;
+  indexName?: string;
+  joinType?: string;
+  startupCost: number;
+  totalCost: number;
+  planRows: number;
+  filter?: string;
+  children: PlanNode[];
+}
+
+export interface SequentialScanWarning {
+  relation: string;
+  estimatedTableRows: number;
+}
+
+export interface QueryPlan {
+  root: PlanNode;
+  totalCost: number;
+  estimatedRows: number;
+  // Sequential scans over tables above the environment's largeTableRows
+  sequentialScans: SequentialScanWarning[];
+}
+
+export type CostDecision = "allow" | "confirm" | "block";
+
+export interface CostCheck {
+  decision: CostDecision;
+  reason?: string;
+  totalCost: number;
+  confirmCostAbove?: number;
+  blockCostAbove?: number;
+}
+
+// Shape of a node in EXPLAIN (FORMAT JSON, VERBOSE) output
+interface RawPlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Schema"?: string;
+  "Alias"?: string;
+  "Index Name"?: string;
+  "Join Type"?: string;
+  "Startup Cost": number;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Filter"?: string;
+  "Plans"?: RawPlanNode[];
+}
+
+function toPlanNode(raw: RawPlanNode): PlanNode {
+  return {
+    nodeType: raw["Node Type"],
+    relation: raw["Relation Name"]
+      ? raw["Schema"] ? `${raw["Schema"]}.${raw["Relation Name"]}` : raw["Relation Name"]
+      : undefined,
+    alias: raw["Alias"] && raw["Alias"] !== raw["Relation Name"] ? raw["Alias"] : undefined,
+    indexName: raw["Index Name"],
+    joinType: raw["Join Type"],
+    startupCost: raw["Startup Cost"],
+    totalCost: raw["Total Cost"],
+    planRows: raw["Plan Rows"],
+    filter: raw["Filter"],
+    children: (raw["Plans"] ?? []).map(toPlanNode),
+  };
+}
+
+function collectSeqScans(node: RawPlanNode, scans: RawPlanNode[] = []): RawPlanNode[] {
+  if (node["Node Type"] === "Seq Scan" && node["Relation Name"]) scans.push(node);
+  for (const child of node["Plans"] ?? []) collectSeqScans(child, scans);
+  return scans;
+}
+
+// A Seq Scan's Plan Rows is its output after filtering, so table size
+// comes from the planner statistics in pg_class instead
+async function findLargeSeqScans(
+  client: PoolClient,
+  root: RawPlanNode,
+  largeTableRows: number
+): Promise<SequentialScanWarning[]> {
+  const scans = collectSeqScans(root);
+  if (scans.length === 0) return [];
+
+  const result = await client.query<{ schema_name: string; table_name: string; estimated_rows: number }>(
+    `SELECT n.nspname AS schema_name, c.relname AS table_name, c.reltuples::float8 AS estimated_rows
+     FROM unnest($1::text[], $2::text[]) AS t(schema_name, table_name)
+     JOIN pg_namespace n ON n.nspname = t.schema_name
+     JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = t.table_name`,
+    [scans.map((scan) => scan["Schema"] ?? "public"), scans.map((scan) => scan["Relation Name"])]
+  );
+
+  const warnings = new Map<string, SequentialScanWarning>();
+  for (const scan of scans) {
+    const relation = `${scan["Schema"] ?? "public"}.${scan["Relation Name"]}`;
+    const stats = result.rows.find((row) => `${row.schema_name}.${row.table_name}` === relation);
+    // reltuples is -1 for tables that were never analyzed
+    const estimatedTableRows = Math.max(stats?.estimated_rows ?? 0, scan["Plan Rows"]);
+
+    if (estimatedTableRows >= largeTableRows) {
+      warnings.set(relation, { relation, estimatedTableRows });
+    }
+  }
+
+  return [...warnings.values()];
+}
+
+// Plans an already-checked statement without running it. EXPLAIN without
+// ANALYZE never executes the query, but still runs under the read-only
+// transaction and statement timeout.
+export async function explainQuery(pool: Pool, statement: string, guardrails: QueryGuardrails): Promise<QueryPlan> {
+  return withClient(pool, async (client) => {
+    try {
+      await beginReadOnly(client, guardrails);
+
+      const result = await client.query<{ "QUERY PLAN": { Plan: RawPlanNode }[] }>(
+        `EXPLAIN (FORMAT JSON, VERBOSE) ${statement}\n`
+      );
+      const rawRoot = result.rows[0]["QUERY PLAN"][0].Plan;
+      const sequentialScans = await findLargeSeqScans(client, rawRoot, guardrails.largeTableRows);
+
+      await client.query("ROLLBACK");
+
+      return {
+        root: toPlanNode(rawRoot),
+        totalCost: rawRoot["Total Cost"],
+        estimatedRows: rawRoot["Plan Rows"],
+        sequentialScans,
+      };
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw error;
+    }
+  });
+}
+
+export function isCostPolicyEnabled(guardrails: QueryGuardrails): boolean {
+  return guardrails.confirmCostAbove !== undefined || guardrails.blockCostAbove !== undefined;
+}
+
+export function checkCostPolicy(plan: QueryPlan, guardrails: QueryGuardrails): CostCheck {
+  const { confirmCostAbove, blockCostAbove } = guardrails;
+  const cost = Math.round(plan.totalCost);
+  const check: CostCheck = { decision: "allow", totalCost: plan.totalCost, confirmCostAbove, blockCostAbove };
+
+  if (blockCostAbove !== undefined && plan.totalCost > blockCostAbove) {
+    return { ...check, decision: "block", reason: `Estimated cost ${cost} exceeds this environment's limit of ${blockCostAbove}` };
+  }
+
+  if (confirmCostAbove !== undefined && plan.totalCost > confirmCostAbove) {
+    return { ...check, decision: "confirm", reason: `Estimated cost ${cost} is above ${confirmCostAbove}; confirm to run it` };
+  }
+
+  return check;
+}
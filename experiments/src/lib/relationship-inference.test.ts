@@ -0,0 +1,62 @@
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { closeDriver } from "@/lib/drivers";
+
+const ENV = "relationships-test";
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "relationship-inference-"));
+  const filePath = path.join(dir, "shop.db");
+
+  const db = new Database(filePath);
+  db.exec(`
+    CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT);
+    CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER, total INTEGER);
+    INSERT INTO customers VALUES (1, 'Ada'), (2, 'Grace');
+    INSERT INTO orders VALUES (1, 1, 10), (2, 2, 20), (3, 1, 5);
+  `);
+  db.close();
+
+  process.env.DATA_DIR = path.join(dir, "data");
+  process.env.CUSTOM_ENVIRONMENTS = JSON.stringify([{ name: ENV, url: `sqlite:${filePath}` }]);
+});
+
+afterAll(async () => {
+  await closeDriver(ENV);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+// The budget is read when the module loads
+async function loadInference(budgetMs?: number) {
+  if (budgetMs !== undefined) vi.stubEnv("RELATIONSHIP_DISCOVERY_BUDGET_MS", String(budgetMs));
+  return import("@/lib/relationship-inference");
+}
+
+describe("discoverRelationships", () => {
+  it("proposes relationships whose values check out", async () => {
+    const { discoverRelationships } = await loadInference();
+    const result = await discoverRelationships(ENV, "main");
+
+    expect(result).toMatchObject({ candidates: 1, checked: 1, truncated: false });
+    expect(result!.relationships).toEqual([
+      expect.objectContaining({ fromTable: "orders", fromColumn: "customer_id", toTable: "customers", toColumn: "id", status: "proposed" }),
+    ]);
+  });
+
+  it("stops at the time budget and keeps proposals it didn't get to", async () => {
+    const { discoverRelationships } = await loadInference(1);
+    const result = await discoverRelationships(ENV, "main");
+
+    expect(result).toMatchObject({ candidates: 1, checked: 0, truncated: true });
+    expect(result!.relationships.map((entry) => entry.fromColumn)).toEqual(["customer_id"]);
+  });
+});
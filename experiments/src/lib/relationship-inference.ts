@@ -0,0 +1,359 @@
+import { randomUUID } from "crypto";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+import { qualifiedTableName, quoteIdentifierFor } from "@/lib/dialects";
+import { getDriver, type DatabaseDriver } from "@/lib/drivers";
+import { getEnvironment } from "@/lib/environments";
+import {
+  buildSchemaSnapshot,
+  fingerprintSchema,
+  type SchemaSnapshot,
+  type SnapshotColumn,
+  type SnapshotForeignKey,
+  type SnapshotTable,
+} from "@/lib/schema-snapshot";
+
+// Relationships for schemas that don't declare their foreign keys. Column
+// names propose candidates ("orders.customer_id" -> customers.id), column
+// types rule out the impossible ones, and a sampled NOT EXISTS check
+// measures how many of the child's values actually occur in the parent.
+// Users accept or reject each candidate; accepted ones are served as
+// foreign keys to the ERD, the join planner and table retrieval.
+
+export type RelationshipStatus = "proposed" | "accepted" | "rejected";
+
+export interface RelationshipSignals {
+  // How the names matched, e.g. "customer_id -> customers.id"
+  nameMatch: string;
+  nameScore: number;
+  typeScore: number;
+  // Share of the sampled child values found in the parent column
+  containment: number;
+  sampledValues: number;
+}
+
+export interface InferredRelationship {
+  id: string;
+  env: string;
+  schema: string;
+  // The referencing ("many") side
+  fromTable: string;
+  fromColumn: string;
+  // The referenced ("one") side
+  toTable: string;
+  toColumn: string;
+  status: RelationshipStatus;
+  // 0-1, weighted from the signals
+  score: number;
+  signals: RelationshipSignals;
+  discoveredAt: string;
+  decidedAt?: string;
+}
+
+export interface DiscoveryResult {
+  relationships: InferredRelationship[];
+  // Name matches worth checking, at most MAX_CANDIDATES
+  candidates: number;
+  // Candidates whose values were checked against the parent
+  checked: number;
+  // Candidates that matched by name but were dropped on type or values
+  dismissed: number;
+  // Set when the time budget ran out before every candidate was checked;
+  // proposals for the unchecked ones are kept as they were
+  truncated: boolean;
+}
+
+type TypeFamily = "integer" | "decimal" | "text" | "uuid" | "temporal" | "boolean" | "other";
+
+const RELATIONSHIPS_FILE = "inferred-relationships.json";
+// Child values checked per candidate
+const SAMPLE_VALUES = 1000;
+// Bounds a discovery run on very wide schemas
+const MAX_CANDIDATES = 200;
+// Per value check, instead of the environment's statement timeout
+const PROBE_TIMEOUT_MS = Number(process.env.RELATIONSHIP_PROBE_TIMEOUT_MS) || 5000;
+// Per discovery run; candidates left when it runs out stay unchecked
+const DISCOVERY_BUDGET_MS = Number(process.env.RELATIONSHIP_DISCOVERY_BUDGET_MS) || 60000;
+// Below this share of matching values a candidate is not proposed
+const MIN_CONTAINMENT = 0.9;
+const WEIGHTS = { name: 0.35, type: 0.15, containment: 0.5 };
+
+const STATUSES: RelationshipStatus[] = ["proposed", "accepted", "rejected"];
+
+async function readRelationships(): Promise<InferredRelationship[]> {
+  return readJsonFile<InferredRelationship[]>(RELATIONSHIPS_FILE, []);
+}
+
+function sameColumns(a: Pick<InferredRelationship, "fromTable" | "fromColumn" | "toTable" | "toColumn">, b: typeof a): boolean {
+  return a.fromTable === b.fromTable && a.fromColumn === b.fromColumn && a.toTable === b.toTable && a.toColumn === b.toColumn;
+}
+
+function typeFamily(type: string): TypeFamily {
+  if (/bool/i.test(type)) return "boolean";
+  if (/uuid|uniqueidentifier/i.test(type)) return "uuid";
+  if (/date|time/i.test(type)) return "temporal";
+  if (/int|serial/i.test(type)) return "integer";
+  if (/numeric|decimal|real|double|float|number/i.test(type)) return "decimal";
+  if (/char|text|string|clob/i.test(type)) return "text";
+  return "other";
+}
+
+// 1 for identical types, less for the same family, 0 when values of the
+// two columns could never be equal
+function typeCompatibility(from: SnapshotColumn, to: SnapshotColumn): number {
+  if (from.type.toLowerCase() === to.type.toLowerCase()) return 1;
+
+  const [fromFamily, toFamily] = [typeFamily(from.type), typeFamily(to.type)];
+  if ([fromFamily, toFamily].sort().join("/") === "decimal/integer") return 0.5;
+  if (fromFamily !== toFamily || fromFamily === "boolean" || fromFamily === "other") return 0;
+  return 0.8;
+}
+
+function singular(name: string): string[] {
+  if (name.endsWith("ies")) return [name, `${name.slice(0, -3)}y`];
+  if (/(s|x|ch|sh)es$/.test(name)) return [name, name.slice(0, -2)];
+  if (name.endsWith("s") && !name.endsWith("ss")) return [name, name.slice(0, -1)];
+  return [name];
+}
+
+interface Candidate {
+  from: SnapshotTable;
+  fromColumn: SnapshotColumn;
+  to: SnapshotTable;
+  toColumn: SnapshotColumn;
+  nameMatch: string;
+  nameScore: number;
+  typeScore: number;
+}
+
+// Columns of a table that look like its key: "id", "customer_id" or
+// "customer_key"/"customer_code" in customers
+function keyColumns(table: SnapshotTable): SnapshotColumn[] {
+  const stems = singular(table.name.toLowerCase());
+  return table.columns.filter((column) => {
+    const name = column.name.toLowerCase();
+    return name === "id" || stems.some((stem) => [`${stem}_id`, `${stem}id`, `${stem}_key`, `${stem}_code`].includes(name));
+  });
+}
+
+// How well a column's name points at a key of another table: exactly
+// (customer_id -> customers.id, customer_code -> customers.customer_code)
+// or through a role prefix (billing_customer_id -> customers.id)
+function nameScore(column: string, target: SnapshotTable, key: SnapshotColumn): number {
+  const name = column.toLowerCase();
+  const keyName = key.name.toLowerCase();
+  const references = keyName === "id"
+    ? singular(target.name.toLowerCase()).flatMap((stem) => [`${stem}_id`, `${stem}id`])
+    : [keyName];
+
+  if (references.includes(name)) return 1;
+  if (references.some((reference) => reference.includes("_") && name.endsWith(`_${reference}`))) return 0.7;
+  return 0;
+}
+
+function findCandidates(snapshot: SchemaSnapshot): { candidates: Candidate[]; dismissed: number } {
+  const tables = snapshot.tables.filter((table) => table.type === "BASE TABLE");
+  const declared = new Set(snapshot.foreignKeys.map((fk) => `${fk.fromTable}\u0000${fk.fromColumn}`));
+  const candidates: Candidate[] = [];
+  let dismissed = 0;
+
+  for (const to of tables) {
+    for (const toColumn of keyColumns(to)) {
+      for (const from of tables) {
+        for (const fromColumn of from.columns) {
+          if (from.name === to.name || declared.has(`${from.name}\u0000${fromColumn.name}`)) continue;
+
+          const score = nameScore(fromColumn.name, to, toColumn);
+          if (score === 0) continue;
+
+          const typeScore = typeCompatibility(fromColumn, toColumn);
+          if (typeScore === 0) {
+            dismissed++;
+            continue;
+          }
+
+          candidates.push({
+            from,
+            fromColumn,
+            to,
+            toColumn,
+            nameMatch: `${fromColumn.name} -> ${to.name}.${toColumn.name}`,
+            nameScore: score,
+            typeScore,
+          });
+        }
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.nameScore + b.typeScore - (a.nameScore + a.typeScore));
+  return { candidates: candidates.slice(0, MAX_CANDIDATES), dismissed: dismissed + Math.max(0, candidates.length - MAX_CANDIDATES) };
+}
+
+// Counts sampled child values with no matching parent row
+async function checkContainment(
+  driver: DatabaseDriver,
+  schema: string,
+  candidate: Candidate,
+  options: { statementTimeoutMs: number }
+): Promise<{ sampled: number; missing: number }> {
+  const quote = (name: string) => quoteIdentifierFor(driver.dialect, name);
+  const statement = [
+    `SELECT COUNT(*) AS sampled_values,`,
+    `  SUM(CASE WHEN NOT EXISTS (SELECT 1 FROM ${qualifiedTableName(driver.dialect, schema, candidate.to.name)} parent WHERE parent.${quote(candidate.toColumn.name)} = child.child_value) THEN 1 ELSE 0 END) AS missing_values`,
+    `FROM (SELECT ${quote(candidate.fromColumn.name)} AS child_value FROM ${qualifiedTableName(driver.dialect, schema, candidate.from.name)} WHERE ${quote(candidate.fromColumn.name)} IS NOT NULL LIMIT ${SAMPLE_VALUES}) child`,
+  ].join("\n");
+
+  const { rows } = await driver.executeReadOnly(statement, { ...options, maxRows: 1 });
+  return { sampled: Number(rows[0]?.sampled_values ?? 0), missing: Number(rows[0]?.missing_values ?? 0) };
+}
+
+// Proposes relationships for a schema and stores them. Accepted and
+// rejected candidates keep their decision; proposals that no longer hold
+// are dropped.
+export async function discoverRelationships(env: string, schema: string): Promise<DiscoveryResult | undefined> {
+  const environment = await getEnvironment(env);
+  const driver = environment ? await getDriver(env) : undefined;
+  if (!environment || !driver) return undefined;
+
+  const deadline = Date.now() + DISCOVERY_BUDGET_MS;
+  const snapshot = await buildSchemaSnapshot(driver, schema);
+  const { candidates, dismissed: dismissedByName } = findCandidates(snapshot);
+  const discoveredAt = new Date().toISOString();
+  const found: Omit<InferredRelationship, "id" | "status">[] = [];
+  let dismissed = dismissedByName;
+  let checked = 0;
+
+  for (; checked < candidates.length; checked++) {
+    const candidate = candidates[checked];
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    let containment: { sampled: number; missing: number };
+    try {
+      containment = await checkContainment(driver, schema, candidate, {
+        statementTimeoutMs: Math.min(PROBE_TIMEOUT_MS, environment.guardrails.statementTimeoutMs, remaining),
+      });
+    } catch (error) {
+      // Cut short by the budget, so the candidate stays unchecked
+      if (Date.now() >= deadline) break;
+      console.error(`Error checking ${candidate.nameMatch}:`, error);
+      dismissed++;
+      continue;
+    }
+
+    const ratio = containment.sampled === 0 ? 0 : (containment.sampled - containment.missing) / containment.sampled;
+    if (ratio < MIN_CONTAINMENT) {
+      dismissed++;
+      continue;
+    }
+
+    found.push({
+      env,
+      schema,
+      fromTable: candidate.from.name,
+      fromColumn: candidate.fromColumn.name,
+      toTable: candidate.to.name,
+      toColumn: candidate.toColumn.name,
+      score: Number((WEIGHTS.name * candidate.nameScore + WEIGHTS.type * candidate.typeScore + WEIGHTS.containment * ratio).toFixed(3)),
+      signals: {
+        nameMatch: candidate.nameMatch,
+        nameScore: candidate.nameScore,
+        typeScore: candidate.typeScore,
+        containment: Number(ratio.toFixed(3)),
+        sampledValues: containment.sampled,
+      },
+      discoveredAt,
+    });
+  }
+
+  const unchecked = candidates.slice(checked).map((candidate) => ({
+    fromTable: candidate.from.name,
+    fromColumn: candidate.fromColumn.name,
+    toTable: candidate.to.name,
+    toColumn: candidate.toColumn.name,
+  }));
+
+  return withFileLock(RELATIONSHIPS_FILE, async () => {
+    const stored = await readRelationships();
+    const others = stored.filter((entry) => entry.env !== env || entry.schema !== schema);
+    const previous = stored.filter((entry) => entry.env === env && entry.schema === schema);
+    const kept = (entry: InferredRelationship) =>
+      entry.status !== "proposed" || unchecked.some((candidate) => sameColumns(entry, candidate));
+
+    const relationships: InferredRelationship[] = [
+      ...previous.filter((entry) => kept(entry) && !found.some((candidate) => sameColumns(entry, candidate))),
+      ...found.map((candidate) => {
+        const existing = previous.find((entry) => sameColumns(entry, candidate));
+        return {
+          ...candidate,
+          id: existing?.id ?? randomUUID(),
+          status: existing?.status ?? "proposed",
+          ...(existing?.decidedAt ? { decidedAt: existing.decidedAt } : {}),
+        };
+      }),
+    ].sort((a, b) => b.score - a.score || a.fromTable.localeCompare(b.fromTable));
+
+    await writeJsonFile(RELATIONSHIPS_FILE, [...others, ...relationships]);
+    return { relationships, candidates: candidates.length, checked, dismissed, truncated: checked < candidates.length };
+  });
+}
+
+export async function listRelationships(env: string, schema: string): Promise<InferredRelationship[]> {
+  return (await readRelationships()).filter((entry) => entry.env === env && entry.schema === schema);
+}
+
+export function validateRelationshipStatus(status: unknown): string | null {
+  return STATUSES.includes(status as RelationshipStatus) ? null : `Status must be one of: ${STATUSES.join(", ")}`;
+}
+
+// Accepts, rejects or resets a candidate; undefined when it doesn't exist
+export async function decideRelationship(id: string, status: RelationshipStatus): Promise<InferredRelationship | undefined> {
+  return withFileLock(RELATIONSHIPS_FILE, async () => {
+    const stored = await readRelationships();
+    const index = stored.findIndex((entry) => entry.id === id);
+    if (index === -1) return undefined;
+
+    const updated: InferredRelationship = { ...stored[index], status, decidedAt: new Date().toISOString() };
+    if (status === "proposed") delete updated.decidedAt;
+    stored[index] = updated;
+    await writeJsonFile(RELATIONSHIPS_FILE, stored);
+    return updated;
+  });
+}
+
+// Accepted relationships in the shape of declared foreign keys
+export async function acceptedForeignKeys(env: string, schema: string): Promise<SnapshotForeignKey[]> {
+  return (await listRelationships(env, schema))
+    .filter((entry) => entry.status === "accepted")
+    .map((entry) => ({
+      fromTable: entry.fromTable,
+      fromColumn: entry.fromColumn,
+      toTable: entry.toTable,
+      toColumn: entry.toColumn,
+      constraintName: `inferred_${entry.id.slice(0, 8)}`,
+      inferred: true,
+    }));
+}
+
+// Declared foreign keys plus the accepted relationships they don't
+// already cover. Relationships are optional, so a failure to read them is
+// logged and the declared keys returned alone.
+export async function withAcceptedRelationships(env: string, schema: string, foreignKeys: SnapshotForeignKey[]): Promise<SnapshotForeignKey[]> {
+  try {
+    const accepted = (await acceptedForeignKeys(env, schema)).filter((fk) =>
+      !foreignKeys.some((declared) => declared.fromTable === fk.fromTable && declared.fromColumn === fk.fromColumn)
+    );
+    return accepted.length > 0 ? [...foreignKeys, ...accepted] : foreignKeys;
+  } catch (error) {
+    console.error("Error loading accepted relationships:", error);
+    return foreignKeys;
+  }
+}
+
+// Snapshot with accepted relationships merged in; the fingerprint changes
+// with them so cached copies are refreshed after a decision
+export async function withAcceptedSnapshot(env: string, snapshot: SchemaSnapshot): Promise<SchemaSnapshot> {
+  const foreignKeys = await withAcceptedRelationships(env, snapshot.schema, snapshot.foreignKeys);
+  if (foreignKeys === snapshot.foreignKeys) return snapshot;
+  return { ...snapshot, foreignKeys, fingerprint: fingerprintSchema(snapshot.tables, foreignKeys) };
+}
@@ -0,0 +1,91 @@
+import { CHART_CONFIG_OUTPUT, complete, completeStructured, type ChartConfig } from "@/lib/llm";
+import type { ConversationMessage } from "@/lib/conversation";
+import { maskRowsForPrompt } from "@/lib/masking";
+import { CHART_CONFIG, RESULT_INTERPRETATION } from "@/lib/prompts";
+
+// Explains and charts a query's results. Rows are masked before they reach
+// a prompt. Used by /api/interpret-results, /api/generate-chart-config and
+// the /api/ask pipeline.
+
+export interface InsightResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+export interface InterpretationParams {
+  env?: string;
+  question: string;
+  sql: string;
+  result: InsightResult;
+  conversationContext?: ConversationMessage[];
+}
+
+export interface ChartConfigParams {
+  env?: string;
+  question: string;
+  sql?: string;
+  result: InsightResult;
+  interpretation?: string;
+}
+
+export async function interpretResults(params: InterpretationParams): Promise<{ interpretation: string; promptVersion: string }> {
+  const { env, question, sql, result, conversationContext } = params;
+
+  // Build conversation history if provided
+  const conversationHistory = conversationContext && conversationContext.length > 0
+    ? conversationContext.map((msg) => {
+        let text = `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+        if (msg.result) text += ` (${msg.result.rowCount} rows returned)`;
+        return text;
+      }).join('\n')
+    : '';
+
+  const prompt = RESULT_INTERPRETATION.render({
+    question,
+    sql,
+    conversation: conversationHistory,
+    rowCount: String(result.rowCount),
+    rows: JSON.stringify(await maskRowsForPrompt(result.rows.slice(0, 10), { env }), null, 2),
+    truncated: result.rowCount > 10,
+    shownRows: "10",
+  });
+
+  const completion = await complete("interpretation", {
+    messages: prompt.messages,
+    promptVersion: prompt.promptVersion,
+    temperature: 0.7,
+    maxTokens: 500,
+  });
+
+  return { interpretation: completion.content, promptVersion: prompt.promptVersion };
+}
+
+export async function generateChartConfig(params: ChartConfigParams): Promise<{ chartConfig: ChartConfig; promptVersion: string }> {
+  const { env, question, sql, result, interpretation } = params;
+
+  // Prepare data summary for the prompt
+  const dataSummary = {
+    columns: result.columns,
+    rowCount: result.rowCount,
+    sampleRows: await maskRowsForPrompt(result.rows.slice(0, 5), { env }),
+  };
+
+  const prompt = CHART_CONFIG.render({
+    question,
+    sql: sql ?? '',
+    interpretation: interpretation ?? '',
+    columns: dataSummary.columns.join(', '),
+    rowCount: String(dataSummary.rowCount),
+    sampleRows: JSON.stringify(dataSummary.sampleRows, null, 2),
+  });
+
+  const { value: chartConfig } = await completeStructured("charting", {
+    messages: prompt.messages,
+    promptVersion: prompt.promptVersion,
+    temperature: 0.2,
+    maxTokens: 1500,
+  }, CHART_CONFIG_OUTPUT);
+
+  return { chartConfig, promptVersion: prompt.promptVersion };
+}
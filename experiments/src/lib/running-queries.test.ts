@@ -0,0 +1,47 @@
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { cancelQuery, QueryInterruptedError, trackQuery } from "@/lib/running-queries";
+
+// Answers the backend pid lookup trackQuery sends before the statement
+function fakeClient(): PoolClient {
+  return { query: vi.fn(async () => ({ rows: [{ pid: 42 }] })) } as unknown as PoolClient;
+}
+
+const pool = {} as Pool;
+
+describe("cancelQuery", () => {
+  it("holds a cancel that arrives before its query and applies it when the query starts", async () => {
+    const handle = { env: "dev", queryId: "early-cancel-1" };
+    expect(await cancelQuery(pool, handle)).toBe("pending");
+
+    const run = vi.fn(async () => "rows");
+    const error = await trackQuery(fakeClient(), handle, run).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(QueryInterruptedError);
+    expect(error.errorType).toBe("cancelled");
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("applies an early cancel once", async () => {
+    const handle = { env: "dev", queryId: "early-cancel-2" };
+    await cancelQuery(pool, handle);
+    await trackQuery(fakeClient(), handle, async () => "rows").catch(() => {});
+
+    expect(await trackQuery(fakeClient(), handle, async () => "rows")).toBe("rows");
+  });
+
+  it("leaves queries of other environments alone", async () => {
+    await cancelQuery(pool, { env: "prod", queryId: "early-cancel-3" });
+
+    expect(await trackQuery(fakeClient(), { env: "dev", queryId: "early-cancel-3" }, async () => "rows")).toBe("rows");
+  });
+
+  it("reports a query that already finished as not running", async () => {
+    const handle = { env: "dev", queryId: "late-cancel-1" };
+    await trackQuery(fakeClient(), handle, async () => "rows");
+
+    expect(await cancelQuery(pool, handle)).toBe("not_running");
+    // Nothing was held for a later run with the same id (the next page, say)
+    expect(await trackQuery(fakeClient(), handle, async () => "rows")).toBe("rows");
+  });
+});
@@ -0,0 +1,138 @@
+import type { Pool, PoolClient } from "pg";
+import { queryRows } from "@/lib/db";
+
+// How a query stopped early; "error" covers everything else (syntax, permissions, ...)
+export type QueryErrorType = "timeout" | "cancelled" | "error";
+
+// Identifies a running query so it can be cancelled from another request
+export interface QueryHandle {
+  env: string;
+  queryId: string;
+}
+
+interface RunningQuery extends QueryHandle {
+  pid: number;
+  startedAt: number;
+  cancelRequested: boolean;
+}
+
+// A query that isn't running: cancelled before it started, or finished
+interface RecentQuery {
+  env: string;
+  state: "cancel_requested" | "finished";
+  expiresAt: number;
+}
+
+// "pending": the query hasn't started; it is cancelled as soon as it does
+export type CancelOutcome = "cancelled" | "pending" | "not_running";
+
+// Raised when PostgreSQL stopped a statement because of statement_timeout
+// or pg_cancel_backend
+export class QueryInterruptedError extends Error {
+  constructor(public readonly errorType: "timeout" | "cancelled", message: string) {
+    super(message);
+    this.name = "QueryInterruptedError";
+  }
+}
+
+// SQLSTATE query_canceled, used for both timeouts and cancel requests
+const QUERY_CANCELED = "57014";
+const QUERY_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+// How long an early cancel waits for its query, and how long a finished
+// query is remembered so a late cancel isn't taken for an early one
+const RECENT_QUERY_TTL_MS = 30000;
+
+const globalForQueries = globalThis as unknown as {
+  __runningQueries?: Map<string, RunningQuery>;
+  __recentQueries?: Map<string, RecentQuery>;
+};
+const running = globalForQueries.__runningQueries ?? (globalForQueries.__runningQueries = new Map());
+const recent = globalForQueries.__recentQueries ?? (globalForQueries.__recentQueries = new Map());
+
+function remember(queryId: string, env: string, state: RecentQuery["state"]) {
+  const now = Date.now();
+  for (const [id, entry] of recent) {
+    if (entry.expiresAt <= now) recent.delete(id);
+  }
+  recent.set(queryId, { env, state, expiresAt: now + RECENT_QUERY_TTL_MS });
+}
+
+// True (once) when a cancel for the handle arrived before its query started
+function takeEarlyCancel(handle: QueryHandle): boolean {
+  const entry = recent.get(handle.queryId);
+  if (!entry || entry.state !== "cancel_requested" || entry.env !== handle.env || entry.expiresAt <= Date.now()) {
+    return false;
+  }
+  recent.delete(handle.queryId);
+  return true;
+}
+
+// Query ids may come from the client so it can cancel before the response arrives
+export function isValidQueryId(value: unknown): value is string {
+  return typeof value === "string" && QUERY_ID_PATTERN.test(value);
+}
+
+function isQueryCanceled(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === QUERY_CANCELED;
+}
+
+// Runs a statement on a checked-out client, registering its backend pid
+// under the handle while it runs. Timeouts and cancellations are rethrown
+// as QueryInterruptedError; a cancel that arrived before the query stops it
+// before it runs.
+export async function trackQuery<T>(
+  client: PoolClient,
+  handle: QueryHandle | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  let entry: RunningQuery | undefined;
+
+  try {
+    if (handle) {
+      const [{ pid }] = (await client.query<{ pid: number }>("SELECT pg_backend_pid() AS pid")).rows;
+      entry = { ...handle, pid, startedAt: Date.now(), cancelRequested: false };
+      running.set(handle.queryId, entry);
+
+      if (takeEarlyCancel(handle)) {
+        entry.cancelRequested = true;
+        throw new QueryInterruptedError("cancelled", "Query was cancelled");
+      }
+    }
+
+    return await run();
+  } catch (error) {
+    if (isQueryCanceled(error)) {
+      throw entry?.cancelRequested
+        ? new QueryInterruptedError("cancelled", "Query was cancelled")
+        : new QueryInterruptedError("timeout", "Query exceeded the statement timeout");
+    }
+    throw error;
+  } finally {
+    if (entry && running.get(entry.queryId) === entry) {
+      running.delete(entry.queryId);
+      remember(entry.queryId, entry.env, "finished");
+    }
+  }
+}
+
+// Asks PostgreSQL to cancel a running query. A query that hasn't started
+// yet (the cancel overtook it) is cancelled when it does; one that already
+// finished or belongs to another environment is left alone.
+export async function cancelQuery(pool: Pool, handle: QueryHandle): Promise<CancelOutcome> {
+  const entry = running.get(handle.queryId);
+
+  if (!entry) {
+    if (recent.get(handle.queryId)?.state === "finished") return "not_running";
+    remember(handle.queryId, handle.env, "cancel_requested");
+    return "pending";
+  }
+  if (entry.env !== handle.env) return "not_running";
+
+  entry.cancelRequested = true;
+  const [row] = await queryRows<{ cancelled: boolean }>(pool, "SELECT pg_cancel_backend($1) AS cancelled", [entry.pid]);
+  return row?.cancelled ? "cancelled" : "not_running";
+}
+
+export function toQueryErrorType(error: unknown): QueryErrorType {
+  return error instanceof QueryInterruptedError ? error.errorType : "error";
+}
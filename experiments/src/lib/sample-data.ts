@@ -0,0 +1,230 @@
+import { DIALECT_LABELS, placeholderFor, qualifiedTableName, quoteIdentifierFor, type SqlDialect } from "@/lib/dialects";
+import type { CatalogColumn, CatalogTable, DatabaseDriver } from "@/lib/drivers";
+
+export type SampleMode = "first" | "tablesample" | "random" | "recent";
+
+export type SampleFilterOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "like" | "is_null" | "not_null";
+
+export interface SampleFilter {
+  column: string;
+  operator: SampleFilterOperator;
+  value?: string | number | boolean | null;
+}
+
+export interface SampleRequest {
+  schema: string;
+  table: string;
+  mode?: SampleMode;
+  limit?: number;
+  // tablesample: percentage of the table's pages to read
+  percent?: number;
+  // recent: the timestamp column to order by; picked from the catalog when omitted
+  orderBy?: string;
+  columns?: string[];
+  filters?: SampleFilter[];
+}
+
+export interface SampleQuery {
+  statement: string;
+  params: (string | number | boolean | null)[];
+  schema: string;
+  table: string;
+  columns: CatalogColumn[];
+  mode: SampleMode;
+  limit: number;
+  orderBy?: string;
+}
+
+// Raised for requests that name something the catalog doesn't have (404)
+// or that can't be sampled as asked (400)
+export class SampleDataError extends Error {
+  constructor(message: string, public readonly status: 400 | 404) {
+    super(message);
+    this.name = "SampleDataError";
+  }
+}
+
+export const SAMPLE_MODES: SampleMode[] = ["first", "tablesample", "random", "recent"];
+const DEFAULT_SAMPLE_ROWS = 10;
+const MAX_SAMPLE_ROWS = 100;
+const DEFAULT_SAMPLE_PERCENT = 10;
+const MAX_FILTERS = 10;
+
+const COMPARISON_OPERATORS: Record<Exclude<SampleFilterOperator, "is_null" | "not_null">, string> = {
+  "=": "=",
+  "!=": "<>",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+  like: "LIKE",
+};
+
+const TIMESTAMP_TYPE = /date|time/i;
+// Preferred when several columns could order "most recent"
+const RECENCY_NAMES = ["created_at", "updated_at", "inserted_at", "timestamp", "date"];
+
+// Accepts names as typed or already quoted ("OrderItems", `order items`)
+function unquote(name: string): string {
+  const trimmed = name.trim();
+  const match = /^"([^]*)"$/.exec(trimmed) ?? /^`([^]*)`$/.exec(trimmed);
+  if (!match) return trimmed;
+  return trimmed.startsWith('"') ? match[1].replace(/""/g, '"') : match[1].replace(/``/g, "`");
+}
+
+// Exact match first, then a case-insensitive one if it is unambiguous, so
+// "orderitems" still finds "OrderItems" but never picks between two tables
+function resolveName(requested: unknown, available: string[], kind: string): string {
+  if (typeof requested !== "string" || !requested.trim()) {
+    throw new SampleDataError(`${kind} names must be non-empty strings`, 400);
+  }
+
+  const name = unquote(requested);
+  if (available.includes(name)) return name;
+
+  const folded = available.filter((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  if (folded.length === 1) return folded[0];
+
+  throw new SampleDataError(`${kind} "${name}" not found`, 404);
+}
+
+export interface ResolvedTable {
+  schema: string;
+  table: CatalogTable;
+  columns: CatalogColumn[];
+}
+
+// Looks a table up in the live catalog, so only names the database returned
+// ever reach a statement
+export async function resolveTable(driver: DatabaseDriver, schema: unknown, table: unknown): Promise<ResolvedTable> {
+  const schemaName = resolveName(schema, await driver.listSchemas(), "Schema");
+  const tables = await driver.listTables(schemaName);
+  const tableName = resolveName(table, tables.map((entry) => entry.name), "Table");
+
+  return {
+    schema: schemaName,
+    table: tables.find((entry) => entry.name === tableName)!,
+    columns: await driver.listColumns(schemaName, tableName),
+  };
+}
+
+export function tableSampleClause(dialect: SqlDialect, percent: number): string {
+  switch (dialect) {
+    case "postgres":
+      return ` TABLESAMPLE SYSTEM (${percent})`;
+    case "duckdb":
+      return ` TABLESAMPLE ${percent}% (system)`;
+    default:
+      throw new SampleDataError(`TABLESAMPLE is not available for ${DIALECT_LABELS[dialect]} environments; use random sampling instead`, 400);
+  }
+}
+
+function randomFunction(dialect: SqlDialect): string {
+  return dialect === "mysql" ? "RAND()" : "random()";
+}
+
+function pickRecencyColumn(columns: CatalogColumn[]): CatalogColumn | undefined {
+  const timestamps = columns.filter((column) => TIMESTAMP_TYPE.test(column.type));
+  for (const name of RECENCY_NAMES) {
+    const match = timestamps.find((column) => column.name.toLowerCase() === name);
+    if (match) return match;
+  }
+  return timestamps[0];
+}
+
+// Validates a sample request against the live catalog and builds its SELECT.
+// Every identifier is one the catalog returned, quoted for the dialect, and
+// every filter value is a bind parameter.
+export async function buildSampleQuery(driver: DatabaseDriver, request: SampleRequest): Promise<SampleQuery> {
+  const { dialect } = driver;
+  const mode = request.mode ?? "first";
+  if (!SAMPLE_MODES.includes(mode)) {
+    throw new SampleDataError(`Mode must be one of: ${SAMPLE_MODES.join(", ")}`, 400);
+  }
+
+  const limit = request.limit ?? DEFAULT_SAMPLE_ROWS;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SAMPLE_ROWS) {
+    throw new SampleDataError(`Limit must be a whole number from 1 to ${MAX_SAMPLE_ROWS}`, 400);
+  }
+
+  const resolved = await resolveTable(driver, request.schema, request.table);
+  const { schema, columns: catalogColumns } = resolved;
+  const table = resolved.table.name;
+  const columnNames = catalogColumns.map((column) => column.name);
+  const quote = (name: string) => quoteIdentifierFor(dialect, name);
+
+  if (request.columns !== undefined && !Array.isArray(request.columns)) {
+    throw new SampleDataError("Columns must be a list of column names", 400);
+  }
+  const filters = request.filters ?? [];
+  if (!Array.isArray(filters) || filters.length > MAX_FILTERS) {
+    throw new SampleDataError(`Filters must be a list of at most ${MAX_FILTERS} conditions`, 400);
+  }
+
+  const projected = request.columns && request.columns.length > 0
+    ? [...new Set(request.columns.map((column) => resolveName(column, columnNames, "Column")))]
+    : [];
+  const projection = projected.length > 0 ? projected.map(quote).join(", ") : "*";
+
+  const params: SampleQuery["params"] = [];
+  const conditions = filters.map((filter: SampleFilter) => {
+    if (!filter || typeof filter !== "object") {
+      throw new SampleDataError("Each filter needs a column and an operator", 400);
+    }
+    const column = quote(resolveName(filter.column, columnNames, "Column"));
+
+    if (filter.operator === "is_null") return `${column} IS NULL`;
+    if (filter.operator === "not_null") return `${column} IS NOT NULL`;
+
+    const operator = COMPARISON_OPERATORS[filter.operator as keyof typeof COMPARISON_OPERATORS];
+    if (!operator) {
+      throw new SampleDataError(`Unsupported filter operator "${filter.operator}"`, 400);
+    }
+    if (filter.value === undefined || filter.value === null || typeof filter.value === "object") {
+      throw new SampleDataError(`Filter on "${filter.column}" needs a value`, 400);
+    }
+
+    params.push(filter.value);
+    return `${column} ${operator} ${placeholderFor(dialect, params.length)}`;
+  });
+
+  let from = qualifiedTableName(dialect, schema, table);
+  let orderClause = "";
+  let orderBy: string | undefined;
+
+  if (mode === "tablesample") {
+    const percent = request.percent ?? DEFAULT_SAMPLE_PERCENT;
+    if (typeof percent !== "number" || !(percent > 0 && percent <= 100)) {
+      throw new SampleDataError("Percent must be greater than 0 and at most 100", 400);
+    }
+    // Sampling reads physical pages, which views don't have
+    if (resolved.table.type !== "BASE TABLE") {
+      throw new SampleDataError(`TABLESAMPLE only works on tables, and "${table}" is a view; use random sampling instead`, 400);
+    }
+    from += tableSampleClause(dialect, percent);
+  } else if (mode === "random") {
+    orderClause = ` ORDER BY ${randomFunction(dialect)}`;
+  } else if (mode === "recent") {
+    const column = request.orderBy
+      ? catalogColumns.find((entry) => entry.name === resolveName(request.orderBy!, columnNames, "Column"))
+      : pickRecencyColumn(catalogColumns);
+    if (!column) {
+      throw new SampleDataError(`Table "${table}" has no date or time column; choose one with orderBy`, 400);
+    }
+    orderBy = column.name;
+    orderClause = ` ORDER BY ${quote(column.name)} DESC`;
+  }
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+
+  return {
+    statement: `SELECT ${projection} FROM ${from}${where}${orderClause} LIMIT ${limit}`,
+    params,
+    schema,
+    table,
+    columns: catalogColumns,
+    mode,
+    limit,
+    ...(orderBy ? { orderBy } : {}),
+  };
+}
@@ -0,0 +1,41 @@
+// Client-side cache of /api/schema-snapshot responses, revalidated with the
+// snapshot's ETag so unchanged schemas are not downloaded again
+
+import type { SchemaSnapshot } from "@/lib/schema-snapshot";
+
+interface CachedSnapshot {
+  etag: string;
+  snapshot: SchemaSnapshot;
+}
+
+const snapshots = new Map<string, CachedSnapshot>();
+
+export async function fetchSchemaSnapshot(env: string, schema: string): Promise<SchemaSnapshot> {
+  const key = `${env}/${schema}`;
+  const cached = snapshots.get(key);
+
+  const response = await fetch("/api/schema-snapshot", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(cached ? { "If-None-Match": cached.etag } : {}),
+    },
+    body: JSON.stringify({ env, schema }),
+  });
+
+  if (response.status === 304 && cached) {
+    return cached.snapshot;
+  }
+
+  if (!response.ok) {
+    throw new Error("Failed to load schema snapshot");
+  }
+
+  const data = await response.json();
+  const etag = response.headers.get("ETag");
+  if (etag) {
+    snapshots.set(key, { etag, snapshot: data.snapshot });
+  }
+
+  return data.snapshot;
+}
@@ -0,0 +1,141 @@
+// Pure comparison helpers for schema snapshots, shared by /api/schema-diff
+// and the pages that check saved SQL against the current schema
+
+import type { SchemaSnapshot, SnapshotColumn, SnapshotForeignKey } from "@/lib/schema-snapshot";
+
+export interface ColumnRef {
+  table: string;
+  column: string;
+}
+
+export interface TypedColumnRef extends ColumnRef {
+  type: string;
+}
+
+export interface TypeChange {
+  from: string;
+  to: string;
+}
+
+export interface SchemaDiff {
+  tables: {
+    added: string[];
+    removed: string[];
+    // e.g. a table replaced by a view of the same name
+    retyped: ({ table: string } & TypeChange)[];
+  };
+  // Only for tables present on both sides; columns of added or removed
+  // tables are implied by the table change
+  columns: {
+    added: TypedColumnRef[];
+    removed: TypedColumnRef[];
+    retyped: (ColumnRef & TypeChange)[];
+  };
+  // Matched on columns rather than constraint names, which differ between environments
+  foreignKeys: {
+    added: SnapshotForeignKey[];
+    removed: SnapshotForeignKey[];
+  };
+  identical: boolean;
+}
+
+function columnType(column: SnapshotColumn): string {
+  return column.maxLength ? `${column.type}(${column.maxLength})` : column.type;
+}
+
+function foreignKeyKey(fk: SnapshotForeignKey): string {
+  return `${fk.fromTable}.${fk.fromColumn}->${fk.toTable}.${fk.toColumn}`;
+}
+
+export function diffSnapshots(from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff {
+  const fromTables = new Map(from.tables.map((table) => [table.name, table]));
+  const toTables = new Map(to.tables.map((table) => [table.name, table]));
+
+  const diff: SchemaDiff = {
+    tables: { added: [], removed: [], retyped: [] },
+    columns: { added: [], removed: [], retyped: [] },
+    foreignKeys: { added: [], removed: [] },
+    identical: false,
+  };
+
+  for (const [name, table] of toTables) {
+    if (!fromTables.has(name)) diff.tables.added.push(table.name);
+  }
+
+  for (const [name, before] of fromTables) {
+    const after = toTables.get(name);
+    if (!after) {
+      diff.tables.removed.push(name);
+      continue;
+    }
+
+    if (before.type !== after.type) {
+      diff.tables.retyped.push({ table: name, from: before.type, to: after.type });
+    }
+
+    const beforeColumns = new Map(before.columns.map((column) => [column.name, column]));
+    const afterColumns = new Map(after.columns.map((column) => [column.name, column]));
+
+    for (const [columnName, column] of afterColumns) {
+      if (!beforeColumns.has(columnName)) {
+        diff.columns.added.push({ table: name, column: columnName, type: columnType(column) });
+      }
+    }
+
+    for (const [columnName, column] of beforeColumns) {
+      const afterColumn = afterColumns.get(columnName);
+      if (!afterColumn) {
+        diff.columns.removed.push({ table: name, column: columnName, type: columnType(column) });
+      } else if (columnType(column) !== columnType(afterColumn)) {
+        diff.columns.retyped.push({ table: name, column: columnName, from: columnType(column), to: columnType(afterColumn) });
+      }
+    }
+  }
+
+  const fromKeys = new Set(from.foreignKeys.map(foreignKeyKey));
+  const toKeys = new Set(to.foreignKeys.map(foreignKeyKey));
+  diff.foreignKeys.added = to.foreignKeys.filter((fk) => !fromKeys.has(foreignKeyKey(fk)));
+  diff.foreignKeys.removed = from.foreignKeys.filter((fk) => !toKeys.has(foreignKeyKey(fk)));
+
+  diff.identical = [
+    diff.tables.added, diff.tables.removed, diff.tables.retyped,
+    diff.columns.added, diff.columns.removed, diff.columns.retyped,
+    diff.foreignKeys.added, diff.foreignKeys.removed,
+  ].every((list) => list.length === 0);
+
+  return diff;
+}
+
+// Identifiers used in a query, with string literals and comments removed.
+// Unquoted names are lower-cased the way PostgreSQL folds them.
+function sqlIdentifiers(sql: string): Set<string> {
+  const code = sql
+    .replace(/--[^\n]*/g, " ")
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .replace(/'(?:[^']|'')*'/g, " ");
+
+  const identifiers = new Set<string>();
+  for (const match of code.matchAll(/"((?:[^"]|"")+)"|[A-Za-z_][A-Za-z0-9_$]*/g)) {
+    identifiers.add(match[1] !== undefined ? match[1].replace(/""/g, '"') : match[0].toLowerCase());
+  }
+  return identifiers;
+}
+
+// Columns of the given tables that a query mentions by name. Recorded when
+// a query is saved so it can later be checked against newer snapshots.
+export function findColumnReferences(sql: string, tables: { table: string; columns: { name: string }[] }[]): ColumnRef[] {
+  const identifiers = sqlIdentifiers(sql);
+  return tables.flatMap(({ table, columns }) =>
+    identifiers.has(table)
+      ? columns.filter((column) => identifiers.has(column.name)).map((column) => ({ table, column: column.name }))
+      : []
+  );
+}
+
+// References whose table or column no longer exists in the snapshot
+export function findMissingReferences(references: ColumnRef[], snapshot: SchemaSnapshot): ColumnRef[] {
+  return references.filter((ref) => {
+    const table = snapshot.tables.find((t) => t.name === ref.table);
+    return !table || !table.columns.some((column) => column.name === ref.column);
+  });
+}
@@ -0,0 +1,324 @@
+import { createHash } from "crypto";
+import { getDriver } from "@/lib/drivers";
+import { getGlossary, type GlossaryEntry } from "@/lib/glossary";
+import { withAcceptedSnapshot } from "@/lib/relationship-inference";
+import { buildSchemaSnapshot, type SchemaSnapshot } from "@/lib/schema-snapshot";
+import { recordSnapshot } from "@/lib/snapshot-history";
+
+// Narrows a schema with hundreds of tables down to the few a question is
+// about before any of it reaches a prompt. Each table is indexed as a
+// document of its name, column names, glossary descriptions and the names of
+// the tables it shares a foreign key with. Questions are ranked against it
+// twice, with BM25 over words and with cosine similarity over hashed
+// character trigrams (which catches "cust" for "customers"), and the two
+// rankings are fused. The top tables are then expanded along foreign keys
+// so join tables come along.
+
+export interface RetrievedTable {
+  table: string;
+  score: number;
+  // "match": ranked for the question; "foreign key": joined to a match;
+  // "conversation": identified earlier in the conversation; "schema": the
+  // schema is small enough to offer every table
+  reason: "match" | "foreign key" | "conversation" | "schema";
+  // Matched table the foreign key leads from
+  via?: string;
+}
+
+export interface RetrievalOptions {
+  // Tables taken from the ranking
+  topK?: number;
+  // Upper bound on candidates after expansion
+  maxCandidates?: number;
+  // Tables the conversation already settled on
+  previousTables?: string[];
+}
+
+export interface TableDocument {
+  table: string;
+  // Weighted tokens: the name counts most, neighbors least
+  terms: Map<string, number>;
+  vector: Float32Array;
+  neighbors: string[];
+}
+
+interface SchemaIndex {
+  key: string;
+  documents: TableDocument[];
+  averageLength: number;
+  // Documents containing each term
+  documentFrequency: Map<string, number>;
+}
+
+const DEFAULT_TOP_K = 8;
+const DEFAULT_MAX_CANDIDATES = 20;
+const VECTOR_SIZE = 512;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Reciprocal rank fusion constant
+const RRF_K = 60;
+// Trigram similarity below this is noise shared by unrelated names
+// ("revenue" and "event")
+const MIN_TRIGRAM_SIMILARITY = 0.35;
+const MAX_INDEXES = 20;
+
+const NAME_WEIGHT = 3;
+const COLUMN_WEIGHT = 1;
+const GLOSSARY_WEIGHT = 1;
+const NEIGHBOR_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "did", "do", "does", "for", "from", "how", "i", "in", "is", "it",
+  "me", "many", "much", "of", "on", "or", "per", "show", "that", "the", "their", "there", "this", "to", "was", "we",
+  "were", "what", "when", "where", "which", "who", "with", "give", "list", "find", "get", "all", "each",
+]);
+
+// Indexes are rebuilt when the schema fingerprint or the glossary changes
+const globalForIndexes = globalThis as unknown as { __schemaIndexes?: Map<string, SchemaIndex> };
+const indexes = globalForIndexes.__schemaIndexes ?? (globalForIndexes.__schemaIndexes = new Map());
+
+// "orderItems", "order_items" and "Order Items" -> ["order", "item"]
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    // Bare numbers are limits and years, not names
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+// Crude plural folding; enough for "orders"/"order" and "categories"/"category"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(s|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function addTerms(terms: Map<string, number>, text: string, weight: number) {
+  for (const token of tokenize(text)) {
+    terms.set(token, (terms.get(token) ?? 0) + weight);
+  }
+}
+
+// FNV-1a over three characters
+function hashTrigram(text: string, start: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = start; i < start + 3; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Hashed character trigrams of each token, L2-normalized
+function trigramVector(terms: Map<string, number>): Float32Array {
+  const vector = new Float32Array(VECTOR_SIZE);
+  for (const [term, weight] of terms) {
+    const padded = ` ${term} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      vector[hashTrigram(padded, i) % VECTOR_SIZE] += weight;
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+function neighborsOf(snapshot: Pick<SchemaSnapshot, "foreignKeys">, table: string): string[] {
+  const neighbors = new Set<string>();
+  for (const fk of snapshot.foreignKeys) {
+    if (fk.fromTable === table && fk.toTable !== table) neighbors.add(fk.toTable);
+    if (fk.toTable === table && fk.fromTable !== table) neighbors.add(fk.fromTable);
+  }
+  return [...neighbors];
+}
+
+export function buildTableDocuments(snapshot: Pick<SchemaSnapshot, "tables" | "foreignKeys">, glossary: GlossaryEntry[] = []): TableDocument[] {
+  return snapshot.tables.map((table) => {
+    const terms = new Map<string, number>();
+    const neighbors = neighborsOf(snapshot, table.name);
+
+    addTerms(terms, table.name, NAME_WEIGHT);
+    for (const column of table.columns) addTerms(terms, column.name, COLUMN_WEIGHT);
+    for (const entry of glossary) {
+      if (entry.table === table.name) addTerms(terms, entry.description, GLOSSARY_WEIGHT);
+    }
+    for (const neighbor of neighbors) addTerms(terms, neighbor, NEIGHBOR_WEIGHT);
+
+    return { table: table.name, terms, vector: trigramVector(terms), neighbors };
+  });
+}
+
+function toIndex(key: string, documents: TableDocument[]): SchemaIndex {
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  for (const document of documents) {
+    for (const [term, weight] of document.terms) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      totalLength += weight;
+    }
+  }
+
+  return {
+    key,
+    documents,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    documentFrequency,
+  };
+}
+
+function documentLength(document: TableDocument): number {
+  let length = 0;
+  for (const weight of document.terms.values()) length += weight;
+  return length;
+}
+
+function bm25(index: SchemaIndex, document: TableDocument, queryTerms: string[]): number {
+  const count = index.documents.length;
+  const length = documentLength(document);
+  let score = 0;
+
+  for (const term of queryTerms) {
+    const frequency = document.terms.get(term);
+    if (!frequency) continue;
+
+    const df = index.documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+    score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / (index.averageLength || 1))));
+  }
+  return score;
+}
+
+// Fuses the BM25 and trigram rankings; tables neither ranking matched are left out
+function rankTables(index: SchemaIndex, question: string): { table: string; score: number }[] {
+  const queryTerms = [...new Set(tokenize(question))];
+  if (queryTerms.length === 0) return [];
+
+  const queryWeights = new Map(queryTerms.map((term) => [term, 1]));
+  const queryVector = trigramVector(queryWeights);
+
+  const scored = index.documents.map((document) => ({
+    table: document.table,
+    lexical: bm25(index, document, queryTerms),
+    semantic: cosine(queryVector, document.vector),
+  }));
+
+  const lexicalRank = new Map(
+    scored.filter((entry) => entry.lexical > 0).sort((a, b) => b.lexical - a.lexical).map((entry, rank) => [entry.table, rank])
+  );
+  const semanticRank = new Map(
+    scored.filter((entry) => entry.semantic > MIN_TRIGRAM_SIMILARITY).sort((a, b) => b.semantic - a.semantic).map((entry, rank) => [entry.table, rank])
+  );
+
+  return scored
+    .map((entry) => {
+      const lexical = lexicalRank.get(entry.table);
+      const semantic = semanticRank.get(entry.table);
+      const score = (lexical !== undefined ? 1 / (RRF_K + lexical) : 0) + (semantic !== undefined ? 1 / (RRF_K + semantic) : 0);
+      return { table: entry.table, score };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.table.localeCompare(b.table));
+}
+
+// Takes the top-K ranked tables, then the tables they share foreign keys
+// with, then any the conversation already used, up to maxCandidates.
+// Schemas that fit within maxCandidates are offered whole, matches first,
+// so a question worded unlike any table name still finds its tables.
+export function selectCandidates(documents: TableDocument[], ranked: { table: string; score: number }[], options: RetrievalOptions = {}): RetrievedTable[] {
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const maxCandidates = Math.max(topK, options.maxCandidates ?? DEFAULT_MAX_CANDIDATES);
+  const byTable = new Map(documents.map((document) => [document.table, document]));
+
+  const candidates: RetrievedTable[] = ranked.slice(0, topK).map((entry) => ({ ...entry, reason: "match" }));
+  const included = new Set(candidates.map((candidate) => candidate.table));
+
+  // Neighbors of better matches first
+  for (const match of [...candidates]) {
+    for (const neighbor of byTable.get(match.table)?.neighbors ?? []) {
+      if (candidates.length >= maxCandidates) break;
+      if (included.has(neighbor)) continue;
+      candidates.push({ table: neighbor, score: match.score / 2, reason: "foreign key", via: match.table });
+      included.add(neighbor);
+    }
+  }
+
+  for (const table of options.previousTables ?? []) {
+    if (candidates.length >= maxCandidates) break;
+    if (included.has(table) || !byTable.has(table)) continue;
+    candidates.push({ table, score: 0, reason: "conversation" });
+    included.add(table);
+  }
+
+  if (documents.length <= maxCandidates) {
+    for (const document of documents) {
+      if (!included.has(document.table)) candidates.push({ table: document.table, score: 0, reason: "schema" });
+    }
+  }
+
+  return candidates;
+}
+
+async function getSchemaIndex(env: string, schema: string): Promise<{ index: SchemaIndex; snapshot: SchemaSnapshot }> {
+  const driver = await getDriver(env);
+  if (!driver) throw new Error(`Environment "${env}" is not configured`);
+
+  const [snapshot, glossary] = await Promise.all([
+    buildSchemaSnapshot(driver, schema).then((database) => {
+      // Questions are answered from this read of the catalog, so it's a version too
+      recordSnapshot(env, database).catch((error) => console.error("Error recording schema version:", error));
+      return withAcceptedSnapshot(env, database);
+    }),
+    getGlossary(env, schema).catch((error) => {
+      console.error("Error loading glossary for schema index:", error);
+      return [] as GlossaryEntry[];
+    }),
+  ]);
+
+  const glossaryHash = createHash("sha256").update(JSON.stringify(glossary.map((entry) => [entry.table, entry.column, entry.description]))).digest("hex").slice(0, 16);
+  const key = `${env}\u0000${schema}`;
+  const fullKey = `${snapshot.fingerprint}:${glossaryHash}`;
+
+  const cached = indexes.get(key);
+  if (cached && cached.key === fullKey) return { index: cached, snapshot };
+
+  const index = toIndex(fullKey, buildTableDocuments(snapshot, glossary));
+  indexes.delete(key);
+  indexes.set(key, index);
+  while (indexes.size > MAX_INDEXES) {
+    indexes.delete(indexes.keys().next().value!);
+  }
+  return { index, snapshot };
+}
+
+// Candidate tables for a question, read from the live catalog and glossary
+export async function retrieveTables(
+  env: string,
+  schema: string,
+  question: string,
+  options: RetrievalOptions = {}
+): Promise<{ candidates: RetrievedTable[]; snapshot: SchemaSnapshot }> {
+  const { index, snapshot } = await getSchemaIndex(env, schema);
+  return { candidates: selectCandidates(index.documents, rankTables(index, question), options), snapshot };
+}
+
+// Same retrieval over a bare list of table names, for callers without a
+// database to read the catalog from
+export function retrieveFromNames(tables: string[], question: string, options: RetrievalOptions = {}): RetrievedTable[] {
+  const documents = buildTableDocuments({ tables: tables.map((name) => ({ name, type: "BASE TABLE", columns: [] })), foreignKeys: [] });
+  const index = toIndex("names", documents);
+  return selectCandidates(documents, rankTables(index, question), options);
+}
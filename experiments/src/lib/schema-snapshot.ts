@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import type { DatabaseDriver } from "@/lib/drivers";
+
+// Same shape as /api/columns so pages can use either
+export interface SnapshotColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  maxLength: number | null;
+}
+
+export interface SnapshotTable {
+  name: string;
+  // information_schema table_type: "BASE TABLE", "VIEW", "FOREIGN", ...
+  type: string;
+  columns: SnapshotColumn[];
+  // SQL of the view body, for views only
+  viewDefinition?: string;
+}
+
+export interface SnapshotForeignKey {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+  constraintName: string;
+  // Accepted inferred relationship rather than a key declared in the database
+  inferred?: boolean;
+}
+
+export interface SchemaSnapshot {
+  schema: string;
+  // Hash of the tables, columns and foreign keys; changes whenever the schema does
+  fingerprint: string;
+  generatedAt: string;
+  tables: SnapshotTable[];
+  foreignKeys: SnapshotForeignKey[];
+}
+
+export function fingerprintSchema(tables: SnapshotTable[], foreignKeys: SnapshotForeignKey[]): string {
+  return createHash("sha256").update(JSON.stringify({ tables, foreignKeys })).digest("hex").slice(0, 32);
+}
+
+// Everything the experiment pages need about a schema in three catalog
+// queries, instead of one /api/columns request per table
+export async function buildSchemaSnapshot(driver: DatabaseDriver, schema: string): Promise<SchemaSnapshot> {
+  const [catalogTables, columns, foreignKeys] = await Promise.all([
+    driver.listTables(schema),
+    driver.listColumns(schema),
+    driver.listForeignKeys(schema),
+  ]);
+
+  const columnsByTable = new Map<string, SnapshotColumn[]>();
+  for (const { table, ...column } of columns) {
+    const tableColumns = columnsByTable.get(table) ?? [];
+    tableColumns.push(column);
+    columnsByTable.set(table, tableColumns);
+  }
+
+  const tables: SnapshotTable[] = catalogTables.map((table) => ({
+    name: table.name,
+    type: table.type,
+    columns: columnsByTable.get(table.name) ?? [],
+    ...(table.viewDefinition ? { viewDefinition: table.viewDefinition } : {}),
+  }));
+
+  return {
+    schema,
+    fingerprint: fingerprintSchema(tables, foreignKeys),
+    generatedAt: new Date().toISOString(),
+    tables,
+    foreignKeys,
+  };
+}
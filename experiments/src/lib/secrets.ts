@@ -0,0 +1,34 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+
+function getKey(): Buffer {
+  const secret = process.env.CONNECTION_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("CONNECTION_ENCRYPTION_KEY is not configured");
+  }
+  // Derive a fixed-length key so any passphrase can be used
+  return createHash("sha256").update(secret).digest();
+}
+
+export function hasEncryptionKey(): boolean {
+  return !!process.env.CONNECTION_ENCRYPTION_KEY;
+}
+
+// Returns "iv:authTag:ciphertext", all base64 encoded
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map((part) => part.toString("base64")).join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,276 @@
+import { randomUUID } from "crypto";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+import { qualifiedTableName, type SqlDialect } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { checkReadOnlySql } from "@/lib/sql-guard";
+
+// Business definitions shared by every SQL-generating prompt, so "revenue"
+// means the same thing in each answer. Definitions belong to one schema of
+// one environment.
+
+export type SemanticKind = "metric" | "dimension";
+
+interface SemanticDefinitionBase {
+  id: string;
+  env: string;
+  schema: string;
+  // snake_case, as cited in generated SQL
+  name: string;
+  description?: string;
+  // Base table the expression is evaluated against
+  table: string;
+  // Other words users have for it ("sales", "turnover")
+  synonyms: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MetricDefinition extends SemanticDefinitionBase {
+  // Aggregate SQL expression, e.g. SUM(amount)
+  expression: string;
+  // Predicate rows must match to count, e.g. status = 'shipped'
+  filters?: string;
+  // Column that "per month", "last week" and the like refer to
+  timeColumn?: string;
+}
+
+export interface DimensionDefinition extends SemanticDefinitionBase {
+  // Column or SQL expression to group by, e.g. date_trunc('month', created_at)
+  expression: string;
+}
+
+export interface SemanticModel {
+  metrics: MetricDefinition[];
+  dimensions: DimensionDefinition[];
+}
+
+export interface SemanticDefinitionInput {
+  env?: string;
+  schema?: string;
+  name?: string;
+  description?: string;
+  table?: string;
+  synonyms?: string[] | string;
+  expression?: string;
+  filters?: string;
+  timeColumn?: string;
+}
+
+// The definitions a question refers to
+export interface ResolvedSemantics {
+  metrics: MetricDefinition[];
+  dimensions: DimensionDefinition[];
+}
+
+const MODEL_FILE = "semantic-model.json";
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,62}$/;
+const COLUMN_PATTERN = /^[A-Za-z_][A-Za-z0-9_$]{0,62}$/;
+const CITATION_LINE = /^\s*--\s*metric\b[^\n]*\n?/gim;
+
+async function readModel(): Promise<SemanticModel> {
+  return readJsonFile<SemanticModel>(MODEL_FILE, { metrics: [], dimensions: [] });
+}
+
+export async function getSemanticModel(env: string, schema?: string): Promise<SemanticModel> {
+  const model = await readModel();
+  const inScope = (definition: SemanticDefinitionBase) => definition.env === env && (!schema || definition.schema === schema);
+
+  return {
+    metrics: model.metrics.filter(inScope),
+    dimensions: model.dimensions.filter(inScope),
+  };
+}
+
+function parseSynonyms(synonyms: SemanticDefinitionInput["synonyms"]): string[] {
+  const list = Array.isArray(synonyms) ? synonyms : (synonyms ?? "").split(",");
+  return [...new Set(list.map((synonym) => String(synonym).trim().toLowerCase()).filter(Boolean))];
+}
+
+// Checks the definition the way a generated query would be checked, so an
+// expression can't smuggle a second statement into every prompt
+export async function validateSemanticDefinition(kind: SemanticKind, input: SemanticDefinitionInput): Promise<string | null> {
+  if (!input.env?.trim() || !input.schema?.trim()) return "Environment and schema are required";
+  if (!input.name || !NAME_PATTERN.test(input.name)) {
+    return "Name must start with a letter and contain only lowercase letters, digits and underscores";
+  }
+  if (!input.table?.trim()) return "Base table is required";
+  if (!input.expression?.trim()) return "SQL expression is required";
+  if (kind === "metric" && input.timeColumn && !COLUMN_PATTERN.test(input.timeColumn.trim())) {
+    return "Time column must be a plain column name";
+  }
+
+  const dialect: SqlDialect = await getDialect(input.env);
+  const from = qualifiedTableName(dialect, input.schema.trim(), input.table.trim());
+  const where = kind === "metric" && input.filters?.trim() ? ` WHERE ${input.filters.trim()}` : "";
+  const check = checkReadOnlySql(`SELECT ${input.expression.trim()} AS value FROM ${from}${where}`, undefined, dialect);
+
+  return check.ok ? null : `Invalid SQL in definition: ${check.rejection.reason}`;
+}
+
+function toDefinition(kind: SemanticKind, input: SemanticDefinitionInput, existing?: MetricDefinition | DimensionDefinition): MetricDefinition | DimensionDefinition {
+  const now = new Date().toISOString();
+  const base = {
+    id: existing?.id ?? randomUUID(),
+    env: input.env!.trim(),
+    schema: input.schema!.trim(),
+    name: input.name!,
+    ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+    table: input.table!.trim(),
+    synonyms: parseSynonyms(input.synonyms),
+    expression: input.expression!.trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  if (kind === "dimension") return base;
+
+  return {
+    ...base,
+    ...(input.filters?.trim() ? { filters: input.filters.trim() } : {}),
+    ...(input.timeColumn?.trim() ? { timeColumn: input.timeColumn.trim() } : {}),
+  };
+}
+
+function listFor(model: SemanticModel, kind: SemanticKind): (MetricDefinition | DimensionDefinition)[] {
+  return kind === "metric" ? model.metrics : model.dimensions;
+}
+
+function isDuplicateName(model: SemanticModel, kind: SemanticKind, definition: SemanticDefinitionBase): boolean {
+  return listFor(model, kind).some((other) =>
+    other.id !== definition.id && other.env === definition.env && other.schema === definition.schema && other.name === definition.name
+  );
+}
+
+// Returns null when another definition in the schema already has the name
+export async function createSemanticDefinition(kind: SemanticKind, input: SemanticDefinitionInput): Promise<MetricDefinition | DimensionDefinition | null> {
+  return withFileLock(MODEL_FILE, async () => {
+    const model = await readModel();
+    const definition = toDefinition(kind, input);
+    if (isDuplicateName(model, kind, definition)) return null;
+
+    listFor(model, kind).push(definition);
+    await writeJsonFile(MODEL_FILE, model);
+    return definition;
+  });
+}
+
+export async function findSemanticDefinition(id: string): Promise<{ kind: SemanticKind; definition: MetricDefinition | DimensionDefinition } | undefined> {
+  const model = await readModel();
+  const metric = model.metrics.find((entry) => entry.id === id);
+  if (metric) return { kind: "metric", definition: metric };
+
+  const dimension = model.dimensions.find((entry) => entry.id === id);
+  return dimension ? { kind: "dimension", definition: dimension } : undefined;
+}
+
+// undefined when the id is unknown, null when the new name is taken
+export async function updateSemanticDefinition(id: string, input: SemanticDefinitionInput): Promise<MetricDefinition | DimensionDefinition | null | undefined> {
+  return withFileLock(MODEL_FILE, async () => {
+    const model = await readModel();
+    const kind: SemanticKind | undefined = model.metrics.some((entry) => entry.id === id)
+      ? "metric"
+      : model.dimensions.some((entry) => entry.id === id) ? "dimension" : undefined;
+    if (!kind) return undefined;
+
+    const list = listFor(model, kind);
+    const index = list.findIndex((entry) => entry.id === id);
+    const definition = toDefinition(kind, input, list[index]);
+    if (isDuplicateName(model, kind, definition)) return null;
+
+    list[index] = definition;
+    await writeJsonFile(MODEL_FILE, model);
+    return definition;
+  });
+}
+
+export async function deleteSemanticDefinition(id: string): Promise<boolean> {
+  return withFileLock(MODEL_FILE, async () => {
+    const model = await readModel();
+    const metrics = model.metrics.filter((entry) => entry.id !== id);
+    const dimensions = model.dimensions.filter((entry) => entry.id !== id);
+    if (metrics.length === model.metrics.length && dimensions.length === model.dimensions.length) return false;
+
+    await writeJsonFile(MODEL_FILE, { metrics, dimensions });
+    return true;
+  });
+}
+
+// "Active Users?" -> " active users "
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+function mentions(question: string, definition: SemanticDefinitionBase): boolean {
+  const terms = [definition.name.replace(/_/g, " "), ...definition.synonyms].map((term) => normalizeText(term).trim()).filter(Boolean);
+  return terms.some((term) => question.includes(` ${term} `) || question.includes(` ${term}s `));
+}
+
+// Finds the metrics and dimensions a question mentions by name or synonym
+export async function resolveSemantics(env: string | undefined, schema: string | undefined, question: string): Promise<ResolvedSemantics> {
+  if (!env || !schema || !question) return { metrics: [], dimensions: [] };
+
+  try {
+    const model = await getSemanticModel(env, schema);
+    const normalized = normalizeText(question);
+    return {
+      metrics: model.metrics.filter((metric) => mentions(normalized, metric)),
+      dimensions: model.dimensions.filter((dimension) => mentions(normalized, dimension)),
+    };
+  } catch (error) {
+    // Prompts still work without the model
+    console.error("Error resolving semantic model:", error);
+    return { metrics: [], dimensions: [] };
+  }
+}
+
+function describeMetric(metric: MetricDefinition, schema: string): string {
+  return `${metric.expression} FROM ${schema}.${metric.table}${metric.filters ? ` WHERE ${metric.filters}` : ""}`;
+}
+
+// Prompt section with the definitions a question refers to; empty when it
+// refers to none
+export function formatSemanticsForPrompt(resolved: ResolvedSemantics, schema: string): string {
+  if (resolved.metrics.length === 0 && resolved.dimensions.length === 0) return "";
+
+  const lines = ["Business definitions (use these exactly instead of inventing your own):"];
+
+  for (const metric of resolved.metrics) {
+    lines.push(`  - Metric ${metric.name}${metric.synonyms.length > 0 ? ` (also: ${metric.synonyms.join(", ")})` : ""}: ${describeMetric(metric, schema)}`);
+    if (metric.timeColumn) lines.push(`      time column: ${metric.table}.${metric.timeColumn}`);
+    if (metric.description) lines.push(`      ${metric.description}`);
+  }
+
+  for (const dimension of resolved.dimensions) {
+    lines.push(`  - Dimension ${dimension.name}${dimension.synonyms.length > 0 ? ` (also: ${dimension.synonyms.join(", ")})` : ""}: ${dimension.expression} on ${schema}.${dimension.table}`);
+    if (dimension.description) lines.push(`      ${dimension.description}`);
+  }
+
+  lines.push(
+    "When the question asks for one of these metrics, compute it with its expression over its base table and apply its filters.",
+    "Use the metric's time column for any time grouping or time range unless the question names another column.",
+    "Start the SQL with one comment line per metric used, like: -- metric: <name>"
+  );
+
+  return lines.join("\n");
+}
+
+function squash(sql: string): string {
+  return sql.toLowerCase().replace(/["`\s]+/g, "");
+}
+
+// Replaces whatever metric comments the model wrote with one canonical
+// citation per metric the SQL actually uses: the ones it cited by name, or
+// whose expression appears in the query
+export function citeMetrics(sql: string, resolved: ResolvedSemantics, schema: string): { sql: string; metricsUsed: string[] } {
+  if (resolved.metrics.length === 0) return { sql, metricsUsed: [] };
+
+  const cited = new Set([...sql.matchAll(/--\s*metric\b\s*:?\s*([a-z0-9_]+)/gi)].map((match) => match[1].toLowerCase()));
+  const body = sql.replace(CITATION_LINE, "").trim();
+  const squashedBody = squash(body);
+
+  const used = resolved.metrics.filter((metric) => cited.has(metric.name) || squashedBody.includes(squash(metric.expression)));
+  if (used.length === 0) return { sql: body, metricsUsed: [] };
+
+  const citations = used.map((metric) => `-- metric ${metric.name}: ${describeMetric(metric, schema).replace(/\s+/g, " ")}`);
+  return { sql: `${citations.join("\n")}\n${body}`, metricsUsed: used.map((metric) => metric.name) };
+}
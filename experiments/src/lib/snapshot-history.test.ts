@@ -0,0 +1,61 @@
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { closeDriver, getDriver } from "@/lib/drivers";
+import { buildSchemaSnapshot } from "@/lib/schema-snapshot";
+import { listSnapshotVersions, recordSchemaVersion, recordSnapshot } from "@/lib/snapshot-history";
+import { POST as listColumns } from "@/app/api/columns/route";
+
+const ENV = "history-test";
+let dir: string;
+let filePath: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "snapshot-history-"));
+  filePath = path.join(dir, "shop.db");
+
+  const db = new Database(filePath);
+  db.exec("CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT)");
+  db.close();
+
+  process.env.DATA_DIR = path.join(dir, "data");
+  process.env.CUSTOM_ENVIRONMENTS = JSON.stringify([{ name: ENV, url: `sqlite:${filePath}` }]);
+});
+
+afterAll(async () => {
+  await closeDriver(ENV);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("schema versions", () => {
+  it("are recorded when a page lists columns", async () => {
+    const response = await listColumns(new NextRequest("http://localhost/api/columns", {
+      method: "POST",
+      body: JSON.stringify({ env: ENV, schema: "main", table: "customers" }),
+    }));
+    expect(response.status).toBe(200);
+
+    await vi.waitFor(async () => {
+      expect(await listSnapshotVersions(ENV, "main")).toHaveLength(1);
+    });
+  });
+
+  it("are built at most once per interval by recordSchemaVersion", async () => {
+    const db = new Database(filePath);
+    db.exec("ALTER TABLE customers ADD COLUMN email TEXT");
+    db.close();
+    await closeDriver(ENV);
+    const driver = (await getDriver(ENV))!;
+
+    await recordSchemaVersion(ENV, driver, "main");
+    expect(await listSnapshotVersions(ENV, "main")).toHaveLength(1);
+
+    // A snapshot built elsewhere is still stored right away
+    const stored = await recordSnapshot(ENV, await buildSchemaSnapshot(driver, "main"));
+    expect(stored.version).toBe(2);
+    expect((await recordSnapshot(ENV, await buildSchemaSnapshot(driver, "main"))).version).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { readJsonFile, withFileLock, writeJsonFile } from "@/lib/data-store";
+import type { DatabaseDriver } from "@/lib/drivers";
+import { buildSchemaSnapshot, type SchemaSnapshot } from "@/lib/schema-snapshot";
+
+export interface SnapshotVersion {
+  version: number;
+  env: string;
+  fingerprint: string;
+  capturedAt: string;
+  snapshot: SchemaSnapshot;
+}
+
+// Older versions are dropped once a schema has this many
+const MAX_VERSIONS = Number(process.env.SCHEMA_SNAPSHOT_HISTORY) || 20;
+// Least time between the snapshots recordSchemaVersion builds for a schema
+const RECORD_INTERVAL_MS = Number(process.env.SCHEMA_SNAPSHOT_INTERVAL_MS) || 30000;
+
+const globalForHistory = globalThis as unknown as { __snapshotRecordedAt?: Map<string, number> };
+const recordedAt = globalForHistory.__snapshotRecordedAt ?? (globalForHistory.__snapshotRecordedAt = new Map());
+
+// One file per environment and schema, so a large schema never has to be
+// rewritten because another one changed
+function historyFile(env: string, schema: string): string {
+  return `schema-snapshots/${encodeURIComponent(env)}__${encodeURIComponent(schema)}.json`;
+}
+
+export async function listSnapshotVersions(env: string, schema: string): Promise<SnapshotVersion[]> {
+  return readJsonFile<SnapshotVersion[]>(historyFile(env, schema), []);
+}
+
+export async function getSnapshotVersion(env: string, schema: string, version: number): Promise<SnapshotVersion | undefined> {
+  const versions = await listSnapshotVersions(env, schema);
+  return versions.find((v) => v.version === version);
+}
+
+// Stores the snapshot as a new version when its fingerprint differs from
+// the latest one, and returns the version it belongs to
+export async function recordSnapshot(env: string, snapshot: SchemaSnapshot): Promise<SnapshotVersion> {
+  return withFileLock(historyFile(env, snapshot.schema), async () => {
+    const versions = await listSnapshotVersions(env, snapshot.schema);
+    const latest = versions[versions.length - 1];
+
+    if (latest && latest.fingerprint === snapshot.fingerprint) {
+      return latest;
+    }
+
+    const stored: SnapshotVersion = {
+      version: (latest?.version ?? 0) + 1,
+      env,
+      fingerprint: snapshot.fingerprint,
+      capturedAt: snapshot.generatedAt,
+      snapshot,
+    };
+
+    await writeJsonFile(historyFile(env, snapshot.schema), [...versions, stored].slice(-MAX_VERSIONS));
+    return stored;
+  });
+}
+
+// For introspection that doesn't build a snapshot itself (table and column
+// listings, /api/introspect-schema). Pages list columns one table at a
+// time, so the schema is snapshotted at most once per RECORD_INTERVAL_MS.
+export async function recordSchemaVersion(env: string, driver: DatabaseDriver, schema: string): Promise<void> {
+  const key = `${env}\u0000${schema}`;
+  const last = recordedAt.get(key);
+  if (last !== undefined && Date.now() - last < RECORD_INTERVAL_MS) return;
+
+  recordedAt.set(key, Date.now());
+  try {
+    await recordSnapshot(env, await buildSchemaSnapshot(driver, schema));
+  } catch (error) {
+    recordedAt.delete(key);
+    throw error;
+  }
+}
@@ -0,0 +1,82 @@
+import { completeStructured, SQL_EVALUATION_OUTPUT, type SQLEvaluation } from "@/lib/llm";
+import { DIALECT_LABELS } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { describeForPrompt, loadGlossary } from "@/lib/glossary";
+import { maskRowsForPrompt } from "@/lib/masking";
+import { SQL_EVALUATION } from "@/lib/prompts";
+
+// Grades one generated query, with its execution outcome when it ran. Used
+// by /api/evaluate-sql-query and the /api/ask pipeline.
+
+export interface EvaluatedTable {
+  name: string;
+  columns?: { name: string; type: string }[];
+}
+
+export interface SqlEvaluationParams {
+  env?: string;
+  question: string;
+  sql: string;
+  schema?: string;
+  tables?: EvaluatedTable[];
+  executionSuccess?: boolean;
+  executionError?: string | null;
+  executionResult?: {
+    columns?: string[];
+    rows?: Record<string, unknown>[];
+    rowCount?: number;
+  } | null;
+}
+
+export async function evaluateSql(params: SqlEvaluationParams): Promise<{ evaluation: SQLEvaluation; promptVersion: string }> {
+  const {
+    env,
+    question,
+    sql,
+    schema,
+    tables,
+    executionSuccess = true,
+    executionError = null,
+    executionResult = null,
+  } = params;
+
+  // Build context about the schema
+  let schemaContext = "";
+  if (tables && tables.length > 0) {
+    const glossary = await loadGlossary(env, schema || 'public', tables.map((table) => table.name));
+    schemaContext = tables.map((table) => {
+      const cols = table.columns?.map((col) =>
+        `    - ${col.name}: ${col.type}${describeForPrompt(glossary, table.name, col.name)}`
+      ).join('\n') || '';
+      return `  ${schema || 'public'}.${table.name}:${describeForPrompt(glossary, table.name)}\n${cols}`;
+    }).join('\n\n');
+  }
+
+  // Build execution result context
+  let executionContext = "";
+  if (executionResult && executionSuccess) {
+    executionContext = `- Rows returned: ${executionResult.rowCount || 0}
+- Columns: ${executionResult.columns?.join(', ') || 'N/A'}${executionResult.rows && executionResult.rows.length > 0 ? `
+- Sample data (first 3 rows):
+${JSON.stringify(await maskRowsForPrompt(executionResult.rows.slice(0, 3), { env }), null, 2)}` : ''}`;
+  }
+
+  const prompt = SQL_EVALUATION.render({
+    dialect: DIALECT_LABELS[await getDialect(env)],
+    question,
+    schemaInfo: schemaContext,
+    sql,
+    results: executionContext,
+    hasResults: !!executionResult,
+    executionFailed: !executionSuccess,
+    executionError: String(executionError),
+  });
+
+  const { value: evaluation } = await completeStructured("evaluation", {
+    messages: prompt.messages,
+    promptVersion: prompt.promptVersion,
+    temperature: 0.2,
+  }, SQL_EVALUATION_OUTPUT);
+
+  return { evaluation, promptVersion: prompt.promptVersion };
+}
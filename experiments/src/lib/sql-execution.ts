@@ -0,0 +1,245 @@
+import { randomUUID } from "crypto";
+import { getPool } from "@/lib/db";
+import { DIALECT_LABELS } from "@/lib/dialects";
+import type { DatabaseDriver } from "@/lib/drivers";
+import { cappedStatement } from "@/lib/drivers/shared";
+import type { Environment, QueryGuardrails } from "@/lib/environments";
+import { cursorStatement, openCursor, type CursorPage } from "@/lib/query-cursors";
+import { checkCostPolicy, explainQuery, isCostPolicyEnabled, type CostCheck, type QueryPlan } from "@/lib/query-plan";
+import { checkReadOnlySql, type ReadOnlyResult, type SqlRejection } from "@/lib/sql-guard";
+import { isValidQueryId, toQueryErrorType, type QueryErrorType } from "@/lib/running-queries";
+
+// Server side of /api/execute-sql and /api/explain-sql, also run by the
+// /api/ask pipeline. Refusals and database errors are part of the response
+// rather than thrown, so every caller reports them the same way.
+
+export const MAX_PAGE_SIZE = 1000;
+
+export type ExecutionResult = (ReadOnlyResult | CursorPage) & { rowCount: number };
+
+// What the database said about a query it rejected, for errors raised by
+// the database itself (not timeouts, cancellations or guard refusals)
+export interface DatabaseErrorDetails {
+  // SQLSTATE where the driver reports one ("42703" undefined column), else
+  // the driver's own code ("SQLITE_ERROR")
+  code?: string;
+  // 1-based character offset into the SQL as sent
+  position?: number;
+  hint?: string;
+  detail?: string;
+}
+
+// The JSON body of a (non-streamed) /api/execute-sql response
+export interface ExecutionResponse {
+  result?: ExecutionResult;
+  error: string | null;
+  errorType?: QueryErrorType;
+  databaseError?: DatabaseErrorDetails;
+  queryId: string;
+  rejection?: SqlRejection;
+  costCheck?: CostCheck;
+  confirmationRequired?: boolean;
+}
+
+export interface ExecutionOptions {
+  // Return the first page plus a nextPageToken (PostgreSQL only)
+  pageSize?: number;
+  // Generated when missing or malformed
+  queryId?: string;
+  // Run queries above the environment's confirmation cost
+  confirmCost?: boolean;
+}
+
+export type QueryCheck =
+  | { ok: true; statement: string; queryId: string }
+  | { ok: false; response: ExecutionResponse };
+
+// The JSON body of an /api/explain-sql response
+export interface ExplainResponse {
+  plan?: QueryPlan;
+  costCheck?: CostCheck;
+  error: string | null;
+  rejection?: SqlRejection;
+}
+
+export function clampPageSize(pageSize: unknown): number {
+  return Math.min(Math.max(Number(pageSize) || 100, 1), MAX_PAGE_SIZE);
+}
+
+export function describeExecutionError(
+  error: unknown,
+  guardrails: QueryGuardrails,
+  fallback: string
+): { error: string; errorType: QueryErrorType } {
+  const errorType = toQueryErrorType(error);
+
+  if (errorType === "timeout") {
+    const seconds = Math.round(guardrails.statementTimeoutMs / 100) / 10;
+    return { error: `Query timed out after ${seconds}s (this environment's statement timeout)`, errorType };
+  }
+
+  return { error: error instanceof Error && error.message ? error.message : fallback, errorType };
+}
+
+// PostgreSQL reports positions in the text it was sent, which wraps the
+// statement; offset says where the caller's SQL starts in that text
+function databaseErrorDetails(error: unknown, offset: number): DatabaseErrorDetails {
+  const raw = (typeof error === "object" && error !== null ? error : {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === "string" && value !== "" ? value : undefined);
+
+  const sentPosition = Number(raw.position);
+  const position = Number.isInteger(sentPosition) && sentPosition > offset ? sentPosition - offset : undefined;
+
+  return {
+    code: text(raw.sqlState) ?? text(raw.code),
+    position,
+    hint: text(raw.hint),
+    detail: text(raw.detail),
+  };
+}
+
+// Generated SQL is untrusted: refuses anything that is not a single read
+// query, then applies the environment's cost policy. Refusals use the same
+// shape as execution errors so every chat UI shows them.
+export async function checkQuery(
+  environment: Environment,
+  sql: string,
+  options: Pick<ExecutionOptions, "queryId" | "confirmCost"> = {}
+): Promise<QueryCheck> {
+  const queryId = isValidQueryId(options.queryId) ? options.queryId : randomUUID();
+  const { guardrails } = environment;
+
+  const guard = checkReadOnlySql(sql, guardrails.allowedSchemas, environment.dialect);
+  if (!guard.ok) {
+    return {
+      ok: false,
+      response: {
+        result: undefined,
+        error: `Query blocked: ${guard.rejection.reason}`,
+        rejection: guard.rejection,
+        errorType: "error",
+        queryId,
+      },
+    };
+  }
+
+  // Cost checks need EXPLAIN, so only PostgreSQL has a pool here
+  const pool = await getPool(environment.name);
+
+  if (pool && isCostPolicyEnabled(guardrails)) {
+    let costCheck;
+    try {
+      costCheck = checkCostPolicy(await explainQuery(pool, guard.statement, guardrails), guardrails);
+    } catch (explainError) {
+      // Planning errors (bad column names, ...) are reported by the execution itself
+      console.error("Error explaining SQL before execution:", explainError);
+    }
+
+    if (costCheck?.decision === "block") {
+      return {
+        ok: false,
+        response: {
+          result: undefined,
+          error: `Query blocked: ${costCheck.reason}`,
+          errorType: "error",
+          costCheck,
+          queryId,
+        },
+      };
+    }
+
+    if (costCheck?.decision === "confirm" && options.confirmCost !== true) {
+      return {
+        ok: false,
+        response: {
+          result: undefined,
+          error: costCheck.reason ?? "Query needs confirmation to run",
+          errorType: "error",
+          costCheck,
+          confirmationRequired: true,
+          queryId,
+        },
+      };
+    }
+  }
+
+  return { ok: true, statement: guard.statement, queryId };
+}
+
+// Checks and runs one query, returning every row up to the row cap or,
+// with a pageSize, the first page of a cursor
+export async function runQuery(
+  environment: Environment,
+  driver: DatabaseDriver,
+  sql: string,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResponse> {
+  const check = await checkQuery(environment, sql, options);
+  if (!check.ok) return check.response;
+
+  const { statement, queryId } = check;
+  const { guardrails } = environment;
+  const env = environment.name;
+  const pool = await getPool(env);
+  const paged = !!options.pageSize && !!pool;
+
+  try {
+    if (options.pageSize && pool) {
+      const page = await openCursor(pool, env, statement, guardrails, clampPageSize(options.pageSize), queryId);
+      return { result: { ...page, rowCount: page.rows.length }, error: null, queryId };
+    }
+
+    const result = await driver.executeReadOnly(statement, guardrails, { env, queryId });
+    return { result, error: null, queryId };
+  } catch (execError) {
+    console.error("Error executing SQL:", execError);
+    const described = describeExecutionError(execError, guardrails, "Failed to execute SQL");
+    if (described.errorType !== "error") {
+      return { result: undefined, ...described, queryId };
+    }
+
+    // Positions are reported against the caller's SQL, which the checked
+    // statement may have trimmed
+    const sent = paged ? cursorStatement(statement) : cappedStatement(statement, guardrails.maxRows);
+    const offset = sent.indexOf(statement) - Math.max(sql.indexOf(statement), 0);
+
+    return {
+      result: undefined,
+      ...described,
+      databaseError: databaseErrorDetails(execError, offset),
+      queryId,
+    };
+  }
+}
+
+// Plans a query without running it and applies the environment's cost policy
+export async function explainSql(environment: Environment, sql: string): Promise<ExplainResponse> {
+  const guard = checkReadOnlySql(sql, environment.guardrails.allowedSchemas, environment.dialect);
+  if (!guard.ok) {
+    return {
+      plan: undefined,
+      error: `Query blocked: ${guard.rejection.reason}`,
+      rejection: guard.rejection,
+    };
+  }
+
+  const pool = await getPool(environment.name);
+  if (!pool) {
+    // Plans are read from PostgreSQL's EXPLAIN (FORMAT JSON); other dialects just run
+    return {
+      plan: undefined,
+      error: `Query plans are not available for ${DIALECT_LABELS[environment.dialect]} environments`,
+    };
+  }
+
+  try {
+    const plan = await explainQuery(pool, guard.statement, environment.guardrails);
+    return { plan, costCheck: checkCostPolicy(plan, environment.guardrails), error: null };
+  } catch (explainError) {
+    console.error("Error explaining SQL:", explainError);
+    return {
+      plan: undefined,
+      error: explainError instanceof Error ? explainError.message : "Failed to explain SQL",
+    };
+  }
+}
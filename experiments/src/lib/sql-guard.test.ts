@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { checkReadOnlySql, type GuardResult } from "@/lib/sql-guard";
+
+function rejection(result: GuardResult): string | undefined {
+  return result.ok ? undefined : result.rejection.code;
+}
+
+describe("checkReadOnlySql", () => {
+  it("accepts a plain select without its trailing semicolon and comment", () => {
+    expect(checkReadOnlySql("select * from t; -- c")).toEqual({ ok: true, statement: "select * from t" });
+  });
+
+  it("rejects data-modifying statements and CTEs", () => {
+    expect(rejection(checkReadOnlySql("DELETE FROM t"))).toBe("not_select");
+    expect(rejection(checkReadOnlySql("WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d"))).toBe("data_modifying");
+    expect(rejection(checkReadOnlySql("SELECT 1; SELECT 2"))).toBe("multiple_statements");
+  });
+
+  it("rejects forbidden functions, quoted or not", () => {
+    expect(rejection(checkReadOnlySql("SELECT pg_sleep(10)"))).toBe("forbidden_function");
+    expect(rejection(checkReadOnlySql('SELECT "pg_terminate_backend"(1)'))).toBe("forbidden_function");
+  });
+
+  it("checks only schemas in FROM and JOIN positions", () => {
+    const allowed = ["public"];
+    expect(checkReadOnlySql("SELECT o.id FROM orders o JOIN customers c ON c.id = o.customer_id", allowed).ok).toBe(true);
+    expect(checkReadOnlySql("SELECT EXTRACT(YEAR FROM o.created_at) FROM public.orders o", allowed).ok).toBe(true);
+    expect(rejection(checkReadOnlySql("SELECT * FROM secret.keys", allowed))).toBe("schema_not_allowed");
+  });
+
+  describe("dollar quotes", () => {
+    it("read $tag$ strings in PostgreSQL and DuckDB", () => {
+      expect(checkReadOnlySql("SELECT $a$ DELETE $a$").ok).toBe(true);
+      expect(checkReadOnlySql("SELECT $a$ DELETE $a$", undefined, "duckdb").ok).toBe(true);
+    });
+
+    it("are names in MySQL, so code between them is still checked", () => {
+      const sql = "SELECT $a$, SLEEP(100), 1 INTO OUTFILE '/tmp/x' -- $a$";
+      expect(rejection(checkReadOnlySql(sql, undefined, "mysql"))).toBe("forbidden_function");
+      expect(rejection(checkReadOnlySql("SELECT $a$, 1 INTO OUTFILE '/tmp/x' -- $a$", undefined, "mysql"))).toBe("select_into");
+    });
+  });
+
+  describe("double quotes in MySQL", () => {
+    it("are strings with backslash escapes", () => {
+      expect(checkReadOnlySql('SELECT "it\\"s; DROP TABLE t"', undefined, "mysql").ok).toBe(true);
+      expect(rejection(checkReadOnlySql('SELECT "a\\", SLEEP(1)', undefined, "mysql"))).toBe("unterminated");
+    });
+
+    it("can't hide a second statement the way an identifier would", () => {
+      expect(rejection(checkReadOnlySql('SELECT "\\""; DELETE FROM t', undefined, "mysql"))).toBe("multiple_statements");
+      expect(rejection(checkReadOnlySql('SELECT "a""b", SLEEP(1)', undefined, "mysql"))).toBe("forbidden_function");
+    });
+  });
+});
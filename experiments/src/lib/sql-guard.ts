@@ -0,0 +1,398 @@
+import type { Pool, PoolClient } from "pg";
+import { withClient } from "@/lib/db";
+import { cappedStatement } from "@/lib/drivers/shared";
+import type { SqlDialect } from "@/lib/dialects";
+import { trackQuery, type QueryHandle } from "@/lib/running-queries";
+
+export type RejectionCode =
+  | "empty"
+  | "unterminated"
+  | "executable_comment"
+  | "multiple_statements"
+  | "not_select"
+  | "data_modifying"
+  | "locking_clause"
+  | "select_into"
+  | "forbidden_function"
+  | "schema_not_allowed";
+
+// Why a statement was refused; sent to the chat UIs as-is
+export interface SqlRejection {
+  code: RejectionCode;
+  reason: string;
+}
+
+export type GuardResult =
+  | { ok: true; statement: string }
+  | { ok: false; rejection: SqlRejection };
+
+export interface ReadOnlyOptions {
+  statementTimeoutMs: number;
+  maxRows: number;
+  allowedSchemas?: string[];
+  // Values for the statement's placeholders ($1 for PostgreSQL, ? elsewhere;
+  // see placeholderFor)
+  params?: (string | number | boolean | null)[];
+}
+
+export interface ReadOnlyResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  truncated: boolean;
+}
+
+interface Token {
+  type: "word" | "identifier" | "string" | "number" | "symbol";
+  value: string;
+  // Offsets of the token's source text in the SQL
+  start: number;
+  end: number;
+}
+
+const READ_STATEMENTS = new Set(["SELECT", "WITH", "VALUES", "TABLE"]);
+
+// Only statements that can hide inside a read query (e.g. a data-modifying
+// CTE) need checking; anything else fails the leading-keyword check
+const DATA_MODIFYING_KEYWORDS = new Set([
+  "INSERT", "UPDATE", "DELETE", "MERGE", "TRUNCATE", "DROP", "ALTER", "CREATE", "GRANT", "REVOKE",
+]);
+
+// Functions that have side effects even inside a read-only transaction
+const FORBIDDEN_FUNCTIONS = new Set([
+  "pg_terminate_backend", "pg_cancel_backend", "pg_reload_conf", "pg_rotate_logfile",
+  "pg_sleep", "pg_sleep_for", "pg_sleep_until", "set_config",
+  "pg_advisory_lock", "pg_advisory_xact_lock", "pg_try_advisory_lock",
+  "pg_read_file", "pg_read_binary_file", "pg_ls_dir", "pg_stat_file",
+  "lo_import", "lo_export", "dblink", "dblink_exec", "dblink_connect",
+]);
+
+// The same for the other dialects: sleeping, locking and file access
+const DIALECT_FORBIDDEN_FUNCTIONS: Record<SqlDialect, Set<string>> = {
+  postgres: new Set(),
+  mysql: new Set(["sleep", "benchmark", "load_file", "get_lock", "release_lock", "release_all_locks"]),
+  sqlite: new Set(["load_extension", "readfile", "writefile"]),
+  duckdb: new Set([
+    "read_csv", "read_csv_auto", "read_parquet", "parquet_scan", "read_json", "read_json_auto",
+    "read_text", "read_blob", "glob",
+  ]),
+};
+
+class UnterminatedTokenError extends Error {}
+
+// MySQL runs the contents of /*! ... */ comments as code
+class ExecutableCommentError extends Error {}
+
+// Splits SQL into tokens, dropping comments and whitespace. String
+// literals and quoted identifiers are kept whole so keywords inside them
+// are never mistaken for code.
+function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const mysql = dialect === "mysql";
+  // $tag$...$tag$ strings; elsewhere $ is part of a name or a placeholder
+  const dollarQuotes = dialect === "postgres" || dialect === "duckdb";
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ((char === "-" && next === "-") || (mysql && char === "#")) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (mysql && char === "/" && next === "*" && sql[i + 2] === "!") {
+      throw new ExecutableCommentError();
+    } else if (char === "/" && next === "*") {
+      // Block comments nest in PostgreSQL
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === "/" && sql[i + 1] === "*") {
+          depth++;
+          i += 2;
+        } else if (sql[i] === "*" && sql[i + 1] === "/") {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) throw new UnterminatedTokenError("comment");
+    } else if (char === "'" || (mysql && char === '"') || ((char === "E" || char === "e") && next === "'")) {
+      // MySQL quotes strings with " too (unless ANSI_QUOTES is on)
+      const quote = char === '"' ? '"' : "'";
+      const start = i;
+      i += char === quote ? 1 : 2;
+      let closed = false;
+      while (i < sql.length) {
+        if (sql[i] === "\\" && (char !== quote || mysql)) {
+          i += 2;
+        } else if (sql[i] === quote && sql[i + 1] === quote) {
+          i += 2;
+        } else if (sql[i] === quote) {
+          i++;
+          closed = true;
+          break;
+        } else {
+          i++;
+        }
+      }
+      if (!closed) throw new UnterminatedTokenError("string");
+      tokens.push({ type: "string", value: sql.slice(start, i), start, end: i });
+    } else if (char === '"' || (mysql && char === "`")) {
+      const start = i;
+      i++;
+      let closed = false;
+      while (i < sql.length) {
+        if (sql[i] === char && sql[i + 1] === char) {
+          i += 2;
+        } else if (sql[i] === char) {
+          i++;
+          closed = true;
+          break;
+        } else {
+          i++;
+        }
+      }
+      if (!closed) throw new UnterminatedTokenError("identifier");
+      tokens.push({
+        type: "identifier",
+        value: sql.slice(start + 1, i - 1).split(char + char).join(char),
+        start,
+        end: i,
+      });
+    } else if (dollarQuotes && char === "$" && /[A-Za-z_$]/.test(next ?? "")) {
+      const tagMatch = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (!tagMatch) {
+        tokens.push({ type: "symbol", value: char, start: i, end: i + 1 });
+        i++;
+        continue;
+      }
+      const tag = tagMatch[0];
+      const end = sql.indexOf(tag, i + tag.length);
+      if (end === -1) throw new UnterminatedTokenError("dollar-quoted string");
+      tokens.push({ type: "string", value: sql.slice(i, end + tag.length), start: i, end: end + tag.length });
+      i = end + tag.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+      tokens.push({ type: "word", value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (/[0-9]/.test(char)) {
+      const match = sql.slice(i).match(/^[0-9][0-9.eE_]*/)!;
+      tokens.push({ type: "number", value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: "symbol", value: char, start: i, end: i + 1 });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return !!token && token.type === "word" && words.includes(token.value.toUpperCase());
+}
+
+function identifierName(token: Token): string {
+  // Unquoted identifiers fold to lower case in PostgreSQL
+  return token.type === "identifier" ? token.value : token.value.toLowerCase();
+}
+
+// Keywords that close a FROM list at the same nesting level
+const FROM_LIST_END = new Set([
+  "SELECT", "WHERE", "GROUP", "HAVING", "WINDOW", "QUALIFY", "ORDER", "LIMIT", "OFFSET", "FETCH", "FOR",
+  "UNION", "INTERSECT", "EXCEPT",
+]);
+
+function isName(token: Token | undefined): boolean {
+  return !!token && (token.type === "word" || token.type === "identifier");
+}
+
+function isSymbol(token: Token | undefined, value: string): boolean {
+  return !!token && token.type === "symbol" && token.value === value;
+}
+
+// Schemas referenced as schema.relation right after FROM, JOIN or a comma
+// in a FROM list. Unqualified names are confined by search_path instead.
+// Parentheses are tracked so that select-list columns (alias.column) and
+// function arguments such as EXTRACT(YEAR FROM o.created_at) are skipped.
+function referencedSchemas(tokens: Token[]): string[] {
+  const schemas = new Set<string>();
+  // One level per open parenthesis: whether it holds a query rather than an
+  // expression, and whether that query's FROM list is still open
+  const levels = [{ query: true, inFrom: false }];
+  let expectRelation = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const level = levels[levels.length - 1];
+    const relationExpected: boolean = expectRelation;
+    expectRelation = false;
+
+    if (isSymbol(token, "(")) {
+      // Derived tables and parenthesized joins keep the FROM list going
+      levels.push({
+        query: relationExpected || isWord(tokens[i + 1], ...READ_STATEMENTS),
+        inFrom: relationExpected,
+      });
+      expectRelation = relationExpected;
+    } else if (isSymbol(token, ")")) {
+      if (levels.length > 1) levels.pop();
+    } else if (!level.query) {
+      continue;
+    } else if (isWord(token, "FROM", "JOIN") && !isWord(tokens[i - 1], "DISTINCT")) {
+      level.inFrom = true;
+      expectRelation = true;
+    } else if (isSymbol(token, ",")) {
+      expectRelation = level.inFrom;
+    } else if (token.type === "word" && FROM_LIST_END.has(token.value.toUpperCase())) {
+      level.inFrom = false;
+    } else if (relationExpected && isName(token) && isSymbol(tokens[i + 1], ".") && isName(tokens[i + 2])) {
+      schemas.add(identifierName(token));
+    }
+  }
+
+  return [...schemas];
+}
+
+function reject(code: RejectionCode, reason: string): GuardResult {
+  return { ok: false, rejection: { code, reason } };
+}
+
+// Accepts a single read-only query (SELECT / WITH / VALUES / TABLE) and
+// returns it without trailing semicolons or surrounding comments, or
+// explains why it was refused.
+export function checkReadOnlySql(sql: string, allowedSchemas?: string[], dialect: SqlDialect = "postgres"): GuardResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(sql, dialect);
+  } catch (error) {
+    if (error instanceof UnterminatedTokenError) {
+      return reject("unterminated", `The query contains an unterminated ${error.message}`);
+    }
+    if (error instanceof ExecutableCommentError) {
+      return reject("executable_comment", "MySQL executable comments (/*! ... */) are not allowed");
+    }
+    throw error;
+  }
+
+  // Allow trailing semicolons, but nothing after them
+  while (tokens.length > 0 && tokens[tokens.length - 1].type === "symbol" && tokens[tokens.length - 1].value === ";") {
+    tokens.pop();
+  }
+
+  if (tokens.length === 0) {
+    return reject("empty", "The query is empty");
+  }
+
+  if (tokens.some((token) => token.type === "symbol" && token.value === ";")) {
+    return reject("multiple_statements", "Only a single statement can be executed at a time");
+  }
+
+  const first = tokens.find((token) => !(token.type === "symbol" && token.value === "("));
+  if (!first || first.type !== "word" || !READ_STATEMENTS.has(first.value.toUpperCase())) {
+    return reject("not_select", `Only SELECT queries are allowed, got "${first?.value ?? sql.trim().slice(0, 20)}"`);
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // Quoted names call the same functions ("pg_sleep"(1))
+    const functionName = token.value.toLowerCase();
+    if (
+      isName(token) && isSymbol(tokens[i + 1], "(") &&
+      (FORBIDDEN_FUNCTIONS.has(functionName) || DIALECT_FORBIDDEN_FUNCTIONS[dialect].has(functionName))
+    ) {
+      return reject("forbidden_function", `Function "${functionName}" is not allowed`);
+    }
+
+    if (token.type !== "word") continue;
+    const keyword = token.value.toUpperCase();
+
+    if (keyword === "FOR" && (isWord(tokens[i + 1], "UPDATE", "SHARE") || isWord(tokens[i + 1], "NO", "KEY"))) {
+      return reject("locking_clause", "Row-locking clauses (FOR UPDATE / FOR SHARE) are not allowed");
+    }
+
+    if (keyword === "INTO") {
+      return reject("select_into", "SELECT ... INTO creates a table and is not allowed");
+    }
+
+    if (DATA_MODIFYING_KEYWORDS.has(keyword)) {
+      return reject("data_modifying", `Data-modifying keyword "${keyword}" is not allowed`);
+    }
+  }
+
+  if (allowedSchemas && allowedSchemas.length > 0) {
+    const disallowed = referencedSchemas(tokens).filter((schema) => !allowedSchemas.includes(schema));
+    if (disallowed.length > 0) {
+      return reject(
+        "schema_not_allowed",
+        `Schema ${disallowed.map((s) => `"${s}"`).join(", ")} is not allowed; allowed schemas: ${allowedSchemas.join(", ")}`
+      );
+    }
+  }
+
+  // Leading and trailing comments go too, so a trailing "-- ..." can't
+  // swallow whatever the statement is wrapped in
+  const statement = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  return { ok: true, statement };
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Opens a READ ONLY transaction on the client with the environment's
+// statement timeout and schema restrictions applied
+export async function beginReadOnly(
+  client: PoolClient,
+  options: Pick<ReadOnlyOptions, "statementTimeoutMs" | "allowedSchemas">
+): Promise<void> {
+  await client.query("BEGIN READ ONLY");
+  await client.query(`SET LOCAL statement_timeout = ${Math.max(0, Math.floor(options.statementTimeoutMs))}`);
+
+  if (options.allowedSchemas && options.allowedSchemas.length > 0) {
+    await client.query(`SET LOCAL search_path TO ${options.allowedSchemas.map(quoteIdentifier).join(", ")}`);
+  }
+}
+
+// Runs an already-checked statement inside a READ ONLY transaction that is
+// always rolled back, with a statement timeout and an automatic row cap.
+// Pass a handle to make the query cancellable through cancelQuery.
+export async function executeReadOnly(
+  pool: Pool,
+  statement: string,
+  options: ReadOnlyOptions,
+  handle?: QueryHandle
+): Promise<ReadOnlyResult> {
+  return withClient(pool, async (client) => {
+    try {
+      await beginReadOnly(client, options);
+
+      // Fetch one extra row so we can tell whether the cap cut anything off
+      const result = await trackQuery(client, handle, () => client.query(
+        cappedStatement(statement, options.maxRows),
+        options.params
+      ));
+
+      await client.query("ROLLBACK");
+
+      const truncated = result.rows.length > options.maxRows;
+      const rows = truncated ? result.rows.slice(0, options.maxRows) : result.rows;
+
+      return {
+        columns: result.fields.map((field) => field.name),
+        rows,
+        rowCount: rows.length,
+        truncated,
+      };
+    } catch (error) {
+      // Nothing was written, but the session must not stay in a transaction
+      await client.query("ROLLBACK").catch(() => {});
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,139 @@
+import { traceable } from "langsmith/traceable";
+import { complete, type SQLEvaluation } from "@/lib/llm";
+import { DIALECT_LABELS, dialectPromptRules, type SqlDialect } from "@/lib/dialects";
+import { getDialect } from "@/lib/environments";
+import { describeForPrompt, loadGlossary, type GlossaryLookup } from "@/lib/glossary";
+import { maskRowsForPrompt } from "@/lib/masking";
+import { SQL_REFINEMENT } from "@/lib/prompts";
+
+// Rewrites a query from its evaluation and, when it ran, its execution
+// outcome. Used by /api/refine-sql and the /api/ask pipeline.
+
+export interface RefinementExecution {
+  success: boolean;
+  rowCount?: number;
+  columns?: string[];
+  // Clients send either a few sample rows or the whole result
+  sampleRows?: Record<string, unknown>[];
+  rows?: Record<string, unknown>[];
+  error?: string;
+}
+
+// Tables as { name, columns } or { table, columns }
+export interface RefinementTable {
+  name?: string;
+  table?: string;
+  columns?: { name: string; type: string; nullable?: boolean }[];
+}
+
+export interface SqlRefinementParams {
+  env?: string;
+  question: string;
+  sql: string;
+  evaluation: Pick<SQLEvaluation, "score" | "summary" | "strengths" | "issues" | "suggestions">;
+  executionResult?: RefinementExecution;
+  schema?: string;
+  tables?: RefinementTable[];
+}
+
+// Refine SQL based on evaluation feedback and actual results
+const refineSQLLogic = traceable(
+  async (params: Omit<SqlRefinementParams, "env" | "schema"> & {
+    schema: string;
+    glossary?: GlossaryLookup;
+    dialect: SqlDialect;
+  }) => {
+    const { question, sql, evaluation, executionResult, schema, tables, dialect } = params;
+    const glossary = params.glossary ?? (() => undefined);
+
+    // Build schema context
+    let schemaInfo = "";
+    if (tables && tables.length > 0) {
+      schemaInfo = tables.map((tableInfo) => {
+        const tableName = tableInfo.name || tableInfo.table || "";
+        const cols = tableInfo.columns?.map((col) =>
+          `    - ${col.name}: ${col.type} ${col.nullable ? 'NULL' : 'NOT NULL'}${describeForPrompt(glossary, tableName, col.name)}`
+        ).join('\n') || '';
+        return `  ${schema}.${tableName}:${describeForPrompt(glossary, tableName)}\n${cols}`;
+      }).join('\n\n');
+    }
+
+    // Build execution result context
+    let executionContext = "";
+    if (executionResult) {
+      if (executionResult.success) {
+        executionContext = `Execution Result:
+- Status: SUCCESS
+- Rows returned: ${executionResult.rowCount || 0}
+- Columns: ${executionResult.columns?.join(', ') || 'N/A'}
+${executionResult.sampleRows && executionResult.sampleRows.length > 0 ? `
+- Sample data (first 3 rows):
+${JSON.stringify(executionResult.sampleRows.slice(0, 3), null, 2)}` : ''}`;
+      } else {
+        executionContext = `Execution Result:
+- Status: FAILED
+- Error: ${executionResult.error || 'Unknown error'}`;
+      }
+    }
+
+    const prompt = SQL_REFINEMENT.render({
+      dialect: DIALECT_LABELS[dialect],
+      dialectRules: dialectPromptRules(dialect),
+      question,
+      sql,
+      score: (evaluation.score * 100).toFixed(0),
+      summary: evaluation.summary,
+      strengths: evaluation.strengths.map(s => `- ${s}`).join('\n'),
+      issues: evaluation.issues.map(i => `- ${i}`).join('\n'),
+      suggestions: evaluation.suggestions,
+      execution: executionContext,
+      executionSucceeded: !!executionResult?.success,
+      schemaInfo,
+    });
+
+    const response = await complete("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.2,
+      maxTokens: 600,
+    });
+
+    // Clean up any potential markdown
+    const refinedSQL = response.content
+      .replace(/```sql\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    return { refinedSQL, promptVersion: prompt.promptVersion };
+  },
+  { name: "refine_sql" }
+);
+
+export async function refineSql(params: SqlRefinementParams): Promise<{ refinedSQL: string; promptVersion: string }> {
+  const { env, executionResult, tables } = params;
+  const schema = params.schema || "public";
+
+  // Masked before the traced call, which records its inputs; only the
+  // first three rows reach the prompt
+  const sampleRows = executionResult?.sampleRows ?? executionResult?.rows;
+  const maskedExecutionResult = executionResult && {
+    success: executionResult.success,
+    rowCount: executionResult.rowCount,
+    columns: executionResult.columns,
+    error: executionResult.error,
+    ...(sampleRows ? { sampleRows: await maskRowsForPrompt(sampleRows.slice(0, 3), { env }) } : {}),
+  };
+
+  return refineSQLLogic({
+    question: params.question,
+    sql: params.sql,
+    evaluation: params.evaluation,
+    executionResult: maskedExecutionResult,
+    schema,
+    tables,
+    glossary: tables && tables.length > 0
+      ? await loadGlossary(env, params.schema, tables.map((tableInfo) => tableInfo.name || tableInfo.table || ""))
+      : undefined,
+    dialect: await getDialect(env),
+  });
+}
@@ -0,0 +1,163 @@
+import { traceable } from "langsmith/traceable";
+import { complete } from "@/lib/llm";
+import { DIALECT_LABELS, dialectPromptRules } from "@/lib/dialects";
+import type { DatabaseDriver } from "@/lib/drivers";
+import type { Environment } from "@/lib/environments";
+import { loadIntrospection } from "@/lib/introspection";
+import { cleanGeneratedSql, formatTablesForPrompt, type TableWithColumns } from "@/lib/joined-sql";
+import { SQL_REPAIR } from "@/lib/prompts";
+import { runQuery, type DatabaseErrorDetails, type ExecutionOptions, type ExecutionResponse } from "@/lib/sql-execution";
+
+// When the database rejects a generated query (unknown column, ambiguous
+// reference, type mismatch, ...), the error, the spot it points at and the
+// schema of the tables involved go back to the model, and its corrected
+// query is run in turn. Timeouts, cancellations and guard or cost refusals
+// are not repaired. Every attempt is recorded so the chat can show what
+// was fixed.
+
+export const MAX_REPAIR_ATTEMPTS = 5;
+
+export function clampRepairAttempts(value: unknown, fallback: number): number {
+  const attempts = Number(value);
+  return Number.isInteger(attempts) ? Math.min(Math.max(attempts, 0), MAX_REPAIR_ATTEMPTS) : fallback;
+}
+
+// Repairs per query unless the request asks for another number; 0 turns them off
+export const DEFAULT_REPAIR_ATTEMPTS = clampRepairAttempts(process.env.SQL_REPAIR_ATTEMPTS, 2);
+
+export interface ExecutionAttempt {
+  // 1 for the query as generated, then one per repair
+  attempt: number;
+  sql: string;
+  outcome: "succeeded" | "failed";
+  error?: string;
+  databaseError?: DatabaseErrorDetails;
+  rowCount?: number;
+  // The repair prompt that wrote this SQL; missing for the first attempt
+  promptVersion?: string;
+}
+
+export interface RepairingRunParams {
+  environment: Environment;
+  driver: DatabaseDriver;
+  sql: string;
+  options: ExecutionOptions;
+  question: string;
+  schema: string;
+  // The tables the query was written from, described to the model
+  tablesWithColumns?: TableWithColumns[];
+  maxRepairs: number;
+  // Called as each attempt finishes
+  onAttempt?: (attempt: ExecutionAttempt) => void;
+}
+
+export interface RepairingRunResult {
+  execution: ExecutionResponse;
+  // The SQL behind execution: the repaired query once a repair was tried
+  sql: string;
+  attempts: ExecutionAttempt[];
+}
+
+// The line a 1-based error position falls on, with a caret under the spot
+export function errorLocation(sql: string, position?: number): string {
+  if (!position || position > sql.length) return "";
+
+  const index = position - 1;
+  const lineStart = sql.lastIndexOf("\n", index - 1) + 1;
+  const lineEnd = sql.indexOf("\n", index);
+  const line = sql.slice(lineStart, lineEnd === -1 ? sql.length : lineEnd);
+
+  return `${line}\n${" ".repeat(index - lineStart)}^`;
+}
+
+const repairSqlLogic = traceable(
+  async (params: {
+    environment: Environment;
+    schema: string;
+    question: string;
+    tables: string;
+    failed: ExecutionAttempt;
+    previousAttempts: ExecutionAttempt[];
+  }) => {
+    const { environment, schema, question, tables, failed, previousAttempts } = params;
+    const { dialect } = environment;
+
+    const prompt = SQL_REPAIR.render({
+      dialect: DIALECT_LABELS[dialect],
+      dialectRules: dialectPromptRules(dialect),
+      schema,
+      tables,
+      question,
+      sql: failed.sql,
+      error: failed.error ?? "",
+      errorCode: failed.databaseError?.code ?? "",
+      errorLocation: errorLocation(failed.sql, failed.databaseError?.position),
+      hint: failed.databaseError?.hint ?? "",
+      previousAttempts: previousAttempts
+        .map((attempt) => `${attempt.attempt}. ${attempt.sql}\n   Error: ${attempt.error}`)
+        .join("\n"),
+    });
+
+    const completion = await complete("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.2,
+      maxTokens: 2048,
+    });
+
+    return { sql: cleanGeneratedSql(completion.content), promptVersion: prompt.promptVersion };
+  },
+  { name: "repair_sql" }
+);
+
+// Runs the query, repairing and re-running it up to maxRepairs times while
+// the database rejects it. Resolves with the last execution, whatever its
+// outcome; a repair that can't be written ends the loop.
+export async function runWithRepairs(params: RepairingRunParams): Promise<RepairingRunResult> {
+  const { environment, driver, options, question, schema, tablesWithColumns = [], maxRepairs, onAttempt } = params;
+  const attempts: ExecutionAttempt[] = [];
+  let sql = params.sql;
+  let promptVersion: string | undefined;
+  // Read on the first failure, since most queries never need it
+  let tables: string | undefined;
+
+  for (;;) {
+    const execution = await runQuery(environment, driver, sql, options);
+    const attempt: ExecutionAttempt = execution.error
+      ? { attempt: attempts.length + 1, sql, outcome: "failed", error: execution.error, databaseError: execution.databaseError, promptVersion }
+      : { attempt: attempts.length + 1, sql, outcome: "succeeded", rowCount: execution.result?.rowCount, promptVersion };
+    attempts.push(attempt);
+    onAttempt?.(attempt);
+
+    if (!execution.databaseError || attempts.length > maxRepairs) {
+      return { execution, sql, attempts };
+    }
+
+    try {
+      tables ??= formatTablesForPrompt(
+        tablesWithColumns,
+        await loadIntrospection(environment.name, schema, tablesWithColumns.map((twc) => twc.table))
+      );
+
+      const repair = await repairSqlLogic({
+        environment,
+        schema,
+        question,
+        tables,
+        failed: attempt,
+        previousAttempts: attempts.slice(0, -1),
+      });
+
+      // The same query would fail the same way
+      if (repair.sql.trim() === sql.trim()) {
+        return { execution, sql, attempts };
+      }
+
+      sql = repair.sql;
+      promptVersion = repair.promptVersion;
+    } catch (error) {
+      console.error("Error repairing SQL:", error);
+      return { execution, sql, attempts };
+    }
+  }
+}
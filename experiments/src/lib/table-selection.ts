@@ -0,0 +1,102 @@
+import { traceable } from "langsmith/traceable";
+import { completeStructured, RELEVANT_TABLES_OUTPUT } from "@/lib/llm";
+import type { ConversationMessage } from "@/lib/conversation";
+import { TABLE_SELECTION } from "@/lib/prompts";
+import { retrieveFromNames, retrieveTables, type RetrievedTable } from "@/lib/schema-retrieval";
+import type { SchemaSnapshot } from "@/lib/schema-snapshot";
+
+// Picks the tables a question needs: retrieval narrows the schema to a few
+// candidates, then the model chooses among them. Used by
+// /api/identify-relevant-tables and the /api/ask pipeline.
+
+export interface TableSelectionParams {
+  query: string;
+  // Retrieval over the live catalog and glossary when both are known...
+  env?: string;
+  schema?: string;
+  // ...otherwise over these names
+  tables?: string[];
+  conversationContext?: ConversationMessage[];
+}
+
+export interface TableSelection {
+  relevantTables: string[];
+  candidates: RetrievedTable[];
+  // The catalog retrieval read, when it read one
+  snapshot?: SchemaSnapshot;
+  // Missing when there were no candidates to choose from
+  promptVersion?: string;
+}
+
+const selectTables = traceable(
+  async (params: {
+    query: string;
+    candidates: RetrievedTable[];
+    snapshot?: SchemaSnapshot;
+    conversationContext?: ConversationMessage[];
+  }) => {
+    const { query, candidates, snapshot, conversationContext } = params;
+    const tables = candidates.map((candidate) => candidate.table);
+
+    // Build conversation history if provided
+    const conversationHistory = conversationContext && conversationContext.length > 0
+      ? conversationContext.map((msg, idx) => {
+          let text = `${idx + 1}. ${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+          if (msg.relevantTables && msg.relevantTables.length > 0) {
+            text += `\n   Identified tables: ${msg.relevantTables.join(', ')}`;
+          }
+          if (msg.sql) text += `\n   SQL: ${msg.sql}`;
+          if (msg.result) text += `\n   Result: ${msg.result.rowCount} rows`;
+          return text;
+        }).join('\n')
+      : '';
+
+    // Candidates come with their columns when the catalog was read, and
+    // with the reason retrieval picked them
+    const describeCandidate = (candidate: RetrievedTable, idx: number) => {
+      const columns = snapshot?.tables.find((table) => table.name === candidate.table)?.columns ?? [];
+      let line = `${idx + 1}. ${candidate.table}`;
+      if (candidate.reason === "foreign key") line += ` (joins to ${candidate.via})`;
+      if (columns.length > 0) line += `: ${columns.map((col) => col.name).join(', ')}`;
+      return line;
+    };
+
+    const prompt = TABLE_SELECTION.render({
+      question: query,
+      candidates: candidates.map(describeCandidate).join('\n'),
+      conversation: conversationHistory,
+    });
+
+    const { value } = await completeStructured("generation", {
+      messages: prompt.messages,
+      promptVersion: prompt.promptVersion,
+      temperature: 0.3,
+      maxTokens: 1024,
+    }, RELEVANT_TABLES_OUTPUT);
+
+    // Validate that all returned tables are among the candidates
+    const relevantTables = value.tables.filter(table => tables.includes(table));
+
+    return { relevantTables, promptVersion: prompt.promptVersion };
+  },
+  { name: "identify_relevant_tables" }
+);
+
+export async function identifyRelevantTables(params: TableSelectionParams): Promise<TableSelection> {
+  const { env, schema, query, tables, conversationContext } = params;
+
+  // Tables the conversation already used stay available for follow-ups
+  const previousTables = (conversationContext ?? []).flatMap((msg) => msg.relevantTables ?? []);
+
+  const { candidates, snapshot } = env && schema
+    ? await retrieveTables(env, schema, query, { previousTables })
+    : { candidates: retrieveFromNames(tables ?? [], query, { previousTables }), snapshot: undefined };
+
+  if (candidates.length === 0) {
+    return { relevantTables: [], candidates, snapshot };
+  }
+
+  const result = await selectTables({ query, candidates, snapshot, conversationContext });
+
+  return { ...result, candidates, snapshot };
+}
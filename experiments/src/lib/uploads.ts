@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+import { quoteIdentifierFor } from "@/lib/dialects";
+import { closeDriver } from "@/lib/drivers";
+import { UPLOADS_ENVIRONMENT, uploadsDatabasePath } from "@/lib/environments";
+
+export type UploadFormat = "csv" | "parquet" | "json";
+
+export interface UploadedTable {
+  table: string;
+  fileName: string;
+  format: UploadFormat;
+  rowCount: number;
+  columnCount: number;
+  sizeBytes: number;
+  uploadedAt: string;
+}
+
+// Raised for uploads that can never succeed as sent; routes answer 400
+export class UploadError extends Error {}
+
+const MANIFEST_FILE = "uploads/manifest.json";
+const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 100) * 1024 * 1024;
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+
+// Words that can't be used unquoted as table or column names in DuckDB or
+// the other dialects generated SQL is written for
+const RESERVED_WORDS = new Set([
+  "all", "analyse", "analyze", "and", "any", "array", "as", "asc", "asymmetric", "between", "both", "by",
+  "case", "cast", "check", "collate", "column", "constraint", "create", "cross", "current_date",
+  "current_role", "current_time", "current_timestamp", "current_user", "default", "deferrable", "delete",
+  "desc", "describe", "distinct", "do", "else", "end", "except", "exists", "false", "fetch", "for",
+  "foreign", "from", "full", "grant", "group", "having", "ilike", "in", "initially", "inner", "insert",
+  "intersect", "interval", "into", "is", "join", "key", "lateral", "leading", "left", "like", "limit",
+  "localtime", "localtimestamp", "natural", "not", "null", "offset", "on", "only", "or", "order", "outer",
+  "pivot", "placing", "primary", "qualify", "range", "references", "returning", "right", "row", "rows",
+  "select", "session_user", "set", "show", "some", "summarize", "symmetric", "table", "then", "to",
+  "trailing", "true", "union", "unique", "unpivot", "update", "user", "using", "values", "variadic",
+  "when", "where", "window", "with",
+]);
+
+const FORMATS_BY_EXTENSION: Record<string, UploadFormat> = {
+  ".csv": "csv",
+  ".tsv": "csv",
+  ".txt": "csv",
+  ".parquet": "parquet",
+  ".json": "json",
+  ".jsonl": "json",
+  ".ndjson": "json",
+};
+
+// DuckDB table functions that read each format, detecting delimiters,
+// headers and column types on their own
+const READERS: Record<UploadFormat, string> = {
+  csv: "read_csv_auto",
+  parquet: "read_parquet",
+  json: "read_json_auto",
+};
+
+const quote = (name: string) => quoteIdentifierFor("duckdb", name);
+
+// Writes replace the DuckDB file's contents, so they run one at a time
+const globalForUploads = globalThis as unknown as { __uploadQueue?: Promise<unknown> };
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = (globalForUploads.__uploadQueue ?? Promise.resolve()).then(task);
+  globalForUploads.__uploadQueue = run.catch(() => {});
+  return run;
+}
+
+export function detectUploadFormat(fileName: string): UploadFormat | undefined {
+  return FORMATS_BY_EXTENSION[path.extname(fileName).toLowerCase()];
+}
+
+// "Q3 Sales (final).csv" -> q3_sales_final. Spreadsheet headers get the
+// same treatment so generated SQL never needs quoted identifiers; reserved
+// words get a trailing underscore ("Order" -> order_).
+export function toIdentifier(name: string, fallback: string): string {
+  const identifier = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "")
+    .slice(0, 63);
+
+  if (!identifier) return fallback;
+  if (RESERVED_WORDS.has(identifier)) return `${identifier}_`;
+  return /^[0-9]/.test(identifier) ? `_${identifier}`.slice(0, 63) : identifier;
+}
+
+export function validateTableName(name: string): string | null {
+  if (!TABLE_NAME_PATTERN.test(name)) {
+    return "Table name must start with a letter or underscore and contain only lowercase letters, digits and underscores (max 63)";
+  }
+  return RESERVED_WORDS.has(name) ? `"${name}" is a reserved SQL word; try ${name}_ instead` : null;
+}
+
+export async function listUploadedTables(): Promise<UploadedTable[]> {
+  return readJsonFile<UploadedTable[]>(MANIFEST_FILE, []);
+}
+
+// Runs fn against a read-write instance of the uploads database, opened
+// alongside the environment's read-only driver so queries running there
+// carry on. That driver is closed afterwards and reopens on the next
+// request, seeing the new data.
+async function withWritableDatabase<T>(fn: (run: (sql: string) => Promise<Record<string, unknown>[]>) => Promise<T>): Promise<T> {
+  const databasePath = uploadsDatabasePath();
+  await fs.mkdir(path.dirname(databasePath), { recursive: true });
+
+  const instance = await DuckDBInstance.create(databasePath);
+  const connection = await instance.connect();
+
+  try {
+    return await fn(async (sql) => (await connection.runAndReadAll(sql)).getRowObjectsJson() as Record<string, unknown>[]);
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+    await closeDriver(UPLOADS_ENVIRONMENT);
+  }
+}
+
+// Loads a CSV, Parquet or JSON file into the uploads database as a table,
+// replacing any earlier upload with the same table name
+export async function importUpload(fileName: string, contents: Uint8Array, requestedTableName?: string): Promise<UploadedTable> {
+  const format = detectUploadFormat(fileName);
+  if (!format) {
+    throw new UploadError(`Unsupported file type "${path.extname(fileName) || fileName}"; upload CSV, TSV, Parquet or JSON`);
+  }
+
+  if (contents.byteLength === 0) {
+    throw new UploadError("The file is empty");
+  }
+
+  if (contents.byteLength > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`The file is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`);
+  }
+
+  const table = requestedTableName?.trim() || toIdentifier(path.parse(fileName).name, "uploaded_table");
+  const nameError = validateTableName(table);
+  if (nameError) {
+    throw new UploadError(nameError);
+  }
+
+  // DuckDB reads from disk; the staged copy is removed once imported
+  const stagingPath = path.join(path.dirname(uploadsDatabasePath()), "incoming", `${randomUUID()}${path.extname(fileName).toLowerCase()}`);
+  await fs.mkdir(path.dirname(stagingPath), { recursive: true });
+  await fs.writeFile(stagingPath, contents);
+
+  try {
+    return await enqueue(() => withWritableDatabase(async (run) => {
+      const source = `${READERS[format]}('${stagingPath.replace(/'/g, "''")}')`;
+
+      let described: Record<string, unknown>[];
+      try {
+        described = await run(`DESCRIBE SELECT * FROM ${source}`);
+      } catch (error) {
+        throw new UploadError(`Could not read the file as ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      // Rename columns to plain identifiers, numbering any duplicates
+      const used = new Set<string>();
+      const projection = described.map((column, index) => {
+        const original = String(column.column_name);
+        let name = toIdentifier(original, `column_${index + 1}`);
+        for (let suffix = 2; used.has(name); suffix++) {
+          name = `${toIdentifier(original, `column_${index + 1}`)}_${suffix}`;
+        }
+        used.add(name);
+        return `${quote(original)} AS ${quote(name)}`;
+      });
+
+      await run(`CREATE OR REPLACE TABLE main.${quote(table)} AS SELECT ${projection.join(", ")} FROM ${source}`);
+      const [{ row_count }] = await run(`SELECT count(*) AS row_count FROM main.${quote(table)}`);
+
+      const uploaded: UploadedTable = {
+        table,
+        fileName,
+        format,
+        rowCount: Number(row_count),
+        columnCount: projection.length,
+        sizeBytes: contents.byteLength,
+        uploadedAt: new Date().toISOString(),
+      };
+
+      const manifest = await listUploadedTables();
+      await writeJsonFile(MANIFEST_FILE, [...manifest.filter((entry) => entry.table !== table), uploaded]);
+      return uploaded;
+    }));
+  } finally {
+    await fs.rm(stagingPath, { force: true });
+  }
+}
+
+export async function deleteUploadedTable(table: string): Promise<boolean> {
+  return enqueue(async () => {
+    const manifest = await listUploadedTables();
+    if (!manifest.some((entry) => entry.table === table)) return false;
+
+    await withWritableDatabase(async (run) => {
+      await run(`DROP TABLE IF EXISTS main.${quote(table)}`);
+    });
+    await writeJsonFile(MANIFEST_FILE, manifest.filter((entry) => entry.table !== table));
+    return true;
+  });
+}